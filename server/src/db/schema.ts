@@ -6,9 +6,13 @@ import {
   integer, 
   boolean,
   pgEnum,
-  numeric
+  numeric,
+  jsonb,
+  date,
+  uniqueIndex
 } from 'drizzle-orm/pg-core';
-import { relations } from 'drizzle-orm';
+import { relations, sql } from 'drizzle-orm';
+import { type ScheduleCellChange, type JobParams } from '../schema';
 
 // Enums
 export const slotTypeEnum = pgEnum('slot_type', [
@@ -27,6 +31,74 @@ export const workloadStatusEnum = pgEnum('workload_status', [
   'kurang'
 ]);
 
+export const availabilityTypeEnum = pgEnum('availability_type', [
+  'unavailable',
+  'preferred'
+]);
+
+export const scheduleDraftStatusEnum = pgEnum('schedule_draft_status', [
+  'draft',
+  'published',
+  'archived'
+]);
+
+export const scheduleSnapshotReasonEnum = pgEnum('schedule_snapshot_reason', [
+  'published',
+  'regenerated'
+]);
+
+export const scheduleOperationEnum = pgEnum('schedule_operation', [
+  'create',
+  'update',
+  'delete',
+  'swap',
+  'move',
+  'clear'
+]);
+
+export const jobTypeEnum = pgEnum('job_type', [
+  'generate_school_schedule',
+  'generate_automatic_schedule',
+  'generate_schedule_candidates',
+  'workload_report'
+]);
+
+export const jobStatusEnum = pgEnum('job_status', [
+  'queued',
+  'running',
+  'succeeded',
+  'failed',
+  'cancelled'
+]);
+
+export const absenceReasonEnum = pgEnum('absence_reason', [
+  'sakit',
+  'izin',
+  'dinas_luar',
+  'cuti',
+  'lainnya'
+]);
+
+export const calendarEventTypeEnum = pgEnum('calendar_event_type', [
+  'libur_nasional',
+  'libur_keagamaan',
+  'kegiatan_sekolah',
+  'pts',
+  'pas',
+  'bebas_kelas'
+]);
+
+export const softRuleTypeEnum = pgEnum('soft_rule_type', [
+  'max_daily_subject_jp',
+  'min_subject_days',
+  'not_after_slot_type',
+  'prefer_before_slot_type',
+  'max_teacher_daily_jp',
+  'max_teacher_consecutive_jp',
+  'min_teacher_gaps',
+  'teacher_free_day'
+]);
+
 // Schools table
 export const schoolsTable = pgTable('schools', {
   id: serial('id').primaryKey(),
@@ -60,6 +132,8 @@ export const academicYearsTable = pgTable('academic_years', {
   curriculum: text('curriculum').notNull(),
   total_time_allocation: integer('total_time_allocation').notNull(),
   is_active: boolean('is_active').default(false).notNull(),
+  start_date: date('start_date'), // first day of the semester, YYYY-MM-DD; null until the calendar is set
+  end_date: date('end_date'), // last day of the semester
   created_at: timestamp('created_at').defaultNow().notNull(),
   updated_at: timestamp('updated_at').defaultNow().notNull()
 });
@@ -81,6 +155,7 @@ export const subjectsTable = pgTable('subjects', {
   code: text('code').notNull(),
   name: text('name').notNull(),
   time_allocation: integer('time_allocation').notNull(), // Base time allocation
+  block_pattern: text('block_pattern'), // Consecutive JP blocks, e.g. '2+2+1'; null = single JP
   created_at: timestamp('created_at').defaultNow().notNull(),
   updated_at: timestamp('updated_at').defaultNow().notNull()
 });
@@ -118,6 +193,19 @@ export const timeSlotsTable = pgTable('time_slots', {
   updated_at: timestamp('updated_at').defaultNow().notNull()
 });
 
+// Class templates table (the schedule template a class follows in an academic year)
+export const classTemplatesTable = pgTable('class_templates', {
+  id: serial('id').primaryKey(),
+  class_id: integer('class_id').notNull(),
+  academic_year_id: integer('academic_year_id').notNull(),
+  template_id: integer('template_id').notNull(),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+  updated_at: timestamp('updated_at').defaultNow().notNull()
+}, table => [
+  // A class follows one template per academic year
+  uniqueIndex('class_templates_class_year_idx').on(table.class_id, table.academic_year_id)
+]);
+
 // JTM Assignments table
 export const jtmAssignmentsTable = pgTable('jtm_assignments', {
   id: serial('id').primaryKey(),
@@ -126,6 +214,7 @@ export const jtmAssignmentsTable = pgTable('jtm_assignments', {
   subject_id: integer('subject_id').notNull(),
   class_id: integer('class_id').notNull(),
   allocated_hours: integer('allocated_hours').notNull(),
+  block_pattern: text('block_pattern'), // Overrides the subject block pattern when set
   created_at: timestamp('created_at').defaultNow().notNull(),
   updated_at: timestamp('updated_at').defaultNow().notNull()
 });
@@ -141,9 +230,24 @@ export const taskAssignmentsTable = pgTable('task_assignments', {
   updated_at: timestamp('updated_at').defaultNow().notNull()
 });
 
+// Schedule drafts table (named timetable versions; one published per academic year)
+export const scheduleDraftsTable = pgTable('schedule_drafts', {
+  id: serial('id').primaryKey(),
+  academic_year_id: integer('academic_year_id').notNull(),
+  name: text('name').notNull(),
+  status: scheduleDraftStatusEnum('status').default('draft').notNull(),
+  published_at: timestamp('published_at'), // null until the draft is published
+  created_at: timestamp('created_at').defaultNow().notNull(),
+  updated_at: timestamp('updated_at').defaultNow().notNull()
+}, table => [
+  // An academic year has one published timetable at a time
+  uniqueIndex('schedule_drafts_published_year_idx').on(table.academic_year_id).where(sql`${table.status} = 'published'`)
+]);
+
 // Schedules table
 export const schedulesTable = pgTable('schedules', {
   id: serial('id').primaryKey(),
+  draft_id: integer('draft_id').notNull(),
   academic_year_id: integer('academic_year_id').notNull(),
   class_id: integer('class_id').notNull(),
   template_id: integer('template_id').notNull(),
@@ -151,8 +255,146 @@ export const schedulesTable = pgTable('schedules', {
   jp_number: integer('jp_number').notNull(),
   subject_id: integer('subject_id'),
   teacher_id: integer('teacher_id'),
-  is_manual: boolean('is_manual').default(true).notNull(),
-  is_cached: boolean('is_cached').default(true).notNull(),
+  is_manual: boolean('is_manual').default(true).notNull(), // Locked: the generator never moves or replaces it
+  created_at: timestamp('created_at').defaultNow().notNull(),
+  updated_at: timestamp('updated_at').defaultNow().notNull()
+});
+
+// Schedule snapshots table (full timetable of a draft when it was published or regenerated)
+export const scheduleSnapshotsTable = pgTable('schedule_snapshots', {
+  id: serial('id').primaryKey(),
+  academic_year_id: integer('academic_year_id').notNull(),
+  draft_id: integer('draft_id').notNull(),
+  reason: scheduleSnapshotReasonEnum('reason').notNull(),
+  created_at: timestamp('created_at').defaultNow().notNull()
+});
+
+// Schedule snapshot cells table
+export const scheduleSnapshotCellsTable = pgTable('schedule_snapshot_cells', {
+  id: serial('id').primaryKey(),
+  snapshot_id: integer('snapshot_id').notNull(),
+  class_id: integer('class_id').notNull(),
+  template_id: integer('template_id').notNull(),
+  day_of_week: integer('day_of_week').notNull(),
+  jp_number: integer('jp_number').notNull(),
+  subject_id: integer('subject_id'),
+  teacher_id: integer('teacher_id'),
+  is_manual: boolean('is_manual').notNull()
+});
+
+// Schedule journal table (reversible schedule edits of an editing session)
+export const scheduleJournalTable = pgTable('schedule_journal', {
+  id: serial('id').primaryKey(),
+  session_id: text('session_id').notNull(),
+  academic_year_id: integer('academic_year_id').notNull(),
+  operation: scheduleOperationEnum('operation').notNull(),
+  changes: jsonb('changes').$type<ScheduleCellChange[]>().notNull(), // cell states before and after the edit
+  before_digest: text('before_digest').notNull(), // digest of the cells of the touched drafts before the edit
+  after_digest: text('after_digest').notNull(), // and after it
+  is_undone: boolean('is_undone').default(false).notNull(),
+  created_at: timestamp('created_at').defaultNow().notNull()
+});
+
+// Jobs table - long running work (generations, report exports) run in the background
+export const jobsTable = pgTable('jobs', {
+  id: serial('id').primaryKey(),
+  type: jobTypeEnum('type').notNull(),
+  status: jobStatusEnum('status').default('queued').notNull(),
+  progress: integer('progress').default(0).notNull(), // percentage 0-100
+  params: jsonb('params').$type<JobParams>().notNull(),
+  result: jsonb('result').$type<unknown>(), // payload of the finished job
+  error: text('error'),
+  cancel_requested: boolean('cancel_requested').default(false).notNull(),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+  started_at: timestamp('started_at'),
+  finished_at: timestamp('finished_at'),
+  updated_at: timestamp('updated_at').defaultNow().notNull()
+});
+
+// Job Logs table
+export const jobLogsTable = pgTable('job_logs', {
+  id: serial('id').primaryKey(),
+  job_id: integer('job_id').notNull(),
+  message: text('message').notNull(),
+  created_at: timestamp('created_at').defaultNow().notNull()
+});
+
+// Teacher Absences table - a teacher missing a school day (sick, on dinas luar, ...)
+export const teacherAbsencesTable = pgTable('teacher_absences', {
+  id: serial('id').primaryKey(),
+  teacher_id: integer('teacher_id').notNull(),
+  academic_year_id: integer('academic_year_id').notNull(),
+  date: date('date').notNull(), // YYYY-MM-DD
+  reason: absenceReasonEnum('reason').notNull(),
+  notes: text('notes'),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+  updated_at: timestamp('updated_at').defaultNow().notNull()
+});
+
+// Substitutions table - the teacher covering a published lesson of an absent teacher (guru pengganti)
+export const substitutionsTable = pgTable('substitutions', {
+  id: serial('id').primaryKey(),
+  absence_id: integer('absence_id').notNull(),
+  schedule_id: integer('schedule_id').notNull(),
+  substitute_teacher_id: integer('substitute_teacher_id').notNull(),
+  notes: text('notes'),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+  updated_at: timestamp('updated_at').defaultNow().notNull()
+}, table => [
+  // One substitute per lesson of an absence
+  uniqueIndex('substitutions_absence_schedule_idx').on(table.absence_id, table.schedule_id)
+]);
+
+// Calendar Events table - holidays, school events and exam weeks of a semester (kalender pendidikan)
+export const calendarEventsTable = pgTable('calendar_events', {
+  id: serial('id').primaryKey(),
+  academic_year_id: integer('academic_year_id').notNull(),
+  event_type: calendarEventTypeEnum('event_type').notNull(),
+  name: text('name').notNull(),
+  start_date: date('start_date').notNull(), // YYYY-MM-DD
+  end_date: date('end_date').notNull(), // inclusive
+  cancels_lessons: boolean('cancels_lessons').notNull(), // no regular lessons on these days
+  notes: text('notes'),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+  updated_at: timestamp('updated_at').defaultNow().notNull()
+});
+
+// Template Overrides table - a special period (e.g. Ramadan) in which the classes of one template follow another, shorter template
+export const templateOverridesTable = pgTable('template_overrides', {
+  id: serial('id').primaryKey(),
+  academic_year_id: integer('academic_year_id').notNull(),
+  name: text('name').notNull(), // e.g. "Ramadan 1446 H"
+  start_date: date('start_date').notNull(), // YYYY-MM-DD
+  end_date: date('end_date').notNull(), // inclusive
+  base_template_id: integer('base_template_id').notNull(), // template the published lessons are placed on
+  template_id: integer('template_id').notNull(), // template whose times apply within the period
+  created_at: timestamp('created_at').defaultNow().notNull(),
+  updated_at: timestamp('updated_at').defaultNow().notNull()
+});
+
+// Teacher Availability table
+export const teacherAvailabilityTable = pgTable('teacher_availability', {
+  id: serial('id').primaryKey(),
+  teacher_id: integer('teacher_id').notNull(),
+  academic_year_id: integer('academic_year_id').notNull(),
+  day_of_week: integer('day_of_week').notNull(),
+  start_jp: integer('start_jp'), // null together with end_jp = the whole day
+  end_jp: integer('end_jp'),
+  availability_type: availabilityTypeEnum('availability_type').notNull(),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+  updated_at: timestamp('updated_at').defaultNow().notNull()
+});
+
+// Scheduling rules table (weighted soft rules used by the schedule generator)
+export const schedulingRulesTable = pgTable('scheduling_rules', {
+  id: serial('id').primaryKey(),
+  academic_year_id: integer('academic_year_id').notNull(),
+  rule_type: softRuleTypeEnum('rule_type').notNull(),
+  subject_id: integer('subject_id'), // null applies the rule to every subject
+  slot_type: slotTypeEnum('slot_type'),
+  value: integer('value'),
+  weight: integer('weight').notNull(),
+  is_active: boolean('is_active').default(true).notNull(),
   created_at: timestamp('created_at').defaultNow().notNull(),
   updated_at: timestamp('updated_at').defaultNow().notNull()
 });
@@ -186,7 +428,9 @@ export const schoolsRelations = relations(schoolsTable, ({ many }) => ({
 export const teachersRelations = relations(teachersTable, ({ many }) => ({
   jtmAssignments: many(jtmAssignmentsTable),
   taskAssignments: many(taskAssignmentsTable),
-  schedules: many(schedulesTable)
+  schedules: many(schedulesTable),
+  availability: many(teacherAvailabilityTable),
+  absences: many(teacherAbsencesTable)
 }));
 
 export const academicYearsRelations = relations(academicYearsTable, ({ many }) => ({
@@ -194,7 +438,11 @@ export const academicYearsRelations = relations(academicYearsTable, ({ many }) =
   jtmAssignments: many(jtmAssignmentsTable),
   taskAssignments: many(taskAssignmentsTable),
   schedules: many(schedulesTable),
-  skDocuments: many(skDocumentsTable)
+  scheduleDrafts: many(scheduleDraftsTable),
+  schedulingRules: many(schedulingRulesTable),
+  skDocuments: many(skDocumentsTable),
+  calendarEvents: many(calendarEventsTable),
+  templateOverrides: many(templateOverridesTable)
 }));
 
 export const classesRelations = relations(classesTable, ({ one, many }) => ({
@@ -203,7 +451,45 @@ export const classesRelations = relations(classesTable, ({ one, many }) => ({
     references: [academicYearsTable.id]
   }),
   jtmAssignments: many(jtmAssignmentsTable),
-  schedules: many(schedulesTable)
+  schedules: many(schedulesTable),
+  templates: many(classTemplatesTable)
+}));
+
+export const scheduleSnapshotsRelations = relations(scheduleSnapshotsTable, ({ one, many }) => ({
+  academicYear: one(academicYearsTable, {
+    fields: [scheduleSnapshotsTable.academic_year_id],
+    references: [academicYearsTable.id]
+  }),
+  draft: one(scheduleDraftsTable, {
+    fields: [scheduleSnapshotsTable.draft_id],
+    references: [scheduleDraftsTable.id]
+  }),
+  cells: many(scheduleSnapshotCellsTable)
+}));
+
+export const jobsRelations = relations(jobsTable, ({ many }) => ({
+  logs: many(jobLogsTable)
+}));
+
+export const jobLogsRelations = relations(jobLogsTable, ({ one }) => ({
+  job: one(jobsTable, {
+    fields: [jobLogsTable.job_id],
+    references: [jobsTable.id]
+  })
+}));
+
+export const scheduleJournalRelations = relations(scheduleJournalTable, ({ one }) => ({
+  academicYear: one(academicYearsTable, {
+    fields: [scheduleJournalTable.academic_year_id],
+    references: [academicYearsTable.id]
+  })
+}));
+
+export const scheduleSnapshotCellsRelations = relations(scheduleSnapshotCellsTable, ({ one }) => ({
+  snapshot: one(scheduleSnapshotsTable, {
+    fields: [scheduleSnapshotCellsTable.snapshot_id],
+    references: [scheduleSnapshotsTable.id]
+  })
 }));
 
 export const subjectsRelations = relations(subjectsTable, ({ many }) => ({
@@ -217,7 +503,8 @@ export const additionalTasksRelations = relations(additionalTasksTable, ({ many
 
 export const scheduleTemplatesRelations = relations(scheduleTemplatesTable, ({ many }) => ({
   timeSlots: many(timeSlotsTable),
-  schedules: many(schedulesTable)
+  schedules: many(schedulesTable),
+  classes: many(classTemplatesTable)
 }));
 
 export const timeSlotsRelations = relations(timeSlotsTable, ({ one }) => ({
@@ -227,6 +514,21 @@ export const timeSlotsRelations = relations(timeSlotsTable, ({ one }) => ({
   })
 }));
 
+export const classTemplatesRelations = relations(classTemplatesTable, ({ one }) => ({
+  class: one(classesTable, {
+    fields: [classTemplatesTable.class_id],
+    references: [classesTable.id]
+  }),
+  academicYear: one(academicYearsTable, {
+    fields: [classTemplatesTable.academic_year_id],
+    references: [academicYearsTable.id]
+  }),
+  template: one(scheduleTemplatesTable, {
+    fields: [classTemplatesTable.template_id],
+    references: [scheduleTemplatesTable.id]
+  })
+}));
+
 export const jtmAssignmentsRelations = relations(jtmAssignmentsTable, ({ one }) => ({
   academicYear: one(academicYearsTable, {
     fields: [jtmAssignmentsTable.academic_year_id],
@@ -261,7 +563,19 @@ export const taskAssignmentsRelations = relations(taskAssignmentsTable, ({ one }
   })
 }));
 
+export const scheduleDraftsRelations = relations(scheduleDraftsTable, ({ one, many }) => ({
+  academicYear: one(academicYearsTable, {
+    fields: [scheduleDraftsTable.academic_year_id],
+    references: [academicYearsTable.id]
+  }),
+  schedules: many(schedulesTable)
+}));
+
 export const schedulesRelations = relations(schedulesTable, ({ one }) => ({
+  draft: one(scheduleDraftsTable, {
+    fields: [schedulesTable.draft_id],
+    references: [scheduleDraftsTable.id]
+  }),
   academicYear: one(academicYearsTable, {
     fields: [schedulesTable.academic_year_id],
     references: [academicYearsTable.id]
@@ -284,6 +598,77 @@ export const schedulesRelations = relations(schedulesTable, ({ one }) => ({
   })
 }));
 
+export const teacherAvailabilityRelations = relations(teacherAvailabilityTable, ({ one }) => ({
+  teacher: one(teachersTable, {
+    fields: [teacherAvailabilityTable.teacher_id],
+    references: [teachersTable.id]
+  }),
+  academicYear: one(academicYearsTable, {
+    fields: [teacherAvailabilityTable.academic_year_id],
+    references: [academicYearsTable.id]
+  })
+}));
+
+export const teacherAbsencesRelations = relations(teacherAbsencesTable, ({ one, many }) => ({
+  teacher: one(teachersTable, {
+    fields: [teacherAbsencesTable.teacher_id],
+    references: [teachersTable.id]
+  }),
+  academicYear: one(academicYearsTable, {
+    fields: [teacherAbsencesTable.academic_year_id],
+    references: [academicYearsTable.id]
+  }),
+  substitutions: many(substitutionsTable)
+}));
+
+export const substitutionsRelations = relations(substitutionsTable, ({ one }) => ({
+  absence: one(teacherAbsencesTable, {
+    fields: [substitutionsTable.absence_id],
+    references: [teacherAbsencesTable.id]
+  }),
+  schedule: one(schedulesTable, {
+    fields: [substitutionsTable.schedule_id],
+    references: [schedulesTable.id]
+  }),
+  substituteTeacher: one(teachersTable, {
+    fields: [substitutionsTable.substitute_teacher_id],
+    references: [teachersTable.id]
+  })
+}));
+
+export const calendarEventsRelations = relations(calendarEventsTable, ({ one }) => ({
+  academicYear: one(academicYearsTable, {
+    fields: [calendarEventsTable.academic_year_id],
+    references: [academicYearsTable.id]
+  })
+}));
+
+export const templateOverridesRelations = relations(templateOverridesTable, ({ one }) => ({
+  academicYear: one(academicYearsTable, {
+    fields: [templateOverridesTable.academic_year_id],
+    references: [academicYearsTable.id]
+  }),
+  baseTemplate: one(scheduleTemplatesTable, {
+    fields: [templateOverridesTable.base_template_id],
+    references: [scheduleTemplatesTable.id]
+  }),
+  template: one(scheduleTemplatesTable, {
+    fields: [templateOverridesTable.template_id],
+    references: [scheduleTemplatesTable.id]
+  })
+}));
+
+export const schedulingRulesRelations = relations(schedulingRulesTable, ({ one }) => ({
+  academicYear: one(academicYearsTable, {
+    fields: [schedulingRulesTable.academic_year_id],
+    references: [academicYearsTable.id]
+  }),
+  subject: one(subjectsTable, {
+    fields: [schedulingRulesTable.subject_id],
+    references: [subjectsTable.id]
+  })
+}));
+
 export const skDocumentTemplatesRelations = relations(skDocumentTemplatesTable, ({ many }) => ({
   skDocuments: many(skDocumentsTable)
 }));
@@ -309,9 +694,22 @@ export const tables = {
   additionalTasks: additionalTasksTable,
   scheduleTemplates: scheduleTemplatesTable,
   timeSlots: timeSlotsTable,
+  classTemplates: classTemplatesTable,
   jtmAssignments: jtmAssignmentsTable,
   taskAssignments: taskAssignmentsTable,
+  scheduleDrafts: scheduleDraftsTable,
   schedules: schedulesTable,
+  scheduleSnapshots: scheduleSnapshotsTable,
+  scheduleSnapshotCells: scheduleSnapshotCellsTable,
+  scheduleJournal: scheduleJournalTable,
+  jobs: jobsTable,
+  jobLogs: jobLogsTable,
+  teacherAvailability: teacherAvailabilityTable,
+  teacherAbsences: teacherAbsencesTable,
+  substitutions: substitutionsTable,
+  calendarEvents: calendarEventsTable,
+  templateOverrides: templateOverridesTable,
+  schedulingRules: schedulingRulesTable,
   skDocumentTemplates: skDocumentTemplatesTable,
   skDocuments: skDocumentsTable
 };
\ No newline at end of file
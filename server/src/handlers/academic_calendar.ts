@@ -0,0 +1,350 @@
+import { db, type DbExecutor } from '../db';
+import {
+  academicYearsTable,
+  calendarEventsTable,
+  classesTable,
+  subjectsTable,
+  jtmAssignmentsTable,
+  schedulesTable
+} from '../db/schema';
+import {
+  LESSON_FREE_EVENT_TYPES,
+  type AcademicYear,
+  type CalendarEvent,
+  type CreateCalendarEventInput,
+  type DateRange,
+  type SetSemesterDatesInput
+} from '../schema';
+import { getPublishedScheduleDraft } from './schedule_drafts';
+import { loadDatedSlots } from './template_overrides';
+import { addDays, dayOfWeekOf, eachDate, isSchoolDay, startOfWeek } from '../helpers/school_dates';
+import { eq, and, asc, gte, lte, sql } from 'drizzle-orm';
+
+export type CalendarWeek = {
+  week_number: number; // 1 = the week the semester starts in
+  start_date: string; // Monday
+  end_date: string; // Sunday
+  school_days: number; // Monday to Friday dates inside the semester
+  effective_days: number; // school days without a lesson-free event
+  events: string[]; // names of the events touching the week
+  is_effective: boolean; // minggu efektif: at least one effective day
+};
+
+export type EffectiveWeeks = {
+  academic_year_id: number;
+  start_date: string;
+  end_date: string;
+  weeks: CalendarWeek[];
+  total_weeks: number;
+  effective_weeks: number;
+  effective_days: number;
+};
+
+export type EffectiveSubjectJp = {
+  class_id: number;
+  class_name: string;
+  subject_id: number;
+  subject_name: string;
+  jp_per_week: number; // JTM allocated to the subject in the class
+  planned_jp: number; // jp_per_week x minggu efektif
+  effective_jp: number | null; // lessons of the published timetable on effective days; null without one
+};
+
+export type EffectiveJp = {
+  academic_year_id: number;
+  effective_weeks: number;
+  effective_days: number;
+  subjects: EffectiveSubjectJp[];
+};
+
+const findAcademicYear = async (executor: DbExecutor, id: number): Promise<AcademicYear> => {
+  const result = await executor.select()
+    .from(academicYearsTable)
+    .where(eq(academicYearsTable.id, id))
+    .execute();
+
+  if (result.length === 0) {
+    throw new Error(`Academic year with id ${id} not found`);
+  }
+  return result[0];
+};
+
+// Semester of an academic year, which needs its start and end dates
+const semesterOf = (academicYear: AcademicYear): DateRange => {
+  if (academicYear.start_date === null || academicYear.end_date === null) {
+    throw new Error(`Semester dates are not set for academic year ${academicYear.id}`);
+  }
+  return { from: academicYear.start_date, to: academicYear.end_date };
+};
+
+// Calendar events of an academic year touching a date range
+const loadEvents = async (executor: DbExecutor, academicYearId: number, range: DateRange): Promise<CalendarEvent[]> =>
+  executor.select()
+    .from(calendarEventsTable)
+    .where(and(
+      eq(calendarEventsTable.academic_year_id, academicYearId),
+      lte(calendarEventsTable.start_date, range.to),
+      gte(calendarEventsTable.end_date, range.from)
+    ))
+    .orderBy(asc(calendarEventsTable.start_date), asc(calendarEventsTable.id))
+    .execute();
+
+// Dates on which lessons are cancelled by at least one event
+const lessonFreeDates = (events: CalendarEvent[]): Set<string> =>
+  new Set(events
+    .filter(event => event.cancels_lessons)
+    .flatMap(event => eachDate(event.start_date, event.end_date)));
+
+/**
+ * School days of a date range on which regular lessons take place: inside the
+ * semester when its dates are set, and not covered by a lesson-free event
+ */
+export const loadTeachingDates = async (
+  executor: DbExecutor,
+  academicYearId: number,
+  range: DateRange
+): Promise<string[]> => {
+  const academicYear = await findAcademicYear(executor, academicYearId);
+  const from = academicYear.start_date !== null && academicYear.start_date > range.from ? academicYear.start_date : range.from;
+  const to = academicYear.end_date !== null && academicYear.end_date < range.to ? academicYear.end_date : range.to;
+  if (from > to) return [];
+
+  const cancelled = lessonFreeDates(await loadEvents(executor, academicYearId, { from, to }));
+  return eachDate(from, to).filter(date => isSchoolDay(date) && !cancelled.has(date));
+};
+
+const buildEffectiveWeeks = async (executor: DbExecutor, academicYearId: number): Promise<EffectiveWeeks> => {
+  const semester = semesterOf(await findAcademicYear(executor, academicYearId));
+  const events = await loadEvents(executor, academicYearId, semester);
+  const cancelled = lessonFreeDates(events);
+
+  const weeks: CalendarWeek[] = [];
+  for (let monday = startOfWeek(semester.from); monday <= semester.to; monday = addDays(monday, 7)) {
+    const sunday = addDays(monday, 6);
+    const schoolDays = eachDate(monday, sunday)
+      .filter(date => isSchoolDay(date) && date >= semester.from && date <= semester.to);
+    const effectiveDays = schoolDays.filter(date => !cancelled.has(date)).length;
+
+    weeks.push({
+      week_number: weeks.length + 1,
+      start_date: monday,
+      end_date: sunday,
+      school_days: schoolDays.length,
+      effective_days: effectiveDays,
+      events: events
+        .filter(event => event.start_date <= sunday && event.end_date >= monday)
+        .map(event => event.name),
+      is_effective: effectiveDays > 0
+    });
+  }
+
+  return {
+    academic_year_id: academicYearId,
+    start_date: semester.from,
+    end_date: semester.to,
+    weeks,
+    total_weeks: weeks.length,
+    effective_weeks: weeks.filter(week => week.is_effective).length,
+    effective_days: weeks.reduce((sum, week) => sum + week.effective_days, 0)
+  };
+};
+
+/**
+ * Set semester dates
+ * Stores the first and last day of the semester an academic year covers
+ */
+export const setSemesterDates = async (input: SetSemesterDatesInput): Promise<AcademicYear> => {
+  try {
+    const result = await db.update(academicYearsTable)
+      .set({
+        start_date: input.start_date,
+        end_date: input.end_date,
+        updated_at: sql`NOW()`
+      })
+      .where(eq(academicYearsTable.id, input.academic_year_id))
+      .returning()
+      .execute();
+
+    if (result.length === 0) {
+      throw new Error(`Academic year with id ${input.academic_year_id} not found`);
+    }
+
+    return result[0];
+  } catch (error) {
+    console.error('Setting semester dates failed:', error);
+    throw error;
+  }
+};
+
+/**
+ * Create calendar event
+ * Adds a holiday, school event, exam week or classroom-free day to the calendar;
+ * unless stated otherwise only school events keep regular lessons running
+ */
+export const createCalendarEvent = async (input: CreateCalendarEventInput): Promise<CalendarEvent> => {
+  try {
+    await findAcademicYear(db, input.academic_year_id);
+
+    const result = await db.insert(calendarEventsTable)
+      .values({
+        academic_year_id: input.academic_year_id,
+        event_type: input.event_type,
+        name: input.name,
+        start_date: input.start_date,
+        end_date: input.end_date,
+        cancels_lessons: input.cancels_lessons ?? LESSON_FREE_EVENT_TYPES.includes(input.event_type),
+        notes: input.notes ?? null
+      })
+      .returning()
+      .execute();
+
+    return result[0];
+  } catch (error) {
+    console.error('Calendar event creation failed:', error);
+    throw error;
+  }
+};
+
+/**
+ * Get calendar events
+ * Lists the events of an academic year by start date
+ */
+export const getCalendarEvents = async (academicYearId: number): Promise<CalendarEvent[]> => {
+  try {
+    return await db.select()
+      .from(calendarEventsTable)
+      .where(eq(calendarEventsTable.academic_year_id, academicYearId))
+      .orderBy(asc(calendarEventsTable.start_date), asc(calendarEventsTable.id))
+      .execute();
+  } catch (error) {
+    console.error('Failed to get calendar events:', error);
+    throw error;
+  }
+};
+
+/**
+ * Delete calendar event
+ * Removes an event from the calendar
+ */
+export const deleteCalendarEvent = async (id: number): Promise<boolean> => {
+  try {
+    const result = await db.delete(calendarEventsTable)
+      .where(eq(calendarEventsTable.id, id))
+      .returning()
+      .execute();
+
+    return result.length > 0;
+  } catch (error) {
+    console.error('Calendar event deletion failed:', error);
+    throw error;
+  }
+};
+
+/**
+ * Get effective weeks
+ * Splits the semester into Monday-to-Sunday weeks and counts the school days each
+ * week keeps after holidays, exam weeks and classroom-free days (minggu efektif)
+ */
+export const getEffectiveWeeks = async (academicYearId: number): Promise<EffectiveWeeks> => {
+  try {
+    return await buildEffectiveWeeks(db, academicYearId);
+  } catch (error) {
+    console.error('Failed to get effective weeks:', error);
+    throw error;
+  }
+};
+
+/**
+ * Get effective JP
+ * JP per subject per class for the Program Semester: the planned JP from the JTM
+ * and the minggu efektif, and the exact JP the published timetable delivers on the
+ * effective days of the semester
+ */
+export const getEffectiveJp = async (academicYearId: number): Promise<EffectiveJp> => {
+  try {
+    const calendar = await buildEffectiveWeeks(db, academicYearId);
+
+    const allocations = await db.select({
+      class_id: jtmAssignmentsTable.class_id,
+      class_name: classesTable.class_name,
+      subject_id: jtmAssignmentsTable.subject_id,
+      subject_name: subjectsTable.name,
+      jp_per_week: sql<number>`cast(sum(${jtmAssignmentsTable.allocated_hours}) as int)`
+    })
+      .from(jtmAssignmentsTable)
+      .innerJoin(classesTable, eq(jtmAssignmentsTable.class_id, classesTable.id))
+      .innerJoin(subjectsTable, eq(jtmAssignmentsTable.subject_id, subjectsTable.id))
+      .where(eq(jtmAssignmentsTable.academic_year_id, academicYearId))
+      .groupBy(jtmAssignmentsTable.class_id, classesTable.class_name, jtmAssignmentsTable.subject_id, subjectsTable.name)
+      .execute();
+
+    const rows = new Map<string, EffectiveSubjectJp>();
+    for (const allocation of allocations) {
+      rows.set(`${allocation.class_id}:${allocation.subject_id}`, {
+        ...allocation,
+        planned_jp: allocation.jp_per_week * calendar.effective_weeks,
+        effective_jp: null
+      });
+    }
+
+    const published = await getPublishedScheduleDraft(academicYearId);
+    if (published) {
+      const cells = await db.select({
+        class_id: schedulesTable.class_id,
+        class_name: classesTable.class_name,
+        subject_id: subjectsTable.id,
+        subject_name: subjectsTable.name,
+        template_id: schedulesTable.template_id,
+        day_of_week: schedulesTable.day_of_week,
+        jp_number: schedulesTable.jp_number
+      })
+        .from(schedulesTable)
+        .innerJoin(classesTable, eq(schedulesTable.class_id, classesTable.id))
+        .innerJoin(subjectsTable, eq(schedulesTable.subject_id, subjectsTable.id))
+        .where(eq(schedulesTable.draft_id, published.id))
+        .execute();
+
+      // Teaching dates on which each lesson is held over the whole semester: those of
+      // its weekday on which a special-period template does not drop it
+      const heldDays = new Map<(typeof cells)[number], number>();
+      const teachingDates = await loadTeachingDates(db, academicYearId, { from: calendar.start_date, to: calendar.end_date });
+      for (const date of teachingDates) {
+        const day = dayOfWeekOf(date);
+        const { slotOf } = await loadDatedSlots(db, academicYearId, date);
+        for (const cell of cells) {
+          if (cell.day_of_week === day && slotOf(cell) !== null) heldDays.set(cell, (heldDays.get(cell) ?? 0) + 1);
+        }
+      }
+
+      for (const row of rows.values()) row.effective_jp = 0;
+      for (const cell of cells) {
+        const key = `${cell.class_id}:${cell.subject_id}`;
+        if (!rows.has(key)) {
+          // Scheduled without JTM: nothing planned, but the lessons still count
+          rows.set(key, {
+            class_id: cell.class_id,
+            class_name: cell.class_name,
+            subject_id: cell.subject_id,
+            subject_name: cell.subject_name,
+            jp_per_week: 0,
+            planned_jp: 0,
+            effective_jp: 0
+          });
+        }
+        rows.get(key)!.effective_jp! += heldDays.get(cell) ?? 0;
+      }
+    }
+
+    return {
+      academic_year_id: academicYearId,
+      effective_weeks: calendar.effective_weeks,
+      effective_days: calendar.effective_days,
+      subjects: [...rows.values()].sort((a, b) =>
+        a.class_name.localeCompare(b.class_name) || a.subject_name.localeCompare(b.subject_name)
+      )
+    };
+  } catch (error) {
+    console.error('Failed to get effective JP:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,130 @@
+import { db, type DbExecutor } from '../db';
+import { classTemplatesTable, classesTable, scheduleTemplatesTable } from '../db/schema';
+import { type ClassTemplate, type SetClassTemplateInput } from '../schema';
+import { eq, and, asc, inArray } from 'drizzle-orm';
+
+/**
+ * Template each class follows in an academic year; classes without a binding fall
+ * back to the given template
+ */
+export const resolveClassTemplates = async (
+  executor: DbExecutor,
+  academicYearId: number,
+  classIds: number[],
+  fallbackTemplateId: number
+): Promise<Map<number, number>> => {
+  const bindings = classIds.length === 0 ? [] : await executor.select()
+    .from(classTemplatesTable)
+    .where(and(
+      eq(classTemplatesTable.academic_year_id, academicYearId),
+      inArray(classTemplatesTable.class_id, classIds)
+    ))
+    .execute();
+
+  return new Map(classIds.map(classId => [
+    classId,
+    bindings.find(binding => binding.class_id === classId)?.template_id ?? fallbackTemplateId
+  ]));
+};
+
+/**
+ * Set class template
+ * Binds a class to the schedule template it follows in an academic year, replacing
+ * an earlier binding, so grades or ikhwan and akhwat classes can run on their own
+ * bell times
+ */
+export const setClassTemplate = async (input: SetClassTemplateInput): Promise<ClassTemplate> => {
+  try {
+    const classRecord = await db.select()
+      .from(classesTable)
+      .where(eq(classesTable.id, input.class_id))
+      .execute();
+
+    if (classRecord.length === 0) {
+      throw new Error(`Class with id ${input.class_id} not found`);
+    }
+    if (classRecord[0].academic_year_id !== input.academic_year_id) {
+      throw new Error(`Class ${classRecord[0].class_name} belongs to another academic year`);
+    }
+
+    const template = await db.select()
+      .from(scheduleTemplatesTable)
+      .where(eq(scheduleTemplatesTable.id, input.template_id))
+      .execute();
+
+    if (template.length === 0) {
+      throw new Error(`Schedule template with id ${input.template_id} not found`);
+    }
+
+    const result = await db.insert(classTemplatesTable)
+      .values(input)
+      .onConflictDoUpdate({
+        target: [classTemplatesTable.class_id, classTemplatesTable.academic_year_id],
+        set: {
+          template_id: input.template_id,
+          updated_at: new Date()
+        }
+      })
+      .returning()
+      .execute();
+
+    return result[0];
+  } catch (error) {
+    console.error('Class template assignment failed:', error);
+    throw error;
+  }
+};
+
+/**
+ * Get class templates by academic year
+ * Lists the template binding of every bound class, ordered by class name
+ */
+export const getClassTemplates = async (academicYearId: number): Promise<Array<ClassTemplate & {
+  class_name: string;
+  template_name: string;
+}>> => {
+  try {
+    const result = await db.select({
+      id: classTemplatesTable.id,
+      class_id: classTemplatesTable.class_id,
+      academic_year_id: classTemplatesTable.academic_year_id,
+      template_id: classTemplatesTable.template_id,
+      created_at: classTemplatesTable.created_at,
+      updated_at: classTemplatesTable.updated_at,
+      class_name: classesTable.class_name,
+      template_name: scheduleTemplatesTable.name
+    })
+      .from(classTemplatesTable)
+      .innerJoin(classesTable, eq(classTemplatesTable.class_id, classesTable.id))
+      .innerJoin(scheduleTemplatesTable, eq(classTemplatesTable.template_id, scheduleTemplatesTable.id))
+      .where(eq(classTemplatesTable.academic_year_id, academicYearId))
+      .orderBy(asc(classesTable.class_name))
+      .execute();
+
+    return result;
+  } catch (error) {
+    console.error('Failed to get class templates:', error);
+    throw error;
+  }
+};
+
+/**
+ * Remove class template
+ * Drops the template binding of a class; returns false when there was none
+ */
+export const removeClassTemplate = async (classId: number, academicYearId: number): Promise<boolean> => {
+  try {
+    const result = await db.delete(classTemplatesTable)
+      .where(and(
+        eq(classTemplatesTable.class_id, classId),
+        eq(classTemplatesTable.academic_year_id, academicYearId)
+      ))
+      .returning()
+      .execute();
+
+    return result.length > 0;
+  } catch (error) {
+    console.error('Class template removal failed:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,384 @@
+import { EventEmitter } from 'node:events';
+import { db } from '../db';
+import { jobsTable, jobLogsTable } from '../db/schema';
+import {
+  type EnqueueJobInput,
+  type Job,
+  type JobLog,
+  type JobStatus,
+  type JobType
+} from '../schema';
+import { generateSchoolSchedule, generateAutomaticSchedule, generateScheduleCandidates } from './schedule_generator';
+import { generateWorkloadReport } from './reports';
+import { eq, and, asc, desc } from 'drizzle-orm';
+
+/**
+ * Reports how far a job got; rejects once the job is cancelled so the work stops
+ * (and its transaction rolls back) at the next report
+ */
+export type ProgressReporter = (progress: number, message: string) => Promise<void>;
+
+export type JobWithLogs = Job & { logs: JobLog[] };
+
+type JobRunner<T extends JobType> = (
+  params: Extract<EnqueueJobInput, { type: T }>['params'],
+  report: ProgressReporter
+) => Promise<unknown>;
+
+const FINISHED_STATUSES: JobStatus[] = ['succeeded', 'failed', 'cancelled'];
+
+// How long a watcher waits for a change before it reads the job again
+const JOB_POLL_INTERVAL_MS = 1000;
+
+const runners: { [T in JobType]: JobRunner<T> } = {
+  generate_school_schedule: (params, report) => generateSchoolSchedule(
+    params.draft_id,
+    params.template_id,
+    params.allow_partial,
+    params.regenerate,
+    params.options,
+    report
+  ),
+  generate_automatic_schedule: (params, report) => generateAutomaticSchedule(
+    params.class_id,
+    params.draft_id,
+    params.template_id,
+    params.regenerate,
+    params.options,
+    report
+  ),
+  generate_schedule_candidates: (params, report) => generateScheduleCandidates(
+    params.academic_year_id,
+    params.template_id,
+    params.count,
+    params.base_draft_id,
+    params.options,
+    report
+  ),
+  workload_report: async (params, report) => {
+    await report(10, `Collecting the workload of academic year ${params.academic_year_id}`);
+    const result = await generateWorkloadReport(params.academic_year_id, params.format, params.range);
+    if (!result.success) {
+      throw new Error(result.error ?? 'Workload report generation failed');
+    }
+    return result;
+  }
+};
+
+// Wakes up watchers of a job when the runner changes it
+const jobEvents = new EventEmitter();
+jobEvents.setMaxListeners(0);
+
+const notifyJob = (jobId: number): void => {
+  jobEvents.emit(`job:${jobId}`);
+};
+
+const appendJobLog = async (jobId: number, message: string): Promise<void> => {
+  await db.insert(jobLogsTable)
+    .values({ job_id: jobId, message })
+    .execute();
+};
+
+const reporterFor = (jobId: number): ProgressReporter => async (progress, message) => {
+  const result = await db.update(jobsTable)
+    .set({
+      progress: Math.min(100, Math.max(0, Math.round(progress))),
+      updated_at: new Date()
+    })
+    .where(eq(jobsTable.id, jobId))
+    .returning()
+    .execute();
+
+  await appendJobLog(jobId, message);
+  notifyJob(jobId);
+
+  if (result[0].cancel_requested) {
+    throw new Error(`Job ${jobId} was cancelled`);
+  }
+};
+
+const finishJob = async (
+  jobId: number,
+  status: JobStatus,
+  values: { progress?: number; result?: unknown; error?: string | null },
+  message: string
+): Promise<void> => {
+  await db.update(jobsTable)
+    .set({
+      ...values,
+      status,
+      finished_at: new Date(),
+      updated_at: new Date()
+    })
+    .where(eq(jobsTable.id, jobId))
+    .execute();
+
+  await appendJobLog(jobId, message);
+  notifyJob(jobId);
+};
+
+/**
+ * Claim the oldest queued job and run it to the end; returns false when the queue
+ * is empty
+ */
+const runNextJob = async (): Promise<boolean> => {
+  const next = await db.select()
+    .from(jobsTable)
+    .where(eq(jobsTable.status, 'queued'))
+    .orderBy(asc(jobsTable.id))
+    .limit(1)
+    .execute();
+
+  if (next.length === 0) return false;
+
+  // Only one runner may move a job out of the queue
+  const claimed = await db.update(jobsTable)
+    .set({ status: 'running', started_at: new Date(), updated_at: new Date() })
+    .where(and(eq(jobsTable.id, next[0].id), eq(jobsTable.status, 'queued')))
+    .returning()
+    .execute();
+
+  if (claimed.length === 0) return true;
+
+  const job = claimed[0];
+  await appendJobLog(job.id, `Started ${job.type}`);
+  notifyJob(job.id);
+
+  try {
+    const runner = runners[job.type] as JobRunner<JobType>;
+    const result = await runner(job.params, reporterFor(job.id));
+    await finishJob(job.id, 'succeeded', { progress: 100, result }, 'Finished');
+  } catch (error) {
+    const current = await db.select()
+      .from(jobsTable)
+      .where(eq(jobsTable.id, job.id))
+      .execute();
+
+    if (current[0].cancel_requested) {
+      await finishJob(job.id, 'cancelled', {}, 'Cancelled');
+    } else {
+      const message = error instanceof Error ? error.message : String(error);
+      await finishJob(job.id, 'failed', { error: message }, `Failed: ${message}`);
+    }
+  }
+
+  return true;
+};
+
+let draining: Promise<void> | null = null;
+let drainAgain = false;
+
+/**
+ * Drain job queue
+ * Runs queued jobs one after another in this process until the queue is empty;
+ * calls made while the queue is drained share the running drain
+ */
+export const drainJobQueue = (): Promise<void> => {
+  if (draining) {
+    drainAgain = true;
+    return draining;
+  }
+
+  draining = (async () => {
+    try {
+      do {
+        drainAgain = false;
+        while (await runNextJob());
+      } while (drainAgain);
+    } catch (error) {
+      console.error('Job runner failed:', error);
+    } finally {
+      draining = null;
+    }
+  })();
+
+  return draining;
+};
+
+/**
+ * Enqueue job
+ * Persists a job and starts the runner; the job is returned while still queued and
+ * can be followed with getJob or the progress subscription
+ */
+export const enqueueJob = async (input: EnqueueJobInput): Promise<Job> => {
+  try {
+    const result = await db.insert(jobsTable)
+      .values({
+        type: input.type,
+        params: input.params
+      })
+      .returning()
+      .execute();
+
+    void drainJobQueue();
+
+    return result[0];
+  } catch (error) {
+    console.error('Job enqueue failed:', error);
+    throw error;
+  }
+};
+
+/**
+ * Get job
+ * Returns a job with its log lines, oldest first
+ */
+export const getJob = async (id: number): Promise<JobWithLogs> => {
+  try {
+    const result = await db.select()
+      .from(jobsTable)
+      .where(eq(jobsTable.id, id))
+      .execute();
+
+    if (result.length === 0) {
+      throw new Error(`Job with id ${id} not found`);
+    }
+
+    const logs = await db.select()
+      .from(jobLogsTable)
+      .where(eq(jobLogsTable.job_id, id))
+      .orderBy(asc(jobLogsTable.id))
+      .execute();
+
+    return { ...result[0], logs };
+  } catch (error) {
+    console.error('Failed to get job:', error);
+    throw error;
+  }
+};
+
+/**
+ * Get jobs
+ * Lists jobs, newest first, optionally only those with a given status
+ */
+export const getJobs = async (status?: JobStatus): Promise<Job[]> => {
+  try {
+    const result = await db.select()
+      .from(jobsTable)
+      .where(status ? eq(jobsTable.status, status) : undefined)
+      .orderBy(desc(jobsTable.id))
+      .execute();
+
+    return result;
+  } catch (error) {
+    console.error('Failed to get jobs:', error);
+    throw error;
+  }
+};
+
+/**
+ * Cancel job
+ * A queued job is cancelled right away; a running job is asked to stop and is
+ * cancelled at its next progress report. Finished jobs are returned unchanged
+ */
+export const cancelJob = async (id: number): Promise<Job> => {
+  try {
+    const queued = await db.update(jobsTable)
+      .set({
+        status: 'cancelled',
+        cancel_requested: true,
+        finished_at: new Date(),
+        updated_at: new Date()
+      })
+      .where(and(eq(jobsTable.id, id), eq(jobsTable.status, 'queued')))
+      .returning()
+      .execute();
+
+    if (queued.length > 0) {
+      await appendJobLog(id, 'Cancelled before it started');
+      notifyJob(id);
+      return queued[0];
+    }
+
+    const running = await db.update(jobsTable)
+      .set({ cancel_requested: true, updated_at: new Date() })
+      .where(and(eq(jobsTable.id, id), eq(jobsTable.status, 'running')))
+      .returning()
+      .execute();
+
+    if (running.length > 0) {
+      await appendJobLog(id, 'Cancellation requested');
+      notifyJob(id);
+      return running[0];
+    }
+
+    const current = await db.select()
+      .from(jobsTable)
+      .where(eq(jobsTable.id, id))
+      .execute();
+
+    if (current.length === 0) {
+      throw new Error(`Job with id ${id} not found`);
+    }
+
+    return current[0];
+  } catch (error) {
+    console.error('Job cancellation failed:', error);
+    throw error;
+  }
+};
+
+/**
+ * Resume jobs
+ * Called at server start: jobs left running by a previous process are failed, as
+ * their work was lost, and the queue is drained
+ */
+export const resumeJobs = async (): Promise<void> => {
+  try {
+    const interrupted = await db.update(jobsTable)
+      .set({
+        status: 'failed',
+        error: 'Interrupted by a server restart',
+        finished_at: new Date(),
+        updated_at: new Date()
+      })
+      .where(eq(jobsTable.status, 'running'))
+      .returning()
+      .execute();
+
+    for (const job of interrupted) {
+      await appendJobLog(job.id, 'Failed: Interrupted by a server restart');
+    }
+
+    void drainJobQueue();
+  } catch (error) {
+    console.error('Job resume failed:', error);
+    throw error;
+  }
+};
+
+const waitForJobChange = (jobId: number, signal?: AbortSignal): Promise<void> => new Promise(resolve => {
+  const event = `job:${jobId}`;
+  const done = () => {
+    clearTimeout(timer);
+    jobEvents.off(event, done);
+    signal?.removeEventListener('abort', done);
+    resolve();
+  };
+  const timer = setTimeout(done, JOB_POLL_INTERVAL_MS);
+  jobEvents.on(event, done);
+  signal?.addEventListener('abort', done);
+});
+
+/**
+ * Watch job
+ * Yields the job with its log whenever its status, progress or log changes, starting
+ * with its current state, and ends once the job is finished or the watcher aborts
+ */
+export async function* watchJob(id: number, signal?: AbortSignal): AsyncGenerator<JobWithLogs> {
+  let lastState: string | null = null;
+
+  while (!signal?.aborted) {
+    const job = await getJob(id);
+    const state = `${job.status}:${job.progress}:${job.logs.length}`;
+
+    if (state !== lastState) {
+      lastState = state;
+      yield job;
+    }
+
+    if (FINISHED_STATUSES.includes(job.status)) return;
+
+    await waitForJobChange(id, signal);
+  }
+}
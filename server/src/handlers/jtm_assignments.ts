@@ -38,7 +38,8 @@ export const createJtmAssignment = async (input: CreateJtmAssignmentInput): Prom
         teacher_id: input.teacher_id,
         subject_id: input.subject_id,
         class_id: input.class_id,
-        allocated_hours: input.allocated_hours
+        allocated_hours: input.allocated_hours,
+        block_pattern: input.block_pattern ?? null
       })
       .returning()
       .execute();
@@ -180,6 +181,7 @@ export const updateJtmAssignment = async (input: { id: number } & Partial<Create
     if (input.subject_id !== undefined) updateData.subject_id = input.subject_id;
     if (input.class_id !== undefined) updateData.class_id = input.class_id;
     if (input.allocated_hours !== undefined) updateData.allocated_hours = input.allocated_hours;
+    if (input.block_pattern !== undefined) updateData.block_pattern = input.block_pattern;
 
     const result = await db.update(jtmAssignmentsTable)
       .set(updateData)
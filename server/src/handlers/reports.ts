@@ -1,6 +1,7 @@
 import { db } from '../db';
 import { 
   schedulesTable, 
+  scheduleDraftsTable,
   classesTable, 
   teachersTable, 
   subjectsTable, 
@@ -11,7 +12,12 @@ import {
   timeSlotsTable,
   scheduleTemplatesTable
 } from '../db/schema';
-import { eq, and, SQL } from 'drizzle-orm';
+import { buildSlotClock, findTeacherOverlaps } from '../helpers/time_intervals';
+import { dayOfWeekOf } from '../helpers/school_dates';
+import { getDailySubstitutions, measureRealisedHours } from './substitutions';
+import { getDailyTimetable } from './template_overrides';
+import { type DateRange } from '../schema';
+import { eq, and, inArray, SQL } from 'drizzle-orm';
 
 /**
  * Generate schedule report for class
@@ -60,6 +66,11 @@ export const generateScheduleReportByClass = async (
             slot_type: timeSlotsTable.slot_type
         })
         .from(schedulesTable)
+        // Only the published timetable is reported
+        .innerJoin(scheduleDraftsTable, and(
+            eq(schedulesTable.draft_id, scheduleDraftsTable.id),
+            eq(scheduleDraftsTable.status, 'published')
+        ))
         .innerJoin(classesTable, eq(schedulesTable.class_id, classesTable.id))
         .leftJoin(subjectsTable, eq(schedulesTable.subject_id, subjectsTable.id))
         .leftJoin(teachersTable, eq(schedulesTable.teacher_id, teachersTable.id))
@@ -122,6 +133,7 @@ export const generateScheduleReportByTeacher = async (
         // Get teacher's schedule
         const scheduleData = await db.select({
             schedule_id: schedulesTable.id,
+            template_id: schedulesTable.template_id,
             day_of_week: schedulesTable.day_of_week,
             jp_number: schedulesTable.jp_number,
             subject_name: subjectsTable.name,
@@ -133,6 +145,11 @@ export const generateScheduleReportByTeacher = async (
             slot_type: timeSlotsTable.slot_type
         })
         .from(schedulesTable)
+        // Only the published timetable is reported
+        .innerJoin(scheduleDraftsTable, and(
+            eq(schedulesTable.draft_id, scheduleDraftsTable.id),
+            eq(scheduleDraftsTable.status, 'published')
+        ))
         .innerJoin(classesTable, eq(schedulesTable.class_id, classesTable.id))
         .leftJoin(subjectsTable, eq(schedulesTable.subject_id, subjectsTable.id))
         .leftJoin(timeSlotsTable, and(
@@ -146,12 +163,23 @@ export const generateScheduleReportByTeacher = async (
         ))
         .execute();
 
+        // Lessons that overlap in clock time, also across classes on different templates
+        const clock = buildSlotClock(scheduleData);
+        const overlaps = findTeacherOverlaps(clock, scheduleData.map(cell => ({ ...cell, teacher_id: teacherId })))
+            .map(({ cell, overlaps }) => ({
+                schedule_id: cell.schedule_id,
+                overlapping_schedule_id: overlaps.schedule_id,
+                day_of_week: cell.day_of_week,
+                class_names: [overlaps.class_name, cell.class_name]
+            }));
+
         return {
             success: true,
             report_url: `/reports/schedule-teacher-${teacherId}.${format}`,
             data: {
                 teacher_info: teacherQuery[0],
-                schedule: scheduleData
+                schedule: scheduleData,
+                overlaps
             }
         };
     } catch (error) {
@@ -165,11 +193,14 @@ export const generateScheduleReportByTeacher = async (
 
 /**
  * Generate workload report
- * Creates comprehensive teacher workload report for academic year
+ * Creates comprehensive teacher workload report for academic year; with a date range
+ * each teacher also gets the JP actually delivered in it, and teachers who only
+ * taught as substitutes are listed too
  */
 export const generateWorkloadReport = async (
     academicYearId: number,
-    format: 'pdf' | 'excel' = 'pdf'
+    format: 'pdf' | 'excel' = 'pdf',
+    range?: DateRange
 ): Promise<{
     success: boolean;
     report_url?: string;
@@ -269,6 +300,31 @@ export const generateWorkloadReport = async (
             });
         });
 
+        // Realised hours over the date range
+        if (range) {
+            const realised = await measureRealisedHours(db, academicYearId, range, [...workloadSummary.keys()]);
+            const substitutesOnly = [...realised.keys()].filter(teacherId => !workloadSummary.has(teacherId));
+            const substitutes = substitutesOnly.length === 0 ? [] : await db.select()
+                .from(teachersTable)
+                .where(inArray(teachersTable.id, substitutesOnly))
+                .execute();
+
+            substitutes.forEach(teacher => {
+                workloadSummary.set(teacher.id, {
+                    teacher_id: teacher.id,
+                    teacher_name: teacher.name,
+                    teacher_nip: teacher.nip_nuptk,
+                    total_jtm_hours: 0,
+                    total_task_equivalent: 0,
+                    jtm_details: [],
+                    task_details: []
+                });
+            });
+            workloadSummary.forEach((summary, teacherId) => {
+                summary.realised = realised.get(teacherId);
+            });
+        }
+
         // Calculate total workload and status
         const workloadReport = Array.from(workloadSummary.values()).map(summary => {
             const totalWorkload = summary.total_jtm_hours + summary.total_task_equivalent;
@@ -288,6 +344,7 @@ export const generateWorkloadReport = async (
             report_url: `/reports/workload-${academicYearId}.${format}`,
             data: {
                 academic_year: academicYearQuery[0],
+                period: range ?? null,
                 workload_summary: workloadReport
             }
         };
@@ -460,6 +517,76 @@ export const generateTaskAllocationReport = async (
     }
 };
 
+/**
+ * Generate substitution sheet
+ * Creates the daily sheet of the piket team: every lesson missed that day with its
+ * absent teacher and substitute, and how many lessons are still uncovered
+ */
+export const generateSubstitutionSheet = async (
+    date: string,
+    format: 'pdf' | 'excel' = 'pdf'
+): Promise<{
+    success: boolean;
+    report_url?: string;
+    error?: string;
+    data?: any;
+}> => {
+    try {
+        const lessons = await getDailySubstitutions(date);
+
+        return {
+            success: true,
+            report_url: `/reports/substitutions-${date}.${format}`,
+            data: {
+                date,
+                day_of_week: dayOfWeekOf(date),
+                lessons,
+                uncovered_count: lessons.filter(lesson => lesson.substitution === null).length
+            }
+        };
+    } catch (error) {
+        console.error('Substitution sheet generation failed:', error);
+        return {
+            success: false,
+            error: 'Failed to generate substitution sheet'
+        };
+    }
+};
+
+/**
+ * Generate daily timetable
+ * Creates the printout of one date's lessons, per class or for the whole school, at
+ * the times of that date, so special periods such as Ramadan print their own times
+ */
+export const generateDailyTimetable = async (
+    academicYearId: number,
+    date: string,
+    format: 'pdf' | 'excel' = 'pdf',
+    classId?: number
+): Promise<{
+    success: boolean;
+    report_url?: string;
+    error?: string;
+    data?: any;
+}> => {
+    try {
+        const timetable = await getDailyTimetable(academicYearId, date, classId);
+        const scope = classId !== undefined ? `class-${classId}` : 'school';
+
+        return {
+            success: true,
+            report_url: `/reports/daily-timetable-${scope}-${date}.${format}`,
+            data: timetable
+        };
+    } catch (error) {
+        console.error('Daily timetable generation failed:', error);
+        return {
+            success: false,
+            error: 'Failed to generate daily timetable'
+        };
+    }
+};
+
 /**
  * Get available report filters
  * Returns available filter options for reports
@@ -0,0 +1,358 @@
+import { db, type DbExecutor } from '../db';
+import { scheduleDraftsTable, schedulesTable, academicYearsTable, classesTable, subjectsTable, teachersTable } from '../db/schema';
+import {
+  type CreateScheduleDraftInput,
+  type UpdateScheduleDraftInput,
+  type ScheduleDraft
+} from '../schema';
+import { recordScheduleSnapshot } from './schedule_snapshots';
+import { eq, and, asc } from 'drizzle-orm';
+
+type DraftCell = {
+  schedule_id: number;
+  subject_id: number | null;
+  subject_name: string | null;
+  teacher_id: number | null;
+  teacher_name: string | null;
+};
+
+type DraftDifference = {
+  class_id: number;
+  class_name: string;
+  day_of_week: number;
+  jp_number: number;
+  first: DraftCell | null;
+  second: DraftCell | null;
+};
+
+/**
+ * Find a schedule draft or fail
+ */
+export const findScheduleDraft = async (executor: DbExecutor, draftId: number): Promise<ScheduleDraft> => {
+  const draft = await executor.select()
+    .from(scheduleDraftsTable)
+    .where(eq(scheduleDraftsTable.id, draftId))
+    .execute();
+
+  if (draft.length === 0) {
+    throw new Error(`Schedule draft with id ${draftId} not found`);
+  }
+
+  return draft[0];
+};
+
+/**
+ * Find a schedule draft whose cells may still change; published and archived
+ * versions are immutable
+ */
+export const assertDraftEditable = async (executor: DbExecutor, draftId: number): Promise<ScheduleDraft> => {
+  const draft = await findScheduleDraft(executor, draftId);
+
+  if (draft.status !== 'draft') {
+    throw new Error(`Schedule draft ${draft.name} is ${draft.status} and cannot be changed`);
+  }
+
+  return draft;
+};
+
+/**
+ * Copy every cell of one draft into another
+ */
+export const copyDraftCells = async (executor: DbExecutor, fromDraftId: number, toDraftId: number): Promise<void> => {
+  const cells = await executor.select()
+    .from(schedulesTable)
+    .where(eq(schedulesTable.draft_id, fromDraftId))
+    .execute();
+
+  if (cells.length > 0) {
+    await executor.insert(schedulesTable)
+      .values(cells.map(({ id, created_at, updated_at, ...cell }) => ({
+        ...cell,
+        draft_id: toDraftId
+      })))
+      .execute();
+  }
+};
+
+/**
+ * Create a schedule draft
+ * Starts an empty named draft for an academic year, or a copy of the cells of
+ * another draft of the same year
+ */
+export const createScheduleDraft = async (input: CreateScheduleDraftInput): Promise<ScheduleDraft> => {
+  try {
+    return await db.transaction(async (tx) => {
+      const academicYear = await tx.select()
+        .from(academicYearsTable)
+        .where(eq(academicYearsTable.id, input.academic_year_id))
+        .execute();
+
+      if (academicYear.length === 0) {
+        throw new Error(`Academic year with id ${input.academic_year_id} not found`);
+      }
+
+      if (input.copy_from_draft_id !== undefined) {
+        const source = await findScheduleDraft(tx, input.copy_from_draft_id);
+        if (source.academic_year_id !== input.academic_year_id) {
+          throw new Error(`Schedule draft ${source.name} belongs to another academic year`);
+        }
+      }
+
+      const result = await tx.insert(scheduleDraftsTable)
+        .values({
+          academic_year_id: input.academic_year_id,
+          name: input.name
+        })
+        .returning()
+        .execute();
+      const draft = result[0];
+
+      if (input.copy_from_draft_id !== undefined) {
+        await copyDraftCells(tx, input.copy_from_draft_id, draft.id);
+      }
+
+      return draft;
+    });
+  } catch (error) {
+    console.error('Schedule draft creation failed:', error);
+    throw error;
+  }
+};
+
+/**
+ * Get schedule drafts by academic year
+ * Returns every draft, published and archived version of an academic year
+ */
+export const getScheduleDrafts = async (academicYearId: number): Promise<ScheduleDraft[]> => {
+  try {
+    const result = await db.select()
+      .from(scheduleDraftsTable)
+      .where(eq(scheduleDraftsTable.academic_year_id, academicYearId))
+      .orderBy(asc(scheduleDraftsTable.id))
+      .execute();
+
+    return result;
+  } catch (error) {
+    console.error('Failed to get schedule drafts:', error);
+    throw error;
+  }
+};
+
+/**
+ * Get published schedule draft
+ * Returns the official timetable version of an academic year, if one is published
+ */
+export const getPublishedScheduleDraft = async (academicYearId: number): Promise<ScheduleDraft | null> => {
+  try {
+    const result = await db.select()
+      .from(scheduleDraftsTable)
+      .where(and(
+        eq(scheduleDraftsTable.academic_year_id, academicYearId),
+        eq(scheduleDraftsTable.status, 'published')
+      ))
+      .execute();
+
+    return result.length > 0 ? result[0] : null;
+  } catch (error) {
+    console.error('Failed to get published schedule draft:', error);
+    throw error;
+  }
+};
+
+/**
+ * Update a schedule draft
+ * Renames a draft; published and archived versions keep their name
+ */
+export const updateScheduleDraft = async (input: UpdateScheduleDraftInput): Promise<ScheduleDraft> => {
+  try {
+    await assertDraftEditable(db, input.id);
+
+    const result = await db.update(scheduleDraftsTable)
+      .set({
+        name: input.name,
+        updated_at: new Date()
+      })
+      .where(eq(scheduleDraftsTable.id, input.id))
+      .returning()
+      .execute();
+
+    return result[0];
+  } catch (error) {
+    console.error('Schedule draft update failed:', error);
+    throw error;
+  }
+};
+
+/**
+ * Discard a schedule draft
+ * Removes a draft together with its cells; the published timetable and its archived
+ * versions cannot be discarded
+ */
+export const deleteScheduleDraft = async (id: number): Promise<boolean> => {
+  try {
+    return await db.transaction(async (tx) => {
+      const draft = await tx.select()
+        .from(scheduleDraftsTable)
+        .where(eq(scheduleDraftsTable.id, id))
+        .execute();
+
+      if (draft.length === 0) return false;
+      if (draft[0].status !== 'draft') {
+        throw new Error(`Schedule draft ${draft[0].name} is ${draft[0].status} and cannot be discarded`);
+      }
+
+      await tx.delete(schedulesTable)
+        .where(eq(schedulesTable.draft_id, id))
+        .execute();
+      await tx.delete(scheduleDraftsTable)
+        .where(eq(scheduleDraftsTable.id, id))
+        .execute();
+
+      return true;
+    });
+  } catch (error) {
+    console.error('Schedule draft deletion failed:', error);
+    throw error;
+  }
+};
+
+/**
+ * Publish a schedule draft
+ * Makes a draft the official timetable of its academic year; the previously
+ * published version is archived and both stay immutable from then on. A snapshot
+ * of the published timetable is kept in the version history
+ */
+export const publishScheduleDraft = async (id: number): Promise<ScheduleDraft> => {
+  try {
+    return await db.transaction(async (tx) => {
+      const draft = await assertDraftEditable(tx, id);
+
+      await tx.update(scheduleDraftsTable)
+        .set({
+          status: 'archived',
+          updated_at: new Date()
+        })
+        .where(and(
+          eq(scheduleDraftsTable.academic_year_id, draft.academic_year_id),
+          eq(scheduleDraftsTable.status, 'published')
+        ))
+        .execute();
+
+      const now = new Date();
+      const result = await tx.update(scheduleDraftsTable)
+        .set({
+          status: 'published',
+          published_at: now,
+          updated_at: now
+        })
+        .where(eq(scheduleDraftsTable.id, id))
+        .returning()
+        .execute();
+
+      await recordScheduleSnapshot(tx, result[0], 'published');
+
+      return result[0];
+    });
+  } catch (error) {
+    console.error('Schedule draft publication failed:', error);
+    throw error;
+  }
+};
+
+/**
+ * Cells of a draft keyed by class, day and JP
+ */
+const loadDraftCells = async (draftId: number) => {
+  const cells = await db.select({
+    schedule_id: schedulesTable.id,
+    class_id: schedulesTable.class_id,
+    class_name: classesTable.class_name,
+    day_of_week: schedulesTable.day_of_week,
+    jp_number: schedulesTable.jp_number,
+    subject_id: schedulesTable.subject_id,
+    subject_name: subjectsTable.name,
+    teacher_id: schedulesTable.teacher_id,
+    teacher_name: teachersTable.name
+  })
+    .from(schedulesTable)
+    .innerJoin(classesTable, eq(schedulesTable.class_id, classesTable.id))
+    .leftJoin(subjectsTable, eq(schedulesTable.subject_id, subjectsTable.id))
+    .leftJoin(teachersTable, eq(schedulesTable.teacher_id, teachersTable.id))
+    .where(eq(schedulesTable.draft_id, draftId))
+    .execute();
+
+  return new Map(cells.map(cell => [`${cell.class_id}:${cell.day_of_week}:${cell.jp_number}`, cell]));
+};
+
+/**
+ * Compare schedule drafts
+ * Lists every class cell whose subject or teacher differs between two versions of
+ * the same academic year, including cells present in only one of them
+ */
+export const compareScheduleDrafts = async (firstDraftId: number, secondDraftId: number): Promise<{
+  differences: DraftDifference[];
+  unchanged_count: number;
+}> => {
+  try {
+    const [first, second] = await Promise.all([
+      findScheduleDraft(db, firstDraftId),
+      findScheduleDraft(db, secondDraftId)
+    ]);
+
+    if (first.academic_year_id !== second.academic_year_id) {
+      throw new Error('Only drafts of the same academic year can be compared');
+    }
+
+    const [firstCells, secondCells] = await Promise.all([
+      loadDraftCells(firstDraftId),
+      loadDraftCells(secondDraftId)
+    ]);
+
+    const differences: DraftDifference[] = [];
+    let unchangedCount = 0;
+
+    for (const key of new Set([...firstCells.keys(), ...secondCells.keys()])) {
+      const a = firstCells.get(key);
+      const b = secondCells.get(key);
+
+      if (a && b && a.subject_id === b.subject_id && a.teacher_id === b.teacher_id) {
+        unchangedCount++;
+        continue;
+      }
+
+      const position = (a ?? b)!;
+      const summary = (cell: typeof a): DraftCell | null => cell
+        ? {
+          schedule_id: cell.schedule_id,
+          subject_id: cell.subject_id,
+          subject_name: cell.subject_name,
+          teacher_id: cell.teacher_id,
+          teacher_name: cell.teacher_name
+        }
+        : null;
+
+      differences.push({
+        class_id: position.class_id,
+        class_name: position.class_name,
+        day_of_week: position.day_of_week,
+        jp_number: position.jp_number,
+        first: summary(a),
+        second: summary(b)
+      });
+    }
+
+    differences.sort((x, y) =>
+      x.class_name.localeCompare(y.class_name) ||
+      x.day_of_week - y.day_of_week ||
+      x.jp_number - y.jp_number
+    );
+
+    return {
+      differences,
+      unchanged_count: unchangedCount
+    };
+  } catch (error) {
+    console.error('Schedule draft comparison failed:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,864 @@
+import { db, type DbExecutor } from '../db';
+import {
+  schedulesTable,
+  classesTable,
+  scheduleTemplatesTable,
+  timeSlotsTable,
+  jtmAssignmentsTable,
+  subjectsTable,
+  teachersTable,
+  teacherAvailabilityTable,
+  schedulingRulesTable,
+  scheduleDraftsTable
+} from '../db/schema';
+import { type Class, type GenerationOptions, type ScheduleDraft } from '../schema';
+import { assertDraftEditable, findScheduleDraft, copyDraftCells } from './schedule_drafts';
+import { recordScheduleSnapshot } from './schedule_snapshots';
+import { resolveClassTemplates } from './class_templates';
+import { loadSlotClock } from './time_slots';
+import { measureDraftScorecard, recommendScorecard, type DraftScorecard } from './schedule_metrics';
+import {
+  solveTimetable,
+  solveTimetableInSteps,
+  splitIntoBlocks,
+  availabilityCovers,
+  type SolverInput,
+  type SolverOptions,
+  type SolverResult,
+  type SolverScore,
+  type SolverStep
+} from '../helpers/timetable_solver';
+import { diagnoseTimetable, type DiagnosisIssue } from '../helpers/timetable_diagnosis';
+import { cellsOverlap, type TemplateCell } from '../helpers/time_intervals';
+import { type ProgressReporter } from './jobs';
+import { eq, and, asc, desc, inArray, not } from 'drizzle-orm';
+
+type GenerationConflict = {
+  day_of_week: number;
+  jp_number: number;
+  reason: string;
+};
+
+type InvalidCell = {
+  class_id: number;
+  class_name: string;
+  day_of_week: number;
+  jp_number: number;
+  subject_name: string | null;
+  teacher_name: string | null;
+  reason: string;
+};
+
+/**
+ * Verify the template used by a generation run exists
+ */
+const assertGenerationTemplate = async (executor: DbExecutor, templateId: number): Promise<void> => {
+  const template = await executor.select()
+    .from(scheduleTemplatesTable)
+    .where(eq(scheduleTemplatesTable.id, templateId))
+    .execute();
+
+  if (template.length === 0) {
+    throw new Error(`Schedule template with id ${templateId} not found`);
+  }
+};
+
+/**
+ * Load solver input for a set of classes
+ * Reads the slots of the template each class is bound to (the given template for
+ * unbound classes), JTM assignments of the classes, teacher availability, active
+ * soft rules of the academic year and every existing cell of the draft; existing
+ * cells stay in place and keep their teachers busy. When regenerating, unlocked
+ * cells of the classes are left out so the solver can place those lessons again
+ */
+const loadSolverInput = async (
+  executor: DbExecutor,
+  draft: ScheduleDraft,
+  templateId: number,
+  classes: Class[],
+  regenerate: boolean
+): Promise<SolverInput> => {
+  const classIds = classes.map(classItem => classItem.id);
+  const academicYearId = draft.academic_year_id;
+
+  const classTemplates = await resolveClassTemplates(executor, academicYearId, classIds, templateId);
+
+  const assignments = await executor.select({
+    class_id: jtmAssignmentsTable.class_id,
+    subject_id: jtmAssignmentsTable.subject_id,
+    subject_name: subjectsTable.name,
+    teacher_id: jtmAssignmentsTable.teacher_id,
+    teacher_name: teachersTable.name,
+    allocated_hours: jtmAssignmentsTable.allocated_hours,
+    assignment_pattern: jtmAssignmentsTable.block_pattern,
+    subject_pattern: subjectsTable.block_pattern
+  })
+    .from(jtmAssignmentsTable)
+    .innerJoin(subjectsTable, eq(jtmAssignmentsTable.subject_id, subjectsTable.id))
+    .innerJoin(teachersTable, eq(jtmAssignmentsTable.teacher_id, teachersTable.id))
+    .where(and(
+      inArray(jtmAssignmentsTable.class_id, classIds),
+      eq(jtmAssignmentsTable.academic_year_id, academicYearId)
+    ))
+    .orderBy(asc(jtmAssignmentsTable.class_id), asc(jtmAssignmentsTable.id))
+    .execute();
+
+  const draftCells = await executor.select({
+    class_id: schedulesTable.class_id,
+    class_name: classesTable.class_name,
+    template_id: schedulesTable.template_id,
+    day_of_week: schedulesTable.day_of_week,
+    jp_number: schedulesTable.jp_number,
+    subject_id: schedulesTable.subject_id,
+    subject_name: subjectsTable.name,
+    teacher_id: schedulesTable.teacher_id,
+    is_manual: schedulesTable.is_manual
+  })
+    .from(schedulesTable)
+    .innerJoin(classesTable, eq(schedulesTable.class_id, classesTable.id))
+    .leftJoin(subjectsTable, eq(schedulesTable.subject_id, subjectsTable.id))
+    .where(eq(schedulesTable.draft_id, draft.id))
+    .orderBy(asc(schedulesTable.id))
+    .execute();
+
+  // Slots of the class templates and of every template the draft's cells use
+  const templateSlots = await executor.select()
+    .from(timeSlotsTable)
+    .where(inArray(timeSlotsTable.template_id, [...new Set([
+      ...classTemplates.values(),
+      ...draftCells.map(cell => cell.template_id)
+    ])]))
+    .orderBy(asc(timeSlotsTable.day_of_week), asc(timeSlotsTable.jp_number))
+    .execute();
+
+  // Locked cells always stay; unlocked cells of the classes are dropped when regenerating
+  const existing = draftCells.filter(cell => !regenerate || cell.is_manual || !classIds.includes(cell.class_id));
+
+  const availability = await executor.select()
+    .from(teacherAvailabilityTable)
+    .where(eq(teacherAvailabilityTable.academic_year_id, academicYearId))
+    .orderBy(asc(teacherAvailabilityTable.id))
+    .execute();
+
+  const rules = await executor.select()
+    .from(schedulingRulesTable)
+    .where(and(
+      eq(schedulingRulesTable.academic_year_id, academicYearId),
+      eq(schedulingRulesTable.is_active, true)
+    ))
+    .orderBy(asc(schedulingRulesTable.id))
+    .execute();
+
+  const lessons = assignments.map(assignment => {
+    const alreadyScheduled = existing.filter(cell =>
+      cell.class_id === assignment.class_id &&
+      cell.subject_id === assignment.subject_id &&
+      cell.teacher_id === assignment.teacher_id
+    ).length;
+    const hours = Math.max(assignment.allocated_hours - alreadyScheduled, 0);
+
+    return {
+      class_id: assignment.class_id,
+      subject_id: assignment.subject_id,
+      subject_name: assignment.subject_name,
+      teacher_id: assignment.teacher_id,
+      teacher_name: assignment.teacher_name,
+      // An assignment pattern overrides the subject pattern
+      blocks: splitIntoBlocks(hours, assignment.assignment_pattern ?? assignment.subject_pattern)
+    };
+  });
+
+  return {
+    classes: classes.map(classItem => {
+      const classTemplateId = classTemplates.get(classItem.id)!;
+      const timeline = templateSlots.filter(slot => slot.template_id === classTemplateId);
+
+      return {
+        class_id: classItem.id,
+        class_name: classItem.class_name,
+        template_id: classTemplateId,
+        // Only 'belajar' slots can hold lessons
+        slots: timeline
+          .filter(slot => slot.slot_type === 'belajar')
+          .map(slot => ({ day_of_week: slot.day_of_week, jp_number: slot.jp_number })),
+        timeline: timeline.map(slot => ({
+          day_of_week: slot.day_of_week,
+          jp_number: slot.jp_number,
+          slot_type: slot.slot_type
+        }))
+      };
+    }),
+    lessons,
+    fixed: existing,
+    availability,
+    rules: rules.map(rule => ({
+      rule_id: rule.id,
+      rule_type: rule.rule_type,
+      subject_id: rule.subject_id,
+      slot_type: rule.slot_type,
+      value: rule.value,
+      weight: rule.weight
+    })),
+    time_slots: templateSlots
+  };
+};
+
+/**
+ * Remove unlocked cells of the classes being regenerated
+ */
+const deleteUnlockedCells = async (executor: DbExecutor, draftId: number, classIds: number[]): Promise<number> => {
+  const removed = await executor.delete(schedulesTable)
+    .where(and(
+      eq(schedulesTable.draft_id, draftId),
+      inArray(schedulesTable.class_id, classIds),
+      not(schedulesTable.is_manual)
+    ))
+    .returning()
+    .execute();
+
+  return removed.length;
+};
+
+/**
+ * Persist solver placements as generated (unlocked) schedule cells
+ */
+const insertPlacements = async (executor: DbExecutor, draft: ScheduleDraft, result: SolverResult): Promise<void> => {
+  if (result.placements.length === 0) return;
+
+  await executor.insert(schedulesTable)
+    .values(result.placements.map(placement => ({
+      draft_id: draft.id,
+      academic_year_id: draft.academic_year_id,
+      ...placement,
+      is_manual: false
+    })))
+    .execute();
+};
+
+/**
+ * Resolve the solver options of a generation run; a run without a seed gets a fresh
+ * one, which is reported back so the run can be repeated
+ */
+const resolveRunOptions = (options: GenerationOptions): SolverOptions & { seed: number } => ({
+  ...options,
+  seed: options.seed ?? Math.floor(Math.random() * 2 ** 31)
+});
+
+const toGenerationConflicts = (result: SolverResult, classId: number): GenerationConflict[] =>
+  result.conflicts
+    .filter(conflict => conflict.class_id === classId)
+    .map(conflict => ({
+      day_of_week: conflict.day_of_week,
+      jp_number: conflict.jp_number,
+      reason: conflict.reason
+    }));
+
+const solverSummary = (result: SolverResult): string =>
+  `Placed ${result.placements.length} lessons with ${result.unplaced_hours} JP unplaced after ${result.iterations} iterations`;
+
+// Share of the solver's part of a job each phase covers
+const SOLVER_PHASE_SHARES: Record<SolverStep['phase'], [number, number]> = {
+  placement: [0, 0.4],
+  improvement: [0.4, 0.5],
+  search: [0.5, 1],
+  timed_search: [0.5, 1]
+};
+
+const solverStepMessage = (step: SolverStep): string => ({
+  placement: `Placed ${step.done} of ${step.total} lesson blocks`,
+  improvement: `Finished improvement pass ${step.done} of ${step.total}`,
+  search: `Searched ${step.done} of ${step.total} iterations`,
+  timed_search: `Searched for ${step.done} of ${step.total} ms`
+})[step.phase];
+
+/**
+ * Run the solver; run as a job, each of its steps is reported between 10% and 80%,
+ * which lets other work run and stops the run there once the job is cancelled
+ */
+const runSolver = async (input: SolverInput, runOptions: SolverOptions, progress?: ProgressReporter): Promise<SolverResult> => {
+  if (!progress) return solveTimetable(input, runOptions);
+
+  return solveTimetableInSteps(input, runOptions, step => {
+    const [from, to] = SOLVER_PHASE_SHARES[step.phase];
+    return progress(10 + 70 * (from + (to - from) * step.done / step.total), solverStepMessage(step));
+  });
+};
+
+const filterScore = (score: SolverScore, keep: (violation: SolverScore['violations'][number]) => boolean): SolverScore => {
+  const violations = score.violations.filter(keep);
+  return {
+    total_penalty: violations.reduce((sum, violation) => sum + violation.penalty, 0),
+    violations
+  };
+};
+
+const classScore = (score: SolverScore, classId: number): SolverScore =>
+  filterScore(score, violation => violation.class_id === classId);
+
+// Teacher rule violations of the teachers that have lessons in the given classes
+const teacherScore = (score: SolverScore, input: SolverInput, classIds: number[]): SolverScore => {
+  const teacherIds = new Set([
+    ...input.lessons.filter(lesson => classIds.includes(lesson.class_id)).map(lesson => lesson.teacher_id),
+    ...input.fixed.filter(cell => classIds.includes(cell.class_id)).map(cell => cell.teacher_id)
+  ]);
+  return filterScore(score, violation => violation.teacher_id !== null && teacherIds.has(violation.teacher_id));
+};
+
+/**
+ * Generate automatic schedule
+ * Fills empty 'belajar' cells of a class in a draft from its JTM assignments without
+ * double-booking teachers; hours that cannot be placed are reported as conflicts and
+ * soft rule violations of the result are returned as a score breakdown, with the
+ * teacher rule violations of its teachers listed separately. With
+ * regenerate, unlocked cells of the class are replaced and only locked cells are
+ * kept; the regenerated draft is recorded as a snapshot. Runs with the same seed
+ * and iteration limit produce the same cells. Run as a job, progress is reported
+ * before, during and after the solver
+ */
+export const generateAutomaticSchedule = async (
+  classId: number,
+  draftId: number,
+  templateId: number,
+  regenerate: boolean = false,
+  options: GenerationOptions = {},
+  progress?: ProgressReporter
+): Promise<{
+  success: boolean;
+  created_count: number;
+  removed_count: number;
+  conflicts: GenerationConflict[];
+  score: SolverScore;
+  teacher_score: SolverScore;
+  seed: number;
+  iterations: number;
+  elapsed_ms: number;
+}> => {
+  const started = Date.now();
+  const runOptions = resolveRunOptions(options);
+
+  try {
+    return await db.transaction(async (tx) => {
+      const draft = await assertDraftEditable(tx, draftId);
+      await assertGenerationTemplate(tx, templateId);
+
+      const classRecord = await tx.select()
+        .from(classesTable)
+        .where(eq(classesTable.id, classId))
+        .execute();
+
+      if (classRecord.length === 0) {
+        throw new Error(`Class with id ${classId} not found`);
+      }
+
+      const input = await loadSolverInput(tx, draft, templateId, classRecord, regenerate);
+      await progress?.(10, `Loaded the lessons of class ${classRecord[0].class_name}`);
+      const result = await runSolver(input, runOptions, progress);
+      await progress?.(80, solverSummary(result));
+      const removedCount = regenerate ? await deleteUnlockedCells(tx, draft.id, [classId]) : 0;
+      await insertPlacements(tx, draft, result);
+      if (regenerate) {
+        await recordScheduleSnapshot(tx, draft, 'regenerated');
+      }
+
+      return {
+        success: result.conflicts.length === 0,
+        created_count: result.placements.length,
+        removed_count: removedCount,
+        conflicts: toGenerationConflicts(result, classId),
+        score: classScore(result.score, classId),
+        teacher_score: teacherScore(result.score, input, [classId]),
+        seed: result.seed,
+        iterations: result.iterations,
+        elapsed_ms: Date.now() - started
+      };
+    });
+  } catch (error) {
+    console.error('Automatic schedule generation failed:', error);
+    throw error;
+  }
+};
+
+type SchoolGenerationResult = {
+  success: boolean;
+  persisted: boolean;
+  created_count: number;
+  removed_count: number;
+  soft_penalty: number;
+  teacher_score: SolverScore;
+  seed: number;
+  iterations: number;
+  elapsed_ms: number;
+  classes: Array<{
+    class_id: number;
+    class_name: string;
+    success: boolean;
+    created_count: number;
+    conflicts: GenerationConflict[];
+    score: SolverScore;
+  }>;
+};
+
+/**
+ * Schedule every class of a draft's academic year in one solver run on the caller's
+ * executor
+ */
+const generateDraftSchedule = async (
+  executor: DbExecutor,
+  draft: ScheduleDraft,
+  templateId: number,
+  allowPartial: boolean,
+  regenerate: boolean,
+  runOptions: SolverOptions,
+  progress?: ProgressReporter
+): Promise<SchoolGenerationResult> => {
+  const started = Date.now();
+
+  const classes = await executor.select()
+    .from(classesTable)
+    .where(eq(classesTable.academic_year_id, draft.academic_year_id))
+    .orderBy(asc(classesTable.grade_level), asc(classesTable.class_name))
+    .execute();
+
+  if (classes.length === 0) {
+    throw new Error(`No classes found for academic year ${draft.academic_year_id}`);
+  }
+
+  const input = await loadSolverInput(executor, draft, templateId, classes, regenerate);
+  await progress?.(10, `Loaded the lessons of ${classes.length} classes`);
+  const result = await runSolver(input, runOptions, progress);
+  await progress?.(80, solverSummary(result));
+  const success = result.conflicts.length === 0;
+  const persisted = success || allowPartial;
+
+  let removedCount = 0;
+  if (persisted) {
+    if (regenerate) {
+      removedCount = await deleteUnlockedCells(executor, draft.id, classes.map(classItem => classItem.id));
+    }
+    await insertPlacements(executor, draft, result);
+    if (regenerate) {
+      await recordScheduleSnapshot(executor, draft, 'regenerated');
+    }
+  }
+
+  return {
+    success,
+    persisted,
+    created_count: persisted ? result.placements.length : 0,
+    removed_count: removedCount,
+    soft_penalty: result.score.total_penalty,
+    teacher_score: filterScore(result.score, violation => violation.teacher_id !== null),
+    seed: result.seed,
+    iterations: result.iterations,
+    elapsed_ms: Date.now() - started,
+    classes: classes.map(classItem => {
+      const conflicts = toGenerationConflicts(result, classItem.id);
+      return {
+        class_id: classItem.id,
+        class_name: classItem.class_name,
+        success: conflicts.length === 0,
+        created_count: persisted
+          ? result.placements.filter(placement => placement.class_id === classItem.id).length
+          : 0,
+        conflicts,
+        score: classScore(result.score, classItem.id)
+      };
+    })
+  };
+};
+
+/**
+ * Generate school schedule
+ * Schedules every class of the academic year into a draft in a single solver run so
+ * no class is left with the leftovers of another; nothing is written unless every
+ * class is fully scheduled or partial results are explicitly allowed. With
+ * regenerate, unlocked cells are re-optimised around the locked ones and the result
+ * is recorded as a snapshot. The optimisation can be seeded and bounded by an
+ * iteration limit and an opt-in time budget; the seed used, the iterations run and
+ * the elapsed time come back with the score so the best of several runs can be kept
+ */
+export const generateSchoolSchedule = async (
+  draftId: number,
+  templateId: number,
+  allowPartial: boolean = false,
+  regenerate: boolean = false,
+  options: GenerationOptions = {},
+  progress?: ProgressReporter
+): Promise<SchoolGenerationResult> => {
+  const runOptions = resolveRunOptions(options);
+
+  try {
+    return await db.transaction(async (tx) => {
+      const draft = await assertDraftEditable(tx, draftId);
+      await assertGenerationTemplate(tx, templateId);
+
+      return generateDraftSchedule(tx, draft, templateId, allowPartial, regenerate, runOptions, progress);
+    });
+  } catch (error) {
+    console.error('School schedule generation failed:', error);
+    throw error;
+  }
+};
+
+/**
+ * Generate schedule candidates
+ * Generates several alternative timetables for an academic year, each into a new
+ * draft from its own seed, so the curriculum team can compare them and publish one.
+ * Locked cells of a base draft are carried into every candidate. Candidates are kept
+ * even when hours are left unplaced; each comes back with its scorecard and the
+ * best one is recommended
+ */
+export const generateScheduleCandidates = async (
+  academicYearId: number,
+  templateId: number,
+  count: number,
+  baseDraftId?: number,
+  options: GenerationOptions = {},
+  progress?: ProgressReporter
+): Promise<{
+  candidates: Array<{
+    draft: ScheduleDraft;
+    seed: number;
+    iterations: number;
+    scorecard: DraftScorecard;
+  }>;
+  recommended_draft_id: number;
+}> => {
+  const runOptions = resolveRunOptions(options);
+
+  try {
+    return await db.transaction(async (tx) => {
+      await assertGenerationTemplate(tx, templateId);
+
+      if (baseDraftId !== undefined) {
+        const base = await findScheduleDraft(tx, baseDraftId);
+        if (base.academic_year_id !== academicYearId) {
+          throw new Error(`Schedule draft ${base.name} belongs to another academic year`);
+        }
+      }
+
+      const candidates: Array<{ draft: ScheduleDraft; seed: number; iterations: number; scorecard: DraftScorecard }> = [];
+      for (let index = 0; index < count; index++) {
+        const seed = runOptions.seed + index;
+        const [draft] = await tx.insert(scheduleDraftsTable)
+          .values({
+            academic_year_id: academicYearId,
+            name: `Candidate ${index + 1} (seed ${seed})`
+          })
+          .returning()
+          .execute();
+
+        if (baseDraftId !== undefined) {
+          await copyDraftCells(tx, baseDraftId, draft.id);
+          await tx.delete(schedulesTable)
+            .where(and(eq(schedulesTable.draft_id, draft.id), not(schedulesTable.is_manual)))
+            .execute();
+        }
+
+        // Each candidate reports within its own share of the job
+        const candidateProgress: ProgressReporter | undefined = progress && ((value, message) =>
+          progress((index + value / 100) / count * 95, `Candidate ${index + 1} of ${count}: ${message}`));
+        const generation = await generateDraftSchedule(tx, draft, templateId, true, false, { ...runOptions, seed }, candidateProgress);
+        const scorecard = await measureDraftScorecard(tx, draft.id);
+        candidates.push({ draft, seed: generation.seed, iterations: generation.iterations, scorecard });
+
+        await progress?.(
+          (index + 1) / count * 95,
+          `Candidate ${index + 1} of ${count}: ${scorecard.hard_violations} hard violations, soft penalty ${scorecard.soft_penalty}`
+        );
+      }
+
+      return {
+        candidates,
+        recommended_draft_id: recommendScorecard(candidates.map(candidate => candidate.scorecard)).draft_id
+      };
+    });
+  } catch (error) {
+    console.error('Schedule candidate generation failed:', error);
+    throw error;
+  }
+};
+
+/**
+ * Diagnose schedule
+ * Checks a class, or every class of the academic year, for data that makes a full
+ * schedule impossible before the generator runs; uses the same input the generator
+ * would, so locked and existing cells of the draft are taken into account
+ */
+export const diagnoseSchedule = async (
+  draftId: number,
+  templateId: number,
+  classId?: number,
+  regenerate: boolean = false
+): Promise<{
+  feasible: boolean;
+  issues: DiagnosisIssue[];
+}> => {
+  try {
+    const draft = await findScheduleDraft(db, draftId);
+    await assertGenerationTemplate(db, templateId);
+
+    const classes = await db.select()
+      .from(classesTable)
+      .where(classId !== undefined
+        ? eq(classesTable.id, classId)
+        : eq(classesTable.academic_year_id, draft.academic_year_id))
+      .orderBy(asc(classesTable.grade_level), asc(classesTable.class_name))
+      .execute();
+
+    if (classes.length === 0) {
+      throw new Error(classId !== undefined
+        ? `Class with id ${classId} not found`
+        : `No classes found for academic year ${draft.academic_year_id}`);
+    }
+
+    const input = await loadSolverInput(db, draft, templateId, classes, regenerate);
+    const issues = diagnoseTimetable(input);
+
+    return {
+      feasible: issues.length === 0,
+      issues
+    };
+  } catch (error) {
+    console.error('Schedule diagnosis failed:', error);
+    throw error;
+  }
+};
+
+/**
+ * Find the cells of a draft that no longer match the JTM assignments or teacher
+ * availability of its academic year and remove them. A lesson whose assignment went
+ * to another teacher is handed over in place when the new teacher is free and
+ * available at that slot, so it does not have to move
+ */
+const removeInvalidCells = async (executor: DbExecutor, draft: ScheduleDraft): Promise<{
+  invalid: InvalidCell[];
+  reassigned: number;
+}> => {
+  const cells = await executor.select({
+    id: schedulesTable.id,
+    class_id: schedulesTable.class_id,
+    class_name: classesTable.class_name,
+    template_id: schedulesTable.template_id,
+    day_of_week: schedulesTable.day_of_week,
+    jp_number: schedulesTable.jp_number,
+    subject_id: schedulesTable.subject_id,
+    subject_name: subjectsTable.name,
+    teacher_id: schedulesTable.teacher_id,
+    teacher_name: teachersTable.name,
+    is_manual: schedulesTable.is_manual
+  })
+    .from(schedulesTable)
+    .innerJoin(classesTable, eq(schedulesTable.class_id, classesTable.id))
+    .leftJoin(subjectsTable, eq(schedulesTable.subject_id, subjectsTable.id))
+    .leftJoin(teachersTable, eq(schedulesTable.teacher_id, teachersTable.id))
+    .where(eq(schedulesTable.draft_id, draft.id))
+    // Locked cells claim their assignment hours first
+    .orderBy(desc(schedulesTable.is_manual), asc(schedulesTable.class_id), asc(schedulesTable.day_of_week), asc(schedulesTable.jp_number))
+    .execute();
+
+  const assignments = await executor.select()
+    .from(jtmAssignmentsTable)
+    .where(eq(jtmAssignmentsTable.academic_year_id, draft.academic_year_id))
+    .execute();
+
+  const unavailable = await executor.select()
+    .from(teacherAvailabilityTable)
+    .where(and(
+      eq(teacherAvailabilityTable.academic_year_id, draft.academic_year_id),
+      eq(teacherAvailabilityTable.availability_type, 'unavailable')
+    ))
+    .execute();
+
+  const clock = await loadSlotClock(executor, [...new Set(cells.map(cell => cell.template_id))]);
+
+  const used = new Map<number, number>(); // assignment id -> cells kept
+  const kept: Array<TemplateCell & { teacher_id: number }> = [];
+  const isBusy = (teacherId: number, cell: TemplateCell) =>
+    kept.some(other => other.teacher_id === teacherId && cellsOverlap(clock, other, cell));
+  const isUnavailable = (teacherId: number, cell: { day_of_week: number; jp_number: number }) =>
+    unavailable.some(entry => entry.teacher_id === teacherId && availabilityCovers(entry, cell));
+  const keep = (assignment: typeof assignments[number], cell: TemplateCell) => {
+    used.set(assignment.id, (used.get(assignment.id) ?? 0) + 1);
+    kept.push({ ...cell, teacher_id: assignment.teacher_id });
+  };
+
+  const invalid: Array<InvalidCell & { id: number }> = [];
+  const orphaned: typeof cells = [];
+  const reject = (cell: typeof cells[number], reason: string) => {
+    const { is_manual, subject_id, teacher_id, template_id, ...rest } = cell;
+    invalid.push({ ...rest, reason });
+  };
+
+  for (const cell of cells) {
+    if (cell.subject_id === null || cell.teacher_id === null) continue;
+
+    const assignment = assignments.find(candidate =>
+      candidate.class_id === cell.class_id &&
+      candidate.subject_id === cell.subject_id &&
+      candidate.teacher_id === cell.teacher_id
+    );
+
+    if (!assignment) {
+      orphaned.push(cell);
+    } else if (isUnavailable(cell.teacher_id, cell)) {
+      reject(cell, `${cell.teacher_name} is unavailable at this slot`);
+    } else if ((used.get(assignment.id) ?? 0) >= assignment.allocated_hours) {
+      reject(cell, `${cell.subject_name} exceeds its ${assignment.allocated_hours} allocated JP in ${cell.class_name}`);
+    } else {
+      keep(assignment, cell);
+    }
+  }
+
+  let reassigned = 0;
+  for (const cell of orphaned) {
+    const replacement = assignments.find(candidate =>
+      candidate.class_id === cell.class_id &&
+      candidate.subject_id === cell.subject_id &&
+      (used.get(candidate.id) ?? 0) < candidate.allocated_hours &&
+      !isBusy(candidate.teacher_id, cell) &&
+      !isUnavailable(candidate.teacher_id, cell)
+    );
+
+    if (!replacement) {
+      reject(cell, `${cell.teacher_name} is no longer assigned to ${cell.subject_name} in ${cell.class_name}`);
+      continue;
+    }
+
+    await executor.update(schedulesTable)
+      .set({
+        teacher_id: replacement.teacher_id,
+        updated_at: new Date()
+      })
+      .where(eq(schedulesTable.id, cell.id))
+      .execute();
+    keep(replacement, cell);
+    reassigned++;
+  }
+
+  if (invalid.length > 0) {
+    await executor.delete(schedulesTable)
+      .where(inArray(schedulesTable.id, invalid.map(cell => cell.id)))
+      .execute();
+  }
+
+  return {
+    invalid: invalid.map(({ id, ...cell }) => cell),
+    reassigned
+  };
+};
+
+/**
+ * Lesson held by each class slot of a draft
+ */
+const loadDraftLessons = async (executor: DbExecutor, draftId: number): Promise<Map<string, string>> => {
+  const cells = await executor.select()
+    .from(schedulesTable)
+    .where(eq(schedulesTable.draft_id, draftId))
+    .execute();
+
+  return new Map(cells.map(cell => [
+    `${cell.class_id}:${cell.day_of_week}:${cell.jp_number}`,
+    `${cell.subject_id}:${cell.teacher_id}`
+  ]));
+};
+
+/**
+ * Repair schedule
+ * Copies the published timetable of an academic year into a new draft and fixes only
+ * the cells invalidated since by changed JTM assignments or teacher availability:
+ * lessons handed to another teacher stay in place when that teacher is free, and
+ * the remaining hours are placed around every untouched cell. Only classes that
+ * cannot be fixed that way have their unlocked cells rearranged. Reports how many
+ * class slots changed; the draft is left for review before publishing
+ */
+export const repairSchedule = async (academicYearId: number, templateId: number, name?: string): Promise<{
+  draft: ScheduleDraft;
+  success: boolean;
+  changed_count: number;
+  reassigned_count: number;
+  invalid_cells: InvalidCell[];
+  conflicts: Array<GenerationConflict & { class_id: number }>;
+}> => {
+  try {
+    return await db.transaction(async (tx) => {
+      const published = await tx.select()
+        .from(scheduleDraftsTable)
+        .where(and(
+          eq(scheduleDraftsTable.academic_year_id, academicYearId),
+          eq(scheduleDraftsTable.status, 'published')
+        ))
+        .execute();
+
+      if (published.length === 0) {
+        throw new Error(`No published timetable found for academic year ${academicYearId}`);
+      }
+      await assertGenerationTemplate(tx, templateId);
+
+      const [draft] = await tx.insert(scheduleDraftsTable)
+        .values({
+          academic_year_id: academicYearId,
+          name: name ?? `${published[0].name} (repaired)`
+        })
+        .returning()
+        .execute();
+      await copyDraftCells(tx, published[0].id, draft.id);
+
+      const { invalid, reassigned } = await removeInvalidCells(tx, draft);
+
+      const classes = await tx.select()
+        .from(classesTable)
+        .where(eq(classesTable.academic_year_id, academicYearId))
+        .orderBy(asc(classesTable.grade_level), asc(classesTable.class_name))
+        .execute();
+
+      // Missing hours go into free slots first; every remaining cell stays put
+      const result = solveTimetable(await loadSolverInput(tx, draft, templateId, classes, false));
+      const stuck = new Set(result.conflicts.map(conflict => conflict.class_id));
+      await insertPlacements(tx, draft, {
+        ...result,
+        placements: result.placements.filter(placement => !stuck.has(placement.class_id))
+      });
+
+      let conflicts = result.conflicts;
+      if (stuck.size > 0) {
+        const stuckClasses = classes.filter(classItem => stuck.has(classItem.id));
+        const retry = solveTimetable(await loadSolverInput(tx, draft, templateId, stuckClasses, true));
+
+        if (retry.unplaced_hours < result.unplaced_hours) {
+          await deleteUnlockedCells(tx, draft.id, [...stuck]);
+          await insertPlacements(tx, draft, retry);
+          conflicts = retry.conflicts;
+        } else {
+          await insertPlacements(tx, draft, {
+            ...result,
+            placements: result.placements.filter(placement => stuck.has(placement.class_id))
+          });
+        }
+      }
+
+      const before = await loadDraftLessons(tx, published[0].id);
+      const after = await loadDraftLessons(tx, draft.id);
+      const changedCount = [...new Set([...before.keys(), ...after.keys()])]
+        .filter(key => before.get(key) !== after.get(key))
+        .length;
+
+      return {
+        draft,
+        success: conflicts.length === 0,
+        changed_count: changedCount,
+        reassigned_count: reassigned,
+        invalid_cells: invalid,
+        conflicts: conflicts.map(conflict => ({
+          class_id: conflict.class_id,
+          day_of_week: conflict.day_of_week,
+          jp_number: conflict.jp_number,
+          reason: conflict.reason
+        }))
+      };
+    });
+  } catch (error) {
+    console.error('Schedule repair failed:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,249 @@
+import { db, type DbExecutor } from '../db';
+import { scheduleJournalTable, schedulesTable } from '../db/schema';
+import {
+  type Schedule,
+  type ScheduleCellChange,
+  type ScheduleCellState,
+  type ScheduleJournalEntry,
+  type ScheduleOperation
+} from '../schema';
+import { assertDraftEditable } from './schedule_drafts';
+import { eq, and, asc, desc, inArray } from 'drizzle-orm';
+import { createHash } from 'node:crypto';
+
+/**
+ * Journal state of a cell: every column except the timestamps
+ */
+export const toCellState = ({ created_at, updated_at, ...state }: Schedule): ScheduleCellState => state;
+
+const sameState = (a: ScheduleCellState | null, b: ScheduleCellState | null): boolean =>
+  a === null || b === null
+    ? a === b
+    : (Object.keys(a) as Array<keyof ScheduleCellState>).every(key => a[key] === b[key]);
+
+/**
+ * Drafts whose cells a journaled edit touches
+ */
+const touchedDrafts = (changes: ScheduleCellChange[]): number[] => [
+  ...new Set(changes.flatMap(change => [change.before?.draft_id, change.after?.draft_id].filter(id => id !== undefined)))
+];
+
+/**
+ * Current state of every cell of the given drafts, keyed by cell id
+ */
+const loadDraftStates = async (executor: DbExecutor, draftIds: number[]): Promise<Map<number, ScheduleCellState>> => {
+  const cells = await executor.select()
+    .from(schedulesTable)
+    .where(inArray(schedulesTable.draft_id, draftIds))
+    .execute();
+
+  return new Map(cells.map(cell => [cell.id, toCellState(cell)]));
+};
+
+/**
+ * Digest of a set of cell states; equal digests mean equal cells
+ */
+const digestStates = (states: Map<number, ScheduleCellState>): string => {
+  const hash = createHash('sha256');
+  for (const id of [...states.keys()].sort((a, b) => a - b)) {
+    const state = states.get(id)!;
+    hash.update(JSON.stringify(state, Object.keys(state).sort()));
+  }
+  return hash.digest('hex');
+};
+
+/**
+ * Record a schedule command
+ * Appends an edit to the journal of an editing session on the caller's executor, so
+ * it commits together with the edit; commands undone earlier can no longer be redone.
+ * Must run after the edit: the entry keeps digests of the touched drafts before and
+ * after it
+ */
+export const recordScheduleCommand = async (
+  executor: DbExecutor,
+  sessionId: string,
+  academicYearId: number,
+  operation: ScheduleOperation,
+  changes: ScheduleCellChange[]
+): Promise<void> => {
+  if (changes.length === 0) return;
+
+  const scope = and(
+    eq(scheduleJournalTable.session_id, sessionId),
+    eq(scheduleJournalTable.academic_year_id, academicYearId)
+  );
+
+  await executor.delete(scheduleJournalTable)
+    .where(and(scope, eq(scheduleJournalTable.is_undone, true)))
+    .execute();
+
+  const states = await loadDraftStates(executor, touchedDrafts(changes));
+  const afterDigest = digestStates(states);
+  for (const change of [...changes].reverse()) {
+    if (change.after !== null) states.delete(change.schedule_id);
+    if (change.before !== null) states.set(change.schedule_id, change.before);
+  }
+
+  await executor.insert(scheduleJournalTable)
+    .values({
+      session_id: sessionId,
+      academic_year_id: academicYearId,
+      operation,
+      changes,
+      before_digest: digestStates(states),
+      after_digest: afterDigest
+    })
+    .execute();
+};
+
+/**
+ * Bring the cells of a journal entry from one recorded state to the other; refuses
+ * when anything changed the touched drafts since, e.g. the generator or a lock
+ * outside the session, or when a cell no longer matches the state the entry expects
+ */
+const applyCellStates = async (
+  executor: DbExecutor,
+  entry: ScheduleJournalEntry,
+  direction: 'undo' | 'redo'
+): Promise<void> => {
+  const { changes } = entry;
+
+  const digest = digestStates(await loadDraftStates(executor, touchedDrafts(changes)));
+  if (digest !== (direction === 'undo' ? entry.after_digest : entry.before_digest)) {
+    throw new Error('The schedule was changed outside this session since this edit and cannot be restored');
+  }
+
+  const ordered = direction === 'undo' ? [...changes].reverse() : changes;
+
+  for (const change of ordered) {
+    const expected = direction === 'undo' ? change.after : change.before;
+    const target = direction === 'undo' ? change.before : change.after;
+
+    const current = await executor.select()
+      .from(schedulesTable)
+      .where(eq(schedulesTable.id, change.schedule_id))
+      .execute();
+
+    if (!sameState(current.length > 0 ? toCellState(current[0]) : null, expected)) {
+      throw new Error(`Schedule with id ${change.schedule_id} was changed outside this session and cannot be restored`);
+    }
+
+    for (const draftId of new Set([expected?.draft_id, target?.draft_id])) {
+      if (draftId !== undefined) await assertDraftEditable(executor, draftId);
+    }
+
+    if (target === null) {
+      await executor.delete(schedulesTable)
+        .where(eq(schedulesTable.id, change.schedule_id))
+        .execute();
+    } else if (expected === null) {
+      await executor.insert(schedulesTable)
+        .values(target)
+        .execute();
+    } else {
+      await executor.update(schedulesTable)
+        .set({
+          ...target,
+          updated_at: new Date()
+        })
+        .where(eq(schedulesTable.id, change.schedule_id))
+        .execute();
+    }
+  }
+};
+
+/**
+ * Undo schedule command
+ * Reverts the latest edit of an editing session that is not undone yet; returns the
+ * reverted entry, or null when there is nothing to undo
+ */
+export const undoScheduleCommand = async (sessionId: string, academicYearId: number): Promise<ScheduleJournalEntry | null> => {
+  try {
+    return await db.transaction(async (tx) => {
+      const latest = await tx.select()
+        .from(scheduleJournalTable)
+        .where(and(
+          eq(scheduleJournalTable.session_id, sessionId),
+          eq(scheduleJournalTable.academic_year_id, academicYearId),
+          eq(scheduleJournalTable.is_undone, false)
+        ))
+        .orderBy(desc(scheduleJournalTable.id))
+        .limit(1)
+        .execute();
+
+      if (latest.length === 0) return null;
+
+      await applyCellStates(tx, latest[0], 'undo');
+
+      const result = await tx.update(scheduleJournalTable)
+        .set({ is_undone: true })
+        .where(eq(scheduleJournalTable.id, latest[0].id))
+        .returning()
+        .execute();
+
+      return result[0];
+    });
+  } catch (error) {
+    console.error('Schedule undo failed:', error);
+    throw error;
+  }
+};
+
+/**
+ * Redo schedule command
+ * Re-applies the earliest undone edit of an editing session; returns the entry, or
+ * null when there is nothing to redo
+ */
+export const redoScheduleCommand = async (sessionId: string, academicYearId: number): Promise<ScheduleJournalEntry | null> => {
+  try {
+    return await db.transaction(async (tx) => {
+      const next = await tx.select()
+        .from(scheduleJournalTable)
+        .where(and(
+          eq(scheduleJournalTable.session_id, sessionId),
+          eq(scheduleJournalTable.academic_year_id, academicYearId),
+          eq(scheduleJournalTable.is_undone, true)
+        ))
+        .orderBy(asc(scheduleJournalTable.id))
+        .limit(1)
+        .execute();
+
+      if (next.length === 0) return null;
+
+      await applyCellStates(tx, next[0], 'redo');
+
+      const result = await tx.update(scheduleJournalTable)
+        .set({ is_undone: false })
+        .where(eq(scheduleJournalTable.id, next[0].id))
+        .returning()
+        .execute();
+
+      return result[0];
+    });
+  } catch (error) {
+    console.error('Schedule redo failed:', error);
+    throw error;
+  }
+};
+
+/**
+ * Get schedule journal
+ * Returns the edits of an editing session, oldest first, including undone ones
+ */
+export const getScheduleJournal = async (sessionId: string, academicYearId: number): Promise<ScheduleJournalEntry[]> => {
+  try {
+    const result = await db.select()
+      .from(scheduleJournalTable)
+      .where(and(
+        eq(scheduleJournalTable.session_id, sessionId),
+        eq(scheduleJournalTable.academic_year_id, academicYearId)
+      ))
+      .orderBy(asc(scheduleJournalTable.id))
+      .execute();
+
+    return result;
+  } catch (error) {
+    console.error('Failed to get schedule journal:', error);
+    throw error;
+  }
+};
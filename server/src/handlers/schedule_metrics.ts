@@ -0,0 +1,339 @@
+import { db, type DbExecutor } from '../db';
+import {
+  schedulesTable,
+  teachersTable,
+  jtmAssignmentsTable,
+  timeSlotsTable,
+  classesTable,
+  subjectsTable,
+  teacherAvailabilityTable,
+  schedulingRulesTable
+} from '../db/schema';
+import { type ScheduleDraftStatus } from '../schema';
+import { findScheduleDraft } from './schedule_drafts';
+import {
+  measureTeacherLoad,
+  scoreTeacherRules,
+  TEACHER_RULE_TYPES,
+  type TeacherLoadMetrics
+} from '../helpers/teacher_load';
+import {
+  availabilityCovers,
+  scoreSoftRules,
+  type SolverRule,
+  type SolverTimedSlot
+} from '../helpers/timetable_solver';
+import { buildSlotClock, findTeacherOverlaps } from '../helpers/time_intervals';
+import { eq, and, asc, inArray, isNotNull } from 'drizzle-orm';
+
+export type TeacherLoadRow = TeacherLoadMetrics & {
+  teacher_id: number;
+  teacher_name: string;
+  weekly_jtm: number;
+};
+
+export type DraftScorecard = {
+  draft_id: number;
+  draft_name: string;
+  status: ScheduleDraftStatus;
+  hard_violations: number; // sum of the three hard counts below
+  double_booked_jp: number; // lessons of a teacher overlapping an earlier lesson in clock time
+  unavailable_jp: number; // lessons in a slot the teacher is unavailable
+  unplaced_jp: number; // JTM hours without a cell
+  soft_penalty: number; // class and teacher soft rules together
+  teacher_gaps: number;
+  subject_spread: number; // 1 when every subject is taught on as many days as it can be
+  teachers_with_five_day_week: number;
+};
+
+type ScorecardMetric = Exclude<keyof DraftScorecard, 'draft_id' | 'draft_name' | 'status'>;
+
+// Scorecard metrics in order of importance when recommending a draft
+const SCORECARD_METRICS: Array<{ metric: ScorecardMetric; higher_is_better: boolean }> = [
+  { metric: 'hard_violations', higher_is_better: false },
+  { metric: 'soft_penalty', higher_is_better: false },
+  { metric: 'teacher_gaps', higher_is_better: false },
+  { metric: 'subject_spread', higher_is_better: true },
+  { metric: 'teachers_with_five_day_week', higher_is_better: false },
+  { metric: 'double_booked_jp', higher_is_better: false },
+  { metric: 'unavailable_jp', higher_is_better: false },
+  { metric: 'unplaced_jp', higher_is_better: false }
+];
+
+/**
+ * Day structure of a draft: every slot of the templates its cells use, with its
+ * clock times, so the days of teachers moving between templates line up
+ */
+const loadDraftTimeline = async (executor: DbExecutor, templateIds: number[]): Promise<SolverTimedSlot[]> => {
+  if (templateIds.length === 0) return [];
+
+  return await executor.select({
+    template_id: timeSlotsTable.template_id,
+    day_of_week: timeSlotsTable.day_of_week,
+    jp_number: timeSlotsTable.jp_number,
+    start_time: timeSlotsTable.start_time,
+    end_time: timeSlotsTable.end_time,
+    slot_type: timeSlotsTable.slot_type
+  })
+    .from(timeSlotsTable)
+    .where(inArray(timeSlotsTable.template_id, templateIds))
+    .orderBy(asc(timeSlotsTable.template_id), asc(timeSlotsTable.day_of_week), asc(timeSlotsTable.jp_number))
+    .execute();
+};
+
+/**
+ * Measure the load of every teacher with lessons or JTM in a draft's academic year
+ */
+export const measureDraftTeacherLoad = async (executor: DbExecutor, draftId: number): Promise<TeacherLoadRow[]> => {
+  const draft = await findScheduleDraft(executor, draftId);
+
+  const cells = await executor.select({
+    teacher_id: schedulesTable.teacher_id,
+    template_id: schedulesTable.template_id,
+    day_of_week: schedulesTable.day_of_week,
+    jp_number: schedulesTable.jp_number
+  })
+    .from(schedulesTable)
+    .where(and(
+      eq(schedulesTable.draft_id, draftId),
+      isNotNull(schedulesTable.teacher_id)
+    ))
+    .execute();
+
+  const assignments = await executor.select({
+    teacher_id: jtmAssignmentsTable.teacher_id,
+    allocated_hours: jtmAssignmentsTable.allocated_hours
+  })
+    .from(jtmAssignmentsTable)
+    .where(eq(jtmAssignmentsTable.academic_year_id, draft.academic_year_id))
+    .execute();
+
+  const teacherIds = [...new Set([
+    ...cells.map(cell => cell.teacher_id!),
+    ...assignments.map(assignment => assignment.teacher_id)
+  ])];
+  if (teacherIds.length === 0) return [];
+
+  const teachers = await executor.select()
+    .from(teachersTable)
+    .where(inArray(teachersTable.id, teacherIds))
+    .orderBy(asc(teachersTable.name))
+    .execute();
+
+  const timeline = await loadDraftTimeline(executor, [...new Set(cells.map(cell => cell.template_id))]);
+
+  return teachers.map(teacher => ({
+    teacher_id: teacher.id,
+    teacher_name: teacher.name,
+    weekly_jtm: assignments
+      .filter(assignment => assignment.teacher_id === teacher.id)
+      .reduce((sum, assignment) => sum + assignment.allocated_hours, 0),
+    ...measureTeacherLoad(timeline, cells.filter(cell => cell.teacher_id === teacher.id))
+  }));
+};
+
+/**
+ * Get teacher load report
+ * Measures every teacher's week in a timetable version, published or not: JP per
+ * day, longest run without a break, idle JP between lessons and how evenly lessons
+ * are spread, with school-wide totals so drafts can be compared side by side
+ */
+export const getTeacherLoadReport = async (draftId: number): Promise<{
+  draft_id: number;
+  teachers: TeacherLoadRow[];
+  total_gaps: number;
+  max_daily_jp: number;
+  teachers_with_free_day: number;
+}> => {
+  try {
+    const teachers = await measureDraftTeacherLoad(db, draftId);
+
+    return {
+      draft_id: draftId,
+      teachers,
+      total_gaps: teachers.reduce((sum, teacher) => sum + teacher.gaps_per_week, 0),
+      max_daily_jp: Math.max(0, ...teachers.map(teacher => teacher.max_daily_jp)),
+      teachers_with_free_day: teachers.filter(teacher => teacher.weekly_jp > 0 && teacher.free_days > 0).length
+    };
+  } catch (error) {
+    console.error('Teacher load report generation failed:', error);
+    throw error;
+  }
+};
+
+/**
+ * Measure the scorecard of a draft: hard constraint breaches, soft rule penalties
+ * and how the week is laid out for subjects and teachers
+ */
+export const measureDraftScorecard = async (executor: DbExecutor, draftId: number): Promise<DraftScorecard> => {
+  const draft = await findScheduleDraft(executor, draftId);
+  const academicYearId = draft.academic_year_id;
+
+  const cells = await executor.select({
+    class_id: schedulesTable.class_id,
+    class_name: classesTable.class_name,
+    template_id: schedulesTable.template_id,
+    day_of_week: schedulesTable.day_of_week,
+    jp_number: schedulesTable.jp_number,
+    subject_id: schedulesTable.subject_id,
+    subject_name: subjectsTable.name,
+    teacher_id: schedulesTable.teacher_id
+  })
+    .from(schedulesTable)
+    .innerJoin(classesTable, eq(schedulesTable.class_id, classesTable.id))
+    .leftJoin(subjectsTable, eq(schedulesTable.subject_id, subjectsTable.id))
+    .where(eq(schedulesTable.draft_id, draftId))
+    .orderBy(asc(schedulesTable.id))
+    .execute();
+
+  const assignments = await executor.select()
+    .from(jtmAssignmentsTable)
+    .where(eq(jtmAssignmentsTable.academic_year_id, academicYearId))
+    .execute();
+
+  const unavailable = await executor.select()
+    .from(teacherAvailabilityTable)
+    .where(and(
+      eq(teacherAvailabilityTable.academic_year_id, academicYearId),
+      eq(teacherAvailabilityTable.availability_type, 'unavailable')
+    ))
+    .execute();
+
+  const ruleRows = await executor.select()
+    .from(schedulingRulesTable)
+    .where(and(
+      eq(schedulingRulesTable.academic_year_id, academicYearId),
+      eq(schedulingRulesTable.is_active, true)
+    ))
+    .orderBy(asc(schedulingRulesTable.id))
+    .execute();
+
+  const rules: SolverRule[] = ruleRows.map(rule => ({
+    rule_id: rule.id,
+    rule_type: rule.rule_type,
+    subject_id: rule.subject_id,
+    slot_type: rule.slot_type,
+    value: rule.value,
+    weight: rule.weight
+  }));
+
+  const teachers = await measureDraftTeacherLoad(executor, draftId);
+  const timeline = await loadDraftTimeline(executor, [...new Set(cells.map(cell => cell.template_id))]);
+  const schoolDays = new Set(timeline.map(slot => slot.day_of_week)).size;
+
+  // Hard constraints
+  const teacherCells = cells.filter(cell => cell.teacher_id !== null);
+  const clock = buildSlotClock(timeline);
+  const doubleBooked = findTeacherOverlaps(clock, teacherCells).length;
+  const unavailableJp = teacherCells.filter(cell =>
+    unavailable.some(entry => entry.teacher_id === cell.teacher_id && availabilityCovers(entry, cell))
+  ).length;
+  const unplacedJp = assignments.reduce((sum, assignment) => sum + Math.max(assignment.allocated_hours - cells.filter(cell =>
+    cell.class_id === assignment.class_id &&
+    cell.subject_id === assignment.subject_id &&
+    cell.teacher_id === assignment.teacher_id
+  ).length, 0), 0);
+
+  // Soft rules
+  // Class rules read the bell of the template each class follows
+  const classes = [...new Map(cells.map(cell => {
+    const classTimeline = timeline.filter(slot => slot.template_id === cell.template_id);
+    return [cell.class_id, {
+      class_id: cell.class_id,
+      class_name: cell.class_name,
+      template_id: cell.template_id,
+      slots: classTimeline.filter(slot => slot.slot_type === 'belajar'),
+      timeline: classTimeline
+    }];
+  })).values()];
+  const classPenalty = scoreSoftRules(
+    classes,
+    cells,
+    rules.filter(rule => !TEACHER_RULE_TYPES.includes(rule.rule_type))
+  ).total_penalty;
+  const teacherPenalty = scoreTeacherRules(timeline, teachers.map(teacher => ({
+    teacher_id: teacher.teacher_id,
+    teacher_name: teacher.teacher_name,
+    weekly_jtm: teacher.weekly_jtm,
+    lessons: teacherCells.filter(cell => cell.teacher_id === teacher.teacher_id)
+  })), rules).total_penalty;
+
+  // Days a subject is taught on, against the days its hours could cover
+  const subjectDays = new Map<string, { days: Set<number>; hours: number }>();
+  for (const cell of cells) {
+    if (cell.subject_id === null) continue;
+    const key = `${cell.class_id}:${cell.subject_id}`;
+    const entry = subjectDays.get(key) ?? { days: new Set<number>(), hours: 0 };
+    entry.days.add(cell.day_of_week);
+    entry.hours++;
+    subjectDays.set(key, entry);
+  }
+  const spreads = [...subjectDays.values()].map(entry => entry.days.size / Math.max(1, Math.min(entry.hours, schoolDays)));
+  const subjectSpread = spreads.length > 0
+    ? Math.round(spreads.reduce((sum, spread) => sum + spread, 0) / spreads.length * 100) / 100
+    : 0;
+
+  return {
+    draft_id: draft.id,
+    draft_name: draft.name,
+    status: draft.status,
+    hard_violations: doubleBooked + unavailableJp + unplacedJp,
+    double_booked_jp: doubleBooked,
+    unavailable_jp: unavailableJp,
+    unplaced_jp: unplacedJp,
+    soft_penalty: classPenalty + teacherPenalty,
+    teacher_gaps: teachers.reduce((sum, teacher) => sum + teacher.gaps_per_week, 0),
+    subject_spread: subjectSpread,
+    teachers_with_five_day_week: teachers.filter(teacher => teacher.teaching_days >= 5).length
+  };
+};
+
+/**
+ * Pick the draft to recommend from a set of scorecards: fewest hard violations
+ * first, the other metrics break ties in order of importance
+ */
+export const recommendScorecard = (scorecards: DraftScorecard[]): DraftScorecard => [...scorecards].sort((a, b) => {
+  for (const { metric, higher_is_better } of SCORECARD_METRICS) {
+    const difference = higher_is_better ? b[metric] - a[metric] : a[metric] - b[metric];
+    if (difference !== 0) return difference;
+  }
+  return a.draft_id - b.draft_id;
+})[0];
+
+/**
+ * Compare schedule candidates
+ * Puts the scorecards of several drafts of an academic year side by side, names the
+ * drafts with the best value of each metric and recommends one to publish
+ */
+export const compareScheduleCandidates = async (draftIds: number[]): Promise<{
+  candidates: DraftScorecard[];
+  best: Record<ScorecardMetric, number[]>;
+  recommended_draft_id: number;
+}> => {
+  try {
+    const drafts = await Promise.all(draftIds.map(draftId => findScheduleDraft(db, draftId)));
+    if (new Set(drafts.map(draft => draft.academic_year_id)).size > 1) {
+      throw new Error('Only drafts of the same academic year can be compared');
+    }
+
+    const candidates: DraftScorecard[] = [];
+    for (const draftId of draftIds) {
+      candidates.push(await measureDraftScorecard(db, draftId));
+    }
+
+    const best = Object.fromEntries(SCORECARD_METRICS.map(({ metric, higher_is_better }) => {
+      const values = candidates.map(candidate => candidate[metric]);
+      const target = higher_is_better ? Math.max(...values) : Math.min(...values);
+      return [metric, candidates.filter(candidate => candidate[metric] === target).map(candidate => candidate.draft_id)];
+    })) as Record<ScorecardMetric, number[]>;
+
+    return {
+      candidates,
+      best,
+      recommended_draft_id: recommendScorecard(candidates).draft_id
+    };
+  } catch (error) {
+    console.error('Schedule candidate comparison failed:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,281 @@
+import { db, type DbExecutor } from '../db';
+import {
+  scheduleSnapshotsTable,
+  scheduleSnapshotCellsTable,
+  schedulesTable,
+  classesTable,
+  subjectsTable,
+  teachersTable
+} from '../db/schema';
+import { type ScheduleDraft, type ScheduleSnapshot, type ScheduleSnapshotReason } from '../schema';
+import { eq, asc } from 'drizzle-orm';
+
+type SnapshotLesson = {
+  class_id: number;
+  class_name: string | null;
+  subject_id: number | null;
+  subject_name: string | null;
+  teacher_id: number | null;
+  teacher_name: string | null;
+};
+
+type SnapshotSlot = {
+  day_of_week: number;
+  jp_number: number;
+};
+
+type MovedLesson = SnapshotLesson & {
+  from: SnapshotSlot;
+  to: SnapshotSlot;
+};
+
+type TeacherChange = SnapshotSlot & {
+  class_id: number;
+  class_name: string | null;
+  subject_id: number | null;
+  subject_name: string | null;
+  from_teacher_id: number | null;
+  from_teacher_name: string | null;
+  to_teacher_id: number | null;
+  to_teacher_name: string | null;
+};
+
+type AffectedTeacher = {
+  teacher_id: number;
+  teacher_name: string | null;
+  changes: string[];
+};
+
+type SnapshotCell = SnapshotLesson & SnapshotSlot;
+
+/**
+ * Record a schedule snapshot
+ * Copies every cell of a draft as it is now; runs on the caller's executor so the
+ * snapshot commits together with the publication or regeneration that caused it
+ */
+export const recordScheduleSnapshot = async (
+  executor: DbExecutor,
+  draft: ScheduleDraft,
+  reason: ScheduleSnapshotReason
+): Promise<ScheduleSnapshot> => {
+  const [snapshot] = await executor.insert(scheduleSnapshotsTable)
+    .values({
+      academic_year_id: draft.academic_year_id,
+      draft_id: draft.id,
+      reason
+    })
+    .returning()
+    .execute();
+
+  const cells = await executor.select()
+    .from(schedulesTable)
+    .where(eq(schedulesTable.draft_id, draft.id))
+    .execute();
+
+  if (cells.length > 0) {
+    await executor.insert(scheduleSnapshotCellsTable)
+      .values(cells.map(cell => ({
+        snapshot_id: snapshot.id,
+        class_id: cell.class_id,
+        template_id: cell.template_id,
+        day_of_week: cell.day_of_week,
+        jp_number: cell.jp_number,
+        subject_id: cell.subject_id,
+        teacher_id: cell.teacher_id,
+        is_manual: cell.is_manual
+      })))
+      .execute();
+  }
+
+  return snapshot;
+};
+
+/**
+ * Get schedule snapshots by academic year
+ * Returns the timetable history of an academic year, oldest first
+ */
+export const getScheduleSnapshots = async (academicYearId: number): Promise<ScheduleSnapshot[]> => {
+  try {
+    const result = await db.select()
+      .from(scheduleSnapshotsTable)
+      .where(eq(scheduleSnapshotsTable.academic_year_id, academicYearId))
+      .orderBy(asc(scheduleSnapshotsTable.id))
+      .execute();
+
+    return result;
+  } catch (error) {
+    console.error('Failed to get schedule snapshots:', error);
+    throw error;
+  }
+};
+
+/**
+ * Load the cells of a snapshot with class, subject and teacher names
+ */
+const loadSnapshotCells = async (snapshotId: number): Promise<{ snapshot: ScheduleSnapshot; cells: SnapshotCell[] }> => {
+  const snapshot = await db.select()
+    .from(scheduleSnapshotsTable)
+    .where(eq(scheduleSnapshotsTable.id, snapshotId))
+    .execute();
+
+  if (snapshot.length === 0) {
+    throw new Error(`Schedule snapshot with id ${snapshotId} not found`);
+  }
+
+  const cells = await db.select({
+    class_id: scheduleSnapshotCellsTable.class_id,
+    class_name: classesTable.class_name,
+    day_of_week: scheduleSnapshotCellsTable.day_of_week,
+    jp_number: scheduleSnapshotCellsTable.jp_number,
+    subject_id: scheduleSnapshotCellsTable.subject_id,
+    subject_name: subjectsTable.name,
+    teacher_id: scheduleSnapshotCellsTable.teacher_id,
+    teacher_name: teachersTable.name
+  })
+    .from(scheduleSnapshotCellsTable)
+    .leftJoin(classesTable, eq(scheduleSnapshotCellsTable.class_id, classesTable.id))
+    .leftJoin(subjectsTable, eq(scheduleSnapshotCellsTable.subject_id, subjectsTable.id))
+    .leftJoin(teachersTable, eq(scheduleSnapshotCellsTable.teacher_id, teachersTable.id))
+    .where(eq(scheduleSnapshotCellsTable.snapshot_id, snapshotId))
+    .orderBy(
+      asc(scheduleSnapshotCellsTable.class_id),
+      asc(scheduleSnapshotCellsTable.day_of_week),
+      asc(scheduleSnapshotCellsTable.jp_number)
+    )
+    .execute();
+
+  return { snapshot: snapshot[0], cells };
+};
+
+const positionKey = (cell: SnapshotCell): string => `${cell.class_id}:${cell.day_of_week}:${cell.jp_number}`;
+
+const lessonKey = (cell: SnapshotCell): string => `${cell.class_id}:${cell.subject_id}:${cell.teacher_id}`;
+
+const slotLabel = (slot: SnapshotSlot): string => `day ${slot.day_of_week} JP ${slot.jp_number}`;
+
+const lessonLabel = (lesson: Pick<SnapshotLesson, 'class_id' | 'class_name' | 'subject_name'>): string =>
+  `${lesson.subject_name ?? 'Empty cell'} ${lesson.class_name ?? `class ${lesson.class_id}`}`;
+
+const toLesson = (cell: SnapshotCell): SnapshotLesson => ({
+  class_id: cell.class_id,
+  class_name: cell.class_name,
+  subject_id: cell.subject_id,
+  subject_name: cell.subject_name,
+  teacher_id: cell.teacher_id,
+  teacher_name: cell.teacher_name
+});
+
+/**
+ * Diff schedule snapshots
+ * Compares two versions of a timetable: cells keeping their subject but changing
+ * teacher, lessons of the same class, subject and teacher that moved to another
+ * slot, and the cells that were added or removed outright. Each affected teacher
+ * gets a list of the changes that concern them
+ */
+export const diffScheduleSnapshots = async (fromSnapshotId: number, toSnapshotId: number): Promise<{
+  moved: MovedLesson[];
+  teacher_changes: TeacherChange[];
+  added: SnapshotCell[];
+  removed: SnapshotCell[];
+  affected_teachers: AffectedTeacher[];
+}> => {
+  try {
+    const from = await loadSnapshotCells(fromSnapshotId);
+    const to = await loadSnapshotCells(toSnapshotId);
+
+    if (from.snapshot.academic_year_id !== to.snapshot.academic_year_id) {
+      throw new Error('Only snapshots of the same academic year can be compared');
+    }
+
+    // Cells holding the same lesson in the same slot did not change
+    const unchanged = new Set(from.cells
+      .filter(cell => to.cells.some(other => positionKey(other) === positionKey(cell) && lessonKey(other) === lessonKey(cell)))
+      .map(positionKey));
+    let fromRest = from.cells.filter(cell => !unchanged.has(positionKey(cell)));
+    let toRest = to.cells.filter(cell => !unchanged.has(positionKey(cell)));
+
+    // Same slot and subject, another teacher
+    const teacherChanges: TeacherChange[] = [];
+    const changedSlots = new Set<string>();
+    for (const cell of fromRest) {
+      const other = toRest.find(candidate =>
+        positionKey(candidate) === positionKey(cell) && candidate.subject_id === cell.subject_id
+      );
+      if (!other) continue;
+
+      changedSlots.add(positionKey(cell));
+      teacherChanges.push({
+        class_id: cell.class_id,
+        class_name: cell.class_name,
+        subject_id: cell.subject_id,
+        subject_name: cell.subject_name,
+        day_of_week: cell.day_of_week,
+        jp_number: cell.jp_number,
+        from_teacher_id: cell.teacher_id,
+        from_teacher_name: cell.teacher_name,
+        to_teacher_id: other.teacher_id,
+        to_teacher_name: other.teacher_name
+      });
+    }
+    fromRest = fromRest.filter(cell => !changedSlots.has(positionKey(cell)));
+    toRest = toRest.filter(cell => !changedSlots.has(positionKey(cell)));
+
+    // A lesson that left one slot and appears in another of the same class moved
+    const moved: MovedLesson[] = [];
+    const removed: SnapshotCell[] = [];
+    const pending = [...toRest];
+    for (const cell of fromRest) {
+      const index = pending.findIndex(candidate => lessonKey(candidate) === lessonKey(cell));
+      if (index === -1) {
+        removed.push(cell);
+        continue;
+      }
+
+      const [target] = pending.splice(index, 1);
+      moved.push({
+        ...toLesson(cell),
+        from: { day_of_week: cell.day_of_week, jp_number: cell.jp_number },
+        to: { day_of_week: target.day_of_week, jp_number: target.jp_number }
+      });
+    }
+    const added = pending;
+
+    const affected = new Map<number, AffectedTeacher>();
+    const note = (teacherId: number | null, teacherName: string | null, change: string) => {
+      if (teacherId === null) return;
+      if (!affected.has(teacherId)) {
+        affected.set(teacherId, { teacher_id: teacherId, teacher_name: teacherName, changes: [] });
+      }
+      affected.get(teacherId)!.changes.push(change);
+    };
+
+    for (const lesson of moved) {
+      note(lesson.teacher_id, lesson.teacher_name,
+        `${lessonLabel(lesson)} moved from ${slotLabel(lesson.from)} to ${slotLabel(lesson.to)}`);
+    }
+    for (const change of teacherChanges) {
+      const label = `${lessonLabel(change)} on ${slotLabel(change)}`;
+      note(change.from_teacher_id, change.from_teacher_name,
+        `${label} handed over to ${change.to_teacher_name ?? 'no teacher'}`);
+      note(change.to_teacher_id, change.to_teacher_name,
+        `${label} taken over from ${change.from_teacher_name ?? 'no teacher'}`);
+    }
+    for (const cell of added) {
+      note(cell.teacher_id, cell.teacher_name, `${lessonLabel(cell)} added on ${slotLabel(cell)}`);
+    }
+    for (const cell of removed) {
+      note(cell.teacher_id, cell.teacher_name, `${lessonLabel(cell)} removed from ${slotLabel(cell)}`);
+    }
+
+    return {
+      moved,
+      teacher_changes: teacherChanges,
+      added,
+      removed,
+      affected_teachers: [...affected.values()].sort((a, b) => a.teacher_id - b.teacher_id)
+    };
+  } catch (error) {
+    console.error('Schedule snapshot diff failed:', error);
+    throw error;
+  }
+};
@@ -1,62 +1,188 @@
-import { db } from '../db';
-import { schedulesTable, academicYearsTable, classesTable, scheduleTemplatesTable, subjectsTable, teachersTable } from '../db/schema';
-import { type CreateScheduleInput, type UpdateScheduleInput, type Schedule } from '../schema';
-import { eq } from 'drizzle-orm';
+import { db, type DbExecutor } from '../db';
+import { schedulesTable, academicYearsTable, classesTable, scheduleTemplatesTable, subjectsTable, teachersTable, jtmAssignmentsTable, timeSlotsTable, classTemplatesTable, scheduleDraftsTable } from '../db/schema';
+import { type CreateScheduleInput, type UpdateScheduleInput, type Schedule, type ScheduleDetail, type ScheduleCellChange } from '../schema';
+import { findBlockingAvailability } from './teacher_availability';
+import { assertDraftEditable, getPublishedScheduleDraft } from './schedule_drafts';
+import { recordScheduleCommand, toCellState } from './schedule_journal';
+import { findBlockRun } from '../helpers/timetable_solver';
+import { buildSlotClock, cellsOverlap } from '../helpers/time_intervals';
+import { eq, and, asc, ne, getTableColumns, TransactionRollbackError } from 'drizzle-orm';
+
+type ScheduleConflict = {
+  type:
+    | 'teacher_conflict'
+    | 'allocation_exceeded'
+    | 'invalid_slot'
+    | 'teacher_mismatch'
+    | 'teacher_unavailable'
+    | 'block_violation'
+    | 'slot_occupied'
+    | 'template_mismatch';
+  message: string;
+  conflicting_schedule_id?: number;
+};
 
 /**
- * Create a new schedule entry
- * Handles manual schedule entry creation
+ * Verify the records a schedule cell points to exist
  */
-export const createSchedule = async (input: CreateScheduleInput): Promise<Schedule> => {
-  try {
-    // Validate foreign key relationships
-    const academicYear = await db.select().from(academicYearsTable).where(eq(academicYearsTable.id, input.academic_year_id)).execute();
-    if (academicYear.length === 0) {
-      throw new Error(`Academic year with id ${input.academic_year_id} not found`);
-    }
+const assertScheduleReferences = async (executor: DbExecutor, cell: {
+  draft_id: number;
+  academic_year_id: number;
+  class_id: number;
+  template_id: number;
+  day_of_week: number;
+  jp_number: number;
+  subject_id?: number | null;
+  teacher_id?: number | null;
+}): Promise<void> => {
+  // Validate foreign key relationships
+  const academicYear = await executor.select().from(academicYearsTable).where(eq(academicYearsTable.id, cell.academic_year_id)).execute();
+  if (academicYear.length === 0) {
+    throw new Error(`Academic year with id ${cell.academic_year_id} not found`);
+  }
 
-    const classRecord = await db.select().from(classesTable).where(eq(classesTable.id, input.class_id)).execute();
-    if (classRecord.length === 0) {
-      throw new Error(`Class with id ${input.class_id} not found`);
-    }
+  const draft = await assertDraftEditable(executor, cell.draft_id);
+  if (draft.academic_year_id !== cell.academic_year_id) {
+    throw new Error(`Schedule draft ${draft.name} belongs to another academic year`);
+  }
 
-    const template = await db.select().from(scheduleTemplatesTable).where(eq(scheduleTemplatesTable.id, input.template_id)).execute();
-    if (template.length === 0) {
-      throw new Error(`Schedule template with id ${input.template_id} not found`);
-    }
+  const classRecord = await executor.select().from(classesTable).where(eq(classesTable.id, cell.class_id)).execute();
+  if (classRecord.length === 0) {
+    throw new Error(`Class with id ${cell.class_id} not found`);
+  }
 
-    // Validate optional foreign keys if provided
-    if (input.subject_id !== null && input.subject_id !== undefined) {
-      const subject = await db.select().from(subjectsTable).where(eq(subjectsTable.id, input.subject_id)).execute();
-      if (subject.length === 0) {
-        throw new Error(`Subject with id ${input.subject_id} not found`);
-      }
+  const template = await executor.select().from(scheduleTemplatesTable).where(eq(scheduleTemplatesTable.id, cell.template_id)).execute();
+  if (template.length === 0) {
+    throw new Error(`Schedule template with id ${cell.template_id} not found`);
+  }
+
+  // Validate optional foreign keys if provided
+  if (cell.subject_id !== null && cell.subject_id !== undefined) {
+    const subject = await executor.select().from(subjectsTable).where(eq(subjectsTable.id, cell.subject_id)).execute();
+    if (subject.length === 0) {
+      throw new Error(`Subject with id ${cell.subject_id} not found`);
     }
+  }
 
-    if (input.teacher_id !== null && input.teacher_id !== undefined) {
-      const teacher = await db.select().from(teachersTable).where(eq(teachersTable.id, input.teacher_id)).execute();
-      if (teacher.length === 0) {
-        throw new Error(`Teacher with id ${input.teacher_id} not found`);
-      }
+  if (cell.teacher_id !== null && cell.teacher_id !== undefined) {
+    const teacher = await executor.select().from(teachersTable).where(eq(teachersTable.id, cell.teacher_id)).execute();
+    if (teacher.length === 0) {
+      throw new Error(`Teacher with id ${cell.teacher_id} not found`);
     }
+  }
+};
 
-    // Insert schedule record
-    const result = await db.insert(schedulesTable)
-      .values({
-        academic_year_id: input.academic_year_id,
-        class_id: input.class_id,
-        template_id: input.template_id,
-        day_of_week: input.day_of_week,
-        jp_number: input.jp_number,
-        subject_id: input.subject_id || null,
-        teacher_id: input.teacher_id || null,
-        is_manual: input.is_manual,
-        is_cached: input.is_cached !== undefined ? input.is_cached : true
-      })
-      .returning()
-      .execute();
+/**
+ * Find a cell whose draft may still change
+ */
+const findEditableCell = async (executor: DbExecutor, id: number): Promise<Schedule | null> => {
+  const existing = await executor.select()
+    .from(schedulesTable)
+    .where(eq(schedulesTable.id, id))
+    .execute();
+
+  if (existing.length === 0) return null;
+
+  await assertDraftEditable(executor, existing[0].draft_id);
+  return existing[0];
+};
+
+/**
+ * The draft a timetable view reads: the requested one, or the published version of
+ * the academic year
+ */
+const resolveViewDraftId = async (academicYearId: number, draftId?: number): Promise<number | null> => {
+  if (draftId !== undefined) return draftId;
+
+  const published = await getPublishedScheduleDraft(academicYearId);
+  return published?.id ?? null;
+};
+
+/**
+ * Lock a draft until the transaction ends, so concurrent writes to its cells are
+ * checked for conflicts one after another
+ */
+const lockDraft = async (executor: DbExecutor, draftId: number): Promise<void> => {
+  await executor.select({ id: scheduleDraftsTable.id })
+    .from(scheduleDraftsTable)
+    .where(eq(scheduleDraftsTable.id, draftId))
+    .for('update')
+    .execute();
+};
+
+/**
+ * Refuse a write that would create schedule conflicts unless explicitly overridden
+ */
+const assertNoConflicts = async (executor: DbExecutor, cell: CreateScheduleInput, excludeId?: number): Promise<void> => {
+  if (cell.override) return;
+
+  const conflicts = await collectConflicts(executor, cell, excludeId);
+  if (conflicts.length > 0) {
+    throw new Error(`Schedule conflicts found: ${conflicts.map(conflict => conflict.message).join('; ')}`);
+  }
+};
+
+/**
+ * Schedule cells joined with class, subject, teacher and the matching time slot of
+ * their template, ready for a timetable grid
+ */
+const selectScheduleDetails = () =>
+  db.select({
+    ...getTableColumns(schedulesTable),
+    class_name: classesTable.class_name,
+    subject_code: subjectsTable.code,
+    subject_name: subjectsTable.name,
+    teacher_name: teachersTable.name,
+    start_time: timeSlotsTable.start_time,
+    end_time: timeSlotsTable.end_time,
+    slot_type: timeSlotsTable.slot_type
+  })
+    .from(schedulesTable)
+    .innerJoin(classesTable, eq(schedulesTable.class_id, classesTable.id))
+    .leftJoin(subjectsTable, eq(schedulesTable.subject_id, subjectsTable.id))
+    .leftJoin(teachersTable, eq(schedulesTable.teacher_id, teachersTable.id))
+    .leftJoin(timeSlotsTable, and(
+      eq(timeSlotsTable.template_id, schedulesTable.template_id),
+      eq(timeSlotsTable.day_of_week, schedulesTable.day_of_week),
+      eq(timeSlotsTable.jp_number, schedulesTable.jp_number)
+    ));
+
+/**
+ * Create a new schedule entry
+ * Handles manual schedule entry creation; conflicting cells are refused unless
+ * override is set. Journaled for undo when a session id is given
+ */
+export const createSchedule = async (input: CreateScheduleInput): Promise<Schedule> => {
+  try {
+    return await db.transaction(async (tx) => {
+      await lockDraft(tx, input.draft_id);
+      await assertScheduleReferences(tx, input);
+      await assertNoConflicts(tx, input);
 
-    return result[0];
+      // Insert schedule record
+      const result = await tx.insert(schedulesTable)
+        .values({
+          draft_id: input.draft_id,
+          academic_year_id: input.academic_year_id,
+          class_id: input.class_id,
+          template_id: input.template_id,
+          day_of_week: input.day_of_week,
+          jp_number: input.jp_number,
+          subject_id: input.subject_id || null,
+          teacher_id: input.teacher_id || null,
+          is_manual: input.is_manual
+        })
+        .returning()
+        .execute();
+
+      if (input.session_id) {
+        await recordScheduleCommand(tx, input.session_id, input.academic_year_id, 'create', [
+          { schedule_id: result[0].id, before: null, after: toCellState(result[0]) }
+        ]);
+      }
+
+      return result[0];
+    });
   } catch (error) {
     console.error('Schedule creation failed:', error);
     throw error;
@@ -65,104 +191,636 @@ export const createSchedule = async (input: CreateScheduleInput): Promise<Schedu
 
 /**
  * Get schedules by class and academic year
- * Returns schedule entries for specific class
+ * Returns schedule entries for specific class with subject, teacher and slot times,
+ * read from the published timetable unless a draft is given
  */
-export const getSchedulesByClass = async (classId: number, academicYearId: number): Promise<Schedule[]> => {
-    // Placeholder implementation - should fetch schedules by class from database
-    return Promise.resolve([]);
+export const getSchedulesByClass = async (classId: number, academicYearId: number, draftId?: number): Promise<ScheduleDetail[]> => {
+  try {
+    const viewDraftId = await resolveViewDraftId(academicYearId, draftId);
+    if (viewDraftId === null) return [];
+
+    const result = await selectScheduleDetails()
+      .where(and(
+        eq(schedulesTable.class_id, classId),
+        eq(schedulesTable.academic_year_id, academicYearId),
+        eq(schedulesTable.draft_id, viewDraftId)
+      ))
+      .orderBy(asc(schedulesTable.day_of_week), asc(schedulesTable.jp_number))
+      .execute();
+
+    return result;
+  } catch (error) {
+    console.error('Failed to get schedules by class:', error);
+    throw error;
+  }
 };
 
 /**
  * Get schedules by teacher and academic year
- * Returns schedule entries for specific teacher
+ * Returns schedule entries for specific teacher with class, subject and slot times,
+ * read from the published timetable unless a draft is given
  */
-export const getSchedulesByTeacher = async (teacherId: number, academicYearId: number): Promise<Schedule[]> => {
-    // Placeholder implementation - should fetch schedules by teacher from database
-    return Promise.resolve([]);
+export const getSchedulesByTeacher = async (teacherId: number, academicYearId: number, draftId?: number): Promise<ScheduleDetail[]> => {
+  try {
+    const viewDraftId = await resolveViewDraftId(academicYearId, draftId);
+    if (viewDraftId === null) return [];
+
+    const result = await selectScheduleDetails()
+      .where(and(
+        eq(schedulesTable.teacher_id, teacherId),
+        eq(schedulesTable.academic_year_id, academicYearId),
+        eq(schedulesTable.draft_id, viewDraftId)
+      ))
+      .orderBy(asc(schedulesTable.day_of_week), asc(schedulesTable.jp_number), asc(classesTable.class_name))
+      .execute();
+
+    return result;
+  } catch (error) {
+    console.error('Failed to get schedules by teacher:', error);
+    throw error;
+  }
 };
 
 /**
  * Get schedule by ID
  * Returns specific schedule details by ID
  */
-export const getScheduleById = async (id: number): Promise<Schedule | null> => {
-    // Placeholder implementation - should fetch schedule by ID from database
-    return Promise.resolve(null);
+export const getScheduleById = async (id: number): Promise<ScheduleDetail | null> => {
+  try {
+    const result = await selectScheduleDetails()
+      .where(eq(schedulesTable.id, id))
+      .execute();
+
+    return result.length > 0 ? result[0] : null;
+  } catch (error) {
+    console.error('Failed to get schedule by ID:', error);
+    throw error;
+  }
 };
 
 /**
  * Update schedule information
- * Updates existing schedule record with new data
+ * Updates existing schedule record with new data; conflicting changes are refused
+ * unless override is set. Journaled for undo when a session id is given
  */
-export const updateSchedule = async (input: UpdateScheduleInput): Promise<Schedule> => {
-    // Placeholder implementation - should update schedule in database
-    return Promise.resolve({
-        id: input.id,
-        academic_year_id: input.academic_year_id || 1,
-        class_id: input.class_id || 1,
-        template_id: input.template_id || 1,
-        day_of_week: input.day_of_week || 1,
-        jp_number: input.jp_number || 1,
-        subject_id: input.subject_id || null,
-        teacher_id: input.teacher_id || null,
-        is_manual: input.is_manual || true,
-        is_cached: input.is_cached || true,
-        created_at: new Date(),
-        updated_at: new Date()
+export const updateSchedule = async (input: UpdateScheduleInput): Promise<ScheduleDetail> => {
+  try {
+    const { id, override, session_id, ...updateData } = input;
+
+    await db.transaction(async (tx) => {
+      const existing = await findEditableCell(tx, id);
+      if (!existing) {
+        throw new Error(`Schedule with id ${id} not found`);
+      }
+
+      const merged = { ...existing, ...updateData, override };
+      for (const draftId of new Set([existing.draft_id, merged.draft_id])) {
+        await lockDraft(tx, draftId);
+      }
+      await assertScheduleReferences(tx, merged);
+      await assertNoConflicts(tx, merged, id);
+
+      const result = await tx.update(schedulesTable)
+        .set({
+          ...updateData,
+          updated_at: new Date()
+        })
+        .where(eq(schedulesTable.id, id))
+        .returning()
+        .execute();
+
+      if (session_id) {
+        await recordScheduleCommand(tx, session_id, existing.academic_year_id, 'update', [
+          { schedule_id: id, before: toCellState(existing), after: toCellState(result[0]) }
+        ]);
+      }
     });
+
+    return (await getScheduleById(id))!;
+  } catch (error) {
+    console.error('Schedule update failed:', error);
+    throw error;
+  }
 };
 
 /**
  * Delete schedule by ID
- * Removes schedule record from database
+ * Removes schedule record from database; journaled for undo when a session id is given
  */
-export const deleteSchedule = async (id: number): Promise<boolean> => {
-    // Placeholder implementation - should delete schedule from database
-    return Promise.resolve(true);
+export const deleteSchedule = async (id: number, sessionId?: string): Promise<boolean> => {
+  try {
+    const existing = await findEditableCell(db, id);
+    if (!existing) return false;
+
+    return await db.transaction(async (tx) => {
+      const result = await tx.delete(schedulesTable)
+        .where(eq(schedulesTable.id, id))
+        .returning()
+        .execute();
+
+      if (sessionId) {
+        await recordScheduleCommand(tx, sessionId, existing.academic_year_id, 'delete',
+          result.map(cell => ({ schedule_id: cell.id, before: toCellState(cell), after: null })));
+      }
+
+      return result.length > 0;
+    });
+  } catch (error) {
+    console.error('Schedule deletion failed:', error);
+    throw error;
+  }
 };
 
 /**
- * Generate automatic schedule
- * Fills empty schedule slots automatically without conflicts
+ * Set the lock state of a schedule cell
  */
-export const generateAutomaticSchedule = async (
-    classId: number, 
-    academicYearId: number, 
-    templateId: number
-): Promise<{
-    success: boolean;
-    created_count: number;
-    conflicts: Array<{
-        day_of_week: number;
-        jp_number: number;
-        reason: string;
-    }>;
-}> => {
-    // Placeholder implementation - should generate automatic schedule without conflicts
-    return Promise.resolve({
-        success: true,
-        created_count: 0,
-        conflicts: []
+const setScheduleLock = async (id: number, locked: boolean): Promise<Schedule> => {
+  const existing = await findEditableCell(db, id);
+  if (!existing) {
+    throw new Error(`Schedule with id ${id} not found`);
+  }
+
+  const result = await db.update(schedulesTable)
+    .set({
+      is_manual: locked,
+      updated_at: new Date()
+    })
+    .where(eq(schedulesTable.id, id))
+    .returning()
+    .execute();
+
+  return result[0];
+};
+
+/**
+ * Lock schedule cell
+ * Pins a cell so regenerating the schedule keeps it in place
+ */
+export const lockScheduleCell = async (id: number): Promise<Schedule> => {
+  try {
+    return await setScheduleLock(id, true);
+  } catch (error) {
+    console.error('Schedule cell lock failed:', error);
+    throw error;
+  }
+};
+
+/**
+ * Unlock schedule cell
+ * Releases a cell so the generator may replace it on the next regeneration
+ */
+export const unlockScheduleCell = async (id: number): Promise<Schedule> => {
+  try {
+    return await setScheduleLock(id, false);
+  } catch (error) {
+    console.error('Schedule cell unlock failed:', error);
+    throw error;
+  }
+};
+
+/**
+ * Check that a cell keeps the block pattern of its subject intact
+ * A cell may not grow a run of the subject beyond its largest block, nor continue a
+ * block across an istirahat or sholat_dhuha slot
+ */
+const findBlockViolation = async (
+  executor: DbExecutor,
+  input: CreateScheduleInput,
+  excludeId?: number
+): Promise<ScheduleConflict | null> => {
+  if (input.subject_id === null || input.subject_id === undefined) return null;
+
+  const subject = await executor.select().from(subjectsTable).where(eq(subjectsTable.id, input.subject_id)).execute();
+  if (subject.length === 0) return null;
+
+  const assignment = await executor.select()
+    .from(jtmAssignmentsTable)
+    .where(and(
+      eq(jtmAssignmentsTable.academic_year_id, input.academic_year_id),
+      eq(jtmAssignmentsTable.class_id, input.class_id),
+      eq(jtmAssignmentsTable.subject_id, input.subject_id)
+    ))
+    .execute();
+
+  const pattern = assignment[0]?.block_pattern ?? subject[0].block_pattern;
+  const maxBlock = pattern ? Math.max(...pattern.split('+').map(Number)) : 1;
+  if (maxBlock === 1) return null;
+
+  const timeline = await executor.select()
+    .from(timeSlotsTable)
+    .where(and(
+      eq(timeSlotsTable.template_id, input.template_id),
+      eq(timeSlotsTable.day_of_week, input.day_of_week)
+    ))
+    .execute();
+
+  const dayCells = await executor.select()
+    .from(schedulesTable)
+    .where(and(
+      eq(schedulesTable.draft_id, input.draft_id),
+      eq(schedulesTable.class_id, input.class_id),
+      eq(schedulesTable.day_of_week, input.day_of_week),
+      eq(schedulesTable.subject_id, input.subject_id),
+      excludeId !== undefined ? ne(schedulesTable.id, excludeId) : undefined
+    ))
+    .execute();
+
+  const run = findBlockRun(timeline, input, slot =>
+    dayCells.some(cell => cell.jp_number === slot.jp_number)
+  );
+  const subjectName = subject[0].name;
+
+  if (run.straddled !== null) {
+    return {
+      type: 'block_violation',
+      message: `${subjectName} block would straddle ${run.straddled} on day ${input.day_of_week}`
+    };
+  }
+  if (run.cells.length > maxBlock) {
+    return {
+      type: 'block_violation',
+      message: `${subjectName} block would be ${run.cells.length} JP long on day ${input.day_of_week} (max ${maxBlock})`
+    };
+  }
+  return null;
+};
+
+/**
+ * Collect the conflicts of a cell on the given executor, so cells changed inside a
+ * transaction are checked against its uncommitted state
+ */
+const collectConflicts = async (
+  executor: DbExecutor,
+  input: CreateScheduleInput,
+  excludeId?: number
+): Promise<ScheduleConflict[]> => {
+  const conflicts: ScheduleConflict[] = [];
+  const notSelf = excludeId !== undefined ? ne(schedulesTable.id, excludeId) : undefined;
+  const cellLabel = `day ${input.day_of_week} JP ${input.jp_number}`;
+
+  const slot = await executor.select()
+    .from(timeSlotsTable)
+    .where(and(
+      eq(timeSlotsTable.template_id, input.template_id),
+      eq(timeSlotsTable.day_of_week, input.day_of_week),
+      eq(timeSlotsTable.jp_number, input.jp_number)
+    ))
+    .execute();
+
+  if (slot.length === 0) {
+    conflicts.push({
+      type: 'invalid_slot',
+      message: `Template has no time slot on ${cellLabel}`
+    });
+  } else if (slot[0].slot_type !== 'belajar') {
+    conflicts.push({
+      type: 'invalid_slot',
+      message: `Time slot on ${cellLabel} is ${slot[0].slot_type}, not belajar`
+    });
+  }
+
+  const binding = await executor.select({
+    template_id: classTemplatesTable.template_id,
+    template_name: scheduleTemplatesTable.name
+  })
+    .from(classTemplatesTable)
+    .innerJoin(scheduleTemplatesTable, eq(classTemplatesTable.template_id, scheduleTemplatesTable.id))
+    .where(and(
+      eq(classTemplatesTable.class_id, input.class_id),
+      eq(classTemplatesTable.academic_year_id, input.academic_year_id)
+    ))
+    .execute();
+
+  if (binding.length > 0 && binding[0].template_id !== input.template_id) {
+    conflicts.push({
+      type: 'template_mismatch',
+      message: `Class follows template ${binding[0].template_name}, not the template of this cell`
+    });
+  }
+
+  const occupant = await executor.select({
+    id: schedulesTable.id,
+    class_name: classesTable.class_name,
+    subject_name: subjectsTable.name
+  })
+    .from(schedulesTable)
+    .innerJoin(classesTable, eq(schedulesTable.class_id, classesTable.id))
+    .leftJoin(subjectsTable, eq(schedulesTable.subject_id, subjectsTable.id))
+    .where(and(
+      eq(schedulesTable.draft_id, input.draft_id),
+      eq(schedulesTable.class_id, input.class_id),
+      eq(schedulesTable.day_of_week, input.day_of_week),
+      eq(schedulesTable.jp_number, input.jp_number),
+      notSelf
+    ))
+    .execute();
+
+  for (const cell of occupant) {
+    conflicts.push({
+      type: 'slot_occupied',
+      message: `${cell.class_name} already has ${cell.subject_name ?? 'a cell'} on ${cellLabel}`,
+      conflicting_schedule_id: cell.id
     });
+  }
+
+  if (input.teacher_id !== null && input.teacher_id !== undefined) {
+    const teacher = await executor.select().from(teachersTable).where(eq(teachersTable.id, input.teacher_id)).execute();
+    const teacherName = teacher[0]?.name ?? `Teacher ${input.teacher_id}`;
+
+    // Lessons of the teacher that day, with the clock times of their own templates
+    const sameDay = await executor.select({
+      id: schedulesTable.id,
+      class_name: classesTable.class_name,
+      template_id: schedulesTable.template_id,
+      day_of_week: schedulesTable.day_of_week,
+      jp_number: schedulesTable.jp_number,
+      start_time: timeSlotsTable.start_time,
+      end_time: timeSlotsTable.end_time
+    })
+      .from(schedulesTable)
+      .innerJoin(classesTable, eq(schedulesTable.class_id, classesTable.id))
+      .leftJoin(timeSlotsTable, and(
+        eq(timeSlotsTable.template_id, schedulesTable.template_id),
+        eq(timeSlotsTable.day_of_week, schedulesTable.day_of_week),
+        eq(timeSlotsTable.jp_number, schedulesTable.jp_number)
+      ))
+      .where(and(
+        eq(schedulesTable.draft_id, input.draft_id),
+        eq(schedulesTable.teacher_id, input.teacher_id),
+        eq(schedulesTable.day_of_week, input.day_of_week),
+        notSelf
+      ))
+      .orderBy(asc(schedulesTable.jp_number))
+      .execute();
+
+    const clock = buildSlotClock([...slot, ...sameDay]);
+    for (const cell of sameDay) {
+      if (!cellsOverlap(clock, input, cell)) continue;
+      conflicts.push({
+        type: 'teacher_conflict',
+        message: cell.template_id === input.template_id
+          ? `${teacherName} already teaches ${cell.class_name} on ${cellLabel}`
+          : `${teacherName} already teaches ${cell.class_name} at ${cell.start_time}-${cell.end_time} on day ${input.day_of_week}`,
+        conflicting_schedule_id: cell.id
+      });
+    }
+
+    const blocking = await findBlockingAvailability(input.teacher_id, input.academic_year_id, input.day_of_week, input.jp_number, executor);
+    if (blocking) {
+      conflicts.push({
+        type: 'teacher_unavailable',
+        message: `Teacher ${teacherName} is unavailable on ${cellLabel}`
+      });
+    }
+  }
+
+  if (input.subject_id !== null && input.subject_id !== undefined) {
+    const assignments = await executor.select()
+      .from(jtmAssignmentsTable)
+      .where(and(
+        eq(jtmAssignmentsTable.academic_year_id, input.academic_year_id),
+        eq(jtmAssignmentsTable.class_id, input.class_id),
+        eq(jtmAssignmentsTable.subject_id, input.subject_id)
+      ))
+      .execute();
+
+    const scheduled = await executor.select()
+      .from(schedulesTable)
+      .where(and(
+        eq(schedulesTable.draft_id, input.draft_id),
+        eq(schedulesTable.class_id, input.class_id),
+        eq(schedulesTable.subject_id, input.subject_id),
+        notSelf
+      ))
+      .execute();
+
+    const allocated = assignments.reduce((sum, assignment) => sum + assignment.allocated_hours, 0);
+    if (scheduled.length + 1 > allocated) {
+      conflicts.push({
+        type: 'allocation_exceeded',
+        message: `Subject would have ${scheduled.length + 1} JP in this class but only ${allocated} JP are allocated`
+      });
+    }
+
+    if (
+      input.teacher_id !== null && input.teacher_id !== undefined &&
+      assignments.length > 0 &&
+      !assignments.some(assignment => assignment.teacher_id === input.teacher_id)
+    ) {
+      conflicts.push({
+        type: 'teacher_mismatch',
+        message: 'Teacher is not the JTM-assigned teacher for this subject and class'
+      });
+    }
+  }
+
+  const blockViolation = await findBlockViolation(executor, input, excludeId);
+  if (blockViolation) {
+    conflicts.push(blockViolation);
+  }
+
+  return conflicts;
 };
 
 /**
  * Validate schedule conflicts
- * Checks for teacher conflicts and allocation violations
+ * Checks a cell against its time slot, the template its class is bound to, the
+ * other cells of its class, teacher double-booking within its draft (by clock time,
+ * so lessons of classes on other templates are caught too), teacher availability,
+ * the JTM assignment of its subject and the subject block pattern; excludeId skips
+ * the cell itself when an existing cell is being changed
  */
-export const validateScheduleConflicts = async (input: CreateScheduleInput): Promise<{
+export const validateScheduleConflicts = async (input: CreateScheduleInput, excludeId?: number): Promise<{
     hasConflicts: boolean;
-    conflicts: Array<{
-        type: 'teacher_conflict' | 'allocation_exceeded' | 'invalid_slot';
-        message: string;
-        conflicting_schedule_id?: number;
-    }>;
+    conflicts: ScheduleConflict[];
 }> => {
-    // Placeholder implementation - should validate schedule conflicts
-    return Promise.resolve({
-        hasConflicts: false,
-        conflicts: []
+  try {
+    const conflicts = await collectConflicts(db, input, excludeId);
+
+    return {
+      hasConflicts: conflicts.length > 0,
+      conflicts
+    };
+  } catch (error) {
+    console.error('Schedule conflict validation failed:', error);
+    throw error;
+  }
+};
+
+/**
+ * Move cells to new slots inside a transaction and check each of them in its new
+ * place; the change is rolled back when it causes conflicts that are not overridden,
+ * and always on a dry run. A kept change is journaled when a session is given
+ */
+const relocateCells = async (
+  executor: DbExecutor,
+  moves: Array<{ cell: Schedule; day_of_week: number; jp_number: number }>,
+  override: boolean,
+  dryRun: boolean = false,
+  journal?: { sessionId: string; operation: 'swap' | 'move' }
+): Promise<{ applied: boolean; conflicts: ScheduleConflict[] }> => {
+  let conflicts: ScheduleConflict[] = [];
+
+  try {
+    await executor.transaction(async (tx) => {
+      await lockDraft(tx, moves[0].cell.draft_id);
+      const changes: ScheduleCellChange[] = [];
+      for (const move of moves) {
+        const [moved] = await tx.update(schedulesTable)
+          .set({
+            day_of_week: move.day_of_week,
+            jp_number: move.jp_number,
+            updated_at: new Date()
+          })
+          .where(eq(schedulesTable.id, move.cell.id))
+          .returning()
+          .execute();
+        changes.push({ schedule_id: moved.id, before: toCellState(move.cell), after: toCellState(moved) });
+      }
+
+      for (const move of moves) {
+        const moved = { ...move.cell, day_of_week: move.day_of_week, jp_number: move.jp_number };
+        conflicts.push(...await collectConflicts(tx, moved, move.cell.id));
+      }
+
+      if (dryRun || conflicts.length > 0 && !override) {
+        tx.rollback();
+      }
+
+      if (journal) {
+        await recordScheduleCommand(tx, journal.sessionId, moves[0].cell.academic_year_id, journal.operation, changes);
+      }
     });
+  } catch (error) {
+    if (!(error instanceof TransactionRollbackError)) throw error;
+    return { applied: false, conflicts };
+  }
+
+  return { applied: true, conflicts };
+};
+
+/**
+ * Swap schedule cells
+ * Exchanges the slots of two cells of the same class and draft in one transaction;
+ * the swap is kept only when neither lesson conflicts in its new slot, unless
+ * override is set. Returns the conflicts found and both cells as they are afterwards
+ */
+export const swapScheduleCells = async (firstId: number, secondId: number, override: boolean = false, sessionId?: string): Promise<{
+  applied: boolean;
+  conflicts: ScheduleConflict[];
+  schedules: ScheduleDetail[];
+}> => {
+  try {
+    const first = await findEditableCell(db, firstId);
+    const second = await findEditableCell(db, secondId);
+
+    if (!first) {
+      throw new Error(`Schedule with id ${firstId} not found`);
+    }
+    if (!second) {
+      throw new Error(`Schedule with id ${secondId} not found`);
+    }
+    if (first.draft_id !== second.draft_id || first.class_id !== second.class_id) {
+      throw new Error('Only cells of the same class and draft can be swapped');
+    }
+
+    const result = await relocateCells(db, [
+      { cell: first, day_of_week: second.day_of_week, jp_number: second.jp_number },
+      { cell: second, day_of_week: first.day_of_week, jp_number: first.jp_number }
+    ], override, false, sessionId ? { sessionId, operation: 'swap' } : undefined);
+
+    return {
+      ...result,
+      schedules: [(await getScheduleById(firstId))!, (await getScheduleById(secondId))!]
+    };
+  } catch (error) {
+    console.error('Schedule cell swap failed:', error);
+    throw error;
+  }
+};
+
+/**
+ * Move schedule cell
+ * Moves a cell to another slot of its class in one transaction; the move is kept
+ * only when it causes no conflicts, unless override is set. Returns the conflicts
+ * found and the cell as it is afterwards
+ */
+export const moveScheduleCell = async (
+  id: number,
+  dayOfWeek: number,
+  jpNumber: number,
+  override: boolean = false,
+  sessionId?: string
+): Promise<{
+  applied: boolean;
+  conflicts: ScheduleConflict[];
+  schedule: ScheduleDetail;
+}> => {
+  try {
+    const cell = await findEditableCell(db, id);
+    if (!cell) {
+      throw new Error(`Schedule with id ${id} not found`);
+    }
+
+    const result = await relocateCells(db, [{ cell, day_of_week: dayOfWeek, jp_number: jpNumber }], override, false,
+      sessionId ? { sessionId, operation: 'move' } : undefined);
+
+    return {
+      ...result,
+      schedule: (await getScheduleById(id))!
+    };
+  } catch (error) {
+    console.error('Schedule cell move failed:', error);
+    throw error;
+  }
+};
+
+/**
+ * Find swap partners
+ * Lists the cells of the same class and draft a cell could be swapped with without
+ * either lesson conflicting in its new slot; each swap is tried and rolled back
+ */
+export const findSwapPartners = async (id: number): Promise<ScheduleDetail[]> => {
+  try {
+    const cell = await findEditableCell(db, id);
+    if (!cell) {
+      throw new Error(`Schedule with id ${id} not found`);
+    }
+
+    const candidates = await db.select()
+      .from(schedulesTable)
+      .where(and(
+        eq(schedulesTable.draft_id, cell.draft_id),
+        eq(schedulesTable.class_id, cell.class_id),
+        ne(schedulesTable.id, id)
+      ))
+      .orderBy(asc(schedulesTable.day_of_week), asc(schedulesTable.jp_number))
+      .execute();
+
+    const partnerIds: number[] = [];
+    for (const candidate of candidates) {
+      // Swapping two identical lessons changes nothing
+      if (candidate.subject_id === cell.subject_id && candidate.teacher_id === cell.teacher_id) continue;
+
+      const { conflicts } = await relocateCells(db, [
+        { cell, day_of_week: candidate.day_of_week, jp_number: candidate.jp_number },
+        { cell: candidate, day_of_week: cell.day_of_week, jp_number: cell.jp_number }
+      ], false, true);
+
+      if (conflicts.length === 0) {
+        partnerIds.push(candidate.id);
+      }
+    }
+
+    const partners: ScheduleDetail[] = [];
+    for (const partnerId of partnerIds) {
+      partners.push((await getScheduleById(partnerId))!);
+    }
+    return partners;
+  } catch (error) {
+    console.error('Finding swap partners failed:', error);
+    throw error;
+  }
 };
 
 /**
@@ -202,27 +860,32 @@ export const getScheduleSummaryByClass = async (classId: number, academicYearId:
 };
 
 /**
- * Save cached schedule permanently
- * Converts cached schedule entries to permanent records
+ * Clear cached schedule
+ * Removes every cell of a class from a draft; returns how many were removed. Journaled
+ * for undo when a session id is given
  */
-export const saveCachedSchedule = async (classId: number, academicYearId: number): Promise<{
-    success: boolean;
-    saved_count: number;
-    errors: string[];
-}> => {
-    // Placeholder implementation - should save cached schedule to permanent storage
-    return Promise.resolve({
-        success: true,
-        saved_count: 0,
-        errors: []
+export const clearCachedSchedule = async (classId: number, draftId: number, sessionId?: string): Promise<number> => {
+  try {
+    const draft = await assertDraftEditable(db, draftId);
+
+    return await db.transaction(async (tx) => {
+      const result = await tx.delete(schedulesTable)
+        .where(and(
+          eq(schedulesTable.class_id, classId),
+          eq(schedulesTable.draft_id, draftId)
+        ))
+        .returning()
+        .execute();
+
+      if (sessionId) {
+        await recordScheduleCommand(tx, sessionId, draft.academic_year_id, 'clear',
+          result.map(cell => ({ schedule_id: cell.id, before: toCellState(cell), after: null })));
+      }
+
+      return result.length;
     });
+  } catch (error) {
+    console.error('Clearing draft schedule failed:', error);
+    throw error;
+  }
 };
-
-/**
- * Clear cached schedule
- * Removes cached schedule entries for class
- */
-export const clearCachedSchedule = async (classId: number, academicYearId: number): Promise<boolean> => {
-    // Placeholder implementation - should clear cached schedule entries
-    return Promise.resolve(true);
-};
\ No newline at end of file
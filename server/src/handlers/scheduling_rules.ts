@@ -0,0 +1,142 @@
+import { db } from '../db';
+import { schedulingRulesTable, academicYearsTable, subjectsTable } from '../db/schema';
+import {
+  RULE_TYPES_WITH_VALUE,
+  type CreateSchedulingRuleInput,
+  type UpdateSchedulingRuleInput,
+  type SchedulingRule
+} from '../schema';
+import { eq, asc } from 'drizzle-orm';
+
+/**
+ * Verify the subject a rule is scoped to exists
+ */
+const assertRuleSubject = async (subjectId: number | null | undefined): Promise<void> => {
+  if (subjectId == null) return;
+
+  const subject = await db.select()
+    .from(subjectsTable)
+    .where(eq(subjectsTable.id, subjectId))
+    .execute();
+
+  if (subject.length === 0) {
+    throw new Error(`Subject with id ${subjectId} not found`);
+  }
+};
+
+/**
+ * Create a scheduling rule
+ * Stores a weighted soft rule the schedule generator tries to satisfy
+ */
+export const createSchedulingRule = async (input: CreateSchedulingRuleInput): Promise<SchedulingRule> => {
+  try {
+    const academicYear = await db.select()
+      .from(academicYearsTable)
+      .where(eq(academicYearsTable.id, input.academic_year_id))
+      .execute();
+
+    if (academicYear.length === 0) {
+      throw new Error(`Academic year with id ${input.academic_year_id} not found`);
+    }
+
+    await assertRuleSubject(input.subject_id);
+
+    const result = await db.insert(schedulingRulesTable)
+      .values({
+        academic_year_id: input.academic_year_id,
+        rule_type: input.rule_type,
+        subject_id: input.subject_id ?? null,
+        slot_type: input.slot_type ?? null,
+        value: input.value ?? null,
+        weight: input.weight,
+        is_active: input.is_active ?? true
+      })
+      .returning()
+      .execute();
+
+    return result[0];
+  } catch (error) {
+    console.error('Scheduling rule creation failed:', error);
+    throw error;
+  }
+};
+
+/**
+ * Get scheduling rules by academic year
+ * Returns every rule of an academic year, active or not
+ */
+export const getSchedulingRules = async (academicYearId: number): Promise<SchedulingRule[]> => {
+  try {
+    const result = await db.select()
+      .from(schedulingRulesTable)
+      .where(eq(schedulingRulesTable.academic_year_id, academicYearId))
+      .orderBy(asc(schedulingRulesTable.id))
+      .execute();
+
+    return result;
+  } catch (error) {
+    console.error('Failed to get scheduling rules:', error);
+    throw error;
+  }
+};
+
+/**
+ * Update a scheduling rule
+ * Changes weight, target or scope of a rule, or toggles it on and off
+ */
+export const updateSchedulingRule = async (input: UpdateSchedulingRuleInput): Promise<SchedulingRule> => {
+  try {
+    const { id, ...updateData } = input;
+
+    const existing = await db.select()
+      .from(schedulingRulesTable)
+      .where(eq(schedulingRulesTable.id, id))
+      .execute();
+
+    if (existing.length === 0) {
+      throw new Error(`Scheduling rule with id ${id} not found`);
+    }
+
+    await assertRuleSubject(updateData.subject_id);
+
+    const merged = { ...existing[0], ...updateData };
+    if (RULE_TYPES_WITH_VALUE.includes(merged.rule_type) && merged.value == null) {
+      throw new Error('value is required for this rule type');
+    }
+    if (['not_after_slot_type', 'prefer_before_slot_type'].includes(merged.rule_type) && merged.slot_type == null) {
+      throw new Error('slot_type is required for this rule type');
+    }
+
+    const result = await db.update(schedulingRulesTable)
+      .set({
+        ...updateData,
+        updated_at: new Date()
+      })
+      .where(eq(schedulingRulesTable.id, id))
+      .returning()
+      .execute();
+
+    return result[0];
+  } catch (error) {
+    console.error('Scheduling rule update failed:', error);
+    throw error;
+  }
+};
+
+/**
+ * Delete scheduling rule by ID
+ * Removes rule from database
+ */
+export const deleteSchedulingRule = async (id: number): Promise<boolean> => {
+  try {
+    const result = await db.delete(schedulingRulesTable)
+      .where(eq(schedulingRulesTable.id, id))
+      .returning()
+      .execute();
+
+    return result.length > 0;
+  } catch (error) {
+    console.error('Scheduling rule deletion failed:', error);
+    throw error;
+  }
+};
@@ -13,7 +13,8 @@ export const createSubject = async (input: CreateSubjectInput): Promise<Subject>
             .values({
                 code: input.code,
                 name: input.name,
-                time_allocation: input.time_allocation
+                time_allocation: input.time_allocation,
+                block_pattern: input.block_pattern ?? null
             })
             .returning()
             .execute();
@@ -64,6 +65,7 @@ export const updateSubject = async (input: UpdateSubjectInput): Promise<Subject>
         code: input.code || 'UPDATED_CODE',
         name: input.name || 'Updated Subject',
         time_allocation: input.time_allocation || 2,
+        block_pattern: input.block_pattern || null,
         created_at: new Date(),
         updated_at: new Date()
     });
@@ -0,0 +1,628 @@
+import { db, type DbExecutor } from '../db';
+import {
+  teacherAbsencesTable,
+  substitutionsTable,
+  teachersTable,
+  academicYearsTable,
+  schedulesTable,
+  classesTable,
+  subjectsTable,
+  timeSlotsTable,
+  jtmAssignmentsTable,
+  teacherAvailabilityTable
+} from '../db/schema';
+import {
+  type AbsenceReason,
+  type ConfirmSubstitutionInput,
+  type CreateTeacherAbsenceInput,
+  type DateRange,
+  type RealisedHours,
+  type Substitution,
+  type TeacherAbsence
+} from '../schema';
+import { getPublishedScheduleDraft } from './schedule_drafts';
+import { loadTeachingDates } from './academic_calendar';
+import { loadDatedSlots } from './template_overrides';
+import { buildSlotClock, cellsOverlap } from '../helpers/time_intervals';
+import { availabilityCovers } from '../helpers/timetable_solver';
+import { addDays, dayOfWeekOf } from '../helpers/school_dates';
+import { eq, and, asc, gt, gte, lte, ne, isNotNull } from 'drizzle-orm';
+
+// Days up to an absence whose substitutions count as a candidate's recent substitutions
+export const SUBSTITUTION_LOOKBACK_DAYS = 30;
+
+export type AffectedLesson = {
+  schedule_id: number;
+  class_id: number;
+  class_name: string;
+  subject_id: number | null;
+  subject_name: string | null;
+  template_id: number;
+  day_of_week: number;
+  jp_number: number;
+  start_time: string | null;
+  end_time: string | null;
+  substitution: {
+    id: number;
+    substitute_teacher_id: number;
+    substitute_teacher_name: string;
+  } | null; // null while nobody covers the lesson
+};
+
+export type SubstituteCandidate = {
+  teacher_id: number;
+  teacher_name: string;
+  teaches_subject: boolean; // holds JTM of the lesson's subject in the academic year
+  teaches_class: boolean; // holds JTM in the lesson's class
+  recent_substitutions: number;
+};
+
+export type SubstitutionSheetLesson = AffectedLesson & {
+  absence_id: number;
+  absent_teacher_id: number;
+  absent_teacher_name: string;
+  reason: AbsenceReason;
+};
+
+const findAbsence = async (executor: DbExecutor, id: number): Promise<TeacherAbsence> => {
+  const result = await executor.select()
+    .from(teacherAbsencesTable)
+    .where(eq(teacherAbsencesTable.id, id))
+    .execute();
+
+  if (result.length === 0) {
+    throw new Error(`Teacher absence with id ${id} not found`);
+  }
+
+  return result[0];
+};
+
+/**
+ * Lessons of the absent teacher in the published timetable on the weekday of the
+ * absence, in day order at the times of that date, with the substitute confirmed
+ * for each
+ */
+const loadAffectedLessons = async (executor: DbExecutor, absence: TeacherAbsence): Promise<AffectedLesson[]> => {
+  const published = await getPublishedScheduleDraft(absence.academic_year_id);
+  if (!published) {
+    throw new Error(`No published timetable found for academic year ${absence.academic_year_id}`);
+  }
+
+  const cells = await executor.select({
+    schedule_id: schedulesTable.id,
+    class_id: schedulesTable.class_id,
+    class_name: classesTable.class_name,
+    subject_id: schedulesTable.subject_id,
+    subject_name: subjectsTable.name,
+    template_id: schedulesTable.template_id,
+    day_of_week: schedulesTable.day_of_week,
+    jp_number: schedulesTable.jp_number,
+    start_time: timeSlotsTable.start_time,
+    end_time: timeSlotsTable.end_time
+  })
+    .from(schedulesTable)
+    .innerJoin(classesTable, eq(schedulesTable.class_id, classesTable.id))
+    .leftJoin(subjectsTable, eq(schedulesTable.subject_id, subjectsTable.id))
+    .leftJoin(timeSlotsTable, and(
+      eq(timeSlotsTable.template_id, schedulesTable.template_id),
+      eq(timeSlotsTable.day_of_week, schedulesTable.day_of_week),
+      eq(timeSlotsTable.jp_number, schedulesTable.jp_number)
+    ))
+    .where(and(
+      eq(schedulesTable.draft_id, published.id),
+      eq(schedulesTable.teacher_id, absence.teacher_id),
+      eq(schedulesTable.day_of_week, dayOfWeekOf(absence.date))
+    ))
+    .orderBy(asc(timeSlotsTable.start_time), asc(schedulesTable.jp_number), asc(classesTable.class_name))
+    .execute();
+
+  const substitutions = await executor.select({
+    id: substitutionsTable.id,
+    schedule_id: substitutionsTable.schedule_id,
+    substitute_teacher_id: substitutionsTable.substitute_teacher_id,
+    substitute_teacher_name: teachersTable.name
+  })
+    .from(substitutionsTable)
+    .innerJoin(teachersTable, eq(substitutionsTable.substitute_teacher_id, teachersTable.id))
+    .where(eq(substitutionsTable.absence_id, absence.id))
+    .execute();
+
+  // Within a special period the lessons follow its times; lessons it drops need no cover
+  const { slotOf } = await loadDatedSlots(executor, absence.academic_year_id, absence.date);
+  const held = cells.flatMap(cell => {
+    const slot = slotOf(cell);
+    return slot === null ? [] : [{ ...cell, start_time: slot.start_time, end_time: slot.end_time }];
+  });
+  held.sort((a, b) =>
+    (a.start_time ?? '').localeCompare(b.start_time ?? '') ||
+    a.jp_number - b.jp_number ||
+    a.class_name.localeCompare(b.class_name)
+  );
+
+  return held.map(cell => {
+    const substitution = substitutions.find(entry => entry.schedule_id === cell.schedule_id);
+    return {
+      ...cell,
+      substitution: substitution
+        ? {
+          id: substitution.id,
+          substitute_teacher_id: substitution.substitute_teacher_id,
+          substitute_teacher_name: substitution.substitute_teacher_name
+        }
+        : null
+    };
+  });
+};
+
+/**
+ * Teachers who can cover a lesson of an absence, best first
+ */
+const rankCandidates = async (
+  executor: DbExecutor,
+  absence: TeacherAbsence,
+  scheduleId: number
+): Promise<SubstituteCandidate[]> => {
+  const lessons = await loadAffectedLessons(executor, absence);
+  const lesson = lessons.find(entry => entry.schedule_id === scheduleId);
+  if (!lesson) {
+    throw new Error(`Lesson ${scheduleId} is not taught by the absent teacher on ${absence.date}`);
+  }
+
+  const published = (await getPublishedScheduleDraft(absence.academic_year_id))!;
+
+  // Lessons every teacher gives that day, and lessons they already cover for others
+  const taught = await executor.select({
+    teacher_id: schedulesTable.teacher_id,
+    template_id: schedulesTable.template_id,
+    day_of_week: schedulesTable.day_of_week,
+    jp_number: schedulesTable.jp_number
+  })
+    .from(schedulesTable)
+    .where(and(
+      eq(schedulesTable.draft_id, published.id),
+      eq(schedulesTable.day_of_week, lesson.day_of_week),
+      isNotNull(schedulesTable.teacher_id)
+    ))
+    .execute();
+
+  const covering = await executor.select({
+    teacher_id: substitutionsTable.substitute_teacher_id,
+    template_id: schedulesTable.template_id,
+    day_of_week: schedulesTable.day_of_week,
+    jp_number: schedulesTable.jp_number
+  })
+    .from(substitutionsTable)
+    .innerJoin(teacherAbsencesTable, eq(substitutionsTable.absence_id, teacherAbsencesTable.id))
+    .innerJoin(schedulesTable, eq(substitutionsTable.schedule_id, schedulesTable.id))
+    .where(and(
+      eq(teacherAbsencesTable.date, absence.date),
+      // The current substitute of this lesson may be confirmed again
+      ne(substitutionsTable.schedule_id, lesson.schedule_id)
+    ))
+    .execute();
+
+  const absent = await executor.select()
+    .from(teacherAbsencesTable)
+    .where(eq(teacherAbsencesTable.date, absence.date))
+    .execute();
+
+  const unavailable = await executor.select()
+    .from(teacherAvailabilityTable)
+    .where(and(
+      eq(teacherAvailabilityTable.academic_year_id, absence.academic_year_id),
+      eq(teacherAvailabilityTable.availability_type, 'unavailable')
+    ))
+    .execute();
+
+  const assignments = await executor.select()
+    .from(jtmAssignmentsTable)
+    .where(eq(jtmAssignmentsTable.academic_year_id, absence.academic_year_id))
+    .execute();
+
+  const recent = await executor.select({ teacher_id: substitutionsTable.substitute_teacher_id })
+    .from(substitutionsTable)
+    .innerJoin(teacherAbsencesTable, eq(substitutionsTable.absence_id, teacherAbsencesTable.id))
+    .where(and(
+      gt(teacherAbsencesTable.date, addDays(absence.date, -SUBSTITUTION_LOOKBACK_DAYS)),
+      lte(teacherAbsencesTable.date, absence.date)
+    ))
+    .execute();
+
+  const teachers = await executor.select()
+    .from(teachersTable)
+    .orderBy(asc(teachersTable.name))
+    .execute();
+
+  // Within a special period every lesson takes the slot it is mapped onto; lessons
+  // the period drops keep nobody busy
+  const { slotOf } = await loadDatedSlots(executor, absence.academic_year_id, absence.date);
+  const lessonSlot = slotOf(lesson)!;
+  const busyCells = [...taught, ...covering].flatMap(cell => {
+    const slot = slotOf(cell);
+    return slot === null ? [] : [{ ...slot, teacher_id: cell.teacher_id }];
+  });
+  const clock = buildSlotClock([lessonSlot, ...busyCells]);
+
+  const isFree = (teacherId: number): boolean =>
+    !absent.some(entry => entry.teacher_id === teacherId) &&
+    !busyCells.some(cell => cell.teacher_id === teacherId && cellsOverlap(clock, cell, lessonSlot)) &&
+    !unavailable.some(entry => entry.teacher_id === teacherId && availabilityCovers(entry, lesson));
+
+  const preference = (candidate: SubstituteCandidate): number =>
+    (candidate.teaches_subject ? 2 : 0) + (candidate.teaches_class ? 1 : 0);
+
+  return teachers
+    .filter(teacher => isFree(teacher.id))
+    .map(teacher => ({
+      teacher_id: teacher.id,
+      teacher_name: teacher.name,
+      teaches_subject: assignments.some(assignment =>
+        assignment.teacher_id === teacher.id && assignment.subject_id === lesson.subject_id
+      ),
+      teaches_class: assignments.some(assignment =>
+        assignment.teacher_id === teacher.id && assignment.class_id === lesson.class_id
+      ),
+      recent_substitutions: recent.filter(entry => entry.teacher_id === teacher.id).length
+    }))
+    .sort((a, b) =>
+      preference(b) - preference(a) ||
+      a.recent_substitutions - b.recent_substitutions ||
+      a.teacher_name.localeCompare(b.teacher_name)
+    );
+};
+
+/**
+ * Measure the JP each teacher delivered over a date range: lessons of the published
+ * timetable held on every teaching date of the calendar, minus the lessons of the
+ * teacher's recorded absences, plus the lessons taught as a substitute. Absences
+ * and substitutions on other dates are left out. The given teachers are always
+ * included; other teachers only when they have any hours
+ */
+export const measureRealisedHours = async (
+  executor: DbExecutor,
+  academicYearId: number,
+  range: DateRange,
+  teacherIds: number[] = []
+): Promise<Map<number, RealisedHours>> => {
+  const published = await getPublishedScheduleDraft(academicYearId);
+  if (!published) {
+    throw new Error(`No published timetable found for academic year ${academicYearId}`);
+  }
+
+  const cells = await executor.select({
+    teacher_id: schedulesTable.teacher_id,
+    template_id: schedulesTable.template_id,
+    day_of_week: schedulesTable.day_of_week,
+    jp_number: schedulesTable.jp_number
+  })
+    .from(schedulesTable)
+    .where(and(
+      eq(schedulesTable.draft_id, published.id),
+      isNotNull(schedulesTable.teacher_id)
+    ))
+    .execute();
+
+  const inRange = and(
+    eq(teacherAbsencesTable.academic_year_id, academicYearId),
+    gte(teacherAbsencesTable.date, range.from),
+    lte(teacherAbsencesTable.date, range.to)
+  );
+
+  const absences = await executor.select()
+    .from(teacherAbsencesTable)
+    .where(inRange)
+    .execute();
+
+  const substitutions = await executor.select({
+    teacher_id: substitutionsTable.substitute_teacher_id,
+    date: teacherAbsencesTable.date
+  })
+    .from(substitutionsTable)
+    .innerJoin(teacherAbsencesTable, eq(substitutionsTable.absence_id, teacherAbsencesTable.id))
+    .where(inRange)
+    .execute();
+
+  const hours = new Map<number, RealisedHours>();
+  const entry = (teacherId: number): RealisedHours => {
+    if (!hours.has(teacherId)) {
+      hours.set(teacherId, {
+        from: range.from,
+        to: range.to,
+        scheduled_jp: 0,
+        missed_jp: 0,
+        substitution_jp: 0,
+        delivered_jp: 0
+      });
+    }
+    return hours.get(teacherId)!;
+  };
+
+  teacherIds.forEach(entry);
+
+  // Lessons held on every teaching date: those of its weekday that a special-period
+  // template does not drop
+  const held = new Map<string, typeof cells>();
+  for (const date of await loadTeachingDates(executor, academicYearId, range)) {
+    const day = dayOfWeekOf(date);
+    const { slotOf } = await loadDatedSlots(executor, academicYearId, date);
+    held.set(date, cells.filter(cell => cell.day_of_week === day && slotOf(cell) !== null));
+  }
+
+  for (const lessons of held.values()) {
+    for (const cell of lessons) entry(cell.teacher_id!).scheduled_jp++;
+  }
+  for (const absence of absences) {
+    // No lessons to miss on a holiday
+    const missed = (held.get(absence.date) ?? []).filter(cell => cell.teacher_id === absence.teacher_id).length;
+    if (missed > 0) entry(absence.teacher_id).missed_jp += missed;
+  }
+  for (const substitution of substitutions) {
+    if (held.has(substitution.date)) entry(substitution.teacher_id).substitution_jp++;
+  }
+
+  for (const realised of hours.values()) {
+    realised.delivered_jp = realised.scheduled_jp - realised.missed_jp + realised.substitution_jp;
+  }
+
+  return hours;
+};
+
+/**
+ * Create teacher absence
+ * Records that a teacher misses a school day, e.g. sick or on dinas luar; a teacher
+ * is recorded absent at most once per day
+ */
+export const createTeacherAbsence = async (input: CreateTeacherAbsenceInput): Promise<TeacherAbsence> => {
+  try {
+    const teacher = await db.select()
+      .from(teachersTable)
+      .where(eq(teachersTable.id, input.teacher_id))
+      .execute();
+
+    if (teacher.length === 0) {
+      throw new Error(`Teacher with id ${input.teacher_id} not found`);
+    }
+
+    const academicYear = await db.select()
+      .from(academicYearsTable)
+      .where(eq(academicYearsTable.id, input.academic_year_id))
+      .execute();
+
+    if (academicYear.length === 0) {
+      throw new Error(`Academic year with id ${input.academic_year_id} not found`);
+    }
+
+    const existing = await db.select()
+      .from(teacherAbsencesTable)
+      .where(and(
+        eq(teacherAbsencesTable.teacher_id, input.teacher_id),
+        eq(teacherAbsencesTable.date, input.date)
+      ))
+      .execute();
+
+    if (existing.length > 0) {
+      throw new Error(`${teacher[0].name} is already recorded absent on ${input.date}`);
+    }
+
+    const result = await db.insert(teacherAbsencesTable)
+      .values({
+        teacher_id: input.teacher_id,
+        academic_year_id: input.academic_year_id,
+        date: input.date,
+        reason: input.reason,
+        notes: input.notes ?? null
+      })
+      .returning()
+      .execute();
+
+    return result[0];
+  } catch (error) {
+    console.error('Teacher absence creation failed:', error);
+    throw error;
+  }
+};
+
+/**
+ * Get teacher absences
+ * Lists the absences of an academic year, optionally of one day only, by date and
+ * teacher name
+ */
+export const getTeacherAbsences = async (
+  academicYearId: number,
+  date?: string
+): Promise<Array<TeacherAbsence & { teacher_name: string }>> => {
+  try {
+    const result = await db.select({
+      id: teacherAbsencesTable.id,
+      teacher_id: teacherAbsencesTable.teacher_id,
+      academic_year_id: teacherAbsencesTable.academic_year_id,
+      date: teacherAbsencesTable.date,
+      reason: teacherAbsencesTable.reason,
+      notes: teacherAbsencesTable.notes,
+      created_at: teacherAbsencesTable.created_at,
+      updated_at: teacherAbsencesTable.updated_at,
+      teacher_name: teachersTable.name
+    })
+      .from(teacherAbsencesTable)
+      .innerJoin(teachersTable, eq(teacherAbsencesTable.teacher_id, teachersTable.id))
+      .where(and(
+        eq(teacherAbsencesTable.academic_year_id, academicYearId),
+        date !== undefined ? eq(teacherAbsencesTable.date, date) : undefined
+      ))
+      .orderBy(asc(teacherAbsencesTable.date), asc(teachersTable.name))
+      .execute();
+
+    return result;
+  } catch (error) {
+    console.error('Failed to get teacher absences:', error);
+    throw error;
+  }
+};
+
+/**
+ * Delete teacher absence
+ * Removes an absence together with the substitutions confirmed for it
+ */
+export const deleteTeacherAbsence = async (id: number): Promise<boolean> => {
+  try {
+    return await db.transaction(async tx => {
+      await tx.delete(substitutionsTable)
+        .where(eq(substitutionsTable.absence_id, id))
+        .execute();
+
+      const result = await tx.delete(teacherAbsencesTable)
+        .where(eq(teacherAbsencesTable.id, id))
+        .returning()
+        .execute();
+
+      return result.length > 0;
+    });
+  } catch (error) {
+    console.error('Teacher absence deletion failed:', error);
+    throw error;
+  }
+};
+
+/**
+ * Get affected lessons
+ * Lists every lesson of the absent teacher in the published timetable on the day of
+ * the absence, with the substitute confirmed for it so far
+ */
+export const getAffectedLessons = async (absenceId: number): Promise<AffectedLesson[]> => {
+  try {
+    const absence = await findAbsence(db, absenceId);
+    return await loadAffectedLessons(db, absence);
+  } catch (error) {
+    console.error('Failed to get affected lessons:', error);
+    throw error;
+  }
+};
+
+/**
+ * Rank substitutes
+ * Lists the teachers who can cover a lesson of an absence: free at the lesson's
+ * clock time, not absent themselves and available. Teachers of the same subject come
+ * first, then teachers of the same class, then those with the fewest substitutions
+ * in the last SUBSTITUTION_LOOKBACK_DAYS days
+ */
+export const rankSubstitutes = async (absenceId: number, scheduleId: number): Promise<SubstituteCandidate[]> => {
+  try {
+    const absence = await findAbsence(db, absenceId);
+    return await rankCandidates(db, absence, scheduleId);
+  } catch (error) {
+    console.error('Substitute ranking failed:', error);
+    throw error;
+  }
+};
+
+/**
+ * Confirm substitution
+ * Stores the teacher covering a lesson of an absence, replacing an earlier choice;
+ * the substitute must still be free at that time
+ */
+export const confirmSubstitution = async (input: ConfirmSubstitutionInput): Promise<Substitution> => {
+  try {
+    return await db.transaction(async (tx) => {
+      const absence = await findAbsence(tx, input.absence_id);
+
+      // Lock the substitute until the transaction ends, so concurrent confirmations
+      // for one teacher are checked for clashes one after another
+      const teacher = await tx.select()
+        .from(teachersTable)
+        .where(eq(teachersTable.id, input.substitute_teacher_id))
+        .for('update')
+        .execute();
+
+      const candidates = await rankCandidates(tx, absence, input.schedule_id);
+
+      if (!candidates.some(candidate => candidate.teacher_id === input.substitute_teacher_id)) {
+        if (teacher.length === 0) {
+          throw new Error(`Teacher with id ${input.substitute_teacher_id} not found`);
+        }
+        throw new Error(`${teacher[0].name} is not free to cover this lesson on ${absence.date}`);
+      }
+
+      const result = await tx.insert(substitutionsTable)
+        .values({
+          absence_id: input.absence_id,
+          schedule_id: input.schedule_id,
+          substitute_teacher_id: input.substitute_teacher_id,
+          notes: input.notes ?? null
+        })
+        .onConflictDoUpdate({
+          target: [substitutionsTable.absence_id, substitutionsTable.schedule_id],
+          set: {
+            substitute_teacher_id: input.substitute_teacher_id,
+            notes: input.notes ?? null,
+            updated_at: new Date()
+          }
+        })
+        .returning()
+        .execute();
+
+      return result[0];
+    });
+  } catch (error) {
+    console.error('Substitution confirmation failed:', error);
+    throw error;
+  }
+};
+
+/**
+ * Remove substitution
+ * Drops a confirmed substitute, leaving the lesson uncovered again
+ */
+export const removeSubstitution = async (id: number): Promise<boolean> => {
+  try {
+    const result = await db.delete(substitutionsTable)
+      .where(eq(substitutionsTable.id, id))
+      .returning()
+      .execute();
+
+    return result.length > 0;
+  } catch (error) {
+    console.error('Substitution removal failed:', error);
+    throw error;
+  }
+};
+
+/**
+ * Get daily substitutions
+ * Every lesson missed on a day with its absent teacher and substitute, ordered by
+ * time; lessons nobody covers yet have no substitution
+ */
+export const getDailySubstitutions = async (date: string): Promise<SubstitutionSheetLesson[]> => {
+  try {
+    const absences = await db.select({
+      absence: teacherAbsencesTable,
+      teacher_name: teachersTable.name
+    })
+      .from(teacherAbsencesTable)
+      .innerJoin(teachersTable, eq(teacherAbsencesTable.teacher_id, teachersTable.id))
+      .where(eq(teacherAbsencesTable.date, date))
+      .orderBy(asc(teachersTable.name))
+      .execute();
+
+    const lessons: SubstitutionSheetLesson[] = [];
+    for (const { absence, teacher_name } of absences) {
+      for (const lesson of await loadAffectedLessons(db, absence)) {
+        lessons.push({
+          ...lesson,
+          absence_id: absence.id,
+          absent_teacher_id: absence.teacher_id,
+          absent_teacher_name: teacher_name,
+          reason: absence.reason
+        });
+      }
+    }
+
+    return lessons.sort((a, b) =>
+      (a.start_time ?? '').localeCompare(b.start_time ?? '') ||
+      a.jp_number - b.jp_number ||
+      a.class_name.localeCompare(b.class_name)
+    );
+  } catch (error) {
+    console.error('Failed to get daily substitutions:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,182 @@
+import { db, type DbExecutor } from '../db';
+import { teacherAvailabilityTable, teachersTable, academicYearsTable } from '../db/schema';
+import {
+  type CreateTeacherAvailabilityInput,
+  type SetTeacherAvailabilityInput,
+  type TeacherAvailability
+} from '../schema';
+import { availabilityCovers } from '../helpers/timetable_solver';
+import { eq, and, asc } from 'drizzle-orm';
+
+/**
+ * Verify the teacher and academic year referenced by availability entries exist
+ */
+const assertAvailabilityOwner = async (teacherId: number, academicYearId: number): Promise<void> => {
+  const [teacher, academicYear] = await Promise.all([
+    db.select().from(teachersTable).where(eq(teachersTable.id, teacherId)).execute(),
+    db.select().from(academicYearsTable).where(eq(academicYearsTable.id, academicYearId)).execute()
+  ]);
+
+  if (teacher.length === 0) {
+    throw new Error(`Teacher with id ${teacherId} not found`);
+  }
+  if (academicYear.length === 0) {
+    throw new Error(`Academic year with id ${academicYearId} not found`);
+  }
+};
+
+/**
+ * Create a teacher availability entry
+ * Records a blocked day, a blocked JP range or a preferred slot for a teacher
+ */
+export const createTeacherAvailability = async (input: CreateTeacherAvailabilityInput): Promise<TeacherAvailability> => {
+  try {
+    await assertAvailabilityOwner(input.teacher_id, input.academic_year_id);
+
+    const result = await db.insert(teacherAvailabilityTable)
+      .values({
+        teacher_id: input.teacher_id,
+        academic_year_id: input.academic_year_id,
+        day_of_week: input.day_of_week,
+        start_jp: input.start_jp ?? null,
+        end_jp: input.end_jp ?? null,
+        availability_type: input.availability_type
+      })
+      .returning()
+      .execute();
+
+    return result[0];
+  } catch (error) {
+    console.error('Teacher availability creation failed:', error);
+    throw error;
+  }
+};
+
+/**
+ * Get teacher availability
+ * Returns availability entries of a teacher for specific academic year
+ */
+export const getTeacherAvailability = async (teacherId: number, academicYearId: number): Promise<TeacherAvailability[]> => {
+  try {
+    const result = await db.select()
+      .from(teacherAvailabilityTable)
+      .where(and(
+        eq(teacherAvailabilityTable.teacher_id, teacherId),
+        eq(teacherAvailabilityTable.academic_year_id, academicYearId)
+      ))
+      .orderBy(asc(teacherAvailabilityTable.day_of_week), asc(teacherAvailabilityTable.start_jp))
+      .execute();
+
+    return result;
+  } catch (error) {
+    console.error('Failed to get teacher availability:', error);
+    throw error;
+  }
+};
+
+/**
+ * Get teacher availability by academic year
+ * Returns availability entries of every teacher for specific academic year
+ */
+export const getTeacherAvailabilityByAcademicYear = async (academicYearId: number): Promise<TeacherAvailability[]> => {
+  try {
+    const result = await db.select()
+      .from(teacherAvailabilityTable)
+      .where(eq(teacherAvailabilityTable.academic_year_id, academicYearId))
+      .execute();
+
+    return result;
+  } catch (error) {
+    console.error('Failed to get teacher availability by academic year:', error);
+    throw error;
+  }
+};
+
+/**
+ * Set teacher availability
+ * Replaces all availability entries of a teacher for specific academic year
+ */
+export const setTeacherAvailability = async (input: SetTeacherAvailabilityInput): Promise<TeacherAvailability[]> => {
+  try {
+    await assertAvailabilityOwner(input.teacher_id, input.academic_year_id);
+
+    return await db.transaction(async (tx) => {
+      await tx.delete(teacherAvailabilityTable)
+        .where(and(
+          eq(teacherAvailabilityTable.teacher_id, input.teacher_id),
+          eq(teacherAvailabilityTable.academic_year_id, input.academic_year_id)
+        ))
+        .execute();
+
+      if (input.entries.length === 0) {
+        return [];
+      }
+
+      return await tx.insert(teacherAvailabilityTable)
+        .values(input.entries.map(entry => ({
+          teacher_id: input.teacher_id,
+          academic_year_id: input.academic_year_id,
+          day_of_week: entry.day_of_week,
+          start_jp: entry.start_jp ?? null,
+          end_jp: entry.end_jp ?? null,
+          availability_type: entry.availability_type
+        })))
+        .returning()
+        .execute();
+    });
+  } catch (error) {
+    console.error('Teacher availability update failed:', error);
+    throw error;
+  }
+};
+
+/**
+ * Delete teacher availability entry by ID
+ * Removes availability entry from database
+ */
+export const deleteTeacherAvailability = async (id: number): Promise<boolean> => {
+  try {
+    const result = await db.delete(teacherAvailabilityTable)
+      .where(eq(teacherAvailabilityTable.id, id))
+      .returning()
+      .execute();
+
+    return result.length > 0;
+  } catch (error) {
+    console.error('Teacher availability deletion failed:', error);
+    throw error;
+  }
+};
+
+/**
+ * Find the availability entry blocking a teacher from a day/JP cell
+ * Returns the first matching 'unavailable' entry, or null when the teacher is free;
+ * a transaction passed as executor sees its own uncommitted entries
+ */
+export const findBlockingAvailability = async (
+  teacherId: number,
+  academicYearId: number,
+  dayOfWeek: number,
+  jpNumber: number,
+  executor: DbExecutor = db
+): Promise<TeacherAvailability | null> => {
+  try {
+    const entries = await executor.select()
+      .from(teacherAvailabilityTable)
+      .where(and(
+        eq(teacherAvailabilityTable.teacher_id, teacherId),
+        eq(teacherAvailabilityTable.academic_year_id, academicYearId)
+      ))
+      .orderBy(asc(teacherAvailabilityTable.day_of_week), asc(teacherAvailabilityTable.start_jp))
+      .execute();
+    const blocking = entries.find(entry =>
+      entry.availability_type === 'unavailable' &&
+      availabilityCovers(entry, { day_of_week: dayOfWeek, jp_number: jpNumber })
+    );
+
+    return blocking ?? null;
+  } catch (error) {
+    console.error('Failed to check teacher availability:', error);
+    throw error;
+  }
+};
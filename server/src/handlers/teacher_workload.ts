@@ -7,7 +7,8 @@ import {
   classesTable, 
   additionalTasksTable 
 } from '../db/schema';
-import { type TeacherWorkload, type WorkloadStatus } from '../schema';
+import { type DateRange, type TeacherWorkload, type WorkloadStatus } from '../schema';
+import { measureRealisedHours } from './substitutions';
 import { eq, and, sql } from 'drizzle-orm';
 
 // Constants for workload calculation
@@ -25,9 +26,14 @@ const getWorkloadStatus = (totalHours: number): WorkloadStatus => {
 
 /**
  * Calculate teacher workload
- * Calculates total workload for specific teacher based on JTM and additional tasks
+ * Calculates total workload for specific teacher based on JTM and additional tasks;
+ * with a date range, the JP actually delivered in it are added as realised hours
  */
-export const calculateTeacherWorkload = async (teacherId: number, academicYearId: number): Promise<TeacherWorkload> => {
+export const calculateTeacherWorkload = async (
+  teacherId: number,
+  academicYearId: number,
+  range?: DateRange
+): Promise<TeacherWorkload> => {
   try {
     // Get teacher info
     const teacher = await db.select()
@@ -87,7 +93,7 @@ export const calculateTeacherWorkload = async (teacherId: number, academicYearId
       }))
     ];
 
-    return {
+    const workload: TeacherWorkload = {
       teacher_id: teacherId,
       teacher_name: teacher[0].name,
       total_jtm_hours: totalJtmHours,
@@ -96,6 +102,13 @@ export const calculateTeacherWorkload = async (teacherId: number, academicYearId
       status: getWorkloadStatus(totalWorkload),
       details
     };
+
+    if (range) {
+      const realised = await measureRealisedHours(db, academicYearId, range, [teacherId]);
+      workload.realised = realised.get(teacherId);
+    }
+
+    return workload;
   } catch (error) {
     console.error('Calculate teacher workload failed:', error);
     throw error;
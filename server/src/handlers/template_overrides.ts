@@ -0,0 +1,446 @@
+import { db, type DbExecutor } from '../db';
+import {
+  templateOverridesTable,
+  scheduleTemplatesTable,
+  academicYearsTable,
+  timeSlotsTable,
+  schedulesTable,
+  classesTable,
+  subjectsTable,
+  teachersTable
+} from '../db/schema';
+import { type CreateTemplateOverrideInput, type TemplateOverride } from '../schema';
+import { getPublishedScheduleDraft } from './schedule_drafts';
+import { loadTeachingDates } from './academic_calendar';
+import { mapTeachingSlots, mappedSlot, type SlotMapping } from '../helpers/template_mapping';
+import { buildSlotClock, findTeacherOverlaps, type TemplateCell, type TimedSlot } from '../helpers/time_intervals';
+import { dayOfWeekOf, eachDate, isSchoolDay } from '../helpers/school_dates';
+import { eq, and, asc, gte, lte, inArray } from 'drizzle-orm';
+
+// Slot a published lesson takes on a given date
+export type DatedSlot = TimedSlot & {
+  override_id: number | null; // override whose template applies, null on regular days
+};
+
+export type DatedSlots = {
+  overrides: TemplateOverride[]; // overrides in force on the date
+  slotOf: (cell: TemplateCell) => DatedSlot | null; // null when the lesson is dropped that day
+};
+
+export type OverrideSlotMapping = {
+  day_of_week: number;
+  jp_number: number;
+  start_time: string;
+  end_time: string;
+  mapped_jp_number: number | null; // null when the lesson is dropped within the period
+  mapped_start_time: string | null;
+  mapped_end_time: string | null;
+};
+
+export type OverrideTeacherClash = {
+  date: string; // first date in the period the clash occurs on
+  day_of_week: number;
+  teacher_id: number;
+  teacher_name: string;
+  lessons: Array<{
+    schedule_id: number;
+    class_name: string;
+    start_time: string | null; // times within the period
+    end_time: string | null;
+  }>;
+};
+
+export type DailyLesson = {
+  schedule_id: number;
+  class_id: number;
+  class_name: string;
+  subject_id: number | null;
+  subject_name: string | null;
+  teacher_id: number | null;
+  teacher_name: string | null;
+  template_id: number; // template whose times apply on the date
+  jp_number: number;
+  start_time: string | null;
+  end_time: string | null;
+  override_id: number | null;
+};
+
+export type DailyTimetable = {
+  academic_year_id: number;
+  date: string;
+  day_of_week: number;
+  is_teaching_day: boolean; // false on holidays, exam days and outside the semester
+  overrides: string[]; // names of the special periods in force
+  lessons: DailyLesson[];
+  dropped: DailyLesson[]; // lessons the special-period template has no slot for
+};
+
+const findTemplate = async (executor: DbExecutor, id: number) => {
+  const result = await executor.select()
+    .from(scheduleTemplatesTable)
+    .where(eq(scheduleTemplatesTable.id, id))
+    .execute();
+
+  if (result.length === 0) {
+    throw new Error(`Schedule template with id ${id} not found`);
+  }
+  return result[0];
+};
+
+const loadMapping = async (executor: DbExecutor, override: TemplateOverride): Promise<SlotMapping> => {
+  const slots = await executor.select()
+    .from(timeSlotsTable)
+    .where(inArray(timeSlotsTable.template_id, [override.base_template_id, override.template_id]))
+    .execute();
+
+  return mapTeachingSlots(
+    slots.filter(slot => slot.template_id === override.base_template_id),
+    slots.filter(slot => slot.template_id === override.template_id)
+  );
+};
+
+/**
+ * Slots the published lessons take on a date: their own template slot, or within a
+ * special period the slot of the override template they are mapped onto
+ */
+export const loadDatedSlots = async (
+  executor: DbExecutor,
+  academicYearId: number,
+  date: string
+): Promise<DatedSlots> => {
+  const day = dayOfWeekOf(date);
+
+  const overrides = await executor.select()
+    .from(templateOverridesTable)
+    .where(and(
+      eq(templateOverridesTable.academic_year_id, academicYearId),
+      lte(templateOverridesTable.start_date, date),
+      gte(templateOverridesTable.end_date, date)
+    ))
+    .orderBy(asc(templateOverridesTable.start_date))
+    .execute();
+
+  const slots = await executor.select()
+    .from(timeSlotsTable)
+    .where(eq(timeSlotsTable.day_of_week, day))
+    .execute();
+
+  const mappings = new Map<number, { override: TemplateOverride; mapping: SlotMapping }>();
+  for (const override of overrides) {
+    mappings.set(override.base_template_id, {
+      override,
+      mapping: mapTeachingSlots(
+        slots.filter(slot => slot.template_id === override.base_template_id),
+        slots.filter(slot => slot.template_id === override.template_id)
+      )
+    });
+  }
+
+  const slotOf = (cell: TemplateCell): DatedSlot | null => {
+    const active = mappings.get(cell.template_id);
+    if (!active) {
+      const own = slots.find(slot => slot.template_id === cell.template_id && slot.jp_number === cell.jp_number);
+      return {
+        template_id: cell.template_id,
+        day_of_week: cell.day_of_week,
+        jp_number: cell.jp_number,
+        start_time: own?.start_time ?? null,
+        end_time: own?.end_time ?? null,
+        override_id: null
+      };
+    }
+
+    const target = mappedSlot(active.mapping, cell);
+    if (target === null) return null;
+    return {
+      template_id: active.override.template_id,
+      day_of_week: cell.day_of_week,
+      jp_number: target?.jp_number ?? cell.jp_number,
+      start_time: target?.start_time ?? null,
+      end_time: target?.end_time ?? null,
+      override_id: active.override.id
+    };
+  };
+
+  return { overrides, slotOf };
+};
+
+/**
+ * Create template override
+ * Lets the classes of a template follow another template within a date range, e.g.
+ * the shortened Ramadan times; one template has at most one override at a time
+ */
+export const createTemplateOverride = async (input: CreateTemplateOverrideInput): Promise<TemplateOverride> => {
+  try {
+    const academicYear = await db.select()
+      .from(academicYearsTable)
+      .where(eq(academicYearsTable.id, input.academic_year_id))
+      .execute();
+
+    if (academicYear.length === 0) {
+      throw new Error(`Academic year with id ${input.academic_year_id} not found`);
+    }
+
+    const baseTemplate = await findTemplate(db, input.base_template_id);
+    await findTemplate(db, input.template_id);
+
+    const overlapping = await db.select()
+      .from(templateOverridesTable)
+      .where(and(
+        eq(templateOverridesTable.academic_year_id, input.academic_year_id),
+        eq(templateOverridesTable.base_template_id, input.base_template_id),
+        lte(templateOverridesTable.start_date, input.end_date),
+        gte(templateOverridesTable.end_date, input.start_date)
+      ))
+      .execute();
+
+    if (overlapping.length > 0) {
+      const existing = overlapping[0];
+      throw new Error(
+        `${existing.name} already overrides ${baseTemplate.name} from ${existing.start_date} to ${existing.end_date}`
+      );
+    }
+
+    const result = await db.insert(templateOverridesTable)
+      .values(input)
+      .returning()
+      .execute();
+
+    return result[0];
+  } catch (error) {
+    console.error('Template override creation failed:', error);
+    throw error;
+  }
+};
+
+/**
+ * Get template overrides
+ * Lists the special periods of an academic year by start date
+ */
+export const getTemplateOverrides = async (academicYearId: number): Promise<TemplateOverride[]> => {
+  try {
+    return await db.select()
+      .from(templateOverridesTable)
+      .where(eq(templateOverridesTable.academic_year_id, academicYearId))
+      .orderBy(asc(templateOverridesTable.start_date), asc(templateOverridesTable.id))
+      .execute();
+  } catch (error) {
+    console.error('Failed to get template overrides:', error);
+    throw error;
+  }
+};
+
+/**
+ * Delete template override
+ * Removes a special period; its dates follow the regular template again
+ */
+export const deleteTemplateOverride = async (id: number): Promise<boolean> => {
+  try {
+    const result = await db.delete(templateOverridesTable)
+      .where(eq(templateOverridesTable.id, id))
+      .returning()
+      .execute();
+
+    return result.length > 0;
+  } catch (error) {
+    console.error('Template override deletion failed:', error);
+    throw error;
+  }
+};
+
+/**
+ * Get template override mapping
+ * Shows where every teaching slot of the base template moves within the period, how
+ * many lessons of the published timetable have no slot left, and which teachers the
+ * mapping puts in two classes at the same minutes
+ */
+export const getTemplateOverrideMapping = async (id: number): Promise<{
+  override: TemplateOverride;
+  slots: OverrideSlotMapping[];
+  dropped_lessons: number;
+  teacher_clashes: OverrideTeacherClash[];
+}> => {
+  try {
+    const result = await db.select()
+      .from(templateOverridesTable)
+      .where(eq(templateOverridesTable.id, id))
+      .execute();
+
+    if (result.length === 0) {
+      throw new Error(`Template override with id ${id} not found`);
+    }
+    const override = result[0];
+
+    const mapping = await loadMapping(db, override);
+    const baseSlots = await db.select()
+      .from(timeSlotsTable)
+      .where(and(
+        eq(timeSlotsTable.template_id, override.base_template_id),
+        eq(timeSlotsTable.slot_type, 'belajar')
+      ))
+      .orderBy(asc(timeSlotsTable.day_of_week), asc(timeSlotsTable.jp_number))
+      .execute();
+
+    const slots = baseSlots.map(slot => {
+      const target = mappedSlot(mapping, slot) ?? null;
+      return {
+        day_of_week: slot.day_of_week,
+        jp_number: slot.jp_number,
+        start_time: slot.start_time,
+        end_time: slot.end_time,
+        mapped_jp_number: target?.jp_number ?? null,
+        mapped_start_time: target?.start_time ?? null,
+        mapped_end_time: target?.end_time ?? null
+      };
+    });
+
+    let droppedLessons = 0;
+    const teacherClashes: OverrideTeacherClash[] = [];
+    const published = await getPublishedScheduleDraft(override.academic_year_id);
+    if (published) {
+      const cells = await db.select({
+        schedule_id: schedulesTable.id,
+        class_name: classesTable.class_name,
+        teacher_id: schedulesTable.teacher_id,
+        teacher_name: teachersTable.name,
+        template_id: schedulesTable.template_id,
+        day_of_week: schedulesTable.day_of_week,
+        jp_number: schedulesTable.jp_number
+      })
+        .from(schedulesTable)
+        .innerJoin(classesTable, eq(schedulesTable.class_id, classesTable.id))
+        .leftJoin(teachersTable, eq(schedulesTable.teacher_id, teachersTable.id))
+        .where(eq(schedulesTable.draft_id, published.id))
+        .orderBy(asc(schedulesTable.id))
+        .execute();
+
+      droppedLessons = cells.filter(cell =>
+        cell.template_id === override.base_template_id && mappedSlot(mapping, cell) === null
+      ).length;
+
+      // Lessons of different class templates mapped onto the same minutes: check the
+      // period date by date, since other overrides may start or end within it
+      const seen = new Set<string>();
+      for (const date of eachDate(override.start_date, override.end_date).filter(isSchoolDay)) {
+        const day = dayOfWeekOf(date);
+        const { slotOf } = await loadDatedSlots(db, override.academic_year_id, date);
+        const held = cells
+          .filter(cell => cell.day_of_week === day)
+          .flatMap(cell => {
+            const slot = slotOf(cell);
+            return slot === null ? [] : [{ ...cell, ...slot, base_template_id: cell.template_id }];
+          });
+
+        for (const { cell, overlaps } of findTeacherOverlaps(buildSlotClock(held), held)) {
+          // Only clashes the mapping of this override takes part in
+          if (cell.base_template_id !== override.base_template_id && overlaps.base_template_id !== override.base_template_id) continue;
+
+          const key = `${overlaps.schedule_id}:${cell.schedule_id}`;
+          if (seen.has(key)) continue;
+          seen.add(key);
+
+          teacherClashes.push({
+            date,
+            day_of_week: day,
+            teacher_id: cell.teacher_id!,
+            teacher_name: cell.teacher_name!,
+            lessons: [overlaps, cell].map(lesson => ({
+              schedule_id: lesson.schedule_id,
+              class_name: lesson.class_name,
+              start_time: lesson.start_time,
+              end_time: lesson.end_time
+            }))
+          });
+        }
+      }
+    }
+
+    return { override, slots, dropped_lessons: droppedLessons, teacher_clashes: teacherClashes };
+  } catch (error) {
+    console.error('Failed to get template override mapping:', error);
+    throw error;
+  }
+};
+
+/**
+ * Get daily timetable
+ * The published lessons of one date, optionally of one class, at the times that
+ * apply that day; within a special period lessons follow its template
+ */
+export const getDailyTimetable = async (
+  academicYearId: number,
+  date: string,
+  classId?: number
+): Promise<DailyTimetable> => {
+  try {
+    const published = await getPublishedScheduleDraft(academicYearId);
+    if (!published) {
+      throw new Error(`No published timetable found for academic year ${academicYearId}`);
+    }
+
+    const day = dayOfWeekOf(date);
+    const { overrides, slotOf } = await loadDatedSlots(db, academicYearId, date);
+    const timetable: DailyTimetable = {
+      academic_year_id: academicYearId,
+      date,
+      day_of_week: day,
+      is_teaching_day: (await loadTeachingDates(db, academicYearId, { from: date, to: date })).length > 0,
+      overrides: overrides.map(override => override.name),
+      lessons: [],
+      dropped: []
+    };
+    if (!timetable.is_teaching_day) return timetable;
+
+    const cells = await db.select({
+      schedule_id: schedulesTable.id,
+      class_id: schedulesTable.class_id,
+      class_name: classesTable.class_name,
+      subject_id: schedulesTable.subject_id,
+      subject_name: subjectsTable.name,
+      teacher_id: schedulesTable.teacher_id,
+      teacher_name: teachersTable.name,
+      template_id: schedulesTable.template_id,
+      day_of_week: schedulesTable.day_of_week,
+      jp_number: schedulesTable.jp_number
+    })
+      .from(schedulesTable)
+      .innerJoin(classesTable, eq(schedulesTable.class_id, classesTable.id))
+      .leftJoin(subjectsTable, eq(schedulesTable.subject_id, subjectsTable.id))
+      .leftJoin(teachersTable, eq(schedulesTable.teacher_id, teachersTable.id))
+      .where(and(
+        eq(schedulesTable.draft_id, published.id),
+        eq(schedulesTable.day_of_week, day),
+        classId !== undefined ? eq(schedulesTable.class_id, classId) : undefined
+      ))
+      .execute();
+
+    for (const { day_of_week, ...cell } of cells) {
+      const slot = slotOf({ ...cell, day_of_week });
+      if (slot === null) {
+        const override = overrides.find(entry => entry.base_template_id === cell.template_id)!;
+        timetable.dropped.push({ ...cell, start_time: null, end_time: null, override_id: override.id });
+      } else {
+        timetable.lessons.push({
+          ...cell,
+          template_id: slot.template_id,
+          jp_number: slot.jp_number,
+          start_time: slot.start_time,
+          end_time: slot.end_time,
+          override_id: slot.override_id
+        });
+      }
+    }
+
+    const byClassAndTime = (a: DailyLesson, b: DailyLesson): number =>
+      a.class_name.localeCompare(b.class_name) ||
+      (a.start_time ?? '').localeCompare(b.start_time ?? '') ||
+      a.jp_number - b.jp_number;
+    timetable.lessons.sort(byClassAndTime);
+    timetable.dropped.sort(byClassAndTime);
+
+    return timetable;
+  } catch (error) {
+    console.error('Failed to get daily timetable:', error);
+    throw error;
+  }
+};
@@ -1,7 +1,24 @@
-import { db } from '../db';
+import { db, type DbExecutor } from '../db';
 import { timeSlotsTable, scheduleTemplatesTable } from '../db/schema';
-import { type CreateTimeSlotInput, type TimeSlot } from '../schema';
-import { eq, and } from 'drizzle-orm';
+import { type CreateTimeSlotInput, type GenerateTimeSlotsInput, type TimeSlot } from '../schema';
+import { buildSlotClock, type SlotClock } from '../helpers/time_intervals';
+import { buildTimeSlots } from '../helpers/bell_schedule';
+import { eq, and, inArray } from 'drizzle-orm';
+
+/**
+ * Clock of the given templates: the minute interval of each of their slots, used to
+ * compare cells of different templates
+ */
+export const loadSlotClock = async (executor: DbExecutor, templateIds: number[]): Promise<SlotClock> => {
+  if (templateIds.length === 0) return new Map();
+
+  const slots = await executor.select()
+    .from(timeSlotsTable)
+    .where(inArray(timeSlotsTable.template_id, templateIds))
+    .execute();
+
+  return buildSlotClock(slots);
+};
 
 /**
  * Create a new time slot
@@ -177,4 +194,51 @@ export const deleteTimeSlotsByTemplate = async (templateId: number): Promise<boo
     console.error('Time slots deletion by template failed:', error);
     throw error;
   }
-};
\ No newline at end of file
+};
+
+/**
+ * Preview time slots
+ * Computes a template's full set of time slots from bell parameters without saving
+ * them, so the times can be checked first
+ */
+export const previewTimeSlots = async (input: GenerateTimeSlotsInput): Promise<CreateTimeSlotInput[]> => {
+  try {
+    return buildTimeSlots(input);
+  } catch (error) {
+    console.error('Time slot preview failed:', error);
+    throw error;
+  }
+};
+
+/**
+ * Generate time slots
+ * Replaces every time slot of a template with the set computed from bell parameters
+ */
+export const generateTimeSlots = async (input: GenerateTimeSlotsInput): Promise<TimeSlot[]> => {
+  try {
+    const template = await db.select()
+      .from(scheduleTemplatesTable)
+      .where(eq(scheduleTemplatesTable.id, input.template_id))
+      .execute();
+
+    if (template.length === 0) {
+      throw new Error(`Schedule template with id ${input.template_id} not found`);
+    }
+
+    const slots = buildTimeSlots(input);
+
+    return await db.transaction(async tx => {
+      await tx.delete(timeSlotsTable)
+        .where(eq(timeSlotsTable.template_id, input.template_id))
+        .execute();
+
+      return await tx.insert(timeSlotsTable)
+        .values(slots)
+        .returning()
+        .execute();
+    });
+  } catch (error) {
+    console.error('Time slot generation failed:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,81 @@
+/**
+ * Bell schedule
+ * Builds the time slots of a template from its bell parameters: each day starts at
+ * its own time and alternates lessons of a fixed length with the non-teaching blocks
+ * placed after them. JP numbers run over every slot of a day, blocks included.
+ */
+
+import { formatClockTime, parseClockTime } from './time_intervals';
+
+export interface BellParameters<T extends string> {
+  template_id: number;
+  jp_duration: number; // minutes
+  days: Array<{
+    day_of_week: number;
+    start_time: string; // HH:mm
+    teaching_jp: number;
+    jp_duration?: number; // overrides jp_duration on this day
+  }>;
+  blocks?: Array<{
+    slot_type: T;
+    duration: number;
+    after_jp: number; // 0 = before the first lesson
+    days?: number[]; // omitted = every day
+  }>;
+}
+
+export interface GeneratedSlot<T extends string> {
+  template_id: number;
+  day_of_week: number;
+  jp_number: number;
+  start_time: string;
+  end_time: string;
+  duration: number;
+  slot_type: T | 'belajar';
+}
+
+const MINUTES_PER_DAY = 24 * 60;
+
+/**
+ * Compute every time slot of a template; blocks placed after a JP the day does not
+ * reach are left out, since the day ends before them
+ */
+export const buildTimeSlots = <T extends string>(input: BellParameters<T>): GeneratedSlot<T>[] => {
+  const slots: GeneratedSlot<T>[] = [];
+  const blocks = input.blocks ?? [];
+
+  for (const day of [...input.days].sort((a, b) => a.day_of_week - b.day_of_week)) {
+    const jpDuration = day.jp_duration ?? input.jp_duration;
+    const blocksOfDay = blocks.filter(block =>
+      (block.days === undefined || block.days.includes(day.day_of_week)) && block.after_jp <= day.teaching_jp
+    );
+
+    let clock = parseClockTime(day.start_time);
+    let jpNumber = 0;
+    const addSlot = (slotType: T | 'belajar', duration: number) => {
+      if (clock + duration > MINUTES_PER_DAY) {
+        throw new Error(`Time slots of day ${day.day_of_week} run past midnight`);
+      }
+      jpNumber++;
+      slots.push({
+        template_id: input.template_id,
+        day_of_week: day.day_of_week,
+        jp_number: jpNumber,
+        start_time: formatClockTime(clock),
+        end_time: formatClockTime(clock + duration),
+        duration,
+        slot_type: slotType
+      });
+      clock += duration;
+    };
+
+    for (let lesson = 0; lesson <= day.teaching_jp; lesson++) {
+      if (lesson > 0) addSlot('belajar', jpDuration);
+      for (const block of blocksOfDay.filter(entry => entry.after_jp === lesson)) {
+        addSlot(block.slot_type, block.duration);
+      }
+    }
+  }
+
+  return slots;
+};
@@ -0,0 +1,44 @@
+/**
+ * School dates
+ * Calendar arithmetic on YYYY-MM-DD days. Days are handled in UTC so the server
+ * time zone never moves a date to its neighbour.
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const toUtc = (date: string): Date => new Date(`${date}T00:00:00Z`);
+
+/**
+ * Timetable day of a date: 1 = Monday ... 7 = Sunday
+ */
+export const dayOfWeekOf = (date: string): number => {
+  const day = toUtc(date).getUTCDay();
+  return day === 0 ? 7 : day;
+};
+
+/**
+ * The date a number of days after (or, when negative, before) another date
+ */
+export const addDays = (date: string, days: number): string =>
+  new Date(toUtc(date).getTime() + days * DAY_MS).toISOString().slice(0, 10);
+
+/**
+ * Every date from one date to another, both included
+ */
+export const eachDate = (from: string, to: string): string[] => {
+  const dates: string[] = [];
+  for (let date = from; date <= to; date = addDays(date, 1)) {
+    dates.push(date);
+  }
+  return dates;
+};
+
+/**
+ * Whether a date falls on a timetable day, Monday (1) to Friday (5)
+ */
+export const isSchoolDay = (date: string): boolean => dayOfWeekOf(date) <= 5;
+
+/**
+ * The Monday of the week a date falls in
+ */
+export const startOfWeek = (date: string): string => addDays(date, 1 - dayOfWeekOf(date));
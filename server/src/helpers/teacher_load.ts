@@ -0,0 +1,202 @@
+/**
+ * Teacher load
+ * Measures how a teacher's lessons are laid out over the week (daily load, runs
+ * without a break, idle JP between lessons, free days) and scores the teacher-side
+ * soft rules of the generator against it. Like the solver it is pure: callers pass
+ * the slots of the templates in play and the teacher's lesson cells. A teacher's day
+ * is read in clock time, since their lessons may follow the bells of several
+ * templates.
+ */
+import type {
+  SoftRuleType,
+  SolverRule,
+  SolverTimedSlot,
+  SolverViolation,
+  SolverScore
+} from './timetable_solver';
+import { buildSlotClock, cellInterval, intervalsOverlap, type MinuteInterval, type SlotClock, type TemplateCell } from './time_intervals';
+
+export interface TeacherDayLoad {
+  day_of_week: number;
+  jp: number;
+  longest_run: number; // most JP taught in a row without an idle slot or break
+  gaps: number; // idle belajar JP between the first and the last lesson of the day
+}
+
+export interface TeacherLoadMetrics {
+  weekly_jp: number;
+  teaching_days: number;
+  free_days: number;
+  max_daily_jp: number;
+  max_consecutive_jp: number;
+  gaps_per_week: number;
+  load_spread: number; // standard deviation of the daily JP over the school days
+  days: TeacherDayLoad[];
+}
+
+export interface TeacherLessons {
+  teacher_id: number;
+  teacher_name: string;
+  weekly_jtm: number; // JP the teacher has to teach in a full timetable
+  lessons: TemplateCell[];
+}
+
+// One entry of a teacher's day in clock order
+interface DayEntry {
+  interval: MinuteInterval;
+  kind: 'lesson' | 'idle' | 'break';
+}
+
+export const TEACHER_RULE_TYPES: SoftRuleType[] = [
+  'max_teacher_daily_jp',
+  'max_teacher_consecutive_jp',
+  'min_teacher_gaps',
+  'teacher_free_day'
+];
+
+/**
+ * A teacher's day sorted by start time: their lessons, and every slot of the
+ * templates they teach on that day which none of their lessons covers
+ */
+const teacherDay = (clock: SlotClock, timeline: SolverTimedSlot[], dayLessons: TemplateCell[]): DayEntry[] => {
+  const taught = dayLessons
+    .map(cell => cellInterval(clock, cell))
+    .filter((interval): interval is MinuteInterval => interval !== undefined);
+  const templates = new Set(dayLessons.map(cell => cell.template_id));
+
+  const entries: DayEntry[] = taught.map(interval => ({ interval, kind: 'lesson' }));
+  for (const slot of timeline) {
+    if (!templates.has(slot.template_id) || slot.day_of_week !== dayLessons[0].day_of_week) continue;
+    const interval = cellInterval(clock, slot);
+    if (interval === undefined || taught.some(lesson => intervalsOverlap(lesson, interval))) continue;
+    entries.push({ interval, kind: slot.slot_type === 'belajar' ? 'idle' : 'break' });
+  }
+
+  return entries.sort((a, b) => a.interval.start - b.interval.start || a.interval.end - b.interval.end);
+};
+
+/**
+ * Measure teacher load
+ * Lays the lesson cells of one teacher over the school days of a timeline
+ */
+export const measureTeacherLoad = (timeline: SolverTimedSlot[], lessons: TemplateCell[]): TeacherLoadMetrics => {
+  const clock = buildSlotClock(timeline);
+  const schoolDays = [...new Set([...timeline, ...lessons].map(slot => slot.day_of_week))].sort((a, b) => a - b);
+
+  const days = schoolDays.map(day => {
+    const dayLessons = lessons.filter(cell => cell.day_of_week === day);
+    const entries = dayLessons.length > 0 ? teacherDay(clock, timeline, dayLessons) : [];
+
+    let longestRun = 0;
+    let run = 0;
+    for (const entry of entries) {
+      run = entry.kind === 'lesson' ? run + 1 : 0;
+      longestRun = Math.max(longestRun, run);
+    }
+
+    // Idle slots of different templates can overlap; each stretch of idle time is
+    // counted once
+    const first = entries.findIndex(entry => entry.kind === 'lesson');
+    const last = entries.map(entry => entry.kind).lastIndexOf('lesson');
+    let gaps = 0;
+    let countedUntil = -1;
+    for (const entry of first === -1 ? [] : entries.slice(first + 1, last)) {
+      if (entry.kind !== 'idle' || entry.interval.start < countedUntil) continue;
+      gaps++;
+      countedUntil = entry.interval.end;
+    }
+
+    return { day_of_week: day, jp: dayLessons.length, longest_run: longestRun, gaps };
+  });
+
+  const loads = days.map(day => day.jp);
+  const mean = loads.length > 0 ? lessons.length / loads.length : 0;
+  const variance = loads.length > 0
+    ? loads.reduce((sum, load) => sum + (load - mean) ** 2, 0) / loads.length
+    : 0;
+
+  return {
+    weekly_jp: lessons.length,
+    teaching_days: days.filter(day => day.jp > 0).length,
+    free_days: days.filter(day => day.jp === 0).length,
+    max_daily_jp: Math.max(0, ...loads),
+    max_consecutive_jp: Math.max(0, ...days.map(day => day.longest_run)),
+    gaps_per_week: days.reduce((sum, day) => sum + day.gaps, 0),
+    load_spread: Math.round(Math.sqrt(variance) * 100) / 100,
+    days
+  };
+};
+
+/**
+ * Score teacher rules
+ * Evaluates the teacher-side soft rules (daily load, consecutive JP, idle gaps and
+ * a free day for teachers with few JTM) for every given teacher
+ */
+export const scoreTeacherRules = (
+  timeline: SolverTimedSlot[],
+  teachers: TeacherLessons[],
+  rules: SolverRule[]
+): SolverScore => {
+  const violations: SolverViolation[] = [];
+  const teacherRules = rules.filter(rule => TEACHER_RULE_TYPES.includes(rule.rule_type));
+
+  for (const teacher of teachers) {
+    if (teacherRules.length === 0 || teacher.lessons.length === 0) continue;
+
+    const load = measureTeacherLoad(timeline, teacher.lessons);
+    const name = teacher.teacher_name;
+
+    for (const rule of teacherRules) {
+      const base = {
+        rule_id: rule.rule_id,
+        rule_type: rule.rule_type,
+        class_id: null,
+        subject_id: null,
+        teacher_id: teacher.teacher_id,
+        jp_number: 0
+      };
+      const limit = rule.value ?? 0;
+
+      for (const day of load.days) {
+        if (rule.rule_type === 'max_teacher_daily_jp' && day.jp > limit) {
+          violations.push({
+            ...base,
+            day_of_week: day.day_of_week,
+            penalty: rule.weight * (day.jp - limit),
+            message: `${name} teaches ${day.jp} JP on day ${day.day_of_week} (max ${limit})`
+          });
+        }
+        if (rule.rule_type === 'max_teacher_consecutive_jp' && day.longest_run > limit) {
+          violations.push({
+            ...base,
+            day_of_week: day.day_of_week,
+            penalty: rule.weight * (day.longest_run - limit),
+            message: `${name} teaches ${day.longest_run} JP in a row on day ${day.day_of_week} (max ${limit})`
+          });
+        }
+        if (rule.rule_type === 'min_teacher_gaps' && day.gaps > 0) {
+          violations.push({
+            ...base,
+            day_of_week: day.day_of_week,
+            penalty: rule.weight * day.gaps,
+            message: `${name} has ${day.gaps} idle JP between lessons on day ${day.day_of_week}`
+          });
+        }
+      }
+
+      if (rule.rule_type === 'teacher_free_day' && teacher.weekly_jtm <= limit && load.free_days === 0) {
+        violations.push({
+          ...base,
+          day_of_week: 0,
+          penalty: rule.weight,
+          message: `${name} has no free day with ${teacher.weekly_jtm} JTM (free day up to ${limit} JTM)`
+        });
+      }
+    }
+  }
+
+  return {
+    total_penalty: violations.reduce((sum, violation) => sum + violation.penalty, 0),
+    violations
+  };
+};
@@ -0,0 +1,54 @@
+/**
+ * Template mapping
+ * Places the lessons of one template on the slots of another, e.g. the regular
+ * timetable on the shortened Ramadan bell times: the n-th 'belajar' slot of a day
+ * becomes the n-th 'belajar' slot of that day in the other template.
+ */
+
+import { type TimedSlot } from './time_intervals';
+
+export interface MappableSlot extends TimedSlot {
+  slot_type: string;
+}
+
+// Slot each teaching slot of the base template moves to, keyed by day/JP; null when
+// the other template has no teaching slot left for it that day
+export type SlotMapping = Map<string, MappableSlot | null>;
+
+const mappingKey = (day: number, jpNumber: number): string => `${day}:${jpNumber}`;
+
+// 'belajar' slots of each day in JP order
+const teachingSlotsByDay = (slots: MappableSlot[]): Map<number, MappableSlot[]> => {
+  const byDay = new Map<number, MappableSlot[]>();
+  for (const slot of [...slots].sort((a, b) => a.jp_number - b.jp_number)) {
+    if (slot.slot_type !== 'belajar') continue;
+    if (!byDay.has(slot.day_of_week)) byDay.set(slot.day_of_week, []);
+    byDay.get(slot.day_of_week)!.push(slot);
+  }
+  return byDay;
+};
+
+/**
+ * Map every teaching slot of a base template onto the teaching slot of the same rank
+ * and day in a target template
+ */
+export const mapTeachingSlots = (baseSlots: MappableSlot[], targetSlots: MappableSlot[]): SlotMapping => {
+  const targets = teachingSlotsByDay(targetSlots);
+  const mapping: SlotMapping = new Map();
+
+  for (const [day, slots] of teachingSlotsByDay(baseSlots)) {
+    const onDay = targets.get(day) ?? [];
+    slots.forEach((slot, index) => mapping.set(mappingKey(day, slot.jp_number), onDay[index] ?? null));
+  }
+
+  return mapping;
+};
+
+/**
+ * Target slot of a base cell: the mapped slot, null when it is dropped, undefined
+ * when the base template has no teaching slot at that day and JP
+ */
+export const mappedSlot = (
+  mapping: SlotMapping,
+  cell: { day_of_week: number; jp_number: number }
+): MappableSlot | null | undefined => mapping.get(mappingKey(cell.day_of_week, cell.jp_number));
@@ -0,0 +1,115 @@
+/**
+ * Time intervals
+ * Overlap engine shared by validation, generation and reports. Every timetable cell
+ * is turned into the minutes its template slot really covers, so lessons of classes
+ * on different templates are compared by clock time; within one template the JP
+ * number stays authoritative.
+ */
+
+export interface TemplateCell {
+  template_id: number;
+  day_of_week: number;
+  jp_number: number;
+}
+
+export interface TimedSlot extends TemplateCell {
+  start_time: string | null; // HH:mm; null when the template has no such slot
+  end_time: string | null;
+}
+
+export interface MinuteInterval {
+  day_of_week: number;
+  start: number; // minutes since midnight
+  end: number;
+}
+
+// Minute interval of every known template slot, keyed by template/day/JP
+export type SlotClock = Map<string, MinuteInterval>;
+
+export interface TeacherOverlap<T> {
+  cell: T;
+  overlaps: T; // earlier cell of the same teacher that shares minutes with it
+}
+
+const clockKey = (cell: TemplateCell): string =>
+  `${cell.template_id}:${cell.day_of_week}:${cell.jp_number}`;
+
+/**
+ * Minutes since midnight of an HH:mm (or HH:mm:ss) clock time
+ */
+export const parseClockTime = (time: string): number => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+/**
+ * HH:mm clock time of minutes since midnight
+ */
+export const formatClockTime = (minutes: number): string =>
+  `${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`;
+
+/**
+ * Build the clock of a set of template slots; slots without times are left out
+ */
+export const buildSlotClock = (slots: TimedSlot[]): SlotClock => {
+  const clock: SlotClock = new Map();
+  for (const slot of slots) {
+    if (slot.start_time === null || slot.end_time === null) continue;
+    clock.set(clockKey(slot), {
+      day_of_week: slot.day_of_week,
+      start: parseClockTime(slot.start_time),
+      end: parseClockTime(slot.end_time)
+    });
+  }
+  return clock;
+};
+
+/**
+ * Minutes a cell covers, or undefined when its template slot has no times
+ */
+export const cellInterval = (clock: SlotClock, cell: TemplateCell): MinuteInterval | undefined =>
+  clock.get(clockKey(cell));
+
+export const intervalsOverlap = (a: MinuteInterval, b: MinuteInterval): boolean =>
+  a.day_of_week === b.day_of_week && a.start < b.end && b.start < a.end;
+
+/**
+ * Whether two cells take place at the same time: cells of one template clash on the
+ * same day and JP, cells of different templates when their minutes overlap. Cells
+ * whose times are unknown cannot be compared across templates and never clash
+ */
+export const cellsOverlap = (clock: SlotClock, a: TemplateCell, b: TemplateCell): boolean => {
+  if (a.day_of_week !== b.day_of_week) return false;
+  if (a.template_id === b.template_id) return a.jp_number === b.jp_number;
+
+  const first = cellInterval(clock, a);
+  const second = cellInterval(clock, b);
+  return first !== undefined && second !== undefined && intervalsOverlap(first, second);
+};
+
+/**
+ * Find teacher double-bookings: every cell whose teacher already teaches an earlier
+ * cell (in the given order) at the same time, paired with that earlier cell
+ */
+export const findTeacherOverlaps = <T extends TemplateCell & { teacher_id: number | null }>(
+  clock: SlotClock,
+  cells: T[]
+): TeacherOverlap<T>[] => {
+  const overlaps: TeacherOverlap<T>[] = [];
+  const seen = new Map<string, T[]>(); // teacher/day -> earlier cells
+
+  for (const cell of cells) {
+    if (cell.teacher_id === null) continue;
+
+    const key = `${cell.teacher_id}:${cell.day_of_week}`;
+    if (!seen.has(key)) seen.set(key, []);
+    const earlier = seen.get(key)!;
+    const clash = earlier.find(other => cellsOverlap(clock, other, cell));
+    if (clash !== undefined) {
+      overlaps.push({ cell, overlaps: clash });
+    }
+    earlier.push(cell);
+  }
+
+  return overlaps;
+};
@@ -0,0 +1,225 @@
+/**
+ * Timetable diagnosis
+ * Capacity checks run on solver input before generation. Each issue names a data
+ * problem that makes a full schedule impossible, so it can be fixed up front instead
+ * of being discovered as unplaced hours.
+ */
+import {
+  availabilityCovers,
+  type SolverClass,
+  type SolverInput,
+  type SolverLesson,
+  type SolverSlot
+} from './timetable_solver';
+import { buildSlotClock, cellsOverlap } from './time_intervals';
+
+export type DiagnosisIssueType =
+  | 'class_capacity'
+  | 'teacher_capacity'
+  | 'lesson_capacity'
+  | 'block_capacity'
+  | 'shared_slots';
+
+export interface DiagnosisIssue {
+  type: DiagnosisIssueType;
+  class_id: number | null;
+  teacher_ids: number[];
+  message: string;
+}
+
+const slotKey = (slot: SolverSlot): string => `${slot.day_of_week}:${slot.jp_number}`;
+
+const demand = (lesson: SolverLesson): number => lesson.blocks.reduce((sum, size) => sum + size, 0);
+
+/**
+ * Describe a set of slots compactly, e.g. 'day 1 JP 1-2, day 3 JP 4'
+ */
+const formatSlots = (slots: SolverSlot[]): string => {
+  if (slots.length === 0) return 'no slot';
+
+  const sorted = [...slots].sort((a, b) => a.day_of_week - b.day_of_week || a.jp_number - b.jp_number);
+  const parts: string[] = [];
+  let start = sorted[0];
+  let end = sorted[0];
+
+  const flush = () => {
+    parts.push(start.jp_number === end.jp_number
+      ? `day ${start.day_of_week} JP ${start.jp_number}`
+      : `day ${start.day_of_week} JP ${start.jp_number}-${end.jp_number}`);
+  };
+
+  for (const slot of sorted.slice(1)) {
+    if (slot.day_of_week === end.day_of_week && slot.jp_number === end.jp_number + 1) {
+      end = slot;
+      continue;
+    }
+    flush();
+    start = slot;
+    end = slot;
+  }
+  flush();
+
+  return parts.join(', ');
+};
+
+/**
+ * Diagnose timetable
+ * Compares JP demand with the slots classes and teachers can actually use: class
+ * demand against free belajar slots, teacher demand against teachable slots, each
+ * lesson against the slots its teacher can take in its class, block sizes against
+ * contiguous runs, and pairs of lessons competing for the same few slots
+ */
+export const diagnoseTimetable = (input: SolverInput): DiagnosisIssue[] => {
+  const issues: DiagnosisIssue[] = [];
+  const classes = new Map(input.classes.map(classItem => [classItem.class_id, classItem]));
+  const lessons = input.lessons.filter(lesson => classes.has(lesson.class_id) && demand(lesson) > 0);
+
+  const filled = new Set(input.fixed.map(cell => `${cell.class_id}:${slotKey(cell)}`));
+  const clock = buildSlotClock(input.time_slots);
+
+  // Whether a teacher is free and available at a slot of a class
+  const teacherCanTake = (teacherId: number, classItem: SolverClass, slot: SolverSlot): boolean =>
+    !input.fixed.some(cell =>
+      cell.teacher_id === teacherId &&
+      cellsOverlap(clock, cell, { template_id: classItem.template_id, ...slot })
+    ) &&
+    !input.availability.some(entry =>
+      entry.teacher_id === teacherId &&
+      entry.availability_type === 'unavailable' &&
+      availabilityCovers(entry, slot)
+    );
+
+  const freeSlots = (classItem: SolverClass): SolverSlot[] =>
+    classItem.slots.filter(slot => !filled.has(`${classItem.class_id}:${slotKey(slot)}`));
+
+  // Slots of its class a lesson can use, ignoring the other lessons
+  const allowed = new Map<SolverLesson, SolverSlot[]>(lessons.map(lesson => {
+    const classItem = classes.get(lesson.class_id)!;
+    return [lesson, freeSlots(classItem).filter(slot => teacherCanTake(lesson.teacher_id, classItem, slot))];
+  }));
+
+  for (const classItem of input.classes) {
+    const needed = lessons
+      .filter(lesson => lesson.class_id === classItem.class_id)
+      .reduce((sum, lesson) => sum + demand(lesson), 0);
+    const free = freeSlots(classItem).length;
+
+    if (needed > free) {
+      issues.push({
+        type: 'class_capacity',
+        class_id: classItem.class_id,
+        teacher_ids: [],
+        message: `Class ${classItem.class_name} needs ${needed} JP but template has ${free} free belajar slots`
+      });
+    }
+  }
+
+  const teacherIds = [...new Set(lessons.map(lesson => lesson.teacher_id))];
+  for (const teacherId of teacherIds) {
+    const teacherLessons = lessons.filter(lesson => lesson.teacher_id === teacherId);
+    const needed = teacherLessons.reduce((sum, lesson) => sum + demand(lesson), 0);
+
+    // A teacher takes one class per slot, so count distinct day/JP cells
+    const teachable = new Set<string>();
+    for (const lesson of teacherLessons) {
+      const classItem = classes.get(lesson.class_id)!;
+      for (const slot of classItem.slots) {
+        if (teacherCanTake(teacherId, classItem, slot)) teachable.add(slotKey(slot));
+      }
+    }
+
+    if (needed > teachable.size) {
+      issues.push({
+        type: 'teacher_capacity',
+        class_id: null,
+        teacher_ids: [teacherId],
+        message: `Teacher ${teacherLessons[0].teacher_name} has ${needed} JP allocated but only ${teachable.size} teachable slots exist`
+      });
+    }
+  }
+
+  for (const lesson of lessons) {
+    const classItem = classes.get(lesson.class_id)!;
+    const slots = allowed.get(lesson)!;
+    const label = `${lesson.subject_name} (${lesson.teacher_name})`;
+
+    // Not repeated when the class or teacher as a whole is already short of slots
+    const reported = issues.some(issue =>
+      issue.class_id === lesson.class_id && issue.type === 'class_capacity' ||
+      issue.type === 'teacher_capacity' && issue.teacher_ids.includes(lesson.teacher_id)
+    );
+
+    if (demand(lesson) > slots.length) {
+      if (reported) continue;
+      issues.push({
+        type: 'lesson_capacity',
+        class_id: lesson.class_id,
+        teacher_ids: [lesson.teacher_id],
+        message: `${label} needs ${demand(lesson)} JP in ${classItem.class_name} but the teacher can only use ${slots.length} of its free slots`
+      });
+      continue;
+    }
+
+    // Contiguous runs of usable belajar slots per day
+    const usable = new Set(slots.map(slotKey));
+    const runs: number[] = [];
+    const days = [...new Set(classItem.timeline.map(slot => slot.day_of_week))];
+    for (const day of days) {
+      let run = 0;
+      const daySlots = classItem.timeline
+        .filter(slot => slot.day_of_week === day)
+        .sort((a, b) => a.jp_number - b.jp_number);
+      for (const slot of daySlots) {
+        if (slot.slot_type === 'belajar' && usable.has(slotKey(slot))) {
+          run++;
+        } else {
+          runs.push(run);
+          run = 0;
+        }
+      }
+      runs.push(run);
+    }
+
+    for (const size of [...new Set(lesson.blocks)].filter(size => size > 1)) {
+      const needed = lesson.blocks.filter(block => block >= size).length;
+      const fit = runs.reduce((sum, run) => sum + Math.floor(run / size), 0);
+      if (needed > fit) {
+        issues.push({
+          type: 'block_capacity',
+          class_id: lesson.class_id,
+          teacher_ids: [lesson.teacher_id],
+          message: `${label} needs ${needed} block(s) of ${size} consecutive JP in ${classItem.class_name} but only ${fit} fit`
+        });
+      }
+    }
+  }
+
+  // Pairs of lessons that fit on their own but not together; a pair able to use every
+  // free slot of the class is a class capacity problem instead
+  for (const classItem of input.classes) {
+    const free = freeSlots(classItem).length;
+    const classLessons = lessons.filter(lesson =>
+      lesson.class_id === classItem.class_id && demand(lesson) <= allowed.get(lesson)!.length
+    );
+
+    for (let i = 0; i < classLessons.length; i++) {
+      for (let j = i + 1; j < classLessons.length; j++) {
+        const first = classLessons[i];
+        const second = classLessons[j];
+        const union = new Map([...allowed.get(first)!, ...allowed.get(second)!].map(slot => [slotKey(slot), slot]));
+        const needed = demand(first) + demand(second);
+
+        if (needed > union.size && union.size < free) {
+          issues.push({
+            type: 'shared_slots',
+            class_id: classItem.class_id,
+            teacher_ids: [...new Set([first.teacher_id, second.teacher_id])],
+            message: `${first.subject_name} (${first.teacher_name}) and ${second.subject_name} (${second.teacher_name}) together need ${needed} JP in ${classItem.class_name} but both can only use ${formatSlots([...union.values()])}`
+          });
+        }
+      }
+    }
+  }
+
+  return issues;
+};
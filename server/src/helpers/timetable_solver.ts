@@ -0,0 +1,928 @@
+/**
+ * Timetable solver
+ * Pure constraint solver used by the schedule generator handlers. It does not touch
+ * the database: handlers load classes, lessons and existing cells, then persist the
+ * placements returned here.
+ */
+import { scoreTeacherRules, TEACHER_RULE_TYPES } from './teacher_load';
+import { buildSlotClock, cellsOverlap, type TemplateCell, type TimedSlot } from './time_intervals';
+
+export interface SolverSlot {
+  day_of_week: number;
+  jp_number: number;
+}
+
+export interface SolverTimelineSlot extends SolverSlot {
+  slot_type: string;
+}
+
+export interface SolverTimedSlot extends TimedSlot {
+  slot_type: string;
+}
+
+export interface SolverClass {
+  class_id: number;
+  class_name: string;
+  template_id: number;
+  slots: SolverSlot[]; // 'belajar' slots of the class template only
+  timeline: SolverTimelineSlot[]; // every slot of the class template, any type
+}
+
+export interface SolverLesson {
+  class_id: number;
+  subject_id: number;
+  subject_name: string;
+  teacher_id: number;
+  teacher_name: string;
+  blocks: number[]; // sizes of consecutive JP blocks still to be placed
+}
+
+export interface SolverFixedCell {
+  class_id: number;
+  class_name: string;
+  template_id: number;
+  day_of_week: number;
+  jp_number: number;
+  subject_id: number | null;
+  subject_name: string | null;
+  teacher_id: number | null;
+}
+
+export interface SolverAvailability {
+  teacher_id: number;
+  day_of_week: number;
+  start_jp: number | null; // null with end_jp = the whole day
+  end_jp: number | null;
+  availability_type: 'unavailable' | 'preferred';
+}
+
+export type SoftRuleType =
+  | 'max_daily_subject_jp'
+  | 'min_subject_days'
+  | 'not_after_slot_type'
+  | 'prefer_before_slot_type'
+  | 'max_teacher_daily_jp'
+  | 'max_teacher_consecutive_jp'
+  | 'min_teacher_gaps'
+  | 'teacher_free_day';
+
+export interface SolverRule {
+  rule_id: number;
+  rule_type: SoftRuleType;
+  subject_id: number | null; // null applies the rule to every subject; teacher rules ignore it
+  slot_type: string | null;
+  value: number | null;
+  weight: number;
+}
+
+export interface SolverInput {
+  classes: SolverClass[];
+  lessons: SolverLesson[];
+  fixed: SolverFixedCell[]; // existing cells that must stay where they are
+  availability: SolverAvailability[];
+  rules: SolverRule[];
+  time_slots: SolverTimedSlot[]; // every slot of every template in play, to compare cells of different templates by clock time
+}
+
+export interface SolverOptions {
+  seed?: number; // seeds the randomised search; the same seed and input give the same timetable
+  time_budget_ms?: number; // opt-in wall-clock cap on the randomised search; omitted = no cap
+  max_iterations?: number; // attempted moves and swaps of the randomised search; omitted with a time budget = no cap
+}
+
+export interface SolverPlacement {
+  class_id: number;
+  template_id: number;
+  day_of_week: number;
+  jp_number: number;
+  subject_id: number;
+  teacher_id: number;
+}
+
+export interface SolverConflict {
+  class_id: number;
+  day_of_week: number; // 0 when the conflict is not tied to a single cell
+  jp_number: number;
+  reason: string;
+}
+
+export interface SolverViolation {
+  rule_id: number;
+  rule_type: SoftRuleType;
+  class_id: number | null; // null for teacher rules
+  subject_id: number | null;
+  teacher_id: number | null; // set for teacher rules only
+  day_of_week: number; // 0 when the violation spans the whole week
+  jp_number: number; // 0 when the violation spans a whole day
+  penalty: number;
+  message: string;
+}
+
+export interface SolverScore {
+  total_penalty: number;
+  violations: SolverViolation[];
+}
+
+// Progress of a run, handed out between steps of its work
+export interface SolverStep {
+  phase: 'placement' | 'improvement' | 'search' | 'timed_search';
+  done: number; // lesson blocks placed, passes or iterations run; milliseconds spent in a timed search
+  total: number;
+}
+
+export interface SolverResult {
+  placements: SolverPlacement[];
+  conflicts: SolverConflict[];
+  unplaced_hours: number;
+  score: SolverScore;
+  seed: number;
+  iterations: number; // randomised search iterations actually run
+}
+
+export interface ScoredCell {
+  class_id: number;
+  day_of_week: number;
+  jp_number: number;
+  subject_id: number | null;
+  subject_name: string | null;
+}
+
+interface Unit {
+  lesson: SolverLesson;
+  size: number; // consecutive JP the unit occupies
+  slot: SolverSlot | null; // first cell of the block
+  cells: SolverSlot[];
+}
+
+type Occupant = { kind: 'fixed'; cell: SolverFixedCell } | { kind: 'unit'; unit: Unit };
+
+// Penalty for each lesson placed outside a teacher's preferred slots
+const PREFERENCE_PENALTY = 3;
+
+// Local search passes over every generated lesson after greedy placement
+const IMPROVEMENT_PASSES = 5;
+
+// Randomised search limits when a run does not set its own; there is no default time
+// budget, so a run stops on its iteration limit and depends on its seed alone
+export const DEFAULT_SEED = 1;
+export const DEFAULT_MAX_ITERATIONS = 2000;
+
+// Work between two steps of a run
+const PLACEMENT_STEP_UNITS = 20;
+const SEARCH_STEP_ITERATIONS = 200;
+
+// Short breaks a block must never straddle
+const BLOCK_BREAK_TYPES = ['istirahat', 'sholat_dhuha'];
+
+/**
+ * Seeded pseudo-random generator (mulberry32) returning numbers in [0, 1)
+ */
+const createRandom = (seed: number): (() => number) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+const cellKey = (classId: number, slot: SolverSlot): string =>
+  `${classId}:${slot.day_of_week}:${slot.jp_number}`;
+
+const teacherDayKey = (teacherId: number, day: number): string => `${teacherId}:${day}`;
+
+const templateCellKey = (cell: TemplateCell): string =>
+  `${cell.template_id}:${cell.day_of_week}:${cell.jp_number}`;
+
+const subjectDayKey = (classId: number, subjectId: number, day: number): string =>
+  `${classId}:${subjectId}:${day}`;
+
+/**
+ * Check whether an availability entry covers a day/JP cell
+ */
+export const availabilityCovers = (
+  entry: Pick<SolverAvailability, 'day_of_week' | 'start_jp' | 'end_jp'>,
+  slot: SolverSlot
+): boolean => {
+  if (entry.day_of_week !== slot.day_of_week) return false;
+  if (entry.start_jp === null || entry.end_jp === null) return true;
+  return slot.jp_number >= entry.start_jp && slot.jp_number <= entry.end_jp;
+};
+
+/**
+ * Split hours into consecutive JP blocks
+ * Cycles through the pattern (e.g. '2+2+1') until every hour is covered, shortening
+ * the last block when needed; no pattern means single JP blocks
+ */
+export const splitIntoBlocks = (hours: number, pattern: string | null): number[] => {
+  const parts = pattern ? pattern.split('+').map(Number) : [1];
+  const blocks: number[] = [];
+  let remaining = hours;
+  for (let i = 0; remaining > 0; i++) {
+    const size = Math.min(parts[i % parts.length], remaining);
+    blocks.push(size);
+    remaining -= size;
+  }
+  return blocks;
+};
+
+/**
+ * Cells of a block starting at a slot, or null when the following slots of the day
+ * are not all 'belajar'; any other slot type breaks a block
+ */
+export const blockCells = (timeline: SolverTimelineSlot[], start: SolverSlot, size: number): SolverSlot[] | null => {
+  if (size === 1) return [start];
+
+  const day = timeline
+    .filter(slot => slot.day_of_week === start.day_of_week)
+    .sort((a, b) => a.jp_number - b.jp_number);
+  const index = day.findIndex(slot => slot.jp_number === start.jp_number);
+  const run = index === -1 ? [] : day.slice(index, index + size);
+
+  if (run.length < size || run.some(slot => slot.slot_type !== 'belajar')) return null;
+  return run.map(slot => ({ day_of_week: slot.day_of_week, jp_number: slot.jp_number }));
+};
+
+/**
+ * Neighbouring 'belajar' slots of a block that would join it into a longer run: the
+ * directly adjacent slots, or the slots across an istirahat/sholat_dhuha break
+ */
+export const blockNeighbours = (timeline: SolverTimelineSlot[], cells: SolverSlot[]): SolverSlot[] => {
+  const day = timeline
+    .filter(slot => slot.day_of_week === cells[0].day_of_week)
+    .sort((a, b) => a.jp_number - b.jp_number);
+  const first = day.findIndex(slot => slot.jp_number === cells[0].jp_number);
+  const last = day.findIndex(slot => slot.jp_number === cells[cells.length - 1].jp_number);
+  const neighbours: SolverSlot[] = [];
+
+  const look = (index: number, step: number) => {
+    const next = day[index + step];
+    if (!next) return;
+    if (next.slot_type === 'belajar') {
+      neighbours.push(next);
+    } else if (BLOCK_BREAK_TYPES.includes(next.slot_type)) {
+      const across = day[index + step * 2];
+      if (across && across.slot_type === 'belajar') neighbours.push(across);
+    }
+  };
+
+  if (first !== -1) look(first, -1);
+  if (last !== -1) look(last, 1);
+  return neighbours.map(slot => ({ day_of_week: slot.day_of_week, jp_number: slot.jp_number }));
+};
+
+/**
+ * Run of same-subject cells around a cell
+ * Follows directly adjacent 'belajar' slots holding the subject and reports the break
+ * slot type the run would straddle, if the subject continues right across one
+ */
+export const findBlockRun = (
+  timeline: SolverTimelineSlot[],
+  cell: SolverSlot,
+  sameSubject: (slot: SolverSlot) => boolean
+): { cells: SolverSlot[]; straddled: string | null } => {
+  const day = timeline
+    .filter(slot => slot.day_of_week === cell.day_of_week)
+    .sort((a, b) => a.jp_number - b.jp_number);
+  const index = day.findIndex(slot => slot.jp_number === cell.jp_number);
+  if (index === -1) return { cells: [cell], straddled: null };
+
+  const continues = (i: number) => day[i] !== undefined && day[i].slot_type === 'belajar' && sameSubject(day[i]);
+
+  let first = index;
+  while (continues(first - 1)) first--;
+  let last = index;
+  while (continues(last + 1)) last++;
+
+  let straddled: string | null = null;
+  for (const [breakIndex, acrossIndex] of [[first - 1, first - 2], [last + 1, last + 2]]) {
+    const slot = day[breakIndex];
+    if (slot && BLOCK_BREAK_TYPES.includes(slot.slot_type) && continues(acrossIndex)) {
+      straddled = slot.slot_type;
+    }
+  }
+
+  return {
+    cells: day.slice(first, last + 1).map(slot => ({ day_of_week: slot.day_of_week, jp_number: slot.jp_number })),
+    straddled
+  };
+};
+
+/**
+ * Slot type directly before a cell in its day, or null for the first slot of the day
+ */
+const previousSlotType = (timeline: SolverTimelineSlot[], cell: SolverSlot): string | null => {
+  let previous: SolverTimelineSlot | null = null;
+  for (const slot of timeline) {
+    if (slot.day_of_week !== cell.day_of_week || slot.jp_number >= cell.jp_number) continue;
+    if (previous === null || slot.jp_number > previous.jp_number) previous = slot;
+  }
+  return previous ? previous.slot_type : null;
+};
+
+/**
+ * First JP of a slot type in a day, or null when the day has no such slot
+ */
+const firstJpOfType = (timeline: SolverTimelineSlot[], day: number, slotType: string): number | null => {
+  const matches = timeline
+    .filter(slot => slot.day_of_week === day && slot.slot_type === slotType)
+    .map(slot => slot.jp_number);
+  return matches.length > 0 ? Math.min(...matches) : null;
+};
+
+/**
+ * Score soft rules
+ * Evaluates weighted pedagogical rules against the cells of the given classes and
+ * returns every violation with its location and penalty
+ */
+export const scoreSoftRules = (classes: SolverClass[], cells: ScoredCell[], rules: SolverRule[]): SolverScore => {
+  const violations: SolverViolation[] = [];
+
+  for (const classItem of classes) {
+    const bySubject = new Map<number, ScoredCell[]>();
+    for (const cell of cells) {
+      if (cell.class_id !== classItem.class_id || cell.subject_id === null) continue;
+      bySubject.set(cell.subject_id, [...(bySubject.get(cell.subject_id) ?? []), cell]);
+    }
+
+    for (const rule of rules) {
+      for (const [subjectId, subjectCells] of bySubject) {
+        if (rule.subject_id !== null && rule.subject_id !== subjectId) continue;
+
+        const subjectName = subjectCells[0].subject_name ?? `Subject ${subjectId}`;
+        const base = {
+          rule_id: rule.rule_id,
+          rule_type: rule.rule_type,
+          class_id: classItem.class_id,
+          subject_id: subjectId,
+          teacher_id: null
+        };
+
+        if (rule.rule_type === 'max_daily_subject_jp') {
+          const limit = rule.value ?? 0;
+          const days = new Map<number, ScoredCell[]>();
+          for (const cell of subjectCells) {
+            days.set(cell.day_of_week, [...(days.get(cell.day_of_week) ?? []), cell]);
+          }
+          for (const [day, dayCells] of days) {
+            if (dayCells.length <= limit) continue;
+            violations.push({
+              ...base,
+              day_of_week: day,
+              jp_number: 0,
+              penalty: rule.weight * (dayCells.length - limit),
+              message: `${subjectName} has ${dayCells.length} JP on day ${day} in ${classItem.class_name} (max ${limit})`
+            });
+          }
+        }
+
+        if (rule.rule_type === 'min_subject_days') {
+          const target = Math.min(rule.value ?? 0, subjectCells.length);
+          const days = new Set(subjectCells.map(cell => cell.day_of_week)).size;
+          if (days < target) {
+            violations.push({
+              ...base,
+              day_of_week: 0,
+              jp_number: 0,
+              penalty: rule.weight * (target - days),
+              message: `${subjectName} is spread over ${days} day(s) in ${classItem.class_name} (min ${target})`
+            });
+          }
+        }
+
+        if (rule.rule_type === 'not_after_slot_type' && rule.slot_type !== null) {
+          for (const cell of subjectCells) {
+            if (previousSlotType(classItem.timeline, cell) !== rule.slot_type) continue;
+            violations.push({
+              ...base,
+              day_of_week: cell.day_of_week,
+              jp_number: cell.jp_number,
+              penalty: rule.weight,
+              message: `${subjectName} is scheduled right after ${rule.slot_type} on day ${cell.day_of_week} JP ${cell.jp_number} in ${classItem.class_name}`
+            });
+          }
+        }
+
+        if (rule.rule_type === 'prefer_before_slot_type' && rule.slot_type !== null) {
+          for (const cell of subjectCells) {
+            const boundary = firstJpOfType(classItem.timeline, cell.day_of_week, rule.slot_type);
+            if (boundary === null || cell.jp_number < boundary) continue;
+            violations.push({
+              ...base,
+              day_of_week: cell.day_of_week,
+              jp_number: cell.jp_number,
+              penalty: rule.weight,
+              message: `${subjectName} is scheduled after ${rule.slot_type} on day ${cell.day_of_week} JP ${cell.jp_number} in ${classItem.class_name}`
+            });
+          }
+        }
+      }
+    }
+  }
+
+  return {
+    total_penalty: violations.reduce((sum, violation) => sum + violation.penalty, 0),
+    violations
+  };
+};
+
+/**
+ * A solver run as a sequence of steps; returns the result once it is done
+ */
+function* solverRun(input: SolverInput, options: SolverOptions): Generator<SolverStep, SolverResult> {
+  const started = Date.now();
+  const seed = options.seed ?? DEFAULT_SEED;
+  // A time budget alone lets the search run until the clock stops it
+  const maxIterations = options.max_iterations ?? (options.time_budget_ms === undefined ? DEFAULT_MAX_ITERATIONS : Infinity);
+  const timeBudget = options.time_budget_ms ?? Infinity;
+  const random = createRandom(seed);
+
+  const classes = new Map(input.classes.map(classItem => [classItem.class_id, classItem]));
+  const classCells = new Map<string, Occupant>();
+  const clock = buildSlotClock(input.time_slots);
+  const teacherCells = new Map<string, Array<{ cell: TemplateCell; class_name: string }>>(); // teacher/day -> taught cells
+  const subjectDays = new Map<string, number>();
+  const availability = new Map<number, SolverAvailability[]>();
+  const classUnits = new Map<number, Unit[]>();
+  const classFixed = new Map<number, SolverFixedCell[]>();
+  const teacherSlots = new Map<number, Map<string, TemplateCell>>(); // teacher -> taught cells
+  const teacherNames = new Map<number, string>();
+  const teacherJtm = new Map<number, number>(); // JP each teacher has once every lesson is placed
+  const teacherRules = input.rules.filter(rule => TEACHER_RULE_TYPES.includes(rule.rule_type));
+
+  for (const entry of input.availability) {
+    availability.set(entry.teacher_id, [...(availability.get(entry.teacher_id) ?? []), entry]);
+  }
+
+  const teacherEntries = (teacherId: number, type: SolverAvailability['availability_type']): SolverAvailability[] =>
+    (availability.get(teacherId) ?? []).filter(entry => entry.availability_type === type);
+
+  const bumpSubjectDay = (classId: number, subjectId: number, day: number, delta: number) => {
+    const key = subjectDayKey(classId, subjectId, day);
+    subjectDays.set(key, (subjectDays.get(key) ?? 0) + delta);
+  };
+
+  const teach = (teacherId: number, cell: TemplateCell, className: string) => {
+    const key = teacherDayKey(teacherId, cell.day_of_week);
+    teacherCells.set(key, [...(teacherCells.get(key) ?? []), { cell, class_name: className }]);
+    if (!teacherSlots.has(teacherId)) teacherSlots.set(teacherId, new Map());
+    teacherSlots.get(teacherId)!.set(templateCellKey(cell), cell);
+  };
+
+  const release = (teacherId: number, cell: TemplateCell) => {
+    const key = teacherDayKey(teacherId, cell.day_of_week);
+    teacherCells.set(key, (teacherCells.get(key) ?? []).filter(entry => templateCellKey(entry.cell) !== templateCellKey(cell)));
+    teacherSlots.get(teacherId)?.delete(templateCellKey(cell));
+  };
+
+  // A cell of a class, placed on the class template
+  const classCell = (classId: number, slot: SolverSlot): TemplateCell => ({
+    template_id: classes.get(classId)!.template_id,
+    day_of_week: slot.day_of_week,
+    jp_number: slot.jp_number
+  });
+
+  for (const cell of input.fixed) {
+    classCells.set(cellKey(cell.class_id, cell), { kind: 'fixed', cell });
+    classFixed.set(cell.class_id, [...(classFixed.get(cell.class_id) ?? []), cell]);
+    if (cell.teacher_id !== null) {
+      teach(cell.teacher_id, cell, cell.class_name);
+      teacherJtm.set(cell.teacher_id, (teacherJtm.get(cell.teacher_id) ?? 0) + 1);
+    }
+    if (cell.subject_id !== null) {
+      bumpSubjectDay(cell.class_id, cell.subject_id, cell.day_of_week, 1);
+    }
+  }
+
+  const units: Unit[] = [];
+  for (const lesson of input.lessons) {
+    if (!classes.has(lesson.class_id)) continue;
+    teacherNames.set(lesson.teacher_id, lesson.teacher_name);
+    for (const size of lesson.blocks) {
+      teacherJtm.set(lesson.teacher_id, (teacherJtm.get(lesson.teacher_id) ?? 0) + size);
+      const unit: Unit = { lesson, size, slot: null, cells: [] };
+      units.push(unit);
+      classUnits.set(lesson.class_id, [...(classUnits.get(lesson.class_id) ?? []), unit]);
+    }
+  }
+
+  // Returns why a unit cannot take a slot, or null when the slot is allowed
+  const blockingReason = (unit: Unit, slot: SolverSlot): string | null => {
+    if (classCells.has(cellKey(unit.lesson.class_id, slot))) {
+      return 'Slot is already filled';
+    }
+    if (teacherEntries(unit.lesson.teacher_id, 'unavailable').some(entry => availabilityCovers(entry, slot))) {
+      return `${unit.lesson.teacher_name} is unavailable at this slot`;
+    }
+    // Lessons of classes on other templates clash when their clock times overlap
+    const target = classCell(unit.lesson.class_id, slot);
+    const busy = (teacherCells.get(teacherDayKey(unit.lesson.teacher_id, slot.day_of_week)) ?? [])
+      .find(entry => cellsOverlap(clock, entry.cell, target));
+    if (busy !== undefined) {
+      return `${unit.lesson.teacher_name} already teaches ${busy.class_name} at this slot`;
+    }
+    return null;
+  };
+
+  const occupantSubject = (occupant: Occupant | undefined): number | null => {
+    if (!occupant) return null;
+    return occupant.kind === 'fixed' ? occupant.cell.subject_id : occupant.unit.lesson.subject_id;
+  };
+
+  // Returns why a unit cannot start at a slot, or null when its whole block fits
+  const startBlockingReason = (unit: Unit, start: SolverSlot): string | null => {
+    const classItem = classes.get(unit.lesson.class_id)!;
+    const cells = blockCells(classItem.timeline, start, unit.size);
+    if (cells === null) {
+      return `No ${unit.size} consecutive belajar JP from this slot`;
+    }
+
+    for (const cell of cells) {
+      const reason = blockingReason(unit, cell);
+      if (reason !== null) return reason;
+    }
+
+    // Blocks of the same subject must stay apart so they are never read as one longer block
+    if (Math.max(...unit.lesson.blocks) > 1) {
+      const joined = blockNeighbours(classItem.timeline, cells).some(neighbour =>
+        occupantSubject(classCells.get(cellKey(unit.lesson.class_id, neighbour))) === unit.lesson.subject_id
+      );
+      if (joined) {
+        return `Block of ${unit.lesson.subject_name} would join another ${unit.lesson.subject_name} block`;
+      }
+    }
+    return null;
+  };
+
+  const candidates = (unit: Unit): SolverSlot[] =>
+    classes.get(unit.lesson.class_id)!.slots.filter(slot => startBlockingReason(unit, slot) === null);
+
+  const place = (unit: Unit, start: SolverSlot) => {
+    const classItem = classes.get(unit.lesson.class_id)!;
+    unit.slot = start;
+    unit.cells = blockCells(classItem.timeline, start, unit.size)!;
+    for (const cell of unit.cells) {
+      classCells.set(cellKey(unit.lesson.class_id, cell), { kind: 'unit', unit });
+      teach(unit.lesson.teacher_id, classCell(unit.lesson.class_id, cell), classItem.class_name);
+    }
+    bumpSubjectDay(unit.lesson.class_id, unit.lesson.subject_id, start.day_of_week, unit.size);
+  };
+
+  const unplace = (unit: Unit) => {
+    for (const cell of unit.cells) {
+      classCells.delete(cellKey(unit.lesson.class_id, cell));
+      release(unit.lesson.teacher_id, classCell(unit.lesson.class_id, cell));
+    }
+    bumpSubjectDay(unit.lesson.class_id, unit.lesson.subject_id, unit.slot!.day_of_week, -unit.size);
+    unit.slot = null;
+    unit.cells = [];
+  };
+
+  const scoredCells = (classId: number): ScoredCell[] => [
+    ...(classFixed.get(classId) ?? []),
+    ...(classUnits.get(classId) ?? []).flatMap(unit => unit.cells.map(cell => ({
+      class_id: classId,
+      day_of_week: cell.day_of_week,
+      jp_number: cell.jp_number,
+      subject_id: unit.lesson.subject_id,
+      subject_name: unit.lesson.subject_name
+    })))
+  ];
+
+  // Number of cells of a placed unit outside its teacher's preferred slots
+  const outsidePreference = (unit: Unit): number => {
+    const preferred = teacherEntries(unit.lesson.teacher_id, 'preferred');
+    if (preferred.length === 0) return 0;
+    return unit.cells.filter(cell => !preferred.some(entry => availabilityCovers(entry, cell))).length;
+  };
+
+  // Teachers move between classes, so their day is read in clock time over every
+  // template in play
+  const teacherScore = (teacherIds: Iterable<number>): SolverScore => scoreTeacherRules(
+    input.time_slots,
+    [...teacherIds].map(teacherId => ({
+      teacher_id: teacherId,
+      teacher_name: teacherNames.get(teacherId) ?? `Teacher ${teacherId}`,
+      weekly_jtm: teacherJtm.get(teacherId) ?? 0,
+      lessons: [...(teacherSlots.get(teacherId)?.values() ?? [])]
+    })),
+    teacherRules
+  );
+
+  // Soft objective of one class: rule penalties, teacher preference penalties and the
+  // teacher rule penalties of the teachers whose lessons in the class can move
+  const classObjective = (classId: number): number => {
+    const units = classUnits.get(classId) ?? [];
+    const rulePenalty = scoreSoftRules([classes.get(classId)!], scoredCells(classId), input.rules).total_penalty;
+    const preferencePenalty = units.reduce((sum, unit) => sum + outsidePreference(unit), 0) * PREFERENCE_PENALTY;
+    const teacherPenalty = teacherRules.length > 0
+      ? teacherScore(new Set(units.map(unit => unit.lesson.teacher_id))).total_penalty
+      : 0;
+    return rulePenalty + preferencePenalty + teacherPenalty;
+  };
+
+  // Lower is better: the soft objective with the unit in place, plus a nudge to
+  // spread a subject across days; ties keep earlier slots first
+  const cheapest = (unit: Unit, options: SolverSlot[]): SolverSlot => {
+    let best = options[0];
+    let bestCost = Infinity;
+    for (const slot of options) {
+      const sameDay = subjectDays.get(subjectDayKey(unit.lesson.class_id, unit.lesson.subject_id, slot.day_of_week)) ?? 0;
+      place(unit, slot);
+      const cost = classObjective(unit.lesson.class_id) + sameDay * 2;
+      unplace(unit);
+      if (cost < bestCost) {
+        best = slot;
+        bestCost = cost;
+      }
+    }
+    return best;
+  };
+
+  // Frees cells for a stuck unit by moving already generated units elsewhere
+  const relocateFor = (unit: Unit): boolean => {
+    const classItem = classes.get(unit.lesson.class_id)!;
+    for (const start of classItem.slots) {
+      const cells = blockCells(classItem.timeline, start, unit.size);
+      if (cells === null) continue;
+
+      const occupants = cells.map(cell => classCells.get(cellKey(unit.lesson.class_id, cell)));
+      if (occupants.some(occupant => occupant?.kind === 'fixed')) continue;
+
+      const displaced = [...new Set(occupants.flatMap(occupant => occupant?.kind === 'unit' ? [occupant.unit] : []))];
+      if (displaced.length === 0) continue;
+
+      const original = displaced.map(other => other.slot!);
+      displaced.forEach(unplace);
+
+      if (startBlockingReason(unit, start) === null) {
+        place(unit, start);
+        const moved: Unit[] = [];
+        for (const other of displaced) {
+          const options = candidates(other);
+          if (options.length === 0) break;
+          place(other, cheapest(other, options));
+          moved.push(other);
+        }
+        if (moved.length === displaced.length) return true;
+        moved.forEach(unplace);
+        unplace(unit);
+      }
+      displaced.forEach((other, index) => place(other, original[index]));
+    }
+    return false;
+  };
+
+  // Moves a placed unit to a better free slot; keeps it in place otherwise
+  const tryMove = (unit: Unit, current: number): boolean => {
+    const classId = unit.lesson.class_id;
+    const from = unit.slot!;
+    unplace(unit);
+
+    let best: SolverSlot | null = null;
+    let bestScore = current;
+    for (const slot of candidates(unit)) {
+      place(unit, slot);
+      const score = classObjective(classId);
+      unplace(unit);
+      if (score < bestScore) {
+        best = slot;
+        bestScore = score;
+      }
+    }
+
+    place(unit, best ?? from);
+    return best !== null;
+  };
+
+  // Exchanges the slots of two placed blocks of the same class and size when that
+  // lowers the objective, or keeps it level when sideways swaps are allowed
+  const trySwap = (unit: Unit, other: Unit, current: number, allowLevel: boolean = false): boolean => {
+    const classId = unit.lesson.class_id;
+    const a = unit.slot!;
+    const b = other.slot!;
+    unplace(unit);
+    unplace(other);
+
+    let accepted = false;
+    if (startBlockingReason(unit, b) === null) {
+      place(unit, b);
+      if (startBlockingReason(other, a) === null) {
+        place(other, a);
+        const score = classObjective(classId);
+        accepted = allowLevel ? score <= current : score < current;
+        if (!accepted) unplace(other);
+      }
+      if (!accepted) unplace(unit);
+    }
+
+    if (!accepted) {
+      place(unit, a);
+      place(other, b);
+    }
+    return accepted;
+  };
+
+  function* improve(): Generator<SolverStep, void> {
+    for (let pass = 0; pass < IMPROVEMENT_PASSES; pass++) {
+      let improved = false;
+      for (const classId of classes.keys()) {
+        const placed = (classUnits.get(classId) ?? []).filter(unit => unit.slot !== null);
+        for (const unit of placed) {
+          if (tryMove(unit, classObjective(classId))) {
+            improved = true;
+            continue;
+          }
+          for (const other of placed) {
+            if (other === unit || other.lesson === unit.lesson || other.size !== unit.size) continue;
+            if (trySwap(unit, other, classObjective(classId))) {
+              improved = true;
+              break;
+            }
+          }
+        }
+      }
+      yield { phase: 'improvement', done: pass + 1, total: IMPROVEMENT_PASSES };
+      if (!improved) break;
+    }
+  }
+
+  // Seeded random moves and swaps of generated lessons; a change is kept unless it
+  // makes its class objective worse, so the search can cross plateaus but never
+  // loses ground. Returns the number of iterations run
+  function* search(): Generator<SolverStep, number> {
+    const placed = units.filter(unit => unit.slot !== null);
+    if (placed.length === 0) return 0;
+
+    let iterations = 0;
+    while (iterations < maxIterations && Date.now() - started < timeBudget) {
+      if (iterations > 0 && iterations % SEARCH_STEP_ITERATIONS === 0) {
+        yield Number.isFinite(maxIterations)
+          ? { phase: 'search', done: iterations, total: maxIterations }
+          : { phase: 'timed_search', done: Math.min(Date.now() - started, timeBudget), total: timeBudget };
+      }
+      iterations++;
+      const unit = placed[Math.floor(random() * placed.length)];
+      const classId = unit.lesson.class_id;
+      const current = classObjective(classId);
+      if (current === 0) continue;
+
+      if (random() < 0.5) {
+        const from = unit.slot!;
+        unplace(unit);
+        const slots = candidates(unit);
+        if (slots.length > 0) {
+          place(unit, slots[Math.floor(random() * slots.length)]);
+          if (classObjective(classId) <= current) continue;
+          unplace(unit);
+        }
+        place(unit, from);
+      } else {
+        const partners = placed.filter(other =>
+          other.lesson.class_id === classId && other.lesson !== unit.lesson && other.size === unit.size
+        );
+        if (partners.length > 0) {
+          trySwap(unit, partners[Math.floor(random() * partners.length)], current, true);
+        }
+      }
+    }
+    return iterations;
+  }
+
+  const pending = [...units];
+  const unplaced: Unit[] = [];
+
+  while (pending.length > 0) {
+    // Most constrained unit first
+    let bestIndex = 0;
+    let bestOptions: SolverSlot[] | null = null;
+    for (let i = 0; i < pending.length; i++) {
+      const options = candidates(pending[i]);
+      if (bestOptions === null || options.length < bestOptions.length) {
+        bestIndex = i;
+        bestOptions = options;
+        if (options.length === 0) break;
+      }
+    }
+
+    const [unit] = pending.splice(bestIndex, 1);
+    if (bestOptions!.length > 0) {
+      place(unit, cheapest(unit, bestOptions!));
+    } else if (!relocateFor(unit)) {
+      unplaced.push(unit);
+    }
+
+    const done = units.length - pending.length;
+    if (done % PLACEMENT_STEP_UNITS === 0 && pending.length > 0) {
+      yield { phase: 'placement', done, total: units.length };
+    }
+  }
+
+  let iterations = 0;
+  if (input.rules.length > 0 || input.availability.some(entry => entry.availability_type === 'preferred')) {
+    yield* improve();
+    iterations = yield* search();
+  }
+
+  const conflicts: SolverConflict[] = [];
+  const explained = new Set<SolverLesson>();
+  for (const unit of unplaced) {
+    const lesson = unit.lesson;
+    if (explained.has(lesson)) continue;
+    explained.add(lesson);
+
+    const classItem = classes.get(lesson.class_id)!;
+    const missing = unplaced
+      .filter(other => other.lesson === lesson)
+      .reduce((sum, other) => sum + other.size, 0);
+    const label = `${missing} JP of ${lesson.subject_name} (${lesson.teacher_name}) could not be placed`;
+    const freeSlots = classItem.slots.filter(slot => !classCells.has(cellKey(lesson.class_id, slot)));
+
+    if (freeSlots.length === 0) {
+      conflicts.push({
+        class_id: lesson.class_id,
+        day_of_week: 0,
+        jp_number: 0,
+        reason: `${label}: no free belajar slot left in ${classItem.class_name}`
+      });
+      continue;
+    }
+
+    for (const slot of freeSlots) {
+      conflicts.push({
+        class_id: lesson.class_id,
+        day_of_week: slot.day_of_week,
+        jp_number: slot.jp_number,
+        reason: `${label}: ${startBlockingReason(unit, slot)}`
+      });
+    }
+  }
+
+  const placements = units
+    .flatMap(unit => unit.cells.map(cell => ({
+      class_id: unit.lesson.class_id,
+      template_id: classes.get(unit.lesson.class_id)!.template_id,
+      day_of_week: cell.day_of_week,
+      jp_number: cell.jp_number,
+      subject_id: unit.lesson.subject_id,
+      teacher_id: unit.lesson.teacher_id
+    })))
+    .sort((a, b) => a.class_id - b.class_id || a.day_of_week - b.day_of_week || a.jp_number - b.jp_number);
+
+  const classRuleScore = scoreSoftRules(input.classes, [...classes.keys()].flatMap(scoredCells), input.rules);
+  const teacherRuleScore = teacherScore([...teacherSlots.keys()].sort((a, b) => a - b));
+
+  return {
+    placements,
+    conflicts,
+    unplaced_hours: unplaced.reduce((sum, unit) => sum + unit.size, 0),
+    score: {
+      total_penalty: classRuleScore.total_penalty + teacherRuleScore.total_penalty,
+      violations: [...classRuleScore.violations, ...teacherRuleScore.violations]
+    },
+    seed,
+    iterations
+  };
+}
+
+/**
+ * Solve timetable
+ * Places every lesson block into free consecutive 'belajar' cells of its class without
+ * double-booking teachers or using their unavailable slots, using
+ * most-constrained-first placement with a one-step relocation fallback, then
+ * improves soft-rule penalties by moving and swapping generated lessons, first
+ * systematically and then in a seeded random search bounded by an iteration limit
+ * and, only when one is given, a time budget; a time budget without an iteration
+ * limit runs the search until the clock stops it. Hours that cannot be placed are
+ * explained per free cell. A run that stops on its iteration limit is fully
+ * reproducible from its seed; one cut short by the time budget is reproduced by
+ * replaying its seed with the iterations it ran.
+ */
+export const solveTimetable = (input: SolverInput, options: SolverOptions = {}): SolverResult => {
+  const run = solverRun(input, options);
+  let step = run.next();
+  while (!step.done) step = run.next();
+  return step.value;
+};
+
+/**
+ * Solve timetable in steps
+ * The same run as solveTimetable, handing each step to a callback and giving the
+ * event loop a turn in between; a rejected callback abandons the run
+ */
+export const solveTimetableInSteps = async (
+  input: SolverInput,
+  options: SolverOptions,
+  onStep: (step: SolverStep) => Promise<void>
+): Promise<SolverResult> => {
+  const run = solverRun(input, options);
+  let step = run.next();
+  while (!step.done) {
+    await onStep(step.value);
+    await new Promise(resolve => setImmediate(resolve));
+    step = run.next();
+  }
+  return step.value;
+};
@@ -20,10 +20,28 @@ import {
   createAdditionalTaskInputSchema,
   createScheduleTemplateInputSchema,
   createTimeSlotInputSchema,
+  generateTimeSlotsInputSchema,
+  setClassTemplateInputSchema,
   createJtmAssignmentInputSchema,
   createTaskAssignmentInputSchema,
+  createScheduleDraftInputSchema,
+  updateScheduleDraftInputSchema,
   createScheduleInputSchema,
   updateScheduleInputSchema,
+  createTeacherAvailabilityInputSchema,
+  setTeacherAvailabilityInputSchema,
+  calendarDateSchema,
+  dateRangeSchema,
+  createTeacherAbsenceInputSchema,
+  confirmSubstitutionInputSchema,
+  setSemesterDatesInputSchema,
+  createCalendarEventInputSchema,
+  createTemplateOverrideInputSchema,
+  createSchedulingRuleInputSchema,
+  updateSchedulingRuleInputSchema,
+  generationOptionsSchema,
+  enqueueJobInputSchema,
+  jobStatusEnum,
   createSkDocumentTemplateInputSchema,
   createSkDocumentInputSchema,
   workloadStatusEnum
@@ -97,9 +115,17 @@ import {
   getTimeSlotById,
   updateTimeSlot,
   deleteTimeSlot,
-  deleteTimeSlotsByTemplate
+  deleteTimeSlotsByTemplate,
+  previewTimeSlots,
+  generateTimeSlots
 } from './handlers/time_slots';
 
+import {
+  setClassTemplate,
+  getClassTemplates,
+  removeClassTemplate
+} from './handlers/class_templates';
+
 import {
   createJtmAssignment,
   getJtmAssignmentsByAcademicYear,
@@ -130,6 +156,68 @@ import {
   getTeacherWorkloadDetails
 } from './handlers/teacher_workload';
 
+import {
+  createTeacherAvailability,
+  getTeacherAvailability,
+  getTeacherAvailabilityByAcademicYear,
+  setTeacherAvailability,
+  deleteTeacherAvailability
+} from './handlers/teacher_availability';
+
+import {
+  createTeacherAbsence,
+  getTeacherAbsences,
+  deleteTeacherAbsence,
+  getAffectedLessons,
+  rankSubstitutes,
+  confirmSubstitution,
+  removeSubstitution,
+  getDailySubstitutions
+} from './handlers/substitutions';
+
+import {
+  setSemesterDates,
+  createCalendarEvent,
+  getCalendarEvents,
+  deleteCalendarEvent,
+  getEffectiveWeeks,
+  getEffectiveJp
+} from './handlers/academic_calendar';
+
+import {
+  createTemplateOverride,
+  getTemplateOverrides,
+  deleteTemplateOverride,
+  getTemplateOverrideMapping,
+  getDailyTimetable
+} from './handlers/template_overrides';
+
+import {
+  createSchedulingRule,
+  getSchedulingRules,
+  updateSchedulingRule,
+  deleteSchedulingRule
+} from './handlers/scheduling_rules';
+
+import {
+  createScheduleDraft,
+  getScheduleDrafts,
+  getPublishedScheduleDraft,
+  updateScheduleDraft,
+  deleteScheduleDraft,
+  publishScheduleDraft,
+  compareScheduleDrafts
+} from './handlers/schedule_drafts';
+import {
+  getScheduleSnapshots,
+  diffScheduleSnapshots
+} from './handlers/schedule_snapshots';
+import {
+  undoScheduleCommand,
+  redoScheduleCommand,
+  getScheduleJournal
+} from './handlers/schedule_journal';
+import { getTeacherLoadReport, compareScheduleCandidates } from './handlers/schedule_metrics';
 import {
   createSchedule,
   getSchedulesByClass,
@@ -137,13 +225,24 @@ import {
   getScheduleById,
   updateSchedule,
   deleteSchedule,
-  generateAutomaticSchedule,
+  lockScheduleCell,
+  unlockScheduleCell,
   validateScheduleConflicts,
+  swapScheduleCells,
+  moveScheduleCell,
+  findSwapPartners,
   getScheduleSummaryByClass,
-  saveCachedSchedule,
   clearCachedSchedule
 } from './handlers/schedules';
 
+import {
+  generateAutomaticSchedule,
+  generateSchoolSchedule,
+  generateScheduleCandidates,
+  diagnoseSchedule,
+  repairSchedule
+} from './handlers/schedule_generator';
+
 import {
   createSkDocumentTemplate,
   getSkDocumentTemplates,
@@ -165,9 +264,20 @@ import {
   generateWorkloadReport,
   generateJtmAllocationReport,
   generateTaskAllocationReport,
+  generateSubstitutionSheet,
+  generateDailyTimetable,
   getReportFilters
 } from './handlers/reports';
 
+import {
+  enqueueJob,
+  getJob,
+  getJobs,
+  cancelJob,
+  resumeJobs,
+  watchJob
+} from './handlers/jobs';
+
 const t = initTRPC.create({
   transformer: superjson,
 });
@@ -337,6 +447,23 @@ const appRouter = router({
   deleteTimeSlotsByTemplate: publicProcedure
     .input(z.object({ templateId: z.number() }))
     .mutation(({ input }) => deleteTimeSlotsByTemplate(input.templateId)),
+  previewTimeSlots: publicProcedure
+    .input(generateTimeSlotsInputSchema)
+    .query(({ input }) => previewTimeSlots(input)),
+  generateTimeSlots: publicProcedure
+    .input(generateTimeSlotsInputSchema)
+    .mutation(({ input }) => generateTimeSlots(input)),
+
+  // Class Templates
+  setClassTemplate: publicProcedure
+    .input(setClassTemplateInputSchema)
+    .mutation(({ input }) => setClassTemplate(input)),
+  getClassTemplates: publicProcedure
+    .input(z.object({ academicYearId: z.number() }))
+    .query(({ input }) => getClassTemplates(input.academicYearId)),
+  removeClassTemplate: publicProcedure
+    .input(z.object({ classId: z.number(), academicYearId: z.number() }))
+    .mutation(({ input }) => removeClassTemplate(input.classId, input.academicYearId)),
 
   // JTM Assignments
   createJtmAssignment: publicProcedure
@@ -396,8 +523,8 @@ const appRouter = router({
 
   // Teacher Workload
   calculateTeacherWorkload: publicProcedure
-    .input(z.object({ teacherId: z.number(), academicYearId: z.number() }))
-    .query(({ input }) => calculateTeacherWorkload(input.teacherId, input.academicYearId)),
+    .input(z.object({ teacherId: z.number(), academicYearId: z.number(), range: dateRangeSchema.optional() }))
+    .query(({ input }) => calculateTeacherWorkload(input.teacherId, input.academicYearId, input.range)),
   getAllTeacherWorkloads: publicProcedure
     .input(z.object({ academicYearId: z.number() }))
     .query(({ input }) => getAllTeacherWorkloads(input.academicYearId)),
@@ -411,16 +538,160 @@ const appRouter = router({
     .input(z.object({ teacherId: z.number(), academicYearId: z.number() }))
     .query(({ input }) => getTeacherWorkloadDetails(input.teacherId, input.academicYearId)),
 
+  // Teacher Availability
+  createTeacherAvailability: publicProcedure
+    .input(createTeacherAvailabilityInputSchema)
+    .mutation(({ input }) => createTeacherAvailability(input)),
+  getTeacherAvailability: publicProcedure
+    .input(z.object({ teacherId: z.number(), academicYearId: z.number() }))
+    .query(({ input }) => getTeacherAvailability(input.teacherId, input.academicYearId)),
+  getTeacherAvailabilityByAcademicYear: publicProcedure
+    .input(z.object({ academicYearId: z.number() }))
+    .query(({ input }) => getTeacherAvailabilityByAcademicYear(input.academicYearId)),
+  setTeacherAvailability: publicProcedure
+    .input(setTeacherAvailabilityInputSchema)
+    .mutation(({ input }) => setTeacherAvailability(input)),
+  deleteTeacherAvailability: publicProcedure
+    .input(z.object({ id: z.number() }))
+    .mutation(({ input }) => deleteTeacherAvailability(input.id)),
+
+  // Teacher Absences & Substitutions
+  createTeacherAbsence: publicProcedure
+    .input(createTeacherAbsenceInputSchema)
+    .mutation(({ input }) => createTeacherAbsence(input)),
+  getTeacherAbsences: publicProcedure
+    .input(z.object({ academicYearId: z.number(), date: calendarDateSchema.optional() }))
+    .query(({ input }) => getTeacherAbsences(input.academicYearId, input.date)),
+  deleteTeacherAbsence: publicProcedure
+    .input(z.object({ id: z.number() }))
+    .mutation(({ input }) => deleteTeacherAbsence(input.id)),
+  getAffectedLessons: publicProcedure
+    .input(z.object({ absenceId: z.number() }))
+    .query(({ input }) => getAffectedLessons(input.absenceId)),
+  rankSubstitutes: publicProcedure
+    .input(z.object({ absenceId: z.number(), scheduleId: z.number() }))
+    .query(({ input }) => rankSubstitutes(input.absenceId, input.scheduleId)),
+  confirmSubstitution: publicProcedure
+    .input(confirmSubstitutionInputSchema)
+    .mutation(({ input }) => confirmSubstitution(input)),
+  removeSubstitution: publicProcedure
+    .input(z.object({ id: z.number() }))
+    .mutation(({ input }) => removeSubstitution(input.id)),
+  getDailySubstitutions: publicProcedure
+    .input(z.object({ date: calendarDateSchema }))
+    .query(({ input }) => getDailySubstitutions(input.date)),
+
+  // Academic Calendar
+  setSemesterDates: publicProcedure
+    .input(setSemesterDatesInputSchema)
+    .mutation(({ input }) => setSemesterDates(input)),
+  createCalendarEvent: publicProcedure
+    .input(createCalendarEventInputSchema)
+    .mutation(({ input }) => createCalendarEvent(input)),
+  getCalendarEvents: publicProcedure
+    .input(z.object({ academicYearId: z.number() }))
+    .query(({ input }) => getCalendarEvents(input.academicYearId)),
+  deleteCalendarEvent: publicProcedure
+    .input(z.object({ id: z.number() }))
+    .mutation(({ input }) => deleteCalendarEvent(input.id)),
+  getEffectiveWeeks: publicProcedure
+    .input(z.object({ academicYearId: z.number() }))
+    .query(({ input }) => getEffectiveWeeks(input.academicYearId)),
+  getEffectiveJp: publicProcedure
+    .input(z.object({ academicYearId: z.number() }))
+    .query(({ input }) => getEffectiveJp(input.academicYearId)),
+
+  // Template Overrides
+  createTemplateOverride: publicProcedure
+    .input(createTemplateOverrideInputSchema)
+    .mutation(({ input }) => createTemplateOverride(input)),
+  getTemplateOverrides: publicProcedure
+    .input(z.object({ academicYearId: z.number() }))
+    .query(({ input }) => getTemplateOverrides(input.academicYearId)),
+  deleteTemplateOverride: publicProcedure
+    .input(z.object({ id: z.number() }))
+    .mutation(({ input }) => deleteTemplateOverride(input.id)),
+  getTemplateOverrideMapping: publicProcedure
+    .input(z.object({ id: z.number() }))
+    .query(({ input }) => getTemplateOverrideMapping(input.id)),
+  getDailyTimetable: publicProcedure
+    .input(z.object({ academicYearId: z.number(), date: calendarDateSchema, classId: z.number().optional() }))
+    .query(({ input }) => getDailyTimetable(input.academicYearId, input.date, input.classId)),
+
+  // Scheduling Rules
+  createSchedulingRule: publicProcedure
+    .input(createSchedulingRuleInputSchema)
+    .mutation(({ input }) => createSchedulingRule(input)),
+  getSchedulingRules: publicProcedure
+    .input(z.object({ academicYearId: z.number() }))
+    .query(({ input }) => getSchedulingRules(input.academicYearId)),
+  updateSchedulingRule: publicProcedure
+    .input(updateSchedulingRuleInputSchema)
+    .mutation(({ input }) => updateSchedulingRule(input)),
+  deleteSchedulingRule: publicProcedure
+    .input(z.object({ id: z.number() }))
+    .mutation(({ input }) => deleteSchedulingRule(input.id)),
+
+  // Schedule Drafts
+  createScheduleDraft: publicProcedure
+    .input(createScheduleDraftInputSchema)
+    .mutation(({ input }) => createScheduleDraft(input)),
+  getScheduleDrafts: publicProcedure
+    .input(z.object({ academicYearId: z.number() }))
+    .query(({ input }) => getScheduleDrafts(input.academicYearId)),
+  getPublishedScheduleDraft: publicProcedure
+    .input(z.object({ academicYearId: z.number() }))
+    .query(({ input }) => getPublishedScheduleDraft(input.academicYearId)),
+  updateScheduleDraft: publicProcedure
+    .input(updateScheduleDraftInputSchema)
+    .mutation(({ input }) => updateScheduleDraft(input)),
+  deleteScheduleDraft: publicProcedure
+    .input(z.object({ id: z.number() }))
+    .mutation(({ input }) => deleteScheduleDraft(input.id)),
+  publishScheduleDraft: publicProcedure
+    .input(z.object({ id: z.number() }))
+    .mutation(({ input }) => publishScheduleDraft(input.id)),
+  compareScheduleDrafts: publicProcedure
+    .input(z.object({ firstDraftId: z.number(), secondDraftId: z.number() }))
+    .query(({ input }) => compareScheduleDrafts(input.firstDraftId, input.secondDraftId)),
+
+  // Schedule Snapshots
+  getScheduleSnapshots: publicProcedure
+    .input(z.object({ academicYearId: z.number() }))
+    .query(({ input }) => getScheduleSnapshots(input.academicYearId)),
+  diffScheduleSnapshots: publicProcedure
+    .input(z.object({ fromSnapshotId: z.number(), toSnapshotId: z.number() }))
+    .query(({ input }) => diffScheduleSnapshots(input.fromSnapshotId, input.toSnapshotId)),
+
+  // Schedule Journal
+  undoScheduleCommand: publicProcedure
+    .input(z.object({ sessionId: z.string(), academicYearId: z.number() }))
+    .mutation(({ input }) => undoScheduleCommand(input.sessionId, input.academicYearId)),
+  redoScheduleCommand: publicProcedure
+    .input(z.object({ sessionId: z.string(), academicYearId: z.number() }))
+    .mutation(({ input }) => redoScheduleCommand(input.sessionId, input.academicYearId)),
+  getScheduleJournal: publicProcedure
+    .input(z.object({ sessionId: z.string(), academicYearId: z.number() }))
+    .query(({ input }) => getScheduleJournal(input.sessionId, input.academicYearId)),
+
+  // Schedule Metrics
+  getTeacherLoadReport: publicProcedure
+    .input(z.object({ draftId: z.number() }))
+    .query(({ input }) => getTeacherLoadReport(input.draftId)),
+  compareScheduleCandidates: publicProcedure
+    .input(z.object({ draftIds: z.array(z.number()).min(2) }))
+    .query(({ input }) => compareScheduleCandidates(input.draftIds)),
+
   // Schedules
   createSchedule: publicProcedure
     .input(createScheduleInputSchema)
     .mutation(({ input }) => createSchedule(input)),
   getSchedulesByClass: publicProcedure
-    .input(z.object({ classId: z.number(), academicYearId: z.number() }))
-    .query(({ input }) => getSchedulesByClass(input.classId, input.academicYearId)),
+    .input(z.object({ classId: z.number(), academicYearId: z.number(), draftId: z.number().optional() }))
+    .query(({ input }) => getSchedulesByClass(input.classId, input.academicYearId, input.draftId)),
   getSchedulesByTeacher: publicProcedure
-    .input(z.object({ teacherId: z.number(), academicYearId: z.number() }))
-    .query(({ input }) => getSchedulesByTeacher(input.teacherId, input.academicYearId)),
+    .input(z.object({ teacherId: z.number(), academicYearId: z.number(), draftId: z.number().optional() }))
+    .query(({ input }) => getSchedulesByTeacher(input.teacherId, input.academicYearId, input.draftId)),
   getScheduleById: publicProcedure
     .input(z.object({ id: z.number() }))
     .query(({ input }) => getScheduleById(input.id)),
@@ -428,27 +699,103 @@ const appRouter = router({
     .input(updateScheduleInputSchema)
     .mutation(({ input }) => updateSchedule(input)),
   deleteSchedule: publicProcedure
+    .input(z.object({ id: z.number(), sessionId: z.string().optional() }))
+    .mutation(({ input }) => deleteSchedule(input.id, input.sessionId)),
+  lockScheduleCell: publicProcedure
+    .input(z.object({ id: z.number() }))
+    .mutation(({ input }) => lockScheduleCell(input.id)),
+  unlockScheduleCell: publicProcedure
     .input(z.object({ id: z.number() }))
-    .mutation(({ input }) => deleteSchedule(input.id)),
+    .mutation(({ input }) => unlockScheduleCell(input.id)),
+  swapScheduleCells: publicProcedure
+    .input(z.object({
+      firstId: z.number(),
+      secondId: z.number(),
+      override: z.boolean().optional(),
+      sessionId: z.string().optional()
+    }))
+    .mutation(({ input }) => swapScheduleCells(input.firstId, input.secondId, input.override, input.sessionId)),
+  moveScheduleCell: publicProcedure
+    .input(z.object({
+      id: z.number(),
+      dayOfWeek: z.number().int().min(1).max(5),
+      jpNumber: z.number().int().positive(),
+      override: z.boolean().optional(),
+      sessionId: z.string().optional()
+    }))
+    .mutation(({ input }) => moveScheduleCell(input.id, input.dayOfWeek, input.jpNumber, input.override, input.sessionId)),
+  findSwapPartners: publicProcedure
+    .input(z.object({ id: z.number() }))
+    .query(({ input }) => findSwapPartners(input.id)),
   generateAutomaticSchedule: publicProcedure
     .input(z.object({
       classId: z.number(),
+      draftId: z.number(),
+      templateId: z.number(),
+      regenerate: z.boolean().optional(),
+      options: generationOptionsSchema.optional()
+    }))
+    .mutation(({ input }) => generateAutomaticSchedule(
+      input.classId,
+      input.draftId,
+      input.templateId,
+      input.regenerate,
+      input.options
+    )),
+  generateSchoolSchedule: publicProcedure
+    .input(z.object({
+      draftId: z.number(),
+      templateId: z.number(),
+      allowPartial: z.boolean().optional(),
+      regenerate: z.boolean().optional(),
+      options: generationOptionsSchema.optional()
+    }))
+    .mutation(({ input }) => generateSchoolSchedule(
+      input.draftId,
+      input.templateId,
+      input.allowPartial,
+      input.regenerate,
+      input.options
+    )),
+  generateScheduleCandidates: publicProcedure
+    .input(z.object({
       academicYearId: z.number(),
-      templateId: z.number()
+      templateId: z.number(),
+      count: z.number().int().min(1).max(10),
+      baseDraftId: z.number().optional(),
+      options: generationOptionsSchema.optional()
     }))
-    .mutation(({ input }) => generateAutomaticSchedule(input.classId, input.academicYearId, input.templateId)),
+    .mutation(({ input }) => generateScheduleCandidates(
+      input.academicYearId,
+      input.templateId,
+      input.count,
+      input.baseDraftId,
+      input.options
+    )),
+  diagnoseSchedule: publicProcedure
+    .input(z.object({
+      draftId: z.number(),
+      templateId: z.number(),
+      classId: z.number().optional(),
+      regenerate: z.boolean().optional()
+    }))
+    .query(({ input }) => diagnoseSchedule(input.draftId, input.templateId, input.classId, input.regenerate)),
+  repairSchedule: publicProcedure
+    .input(z.object({
+      academicYearId: z.number(),
+      templateId: z.number(),
+      name: z.string().min(1).optional()
+    }))
+    .mutation(({ input }) => repairSchedule(input.academicYearId, input.templateId, input.name)),
   validateScheduleConflicts: publicProcedure
-    .input(createScheduleInputSchema)
-    .mutation(({ input }) => validateScheduleConflicts(input)),
+    .input(createScheduleInputSchema.extend({ excludeId: z.number().optional() }))
+    .mutation(({ input }) => validateScheduleConflicts(input, input.excludeId)),
   getScheduleSummaryByClass: publicProcedure
     .input(z.object({ classId: z.number(), academicYearId: z.number() }))
     .query(({ input }) => getScheduleSummaryByClass(input.classId, input.academicYearId)),
-  saveCachedSchedule: publicProcedure
-    .input(z.object({ classId: z.number(), academicYearId: z.number() }))
-    .mutation(({ input }) => saveCachedSchedule(input.classId, input.academicYearId)),
   clearCachedSchedule: publicProcedure
-    .input(z.object({ classId: z.number(), academicYearId: z.number() }))
-    .mutation(({ input }) => clearCachedSchedule(input.classId, input.academicYearId)),
+    .input(z.object({ classId: z.number(), draftId: z.number(), sessionId: z.string().optional() }))
+    .mutation(({ input }) => clearCachedSchedule(input.classId, input.draftId, input.sessionId)),
 
   // SK Documents
   createSkDocumentTemplate: publicProcedure
@@ -513,9 +860,10 @@ const appRouter = router({
   generateWorkloadReport: publicProcedure
     .input(z.object({
       academicYearId: z.number(),
-      format: z.enum(['pdf', 'excel']).optional()
+      format: z.enum(['pdf', 'excel']).optional(),
+      range: dateRangeSchema.optional()
     }))
-    .mutation(({ input }) => generateWorkloadReport(input.academicYearId, input.format)),
+    .mutation(({ input }) => generateWorkloadReport(input.academicYearId, input.format, input.range)),
   generateJtmAllocationReport: publicProcedure
     .input(z.object({
       academicYearId: z.number(),
@@ -528,9 +876,40 @@ const appRouter = router({
       format: z.enum(['pdf', 'excel']).optional()
     }))
     .mutation(({ input }) => generateTaskAllocationReport(input.academicYearId, input.format)),
+  generateSubstitutionSheet: publicProcedure
+    .input(z.object({
+      date: calendarDateSchema,
+      format: z.enum(['pdf', 'excel']).optional()
+    }))
+    .mutation(({ input }) => generateSubstitutionSheet(input.date, input.format)),
+  generateDailyTimetable: publicProcedure
+    .input(z.object({
+      academicYearId: z.number(),
+      date: calendarDateSchema,
+      format: z.enum(['pdf', 'excel']).optional(),
+      classId: z.number().optional()
+    }))
+    .mutation(({ input }) => generateDailyTimetable(input.academicYearId, input.date, input.format, input.classId)),
   getReportFilters: publicProcedure
     .input(z.object({ academicYearId: z.number() }))
     .query(({ input }) => getReportFilters(input.academicYearId)),
+
+  // Background Jobs
+  enqueueJob: publicProcedure
+    .input(enqueueJobInputSchema)
+    .mutation(({ input }) => enqueueJob(input)),
+  getJob: publicProcedure
+    .input(z.object({ id: z.number() }))
+    .query(({ input }) => getJob(input.id)),
+  getJobs: publicProcedure
+    .input(z.object({ status: jobStatusEnum.optional() }).optional())
+    .query(({ input }) => getJobs(input?.status)),
+  cancelJob: publicProcedure
+    .input(z.object({ id: z.number() }))
+    .mutation(({ input }) => cancelJob(input.id)),
+  onJobProgress: publicProcedure
+    .input(z.object({ id: z.number() }))
+    .subscription(({ input, signal }) => watchJob(input.id, signal)),
 });
 
 export type AppRouter = typeof appRouter;
@@ -548,6 +927,7 @@ async function start() {
   });
   server.listen(port);
   console.log(`TRPC server listening at port: ${port}`);
+  await resumeJobs();
 }
 
 start();
\ No newline at end of file
@@ -58,6 +58,8 @@ export const academicYearSchema = z.object({
   curriculum: z.string(),
   total_time_allocation: z.number().int(),
   is_active: z.boolean(),
+  start_date: z.string().nullable(), // YYYY-MM-DD, null until the semester calendar is set
+  end_date: z.string().nullable(),
   created_at: z.coerce.date(),
   updated_at: z.coerce.date()
 });
@@ -96,12 +98,16 @@ export const createClassInputSchema = z.object({
 
 export type CreateClassInput = z.infer<typeof createClassInputSchema>;
 
+// Block pattern: sizes of consecutive JP blocks, e.g. '2+2+1' for 5 JP
+export const blockPatternSchema = z.string().regex(/^[1-9]\d*(\+[1-9]\d*)*$/, 'Block pattern must look like 2+2+1');
+
 // Subject schema
 export const subjectSchema = z.object({
   id: z.number(),
   code: z.string(),
   name: z.string(),
   time_allocation: z.number().int(),
+  block_pattern: z.string().nullable(),
   created_at: z.coerce.date(),
   updated_at: z.coerce.date()
 });
@@ -111,7 +117,8 @@ export type Subject = z.infer<typeof subjectSchema>;
 export const createSubjectInputSchema = z.object({
   code: z.string(),
   name: z.string(),
-  time_allocation: z.number().int().positive()
+  time_allocation: z.number().int().positive(),
+  block_pattern: blockPatternSchema.nullable().optional()
 });
 
 export type CreateSubjectInput = z.infer<typeof createSubjectInputSchema>;
@@ -195,6 +202,60 @@ export const createTimeSlotInputSchema = z.object({
 
 export type CreateTimeSlotInput = z.infer<typeof createTimeSlotInputSchema>;
 
+// Non-teaching block the time-slot generator places between lessons
+export const bellBlockSchema = z.object({
+  slot_type: slotTypeEnum.exclude(['belajar']),
+  duration: z.number().int().positive(), // in minutes
+  after_jp: z.number().int().nonnegative(), // teaching JP it follows; 0 = before the first lesson
+  days: z.array(z.number().int().min(1).max(5)).optional() // omitted = every day
+});
+
+export type BellBlock = z.infer<typeof bellBlockSchema>;
+
+// Bell parameters of one school day
+export const bellDaySchema = z.object({
+  day_of_week: z.number().int().min(1).max(5),
+  start_time: z.string().regex(/^([0-1]?[0-9]|2[0-3]):[0-5][0-9]$/), // HH:mm format validation
+  teaching_jp: z.number().int().positive(), // number of belajar JP, e.g. fewer on Friday
+  jp_duration: z.number().int().positive().optional() // overrides the template JP length, e.g. a shorter Friday
+});
+
+export type BellDay = z.infer<typeof bellDaySchema>;
+
+// Bell parameters a template's full set of time slots is built from; blocks after the
+// same JP follow each other in the given order
+export const generateTimeSlotsInputSchema = z.object({
+  template_id: z.number(),
+  jp_duration: z.number().int().positive(), // in minutes
+  days: z.array(bellDaySchema).min(1),
+  blocks: z.array(bellBlockSchema).optional()
+}).refine(
+  input => new Set(input.days.map(day => day.day_of_week)).size === input.days.length,
+  { message: 'Each day_of_week may appear only once' }
+);
+
+export type GenerateTimeSlotsInput = z.infer<typeof generateTimeSlotsInputSchema>;
+
+// Class template schema: the template a class follows in an academic year
+export const classTemplateSchema = z.object({
+  id: z.number(),
+  class_id: z.number(),
+  academic_year_id: z.number(),
+  template_id: z.number(),
+  created_at: z.coerce.date(),
+  updated_at: z.coerce.date()
+});
+
+export type ClassTemplate = z.infer<typeof classTemplateSchema>;
+
+export const setClassTemplateInputSchema = z.object({
+  class_id: z.number(),
+  academic_year_id: z.number(),
+  template_id: z.number()
+});
+
+export type SetClassTemplateInput = z.infer<typeof setClassTemplateInputSchema>;
+
 // JTM Assignment schema
 export const jtmAssignmentSchema = z.object({
   id: z.number(),
@@ -203,6 +264,7 @@ export const jtmAssignmentSchema = z.object({
   subject_id: z.number(),
   class_id: z.number(),
   allocated_hours: z.number().int().positive(),
+  block_pattern: z.string().nullable(), // null falls back to the subject pattern
   created_at: z.coerce.date(),
   updated_at: z.coerce.date()
 });
@@ -214,7 +276,8 @@ export const createJtmAssignmentInputSchema = z.object({
   teacher_id: z.number(),
   subject_id: z.number(),
   class_id: z.number(),
-  allocated_hours: z.number().int().positive()
+  allocated_hours: z.number().int().positive(),
+  block_pattern: blockPatternSchema.nullable().optional()
 });
 
 export type CreateJtmAssignmentInput = z.infer<typeof createJtmAssignmentInputSchema>;
@@ -241,9 +304,57 @@ export const createTaskAssignmentInputSchema = z.object({
 
 export type CreateTaskAssignmentInput = z.infer<typeof createTaskAssignmentInputSchema>;
 
+// Schedule draft status enum
+export const scheduleDraftStatusEnum = z.enum(['draft', 'published', 'archived']);
+export type ScheduleDraftStatus = z.infer<typeof scheduleDraftStatusEnum>;
+
+// Schedule draft schema
+export const scheduleDraftSchema = z.object({
+  id: z.number(),
+  academic_year_id: z.number(),
+  name: z.string(),
+  status: scheduleDraftStatusEnum,
+  published_at: z.coerce.date().nullable(),
+  created_at: z.coerce.date(),
+  updated_at: z.coerce.date()
+});
+
+export type ScheduleDraft = z.infer<typeof scheduleDraftSchema>;
+
+export const createScheduleDraftInputSchema = z.object({
+  academic_year_id: z.number(),
+  name: z.string().min(1),
+  copy_from_draft_id: z.number().optional() // start from the cells of another draft
+});
+
+export type CreateScheduleDraftInput = z.infer<typeof createScheduleDraftInputSchema>;
+
+export const updateScheduleDraftInputSchema = z.object({
+  id: z.number(),
+  name: z.string().min(1)
+});
+
+export type UpdateScheduleDraftInput = z.infer<typeof updateScheduleDraftInputSchema>;
+
+// Schedule snapshot reason enum
+export const scheduleSnapshotReasonEnum = z.enum(['published', 'regenerated']);
+export type ScheduleSnapshotReason = z.infer<typeof scheduleSnapshotReasonEnum>;
+
+// Schedule snapshot schema
+export const scheduleSnapshotSchema = z.object({
+  id: z.number(),
+  academic_year_id: z.number(),
+  draft_id: z.number(),
+  reason: scheduleSnapshotReasonEnum,
+  created_at: z.coerce.date()
+});
+
+export type ScheduleSnapshot = z.infer<typeof scheduleSnapshotSchema>;
+
 // Schedule schema
 export const scheduleSchema = z.object({
   id: z.number(),
+  draft_id: z.number(),
   academic_year_id: z.number(),
   class_id: z.number(),
   template_id: z.number(),
@@ -252,14 +363,27 @@ export const scheduleSchema = z.object({
   subject_id: z.number().nullable(),
   teacher_id: z.number().nullable(),
   is_manual: z.boolean(),
-  is_cached: z.boolean(),
   created_at: z.coerce.date(),
   updated_at: z.coerce.date()
 });
 
 export type Schedule = z.infer<typeof scheduleSchema>;
 
+// Schedule cell with the names and slot times a timetable grid needs
+export const scheduleDetailSchema = scheduleSchema.extend({
+  class_name: z.string(),
+  subject_code: z.string().nullable(),
+  subject_name: z.string().nullable(),
+  teacher_name: z.string().nullable(),
+  start_time: z.string().nullable(), // null when the template has no matching slot
+  end_time: z.string().nullable(),
+  slot_type: slotTypeEnum.nullable()
+});
+
+export type ScheduleDetail = z.infer<typeof scheduleDetailSchema>;
+
 export const createScheduleInputSchema = z.object({
+  draft_id: z.number(),
   academic_year_id: z.number(),
   class_id: z.number(),
   template_id: z.number(),
@@ -268,11 +392,407 @@ export const createScheduleInputSchema = z.object({
   subject_id: z.number().nullable().optional(),
   teacher_id: z.number().nullable().optional(),
   is_manual: z.boolean(),
-  is_cached: z.boolean().optional()
+  override: z.boolean().optional(), // write the cell even when validation finds conflicts
+  session_id: z.string().optional() // editing session the change is journaled under
 });
 
 export type CreateScheduleInput = z.infer<typeof createScheduleInputSchema>;
 
+// Schedule operation enum
+export const scheduleOperationEnum = z.enum(['create', 'update', 'delete', 'swap', 'move', 'clear']);
+export type ScheduleOperation = z.infer<typeof scheduleOperationEnum>;
+
+// State of a schedule cell as recorded in the journal
+export const scheduleCellStateSchema = scheduleSchema.omit({ created_at: true, updated_at: true });
+export type ScheduleCellState = z.infer<typeof scheduleCellStateSchema>;
+
+// One cell touched by a journaled edit; before is null for a created cell, after for a deleted one
+export const scheduleCellChangeSchema = z.object({
+  schedule_id: z.number(),
+  before: scheduleCellStateSchema.nullable(),
+  after: scheduleCellStateSchema.nullable()
+});
+
+export type ScheduleCellChange = z.infer<typeof scheduleCellChangeSchema>;
+
+// Schedule journal entry schema
+export const scheduleJournalEntrySchema = z.object({
+  id: z.number(),
+  session_id: z.string(),
+  academic_year_id: z.number(),
+  operation: scheduleOperationEnum,
+  changes: z.array(scheduleCellChangeSchema),
+  before_digest: z.string(), // cells of the touched drafts before the edit
+  after_digest: z.string(),
+  is_undone: z.boolean(),
+  created_at: z.coerce.date()
+});
+
+export type ScheduleJournalEntry = z.infer<typeof scheduleJournalEntrySchema>;
+
+// Teacher availability type enum
+export const availabilityTypeEnum = z.enum(['unavailable', 'preferred']);
+export type AvailabilityType = z.infer<typeof availabilityTypeEnum>;
+
+// Teacher Availability schema
+export const teacherAvailabilitySchema = z.object({
+  id: z.number(),
+  teacher_id: z.number(),
+  academic_year_id: z.number(),
+  day_of_week: z.number().int().min(1).max(5),
+  start_jp: z.number().int().nullable(), // null with end_jp = whole day
+  end_jp: z.number().int().nullable(),
+  availability_type: availabilityTypeEnum,
+  created_at: z.coerce.date(),
+  updated_at: z.coerce.date()
+});
+
+export type TeacherAvailability = z.infer<typeof teacherAvailabilitySchema>;
+
+const availabilityEntrySchema = z.object({
+  day_of_week: z.number().int().min(1).max(5),
+  start_jp: z.number().int().positive().nullable().optional(),
+  end_jp: z.number().int().positive().nullable().optional(),
+  availability_type: availabilityTypeEnum
+}).refine(
+  entry => (entry.start_jp == null) === (entry.end_jp == null),
+  { message: 'start_jp and end_jp must be provided together' }
+).refine(
+  entry => entry.start_jp == null || entry.end_jp == null || entry.start_jp <= entry.end_jp,
+  { message: 'start_jp must not be after end_jp' }
+);
+
+export type AvailabilityEntryInput = z.infer<typeof availabilityEntrySchema>;
+
+export const createTeacherAvailabilityInputSchema = z.object({
+  teacher_id: z.number(),
+  academic_year_id: z.number()
+}).and(availabilityEntrySchema);
+
+export type CreateTeacherAvailabilityInput = z.infer<typeof createTeacherAvailabilityInputSchema>;
+
+export const setTeacherAvailabilityInputSchema = z.object({
+  teacher_id: z.number(),
+  academic_year_id: z.number(),
+  entries: z.array(availabilityEntrySchema)
+});
+
+export type SetTeacherAvailabilityInput = z.infer<typeof setTeacherAvailabilityInputSchema>;
+
+// Calendar day in YYYY-MM-DD form
+export const calendarDateSchema = z.string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be in YYYY-MM-DD format')
+  .refine(value => {
+    // Out-of-range days such as 2025-02-30 parse by rolling over into the next month
+    const parsed = new Date(`${value}T00:00:00Z`);
+    return !Number.isNaN(parsed.getTime()) && parsed.toISOString().slice(0, 10) === value;
+  }, { message: 'Date is not a valid calendar day' });
+
+// Inclusive range of calendar days
+export const dateRangeSchema = z.object({
+  from: calendarDateSchema,
+  to: calendarDateSchema
+}).refine(range => range.from <= range.to, { message: 'from must not be after to' });
+
+export type DateRange = z.infer<typeof dateRangeSchema>;
+
+// Teacher absence reason enum
+export const absenceReasonEnum = z.enum(['sakit', 'izin', 'dinas_luar', 'cuti', 'lainnya']);
+export type AbsenceReason = z.infer<typeof absenceReasonEnum>;
+
+// Teacher absence schema
+export const teacherAbsenceSchema = z.object({
+  id: z.number(),
+  teacher_id: z.number(),
+  academic_year_id: z.number(),
+  date: z.string(),
+  reason: absenceReasonEnum,
+  notes: z.string().nullable(),
+  created_at: z.coerce.date(),
+  updated_at: z.coerce.date()
+});
+
+export type TeacherAbsence = z.infer<typeof teacherAbsenceSchema>;
+
+export const createTeacherAbsenceInputSchema = z.object({
+  teacher_id: z.number(),
+  academic_year_id: z.number(),
+  date: calendarDateSchema,
+  reason: absenceReasonEnum,
+  notes: z.string().nullable().optional()
+});
+
+export type CreateTeacherAbsenceInput = z.infer<typeof createTeacherAbsenceInputSchema>;
+
+// Substitution schema: the teacher covering one published lesson of an absence
+export const substitutionSchema = z.object({
+  id: z.number(),
+  absence_id: z.number(),
+  schedule_id: z.number(),
+  substitute_teacher_id: z.number(),
+  notes: z.string().nullable(),
+  created_at: z.coerce.date(),
+  updated_at: z.coerce.date()
+});
+
+export type Substitution = z.infer<typeof substitutionSchema>;
+
+export const confirmSubstitutionInputSchema = z.object({
+  absence_id: z.number(),
+  schedule_id: z.number(),
+  substitute_teacher_id: z.number(),
+  notes: z.string().nullable().optional()
+});
+
+export type ConfirmSubstitutionInput = z.infer<typeof confirmSubstitutionInputSchema>;
+
+// First and last day of a semester
+export const setSemesterDatesInputSchema = z.object({
+  academic_year_id: z.number(),
+  start_date: calendarDateSchema,
+  end_date: calendarDateSchema
+}).refine(input => input.start_date <= input.end_date, { message: 'start_date must not be after end_date' });
+
+export type SetSemesterDatesInput = z.infer<typeof setSemesterDatesInputSchema>;
+
+// Calendar event type enum
+export const calendarEventTypeEnum = z.enum([
+  'libur_nasional', // national holiday or cuti bersama
+  'libur_keagamaan', // Islamic holiday, e.g. Idul Fitri or Maulid Nabi
+  'kegiatan_sekolah', // school event, e.g. MPLS or class meeting
+  'pts', // penilaian tengah semester week
+  'pas', // penilaian akhir semester week
+  'bebas_kelas' // classroom-free day
+]);
+export type CalendarEventType = z.infer<typeof calendarEventTypeEnum>;
+
+// Event types that take the day away from regular lessons unless stated otherwise
+export const LESSON_FREE_EVENT_TYPES: CalendarEventType[] = [
+  'libur_nasional',
+  'libur_keagamaan',
+  'pts',
+  'pas',
+  'bebas_kelas'
+];
+
+// Calendar event schema
+export const calendarEventSchema = z.object({
+  id: z.number(),
+  academic_year_id: z.number(),
+  event_type: calendarEventTypeEnum,
+  name: z.string(),
+  start_date: z.string(),
+  end_date: z.string(),
+  cancels_lessons: z.boolean(),
+  notes: z.string().nullable(),
+  created_at: z.coerce.date(),
+  updated_at: z.coerce.date()
+});
+
+export type CalendarEvent = z.infer<typeof calendarEventSchema>;
+
+export const createCalendarEventInputSchema = z.object({
+  academic_year_id: z.number(),
+  event_type: calendarEventTypeEnum,
+  name: z.string().min(1),
+  start_date: calendarDateSchema,
+  end_date: calendarDateSchema,
+  cancels_lessons: z.boolean().optional(), // defaults by event type
+  notes: z.string().nullable().optional()
+}).refine(input => input.start_date <= input.end_date, { message: 'start_date must not be after end_date' });
+
+export type CreateCalendarEventInput = z.infer<typeof createCalendarEventInputSchema>;
+
+// Template override schema: within the period the lessons of the base template are
+// placed on the teaching slots of another template, e.g. the shortened Ramadan times
+export const templateOverrideSchema = z.object({
+  id: z.number(),
+  academic_year_id: z.number(),
+  name: z.string(),
+  start_date: z.string(),
+  end_date: z.string(),
+  base_template_id: z.number(),
+  template_id: z.number(),
+  created_at: z.coerce.date(),
+  updated_at: z.coerce.date()
+});
+
+export type TemplateOverride = z.infer<typeof templateOverrideSchema>;
+
+export const createTemplateOverrideInputSchema = z.object({
+  academic_year_id: z.number(),
+  name: z.string().min(1),
+  start_date: calendarDateSchema,
+  end_date: calendarDateSchema,
+  base_template_id: z.number(),
+  template_id: z.number()
+}).refine(input => input.start_date <= input.end_date, { message: 'start_date must not be after end_date' })
+  .refine(input => input.base_template_id !== input.template_id, { message: 'template_id must differ from base_template_id' });
+
+export type CreateTemplateOverrideInput = z.infer<typeof createTemplateOverrideInputSchema>;
+
+// Generation run options: the seed makes a run reproducible, the limits bound its search;
+// a time budget trades that reproducibility for a wall-clock cap. Both limits are capped
+// since a run holds its transaction open until the search ends
+export const generationOptionsSchema = z.object({
+  seed: z.number().int().nonnegative().optional(),
+  time_budget_ms: z.number().int().positive().max(60000).optional(), // at most a minute
+  max_iterations: z.number().int().nonnegative().max(100000).optional()
+});
+
+export type GenerationOptions = z.infer<typeof generationOptionsSchema>;
+
+// Background job enums
+export const jobTypeEnum = z.enum([
+  'generate_school_schedule',
+  'generate_automatic_schedule',
+  'generate_schedule_candidates',
+  'workload_report'
+]);
+export type JobType = z.infer<typeof jobTypeEnum>;
+
+export const jobStatusEnum = z.enum(['queued', 'running', 'succeeded', 'failed', 'cancelled']);
+export type JobStatus = z.infer<typeof jobStatusEnum>;
+
+// Job input schema, one set of params per job type
+export const enqueueJobInputSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('generate_school_schedule'),
+    params: z.object({
+      draft_id: z.number(),
+      template_id: z.number(),
+      allow_partial: z.boolean().optional(),
+      regenerate: z.boolean().optional(),
+      options: generationOptionsSchema.optional()
+    })
+  }),
+  z.object({
+    type: z.literal('generate_automatic_schedule'),
+    params: z.object({
+      class_id: z.number(),
+      draft_id: z.number(),
+      template_id: z.number(),
+      regenerate: z.boolean().optional(),
+      options: generationOptionsSchema.optional()
+    })
+  }),
+  z.object({
+    type: z.literal('generate_schedule_candidates'),
+    params: z.object({
+      academic_year_id: z.number(),
+      template_id: z.number(),
+      count: z.number().int().min(1).max(10),
+      base_draft_id: z.number().optional(),
+      options: generationOptionsSchema.optional()
+    })
+  }),
+  z.object({
+    type: z.literal('workload_report'),
+    params: z.object({
+      academic_year_id: z.number(),
+      format: z.enum(['pdf', 'excel']).optional(),
+      range: dateRangeSchema.optional()
+    })
+  })
+]);
+
+export type EnqueueJobInput = z.infer<typeof enqueueJobInputSchema>;
+export type JobParams = EnqueueJobInput['params'];
+
+// Job schema
+export const jobSchema = z.object({
+  id: z.number(),
+  type: jobTypeEnum,
+  status: jobStatusEnum,
+  progress: z.number().int().min(0).max(100),
+  params: z.record(z.unknown()),
+  result: z.unknown().nullable(),
+  error: z.string().nullable(),
+  cancel_requested: z.boolean(),
+  created_at: z.coerce.date(),
+  started_at: z.coerce.date().nullable(),
+  finished_at: z.coerce.date().nullable(),
+  updated_at: z.coerce.date()
+});
+
+export type Job = z.infer<typeof jobSchema>;
+
+// Job log line schema
+export const jobLogSchema = z.object({
+  id: z.number(),
+  job_id: z.number(),
+  message: z.string(),
+  created_at: z.coerce.date()
+});
+
+export type JobLog = z.infer<typeof jobLogSchema>;
+
+// Scheduling rule schema
+export const softRuleTypeEnum = z.enum([
+  'max_daily_subject_jp', // value = max JP of a subject per day
+  'min_subject_days', // value = min number of days a subject is spread over
+  'not_after_slot_type', // subject should not directly follow slot_type
+  'prefer_before_slot_type', // subject should be placed before slot_type
+  'max_teacher_daily_jp', // value = max JP a teacher teaches per day
+  'max_teacher_consecutive_jp', // value = max JP a teacher teaches without an idle slot or break
+  'min_teacher_gaps', // every idle JP between a teacher's lessons of a day is penalised
+  'teacher_free_day' // value = teachers with at most this many JTM get a day without lessons
+]);
+export type SoftRuleType = z.infer<typeof softRuleTypeEnum>;
+
+// Rule types that need a value
+export const RULE_TYPES_WITH_VALUE: SoftRuleType[] = [
+  'max_daily_subject_jp',
+  'min_subject_days',
+  'max_teacher_daily_jp',
+  'max_teacher_consecutive_jp',
+  'teacher_free_day'
+];
+
+export const schedulingRuleSchema = z.object({
+  id: z.number(),
+  academic_year_id: z.number(),
+  rule_type: softRuleTypeEnum,
+  subject_id: z.number().nullable(), // null applies to every subject
+  slot_type: slotTypeEnum.nullable(),
+  value: z.number().int().nullable(),
+  weight: z.number().int(),
+  is_active: z.boolean(),
+  created_at: z.coerce.date(),
+  updated_at: z.coerce.date()
+});
+
+export type SchedulingRule = z.infer<typeof schedulingRuleSchema>;
+
+export const createSchedulingRuleInputSchema = z.object({
+  academic_year_id: z.number(),
+  rule_type: softRuleTypeEnum,
+  subject_id: z.number().nullable().optional(),
+  slot_type: slotTypeEnum.nullable().optional(),
+  value: z.number().int().positive().nullable().optional(),
+  weight: z.number().int().positive(),
+  is_active: z.boolean().optional()
+}).refine(
+  rule => !RULE_TYPES_WITH_VALUE.includes(rule.rule_type) || rule.value != null,
+  { message: 'value is required for this rule type' }
+).refine(
+  rule => !['not_after_slot_type', 'prefer_before_slot_type'].includes(rule.rule_type) || rule.slot_type != null,
+  { message: 'slot_type is required for this rule type' }
+);
+
+export type CreateSchedulingRuleInput = z.infer<typeof createSchedulingRuleInputSchema>;
+
+export const updateSchedulingRuleInputSchema = z.object({
+  id: z.number(),
+  subject_id: z.number().nullable().optional(),
+  slot_type: slotTypeEnum.nullable().optional(),
+  value: z.number().int().positive().nullable().optional(),
+  weight: z.number().int().positive().optional(),
+  is_active: z.boolean().optional()
+});
+
+export type UpdateSchedulingRuleInput = z.infer<typeof updateSchedulingRuleInputSchema>;
+
 // SK Document Template schema
 export const skDocumentTemplateSchema = z.object({
   id: z.number(),
@@ -350,6 +870,19 @@ export type UpdateScheduleInput = z.infer<typeof updateScheduleInputSchema>;
 export const workloadStatusEnum = z.enum(['layak', 'lebih', 'kurang']);
 export type WorkloadStatus = z.infer<typeof workloadStatusEnum>;
 
+// Realised hours: JP a teacher actually delivered over a date range, i.e.
+// scheduled - missed + substitutions taught
+export const realisedHoursSchema = z.object({
+  from: z.string(),
+  to: z.string(),
+  scheduled_jp: z.number(),
+  missed_jp: z.number(),
+  substitution_jp: z.number(),
+  delivered_jp: z.number()
+});
+
+export type RealisedHours = z.infer<typeof realisedHoursSchema>;
+
 // Teacher workload summary
 export const teacherWorkloadSchema = z.object({
   teacher_id: z.number(),
@@ -364,7 +897,8 @@ export const teacherWorkloadSchema = z.object({
     class_name: z.string().optional(),
     task_name: z.string().optional(),
     hours: z.number()
-  }))
+  })),
+  realised: realisedHoursSchema.optional() // only when measured over a date range
 });
 
 export type TeacherWorkload = z.infer<typeof teacherWorkloadSchema>;
\ No newline at end of file
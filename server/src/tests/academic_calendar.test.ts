@@ -0,0 +1,234 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import {
+  academicYearsTable,
+  classesTable,
+  scheduleTemplatesTable,
+  subjectsTable,
+  teachersTable,
+  jtmAssignmentsTable,
+  schedulesTable,
+  scheduleDraftsTable,
+  teacherAbsencesTable,
+  substitutionsTable
+} from '../db/schema';
+import {
+  setSemesterDates,
+  createCalendarEvent,
+  getCalendarEvents,
+  deleteCalendarEvent,
+  getEffectiveWeeks,
+  getEffectiveJp
+} from '../handlers/academic_calendar';
+import { measureRealisedHours } from '../handlers/substitutions';
+import { type CalendarEventType } from '../schema';
+import { eq } from 'drizzle-orm';
+
+// Semester of six Monday-to-Friday weeks, 2024-07-15 (Monday) to 2024-08-23 (Friday)
+const SEMESTER = { start_date: '2024-07-15', end_date: '2024-08-23' };
+
+describe('academic calendar', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let academicYearId: number;
+  let classId: number;
+  let templateId: number;
+  let mathId: number;
+  let scienceId: number;
+  let budiId: number;
+  let sitiId: number;
+
+  beforeEach(async () => {
+    const [academicYear] = await db.insert(academicYearsTable)
+      .values({ year: '2024/2025', semester: 1, curriculum: 'Kurikulum Merdeka', total_time_allocation: 40, is_active: true })
+      .returning()
+      .execute();
+    academicYearId = academicYear.id;
+
+    const [classItem] = await db.insert(classesTable)
+      .values({ grade_level: 7, rombel: 'A', class_name: '7A', academic_year_id: academicYearId })
+      .returning()
+      .execute();
+    classId = classItem.id;
+
+    const [template] = await db.insert(scheduleTemplatesTable)
+      .values({ name: 'Template Standar', description: 'Template jadwal standar' })
+      .returning()
+      .execute();
+    templateId = template.id;
+
+    const subjects = await db.insert(subjectsTable)
+      .values([
+        { code: 'MAT', name: 'Matematika', time_allocation: 2 },
+        { code: 'IPA', name: 'IPA', time_allocation: 1 }
+      ])
+      .returning()
+      .execute();
+    mathId = subjects[0].id;
+    scienceId = subjects[1].id;
+
+    const teachers = await db.insert(teachersTable)
+      .values(['Budi Santoso', 'Siti Aminah'].map((name, index) => ({
+        name,
+        nip_nuptk: `${index + 1}`,
+        tmt: new Date('2020-01-01'),
+        education: 'S1'
+      })))
+      .returning()
+      .execute();
+    [budiId, sitiId] = teachers.map(teacher => teacher.id);
+
+    await db.insert(jtmAssignmentsTable)
+      .values([
+        { academic_year_id: academicYearId, teacher_id: budiId, subject_id: mathId, class_id: classId, allocated_hours: 2 },
+        { academic_year_id: academicYearId, teacher_id: sitiId, subject_id: scienceId, class_id: classId, allocated_hours: 1 }
+      ])
+      .execute();
+  });
+
+  const addEvent = (eventType: CalendarEventType, name: string, startDate: string, endDate: string = startDate) =>
+    createCalendarEvent({ academic_year_id: academicYearId, event_type: eventType, name, start_date: startDate, end_date: endDate });
+
+  const setUpCalendar = async () => {
+    await setSemesterDates({ academic_year_id: academicYearId, ...SEMESTER });
+    await addEvent('kegiatan_sekolah', 'MPLS', '2024-07-15', '2024-07-17');
+    await addEvent('libur_keagamaan', 'Libur Tahun Baru Islam', '2024-07-17');
+    await addEvent('pts', 'Penilaian Tengah Semester', '2024-08-05', '2024-08-09');
+    await addEvent('bebas_kelas', 'Jumat Bersih', '2024-08-16');
+  };
+
+  const publishTimetable = async () => {
+    const [draft] = await db.insert(scheduleDraftsTable)
+      .values({ academic_year_id: academicYearId, name: 'Jadwal Resmi', status: 'published', published_at: new Date() })
+      .returning()
+      .execute();
+
+    const cell = (day: number, subjectId: number, teacherId: number) => ({
+      draft_id: draft.id,
+      academic_year_id: academicYearId,
+      class_id: classId,
+      template_id: templateId,
+      day_of_week: day,
+      jp_number: 1,
+      subject_id: subjectId,
+      teacher_id: teacherId,
+      is_manual: true
+    });
+    await db.insert(schedulesTable)
+      .values([cell(1, mathId, budiId), cell(3, mathId, budiId), cell(5, scienceId, sitiId)])
+      .execute();
+  };
+
+  it('should store semester dates and events', async () => {
+    const academicYear = await setSemesterDates({ academic_year_id: academicYearId, ...SEMESTER });
+    expect(academicYear).toMatchObject({ id: academicYearId, start_date: '2024-07-15', end_date: '2024-08-23' });
+
+    const mpls = await addEvent('kegiatan_sekolah', 'MPLS', '2024-07-15', '2024-07-17');
+    const holiday = await addEvent('libur_nasional', 'Hari Kemerdekaan', '2024-08-17');
+    const meeting = await createCalendarEvent({
+      academic_year_id: academicYearId,
+      event_type: 'kegiatan_sekolah',
+      name: 'Rapat Guru',
+      start_date: '2024-07-12',
+      end_date: '2024-07-12',
+      cancels_lessons: true
+    });
+
+    // Only school events keep lessons running unless stated otherwise
+    expect([mpls.cancels_lessons, holiday.cancels_lessons, meeting.cancels_lessons]).toEqual([false, true, true]);
+    expect((await getCalendarEvents(academicYearId)).map(event => event.name))
+      .toEqual(['Rapat Guru', 'MPLS', 'Hari Kemerdekaan']);
+
+    expect(await deleteCalendarEvent(meeting.id)).toBe(true);
+    expect(await deleteCalendarEvent(meeting.id)).toBe(false);
+    expect(await getCalendarEvents(academicYearId)).toHaveLength(2);
+
+    await expect(setSemesterDates({ academic_year_id: 99999, ...SEMESTER })).rejects.toThrow(/not found/i);
+    await expect(createCalendarEvent({
+      academic_year_id: 99999,
+      event_type: 'pas',
+      name: 'PAS',
+      start_date: '2024-12-02',
+      end_date: '2024-12-06'
+    })).rejects.toThrow(/not found/i);
+  });
+
+  it('should count effective weeks and days', async () => {
+    await setUpCalendar();
+
+    const result = await getEffectiveWeeks(academicYearId);
+
+    expect(result).toMatchObject({ total_weeks: 6, effective_weeks: 5, effective_days: 23 });
+    expect(result.weeks.map(week => [week.start_date, week.school_days, week.effective_days, week.is_effective])).toEqual([
+      ['2024-07-15', 5, 4, true],
+      ['2024-07-22', 5, 5, true],
+      ['2024-07-29', 5, 5, true],
+      ['2024-08-05', 5, 0, false],
+      ['2024-08-12', 5, 4, true],
+      ['2024-08-19', 5, 5, true]
+    ]);
+    expect(result.weeks[0].events).toEqual(['MPLS', 'Libur Tahun Baru Islam']);
+  });
+
+  it('should only count school days inside the semester', async () => {
+    // Wednesday to Tuesday: two partial weeks
+    await setSemesterDates({ academic_year_id: academicYearId, start_date: '2024-07-17', end_date: '2024-07-23' });
+
+    const result = await getEffectiveWeeks(academicYearId);
+
+    expect(result.weeks.map(week => [week.start_date, week.end_date, week.school_days])).toEqual([
+      ['2024-07-15', '2024-07-21', 3],
+      ['2024-07-22', '2024-07-28', 2]
+    ]);
+  });
+
+  it('should require semester dates', async () => {
+    await expect(getEffectiveWeeks(academicYearId)).rejects.toThrow(/semester dates are not set/i);
+    await expect(getEffectiveJp(academicYearId)).rejects.toThrow(/semester dates are not set/i);
+  });
+
+  it('should plan JP from the JTM and count them from the published timetable', async () => {
+    await setUpCalendar();
+
+    const planned = await getEffectiveJp(academicYearId);
+    expect(planned.effective_weeks).toEqual(5);
+    expect(planned.subjects.map(row => [row.subject_name, row.jp_per_week, row.planned_jp, row.effective_jp])).toEqual([
+      ['IPA', 1, 5, null],
+      ['Matematika', 2, 10, null]
+    ]);
+
+    await publishTimetable();
+
+    // 5 effective Mondays and 4 Wednesdays for Matematika, 4 Fridays for IPA
+    const counted = await getEffectiveJp(academicYearId);
+    expect(counted.subjects.map(row => [row.class_name, row.subject_name, row.planned_jp, row.effective_jp])).toEqual([
+      ['7A', 'IPA', 5, 4],
+      ['7A', 'Matematika', 10, 9]
+    ]);
+  });
+
+  it('should leave lesson-free days out of realised hours', async () => {
+    await setUpCalendar();
+    await publishTimetable();
+    const [absence] = await db.insert(teacherAbsencesTable)
+      .values({ teacher_id: budiId, academic_year_id: academicYearId, date: '2024-07-17', reason: 'izin' })
+      .returning()
+      .execute();
+    const [wednesdayLesson] = await db.select()
+      .from(schedulesTable)
+      .where(eq(schedulesTable.day_of_week, 3))
+      .execute();
+    await db.insert(substitutionsTable)
+      .values({ absence_id: absence.id, schedule_id: wednesdayLesson.id, substitute_teacher_id: sitiId })
+      .execute();
+
+    // First week: Wednesday is a holiday, so Budi teaches Monday only and misses
+    // nothing, and nobody substitutes for him
+    const hours = await measureRealisedHours(db, academicYearId, { from: '2024-07-15', to: '2024-07-19' }, [budiId, sitiId]);
+
+    expect(hours.get(budiId)).toMatchObject({ scheduled_jp: 1, missed_jp: 0, delivered_jp: 1 });
+    expect(hours.get(sitiId)).toMatchObject({ scheduled_jp: 1, substitution_jp: 0, delivered_jp: 1 });
+  });
+});
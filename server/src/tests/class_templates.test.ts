@@ -0,0 +1,90 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { academicYearsTable, classesTable, scheduleTemplatesTable, classTemplatesTable } from '../db/schema';
+import { setClassTemplate, getClassTemplates, removeClassTemplate } from '../handlers/class_templates';
+
+describe('class templates', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let academicYearId: number;
+  let otherYearId: number;
+  let classId: number;
+  let otherClassId: number;
+  let standardTemplateId: number;
+  let lateTemplateId: number;
+
+  beforeEach(async () => {
+    const years = await db.insert(academicYearsTable)
+      .values([
+        { year: '2024/2025', semester: 1, curriculum: 'Kurikulum Merdeka', total_time_allocation: 40, is_active: true },
+        { year: '2025/2026', semester: 1, curriculum: 'Kurikulum Merdeka', total_time_allocation: 40 }
+      ])
+      .returning()
+      .execute();
+    academicYearId = years[0].id;
+    otherYearId = years[1].id;
+
+    const classes = await db.insert(classesTable)
+      .values([
+        { grade_level: 9, rombel: 'A', class_name: '9A Ikhwan', academic_year_id: academicYearId },
+        { grade_level: 9, rombel: 'B', class_name: '9B Akhwat', academic_year_id: academicYearId }
+      ])
+      .returning()
+      .execute();
+    classId = classes[0].id;
+    otherClassId = classes[1].id;
+
+    const templates = await db.insert(scheduleTemplatesTable)
+      .values([
+        { name: 'Template Standar', description: 'Jadwal standar' },
+        { name: 'Template Kelas 9', description: 'Kelas 9 pulang lebih sore' }
+      ])
+      .returning()
+      .execute();
+    standardTemplateId = templates[0].id;
+    lateTemplateId = templates[1].id;
+  });
+
+  it('should bind a class to a template and replace the binding later', async () => {
+    const first = await setClassTemplate({ class_id: classId, academic_year_id: academicYearId, template_id: standardTemplateId });
+    const second = await setClassTemplate({ class_id: classId, academic_year_id: academicYearId, template_id: lateTemplateId });
+
+    expect(second.id).toEqual(first.id);
+    expect(second.template_id).toEqual(lateTemplateId);
+
+    const bindings = await db.select().from(classTemplatesTable).execute();
+    expect(bindings).toHaveLength(1);
+  });
+
+  it('should list the bindings of an academic year with class and template names', async () => {
+    await setClassTemplate({ class_id: otherClassId, academic_year_id: academicYearId, template_id: standardTemplateId });
+    await setClassTemplate({ class_id: classId, academic_year_id: academicYearId, template_id: lateTemplateId });
+
+    const result = await getClassTemplates(academicYearId);
+
+    expect(result.map(binding => [binding.class_name, binding.template_name])).toEqual([
+      ['9A Ikhwan', 'Template Kelas 9'],
+      ['9B Akhwat', 'Template Standar']
+    ]);
+    expect(await getClassTemplates(otherYearId)).toHaveLength(0);
+  });
+
+  it('should remove a binding', async () => {
+    await setClassTemplate({ class_id: classId, academic_year_id: academicYearId, template_id: lateTemplateId });
+
+    expect(await removeClassTemplate(classId, academicYearId)).toBe(true);
+    expect(await removeClassTemplate(classId, academicYearId)).toBe(false);
+    expect(await getClassTemplates(academicYearId)).toHaveLength(0);
+  });
+
+  it('should refuse classes of another academic year and missing templates', async () => {
+    await expect(setClassTemplate({ class_id: classId, academic_year_id: otherYearId, template_id: lateTemplateId }))
+      .rejects.toThrow(/belongs to another academic year/i);
+    await expect(setClassTemplate({ class_id: classId, academic_year_id: academicYearId, template_id: 99999 }))
+      .rejects.toThrow(/template.*not found/i);
+    await expect(setClassTemplate({ class_id: 99999, academic_year_id: academicYearId, template_id: lateTemplateId }))
+      .rejects.toThrow(/class.*not found/i);
+  });
+});
@@ -0,0 +1,251 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import {
+  academicYearsTable,
+  classesTable,
+  scheduleTemplatesTable,
+  subjectsTable,
+  teachersTable,
+  timeSlotsTable,
+  jtmAssignmentsTable,
+  schedulesTable,
+  scheduleDraftsTable,
+  schedulingRulesTable,
+  jobsTable
+} from '../db/schema';
+import {
+  enqueueJob,
+  getJob,
+  getJobs,
+  cancelJob,
+  drainJobQueue,
+  resumeJobs,
+  watchJob,
+  type JobWithLogs
+} from '../handlers/jobs';
+import { eq } from 'drizzle-orm';
+
+describe('background jobs', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let academicYearId: number;
+  let draftId: number;
+  let templateId: number;
+
+  beforeEach(async () => {
+    const [academicYear] = await db.insert(academicYearsTable)
+      .values({
+        year: '2024/2025',
+        semester: 1,
+        curriculum: 'Kurikulum Merdeka',
+        total_time_allocation: 40,
+        is_active: true
+      })
+      .returning()
+      .execute();
+    academicYearId = academicYear.id;
+
+    const [draft] = await db.insert(scheduleDraftsTable)
+      .values({ academic_year_id: academicYearId, name: 'Draft 1' })
+      .returning()
+      .execute();
+    draftId = draft.id;
+
+    const [classRecord] = await db.insert(classesTable)
+      .values({ grade_level: 7, rombel: 'A', class_name: '7A', academic_year_id: academicYearId })
+      .returning()
+      .execute();
+
+    const [template] = await db.insert(scheduleTemplatesTable)
+      .values({ name: 'Template Standar', description: 'Template jadwal standar' })
+      .returning()
+      .execute();
+    templateId = template.id;
+
+    await db.insert(timeSlotsTable)
+      .values([1, 2, 3, 4].map(jp => ({
+        template_id: templateId,
+        day_of_week: 1,
+        jp_number: jp,
+        start_time: '07:30',
+        end_time: '08:10',
+        duration: 40,
+        slot_type: 'belajar' as const
+      })))
+      .execute();
+
+    const [subject] = await db.insert(subjectsTable)
+      .values({ code: 'MAT', name: 'Matematika', time_allocation: 2 })
+      .returning()
+      .execute();
+
+    const [teacher] = await db.insert(teachersTable)
+      .values({ name: 'Budi Santoso', nip_nuptk: '123456789', tmt: new Date('2020-01-01'), education: 'S1 Matematika' })
+      .returning()
+      .execute();
+
+    await db.insert(jtmAssignmentsTable)
+      .values({
+        academic_year_id: academicYearId,
+        teacher_id: teacher.id,
+        subject_id: subject.id,
+        class_id: classRecord.id,
+        allocated_hours: 2
+      })
+      .execute();
+  });
+
+  const loadCells = () => db.select()
+    .from(schedulesTable)
+    .where(eq(schedulesTable.draft_id, draftId))
+    .execute();
+
+  it('should run a queued generation and keep its progress, log and result', async () => {
+    const queued = await enqueueJob({
+      type: 'generate_school_schedule',
+      params: { draft_id: draftId, template_id: templateId, options: { seed: 7 } }
+    });
+    expect(queued).toMatchObject({ status: 'queued', progress: 0, type: 'generate_school_schedule' });
+
+    await drainJobQueue();
+
+    const job = await getJob(queued.id);
+    expect(job.status).toEqual('succeeded');
+    expect(job.progress).toEqual(100);
+    expect(job.started_at).toBeInstanceOf(Date);
+    expect(job.finished_at).toBeInstanceOf(Date);
+    expect(job.result).toMatchObject({ success: true, created_count: 2, seed: 7 });
+    expect(job.logs.map(log => log.message)).toEqual([
+      'Started generate_school_schedule',
+      'Loaded the lessons of 1 classes',
+      expect.stringMatching(/^Placed 2 lessons with 0 JP unplaced/),
+      'Finished'
+    ]);
+    expect(await loadCells()).toHaveLength(2);
+  });
+
+  it('should fail a job with the error of its work', async () => {
+    const queued = await enqueueJob({
+      type: 'workload_report',
+      params: { academic_year_id: academicYearId + 100 }
+    });
+
+    await drainJobQueue();
+
+    const job = await getJob(queued.id);
+    expect(job.status).toEqual('failed');
+    expect(job.error).toEqual('Academic year not found');
+    expect(job.result).toBeNull();
+    expect(await getJobs('failed')).toHaveLength(1);
+    expect(await getJobs('succeeded')).toHaveLength(0);
+  });
+
+  it('should cancel a queued job before it starts', async () => {
+    const [queued] = await db.insert(jobsTable)
+      .values({ type: 'workload_report', params: { academic_year_id: academicYearId } })
+      .returning()
+      .execute();
+
+    const cancelled = await cancelJob(queued.id);
+    expect(cancelled.status).toEqual('cancelled');
+
+    await drainJobQueue();
+
+    const job = await getJob(queued.id);
+    expect(job.status).toEqual('cancelled');
+    expect(job.started_at).toBeNull();
+  });
+
+  it('should stop a running generation at its next report and roll back its cells', async () => {
+    // A cancellation that arrived after the runner picked the job up
+    const [running] = await db.insert(jobsTable)
+      .values({
+        type: 'generate_school_schedule',
+        params: { draft_id: draftId, template_id: templateId },
+        cancel_requested: true
+      })
+      .returning()
+      .execute();
+
+    await drainJobQueue();
+
+    const job = await getJob(running.id);
+    expect(job.status).toEqual('cancelled');
+    expect(job.error).toBeNull();
+    expect(job.logs[job.logs.length - 1].message).toEqual('Cancelled');
+    expect(await loadCells()).toHaveLength(0);
+  });
+
+  it('should report the search of a running generation and stop it once cancelled', async () => {
+    await db.insert(schedulingRulesTable)
+      .values({ academic_year_id: academicYearId, rule_type: 'max_daily_subject_jp', value: 1, weight: 1 })
+      .execute();
+    const queued = await enqueueJob({
+      type: 'generate_school_schedule',
+      params: { draft_id: draftId, template_id: templateId, options: { seed: 7, max_iterations: 100000 } }
+    });
+
+    for await (const job of watchJob(queued.id)) {
+      if (!job.cancel_requested && job.logs.some(log => log.message.startsWith('Searched'))) {
+        await cancelJob(queued.id);
+      }
+    }
+    await drainJobQueue();
+
+    const job = await getJob(queued.id);
+    expect(job.status).toEqual('cancelled');
+    expect(job.progress).toBeLessThan(80);
+    expect(job.logs.map(log => log.message)).toContainEqual(expect.stringMatching(/^Searched \d+ of 100000 iterations$/));
+    expect(await loadCells()).toHaveLength(0);
+  });
+
+  it('should leave finished jobs unchanged on cancel', async () => {
+    const queued = await enqueueJob({
+      type: 'workload_report',
+      params: { academic_year_id: academicYearId }
+    });
+    await drainJobQueue();
+
+    const job = await cancelJob(queued.id);
+    expect(job.status).toEqual('succeeded');
+    await expect(cancelJob(queued.id + 100)).rejects.toThrow(/not found/i);
+  });
+
+  it('should stream progress until the job is finished', async () => {
+    const queued = await enqueueJob({
+      type: 'generate_school_schedule',
+      params: { draft_id: draftId, template_id: templateId }
+    });
+
+    const updates: JobWithLogs[] = [];
+    for await (const job of watchJob(queued.id)) {
+      updates.push(job);
+    }
+    await drainJobQueue();
+
+    const progress = updates.map(job => job.progress);
+    expect(progress).toEqual([...progress].sort((a, b) => a - b));
+    expect(updates[updates.length - 1]).toMatchObject({ status: 'succeeded', progress: 100 });
+  });
+
+  it('should fail jobs interrupted by a restart', async () => {
+    const [interrupted] = await db.insert(jobsTable)
+      .values({
+        type: 'workload_report',
+        params: { academic_year_id: academicYearId },
+        status: 'running',
+        started_at: new Date()
+      })
+      .returning()
+      .execute();
+
+    await resumeJobs();
+    await drainJobQueue();
+
+    const job = await getJob(interrupted.id);
+    expect(job.status).toEqual('failed');
+    expect(job.error).toMatch(/server restart/i);
+  });
+});
@@ -11,7 +11,10 @@ import {
   timeSlotsTable,
   jtmAssignmentsTable,
   taskAssignmentsTable,
-  schedulesTable
+  schedulesTable,
+  scheduleDraftsTable,
+  teacherAbsencesTable,
+  substitutionsTable
 } from '../db/schema';
 import {
   generateScheduleReportByClass,
@@ -21,6 +24,7 @@ import {
   generateTaskAllocationReport,
   getReportFilters
 } from '../handlers/reports';
+import { eq } from 'drizzle-orm';
 
 describe('Reports Handlers', () => {
   beforeEach(createDB);
@@ -28,6 +32,7 @@ describe('Reports Handlers', () => {
 
   // Test data setup
   let academicYearId: number;
+  let draftId: number;
   let teacherId: number;
   let classId: number;
   let subjectId: number;
@@ -125,9 +130,18 @@ describe('Reports Handlers', () => {
       description: 'Assigned as homeroom teacher'
     }).execute();
 
-    // Create schedule
+    // Create the published schedule
+    const [draft] = await db.insert(scheduleDraftsTable).values({
+      academic_year_id: academicYearId,
+      name: 'Final',
+      status: 'published',
+      published_at: new Date()
+    }).returning().execute();
+    draftId = draft.id;
+
     await db.insert(schedulesTable).values([
       {
+        draft_id: draftId,
         academic_year_id: academicYearId,
         class_id: classId,
         template_id: templateId,
@@ -135,10 +149,10 @@ describe('Reports Handlers', () => {
         jp_number: 1,
         subject_id: subjectId,
         teacher_id: teacherId,
-        is_manual: true,
-        is_cached: false
+        is_manual: true
       },
       {
+        draft_id: draftId,
         academic_year_id: academicYearId,
         class_id: classId,
         template_id: templateId,
@@ -146,8 +160,7 @@ describe('Reports Handlers', () => {
         jp_number: 2,
         subject_id: subjectId,
         teacher_id: teacherId,
-        is_manual: true,
-        is_cached: false
+        is_manual: true
       }
     ]).execute();
   };
@@ -168,6 +181,19 @@ describe('Reports Handlers', () => {
       expect(result.data.schedule[0].teacher_name).toBe('John Teacher');
     });
 
+    it('should leave out cells of unpublished drafts', async () => {
+      await setupTestData();
+      await db.update(scheduleDraftsTable)
+        .set({ status: 'draft', published_at: null })
+        .where(eq(scheduleDraftsTable.id, draftId))
+        .execute();
+
+      const result = await generateScheduleReportByClass(classId, academicYearId, 'pdf');
+
+      expect(result.success).toBe(true);
+      expect(result.data.schedule).toHaveLength(0);
+    });
+
     it('should return error for non-existent class', async () => {
       await setupTestData();
 
@@ -210,6 +236,7 @@ describe('Reports Handlers', () => {
       expect(result.data.schedule.length).toBe(2);
       expect(result.data.schedule[0].subject_name).toBe('Matematika');
       expect(result.data.schedule[0].class_name).toBe('7A');
+      expect(result.data.overlaps).toEqual([]);
     });
 
     it('should return error for non-existent teacher', async () => {
@@ -262,6 +289,41 @@ describe('Reports Handlers', () => {
       expect(workload.task_details.length).toBe(1);
     });
 
+    it('should add the JP delivered over a date range, listing substitutes too', async () => {
+      await setupTestData();
+      const [substitute] = await db.insert(teachersTable).values({
+        name: 'Sari Substitute',
+        nip_nuptk: '987654321',
+        tmt: new Date('2021-01-01'),
+        education: 'S1 Matematika'
+      }).returning().execute();
+      const [cell] = await db.select().from(schedulesTable).where(eq(schedulesTable.jp_number, 1)).execute();
+
+      // John misses Monday 2024-07-15; Sari covers its first JP
+      const [absence] = await db.insert(teacherAbsencesTable).values({
+        teacher_id: teacherId,
+        academic_year_id: academicYearId,
+        date: '2024-07-15',
+        reason: 'sakit'
+      }).returning().execute();
+      await db.insert(substitutionsTable).values({
+        absence_id: absence.id,
+        schedule_id: cell.id,
+        substitute_teacher_id: substitute.id
+      }).execute();
+
+      const range = { from: '2024-07-15', to: '2024-07-26' };
+      const result = await generateWorkloadReport(academicYearId, 'pdf', range);
+
+      expect(result.success).toBe(true);
+      expect(result.data.period).toEqual(range);
+      const [john, sari] = result.data.workload_summary;
+      expect(john.realised).toEqual({ ...range, scheduled_jp: 4, missed_jp: 2, substitution_jp: 0, delivered_jp: 2 });
+      expect(sari.teacher_name).toBe('Sari Substitute');
+      expect(sari.total_jtm_hours).toBe(0);
+      expect(sari.realised).toEqual({ ...range, scheduled_jp: 0, missed_jp: 0, substitution_jp: 1, delivered_jp: 1 });
+    });
+
     it('should return error for non-existent academic year', async () => {
       const result = await generateWorkloadReport(999);
 
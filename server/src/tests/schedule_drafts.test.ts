@@ -0,0 +1,235 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import {
+  academicYearsTable,
+  classesTable,
+  scheduleTemplatesTable,
+  subjectsTable,
+  teachersTable,
+  schedulesTable,
+  scheduleDraftsTable
+} from '../db/schema';
+import {
+  createScheduleDraft,
+  getScheduleDrafts,
+  getPublishedScheduleDraft,
+  updateScheduleDraft,
+  deleteScheduleDraft,
+  publishScheduleDraft,
+  compareScheduleDrafts
+} from '../handlers/schedule_drafts';
+import { eq } from 'drizzle-orm';
+
+describe('schedule drafts', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let academicYearId: number;
+  let classId: number;
+  let templateId: number;
+  let mathId: number;
+  let scienceId: number;
+  let teacherId: number;
+  let otherTeacherId: number;
+
+  beforeEach(async () => {
+    const academicYear = await db.insert(academicYearsTable)
+      .values({
+        year: '2024/2025',
+        semester: 1,
+        curriculum: 'Kurikulum Merdeka',
+        total_time_allocation: 40,
+        is_active: true
+      })
+      .returning()
+      .execute();
+    academicYearId = academicYear[0].id;
+
+    const classRecord = await db.insert(classesTable)
+      .values({ grade_level: 7, rombel: 'A', class_name: '7A', academic_year_id: academicYearId })
+      .returning()
+      .execute();
+    classId = classRecord[0].id;
+
+    const template = await db.insert(scheduleTemplatesTable)
+      .values({ name: 'Template Standar', description: 'Template jadwal standar' })
+      .returning()
+      .execute();
+    templateId = template[0].id;
+
+    const subjects = await db.insert(subjectsTable)
+      .values([
+        { code: 'MAT', name: 'Matematika', time_allocation: 4 },
+        { code: 'IPA', name: 'IPA', time_allocation: 4 }
+      ])
+      .returning()
+      .execute();
+    mathId = subjects[0].id;
+    scienceId = subjects[1].id;
+
+    const teachers = await db.insert(teachersTable)
+      .values([
+        { name: 'Budi Santoso', nip_nuptk: '123456789', tmt: new Date('2020-01-01'), education: 'S1 Matematika' },
+        { name: 'Siti Aminah', nip_nuptk: '987654321', tmt: new Date('2019-07-01'), education: 'S1 Fisika' }
+      ])
+      .returning()
+      .execute();
+    teacherId = teachers[0].id;
+    otherTeacherId = teachers[1].id;
+  });
+
+  const addCell = async (draftId: number, jpNumber: number, subjectId: number, teacher: number) => {
+    await db.insert(schedulesTable)
+      .values({
+        draft_id: draftId,
+        academic_year_id: academicYearId,
+        class_id: classId,
+        template_id: templateId,
+        day_of_week: 1,
+        jp_number: jpNumber,
+        subject_id: subjectId,
+        teacher_id: teacher,
+        is_manual: true
+      })
+      .execute();
+  };
+
+  describe('createScheduleDraft', () => {
+    it('should create an empty draft', async () => {
+      const result = await createScheduleDraft({ academic_year_id: academicYearId, name: 'Percobaan 1' });
+
+      expect(result.id).toBeDefined();
+      expect(result.name).toEqual('Percobaan 1');
+      expect(result.status).toEqual('draft');
+      expect(result.published_at).toBeNull();
+    });
+
+    it('should copy the cells of another draft', async () => {
+      const source = await createScheduleDraft({ academic_year_id: academicYearId, name: 'Percobaan 1' });
+      await addCell(source.id, 1, mathId, teacherId);
+      await addCell(source.id, 2, scienceId, otherTeacherId);
+
+      const copy = await createScheduleDraft({
+        academic_year_id: academicYearId,
+        name: 'Percobaan 2',
+        copy_from_draft_id: source.id
+      });
+
+      const cells = await db.select()
+        .from(schedulesTable)
+        .where(eq(schedulesTable.draft_id, copy.id))
+        .execute();
+      expect(cells).toHaveLength(2);
+      expect(cells.map(cell => cell.subject_id).sort()).toEqual([mathId, scienceId].sort());
+    });
+
+    it('should throw error for invalid academic year', async () => {
+      await expect(createScheduleDraft({ academic_year_id: 99999, name: 'Percobaan' }))
+        .rejects.toThrow(/academic year.*not found/i);
+    });
+  });
+
+  describe('publishScheduleDraft', () => {
+    it('should publish a draft and archive the previous version', async () => {
+      const first = await createScheduleDraft({ academic_year_id: academicYearId, name: 'Semester 1' });
+      const second = await createScheduleDraft({ academic_year_id: academicYearId, name: 'Revisi' });
+
+      const published = await publishScheduleDraft(first.id);
+      expect(published.status).toEqual('published');
+      expect(published.published_at).toBeInstanceOf(Date);
+
+      await publishScheduleDraft(second.id);
+
+      const drafts = await getScheduleDrafts(academicYearId);
+      expect(drafts.map(draft => draft.status)).toEqual(['archived', 'published']);
+      expect((await getPublishedScheduleDraft(academicYearId))!.id).toEqual(second.id);
+    });
+
+    it('should not publish a version twice', async () => {
+      const draft = await createScheduleDraft({ academic_year_id: academicYearId, name: 'Semester 1' });
+      await publishScheduleDraft(draft.id);
+
+      await expect(publishScheduleDraft(draft.id)).rejects.toThrow(/is published and cannot be changed/i);
+      await expect(updateScheduleDraft({ id: draft.id, name: 'Lain' })).rejects.toThrow(/is published/i);
+    });
+
+    it('should keep one published timetable per academic year', async () => {
+      const first = await createScheduleDraft({ academic_year_id: academicYearId, name: 'Semester 1' });
+      const second = await createScheduleDraft({ academic_year_id: academicYearId, name: 'Revisi' });
+      await publishScheduleDraft(first.id);
+
+      // A second publication that skipped archiving the first
+      await expect(
+        db.update(scheduleDraftsTable)
+          .set({ status: 'published' })
+          .where(eq(scheduleDraftsTable.id, second.id))
+          .execute()
+      ).rejects.toThrow();
+    });
+
+    it('should return null when nothing is published', async () => {
+      expect(await getPublishedScheduleDraft(academicYearId)).toBeNull();
+    });
+  });
+
+  describe('deleteScheduleDraft', () => {
+    it('should discard a draft with its cells', async () => {
+      const draft = await createScheduleDraft({ academic_year_id: academicYearId, name: 'Percobaan' });
+      await addCell(draft.id, 1, mathId, teacherId);
+
+      expect(await deleteScheduleDraft(draft.id)).toBe(true);
+      expect(await deleteScheduleDraft(draft.id)).toBe(false);
+
+      expect(await db.select().from(schedulesTable).execute()).toHaveLength(0);
+      expect(await db.select().from(scheduleDraftsTable).execute()).toHaveLength(0);
+    });
+
+    it('should refuse to discard the published timetable', async () => {
+      const draft = await createScheduleDraft({ academic_year_id: academicYearId, name: 'Semester 1' });
+      await publishScheduleDraft(draft.id);
+
+      await expect(deleteScheduleDraft(draft.id)).rejects.toThrow(/cannot be discarded/i);
+    });
+
+    it('should refuse to discard an archived version', async () => {
+      const first = await createScheduleDraft({ academic_year_id: academicYearId, name: 'Semester 1' });
+      const second = await createScheduleDraft({ academic_year_id: academicYearId, name: 'Revisi' });
+      await publishScheduleDraft(first.id);
+      await publishScheduleDraft(second.id);
+
+      await expect(deleteScheduleDraft(first.id)).rejects.toThrow(/is archived and cannot be discarded/i);
+      expect(await getScheduleDrafts(academicYearId)).toHaveLength(2);
+    });
+  });
+
+  describe('compareScheduleDrafts', () => {
+    it('should list cells that differ between two drafts', async () => {
+      const first = await createScheduleDraft({ academic_year_id: academicYearId, name: 'A' });
+      const second = await createScheduleDraft({ academic_year_id: academicYearId, name: 'B' });
+      await addCell(first.id, 1, mathId, teacherId);
+      await addCell(second.id, 1, mathId, teacherId);
+      await addCell(first.id, 2, mathId, teacherId);
+      await addCell(second.id, 2, scienceId, otherTeacherId);
+      await addCell(second.id, 3, scienceId, otherTeacherId);
+
+      const result = await compareScheduleDrafts(first.id, second.id);
+
+      expect(result.unchanged_count).toEqual(1);
+      expect(result.differences).toHaveLength(2);
+      expect(result.differences[0]).toMatchObject({
+        class_name: '7A',
+        jp_number: 2,
+        first: { subject_name: 'Matematika', teacher_name: 'Budi Santoso' },
+        second: { subject_name: 'IPA', teacher_name: 'Siti Aminah' }
+      });
+      expect(result.differences[1]).toMatchObject({ jp_number: 3, first: null });
+    });
+
+    it('should throw error for missing draft', async () => {
+      const draft = await createScheduleDraft({ academic_year_id: academicYearId, name: 'A' });
+
+      await expect(compareScheduleDrafts(draft.id, 99999)).rejects.toThrow(/draft.*not found/i);
+    });
+  });
+});
@@ -0,0 +1,1108 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import {
+  academicYearsTable,
+  classesTable,
+  scheduleTemplatesTable,
+  timeSlotsTable,
+  subjectsTable,
+  teachersTable,
+  jtmAssignmentsTable,
+  schedulesTable,
+  teacherAvailabilityTable,
+  schedulingRulesTable,
+  scheduleDraftsTable,
+  scheduleSnapshotsTable
+} from '../db/schema';
+import {
+  generateAutomaticSchedule,
+  generateSchoolSchedule,
+  generateScheduleCandidates,
+  diagnoseSchedule,
+  repairSchedule
+} from '../handlers/schedule_generator';
+import { publishScheduleDraft } from '../handlers/schedule_drafts';
+import { setClassTemplate } from '../handlers/class_templates';
+import { DEFAULT_MAX_ITERATIONS } from '../helpers/timetable_solver';
+import { generationOptionsSchema } from '../schema';
+import { and, asc, eq } from 'drizzle-orm';
+
+describe('schedule generator', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let academicYearId: number;
+  let draftId: number;
+  let classId: number;
+  let otherClassId: number;
+  let templateId: number;
+  let mathId: number;
+  let scienceId: number;
+  let mathTeacherId: number;
+  let scienceTeacherId: number;
+
+  beforeEach(async () => {
+    const academicYear = await db.insert(academicYearsTable)
+      .values({
+        year: '2024/2025',
+        semester: 1,
+        curriculum: 'Kurikulum Merdeka',
+        total_time_allocation: 40,
+        is_active: true
+      })
+      .returning()
+      .execute();
+    academicYearId = academicYear[0].id;
+
+    const draft = await db.insert(scheduleDraftsTable)
+      .values({ academic_year_id: academicYearId, name: 'Draft 1' })
+      .returning()
+      .execute();
+    draftId = draft[0].id;
+
+    const classes = await db.insert(classesTable)
+      .values([
+        { grade_level: 7, rombel: 'A', class_name: '7A', academic_year_id: academicYearId },
+        { grade_level: 7, rombel: 'B', class_name: '7B', academic_year_id: academicYearId }
+      ])
+      .returning()
+      .execute();
+    classId = classes[0].id;
+    otherClassId = classes[1].id;
+
+    const template = await db.insert(scheduleTemplatesTable)
+      .values({ name: 'Template Standar', description: 'Template jadwal standar' })
+      .returning()
+      .execute();
+    templateId = template[0].id;
+
+    // Two days with 3 belajar slots each around an istirahat slot
+    await db.insert(timeSlotsTable)
+      .values([1, 2].flatMap(day => [
+        { template_id: templateId, day_of_week: day, jp_number: 1, start_time: '07:30', end_time: '08:10', duration: 40, slot_type: 'belajar' as const },
+        { template_id: templateId, day_of_week: day, jp_number: 2, start_time: '08:10', end_time: '08:50', duration: 40, slot_type: 'belajar' as const },
+        { template_id: templateId, day_of_week: day, jp_number: 3, start_time: '08:50', end_time: '09:10', duration: 20, slot_type: 'istirahat' as const },
+        { template_id: templateId, day_of_week: day, jp_number: 4, start_time: '09:10', end_time: '09:50', duration: 40, slot_type: 'belajar' as const }
+      ]))
+      .execute();
+
+    const subjects = await db.insert(subjectsTable)
+      .values([
+        { code: 'MAT', name: 'Matematika', time_allocation: 4 },
+        { code: 'IPA', name: 'IPA', time_allocation: 2 }
+      ])
+      .returning()
+      .execute();
+    mathId = subjects[0].id;
+    scienceId = subjects[1].id;
+
+    const teachers = await db.insert(teachersTable)
+      .values([
+        { name: 'Budi Santoso', nip_nuptk: '123', tmt: new Date('2020-01-01'), education: 'S1 Matematika' },
+        { name: 'Siti Aminah', nip_nuptk: '456', tmt: new Date('2019-07-01'), education: 'S1 Biologi' }
+      ])
+      .returning()
+      .execute();
+    mathTeacherId = teachers[0].id;
+    scienceTeacherId = teachers[1].id;
+  });
+
+  const assign = async (teacherId: number, subjectId: number, targetClassId: number, hours: number) => {
+    await db.insert(jtmAssignmentsTable)
+      .values({
+        academic_year_id: academicYearId,
+        teacher_id: teacherId,
+        subject_id: subjectId,
+        class_id: targetClassId,
+        allocated_hours: hours
+      })
+      .execute();
+  };
+
+  const setUnavailable = async (
+    teacherId: number,
+    range: { day_of_week: number; start_jp: number | null; end_jp: number | null }
+  ) => {
+    await db.insert(teacherAvailabilityTable)
+      .values({ teacher_id: teacherId, academic_year_id: academicYearId, ...range, availability_type: 'unavailable' })
+      .execute();
+  };
+
+  describe('generateAutomaticSchedule', () => {
+    it('should fill belajar slots with all allocated hours', async () => {
+      await assign(mathTeacherId, mathId, classId, 4);
+      await assign(scienceTeacherId, scienceId, classId, 2);
+
+      const result = await generateAutomaticSchedule(classId, draftId, templateId);
+
+      expect(result.success).toBe(true);
+      expect(result.created_count).toEqual(6);
+      expect(result.conflicts).toHaveLength(0);
+
+      const schedules = await db.select()
+        .from(schedulesTable)
+        .where(eq(schedulesTable.class_id, classId))
+        .execute();
+
+      expect(schedules).toHaveLength(6);
+      expect(schedules.filter(s => s.subject_id === mathId)).toHaveLength(4);
+      expect(schedules.filter(s => s.subject_id === scienceId)).toHaveLength(2);
+      expect(schedules.every(s => s.jp_number !== 3)).toBe(true);
+      expect(schedules.every(s => s.is_manual === false)).toBe(true);
+    });
+
+    it('should spread a subject across days', async () => {
+      await assign(scienceTeacherId, scienceId, classId, 2);
+
+      await generateAutomaticSchedule(classId, draftId, templateId);
+
+      const schedules = await db.select()
+        .from(schedulesTable)
+        .where(eq(schedulesTable.class_id, classId))
+        .execute();
+
+      expect(new Set(schedules.map(s => s.day_of_week)).size).toEqual(2);
+    });
+
+    it('should not double-book a teacher across classes', async () => {
+      await assign(mathTeacherId, mathId, classId, 4);
+      await db.insert(schedulesTable)
+        .values([1, 2].map(jp => ({
+          draft_id: draftId,
+          academic_year_id: academicYearId,
+          class_id: otherClassId,
+          template_id: templateId,
+          day_of_week: 1,
+          jp_number: jp,
+          subject_id: mathId,
+          teacher_id: mathTeacherId,
+          is_manual: true
+        })))
+        .execute();
+
+      const result = await generateAutomaticSchedule(classId, draftId, templateId);
+
+      expect(result.success).toBe(true);
+      expect(result.created_count).toEqual(4);
+
+      const schedules = await db.select()
+        .from(schedulesTable)
+        .where(eq(schedulesTable.class_id, classId))
+        .execute();
+
+      expect(schedules.some(s => s.day_of_week === 1 && (s.jp_number === 1 || s.jp_number === 2))).toBe(false);
+    });
+
+    it('should keep existing cells and only fill the remaining hours', async () => {
+      await assign(mathTeacherId, mathId, classId, 4);
+      await db.insert(schedulesTable)
+        .values({
+          draft_id: draftId,
+          academic_year_id: academicYearId,
+          class_id: classId,
+          template_id: templateId,
+          day_of_week: 2,
+          jp_number: 4,
+          subject_id: mathId,
+          teacher_id: mathTeacherId,
+          is_manual: true
+        })
+        .execute();
+
+      const result = await generateAutomaticSchedule(classId, draftId, templateId);
+
+      expect(result.created_count).toEqual(3);
+
+      const schedules = await db.select()
+        .from(schedulesTable)
+        .where(eq(schedulesTable.class_id, classId))
+        .execute();
+
+      expect(schedules).toHaveLength(4);
+      expect(schedules.filter(s => s.day_of_week === 2 && s.jp_number === 4)).toHaveLength(1);
+    });
+
+    it('should replace only unlocked cells when regenerating', async () => {
+      await assign(mathTeacherId, mathId, classId, 3);
+      await assign(scienceTeacherId, scienceId, classId, 1);
+      const cell = {
+        draft_id: draftId,
+        academic_year_id: academicYearId,
+        class_id: classId,
+        template_id: templateId,
+        subject_id: mathId,
+        teacher_id: mathTeacherId
+      };
+      const [locked] = await db.insert(schedulesTable)
+        .values([
+          { ...cell, day_of_week: 2, jp_number: 4, is_manual: true },
+          { ...cell, day_of_week: 1, jp_number: 1, is_manual: false },
+          { ...cell, day_of_week: 1, jp_number: 2, is_manual: false }
+        ])
+        .returning()
+        .execute();
+
+      const result = await generateAutomaticSchedule(classId, draftId, templateId, true);
+
+      expect(result.success).toBe(true);
+      expect(result.removed_count).toEqual(2);
+      expect(result.created_count).toEqual(3);
+
+      const schedules = await db.select()
+        .from(schedulesTable)
+        .where(eq(schedulesTable.class_id, classId))
+        .execute();
+
+      expect(schedules).toHaveLength(4);
+      expect(schedules.filter(s => s.subject_id === mathId)).toHaveLength(3);
+      expect(schedules.find(s => s.id === locked.id)).toMatchObject({ day_of_week: 2, jp_number: 4, is_manual: true });
+    });
+
+    it('should record a snapshot of the regenerated draft', async () => {
+      await assign(mathTeacherId, mathId, classId, 3);
+
+      await generateAutomaticSchedule(classId, draftId, templateId);
+      expect(await db.select().from(scheduleSnapshotsTable).execute()).toHaveLength(0);
+
+      await generateAutomaticSchedule(classId, draftId, templateId, true);
+
+      const snapshots = await db.select().from(scheduleSnapshotsTable).execute();
+      expect(snapshots).toHaveLength(1);
+      expect(snapshots[0]).toMatchObject({ draft_id: draftId, reason: 'regenerated' });
+    });
+
+    it('should report a teacher conflict for each free cell it cannot use', async () => {
+      await assign(mathTeacherId, mathId, classId, 6);
+      await db.insert(schedulesTable)
+        .values({
+          draft_id: draftId,
+          academic_year_id: academicYearId,
+          class_id: otherClassId,
+          template_id: templateId,
+          day_of_week: 2,
+          jp_number: 1,
+          subject_id: mathId,
+          teacher_id: mathTeacherId,
+          is_manual: true
+        })
+        .execute();
+
+      const result = await generateAutomaticSchedule(classId, draftId, templateId);
+
+      expect(result.success).toBe(false);
+      expect(result.created_count).toEqual(5);
+      expect(result.conflicts).toHaveLength(1);
+      expect(result.conflicts[0].day_of_week).toEqual(2);
+      expect(result.conflicts[0].jp_number).toEqual(1);
+      expect(result.conflicts[0].reason).toMatch(/Budi Santoso already teaches 7B/);
+    });
+
+    it('should report hours that exceed template capacity', async () => {
+      await assign(mathTeacherId, mathId, classId, 5);
+      await assign(scienceTeacherId, scienceId, classId, 3);
+
+      const result = await generateAutomaticSchedule(classId, draftId, templateId);
+
+      expect(result.success).toBe(false);
+      expect(result.created_count).toEqual(6);
+      expect(result.conflicts.length).toBeGreaterThan(0);
+      expect(result.conflicts[0].reason).toMatch(/no free belajar slot/i);
+    });
+
+    it('should not use slots where the teacher is unavailable', async () => {
+      await assign(mathTeacherId, mathId, classId, 4);
+      await db.insert(teacherAvailabilityTable)
+        .values({
+          teacher_id: mathTeacherId,
+          academic_year_id: academicYearId,
+          day_of_week: 1,
+          start_jp: null,
+          end_jp: null,
+          availability_type: 'unavailable'
+        })
+        .execute();
+
+      const result = await generateAutomaticSchedule(classId, draftId, templateId);
+
+      expect(result.success).toBe(false);
+      expect(result.created_count).toEqual(3);
+      expect(result.conflicts).toHaveLength(3);
+      expect(result.conflicts.every(c => c.day_of_week === 1)).toBe(true);
+      expect(result.conflicts[0].reason).toMatch(/Budi Santoso is unavailable/);
+
+      const schedules = await db.select()
+        .from(schedulesTable)
+        .where(eq(schedulesTable.class_id, classId))
+        .execute();
+
+      expect(schedules.every(s => s.day_of_week === 2)).toBe(true);
+    });
+
+    it('should favour preferred slots of a teacher', async () => {
+      await assign(scienceTeacherId, scienceId, classId, 1);
+      await db.insert(teacherAvailabilityTable)
+        .values({
+          teacher_id: scienceTeacherId,
+          academic_year_id: academicYearId,
+          day_of_week: 2,
+          start_jp: 4,
+          end_jp: 4,
+          availability_type: 'preferred'
+        })
+        .execute();
+
+      await generateAutomaticSchedule(classId, draftId, templateId);
+
+      const schedules = await db.select()
+        .from(schedulesTable)
+        .where(eq(schedulesTable.class_id, classId))
+        .execute();
+
+      expect(schedules).toHaveLength(1);
+      expect(schedules[0].day_of_week).toEqual(2);
+      expect(schedules[0].jp_number).toEqual(4);
+    });
+
+    it('should keep a subject before istirahat when a rule prefers it', async () => {
+      await assign(mathTeacherId, mathId, classId, 3);
+      await db.insert(schedulingRulesTable)
+        .values({
+          academic_year_id: academicYearId,
+          rule_type: 'prefer_before_slot_type',
+          subject_id: mathId,
+          slot_type: 'istirahat',
+          weight: 5
+        })
+        .execute();
+
+      const result = await generateAutomaticSchedule(classId, draftId, templateId);
+
+      expect(result.score.total_penalty).toEqual(0);
+
+      const schedules = await db.select()
+        .from(schedulesTable)
+        .where(eq(schedulesTable.class_id, classId))
+        .execute();
+
+      expect(schedules).toHaveLength(3);
+      expect(schedules.every(s => s.jp_number < 3)).toBe(true);
+    });
+
+    it('should avoid slots right after istirahat when a rule forbids it', async () => {
+      await assign(mathTeacherId, mathId, classId, 2);
+      await db.insert(schedulingRulesTable)
+        .values({
+          academic_year_id: academicYearId,
+          rule_type: 'not_after_slot_type',
+          slot_type: 'istirahat',
+          weight: 5
+        })
+        .execute();
+
+      await generateAutomaticSchedule(classId, draftId, templateId);
+
+      const schedules = await db.select()
+        .from(schedulesTable)
+        .where(eq(schedulesTable.class_id, classId))
+        .execute();
+
+      expect(schedules.every(s => s.jp_number !== 4)).toBe(true);
+    });
+
+    it('should report a score breakdown for rules it cannot satisfy', async () => {
+      await assign(mathTeacherId, mathId, classId, 6);
+      const rule = await db.insert(schedulingRulesTable)
+        .values({
+          academic_year_id: academicYearId,
+          rule_type: 'max_daily_subject_jp',
+          subject_id: mathId,
+          value: 2,
+          weight: 4
+        })
+        .returning()
+        .execute();
+
+      const result = await generateAutomaticSchedule(classId, draftId, templateId);
+
+      expect(result.success).toBe(true);
+      expect(result.score.total_penalty).toEqual(8);
+      expect(result.score.violations).toHaveLength(2);
+      expect(result.score.violations.map(v => v.day_of_week).sort()).toEqual([1, 2]);
+      expect(result.score.violations[0].rule_id).toEqual(rule[0].id);
+      expect(result.score.violations[0].penalty).toEqual(4);
+      expect(result.score.violations[0].message).toMatch(/Matematika has 3 JP/);
+    });
+
+    it('should report teacher rules apart from the class score', async () => {
+      await assign(mathTeacherId, mathId, classId, 6);
+      await db.insert(schedulingRulesTable)
+        .values({ academic_year_id: academicYearId, rule_type: 'max_teacher_daily_jp', value: 2, weight: 3 })
+        .execute();
+
+      const result = await generateAutomaticSchedule(classId, draftId, templateId);
+
+      expect(result.score.total_penalty).toEqual(0);
+      expect(result.teacher_score.total_penalty).toEqual(6);
+      expect(result.teacher_score.violations).toHaveLength(2);
+      expect(result.teacher_score.violations[0]).toMatchObject({
+        teacher_id: mathTeacherId,
+        class_id: null,
+        message: 'Budi Santoso teaches 3 JP on day 1 (max 2)'
+      });
+    });
+
+    it('should break up long teaching runs across classes', async () => {
+      await assign(mathTeacherId, mathId, classId, 1);
+      // Budi already teaches 7B on day 1 JP 2
+      await db.insert(schedulesTable)
+        .values({
+          draft_id: draftId,
+          academic_year_id: academicYearId,
+          class_id: otherClassId,
+          template_id: templateId,
+          day_of_week: 1,
+          jp_number: 2,
+          subject_id: mathId,
+          teacher_id: mathTeacherId,
+          is_manual: true
+        })
+        .execute();
+      await db.insert(schedulingRulesTable)
+        .values({ academic_year_id: academicYearId, rule_type: 'max_teacher_consecutive_jp', value: 1, weight: 5 })
+        .execute();
+
+      const result = await generateAutomaticSchedule(classId, draftId, templateId);
+
+      expect(result.teacher_score.total_penalty).toEqual(0);
+      const [cell] = await db.select()
+        .from(schedulesTable)
+        .where(eq(schedulesTable.class_id, classId))
+        .execute();
+      expect(cell.day_of_week === 1 && cell.jp_number === 1).toBe(false);
+    });
+
+    it('should keep a free day for teachers with few JTM', async () => {
+      await assign(mathTeacherId, mathId, classId, 2);
+      await db.insert(schedulingRulesTable)
+        .values({ academic_year_id: academicYearId, rule_type: 'teacher_free_day', value: 10, weight: 5 })
+        .execute();
+
+      const result = await generateAutomaticSchedule(classId, draftId, templateId);
+
+      expect(result.teacher_score.total_penalty).toEqual(0);
+      const schedules = await db.select()
+        .from(schedulesTable)
+        .where(eq(schedulesTable.class_id, classId))
+        .execute();
+      expect(new Set(schedules.map(s => s.day_of_week)).size).toEqual(1);
+    });
+
+    it('should produce the same timetable from the same seed', async () => {
+      await assign(mathTeacherId, mathId, classId, 3);
+      await assign(scienceTeacherId, scienceId, classId, 3);
+      await db.insert(schedulingRulesTable)
+        .values({ academic_year_id: academicYearId, rule_type: 'min_teacher_gaps', weight: 2 })
+        .execute();
+      const [secondDraft] = await db.insert(scheduleDraftsTable)
+        .values({ academic_year_id: academicYearId, name: 'Draft 2' })
+        .returning()
+        .execute();
+
+      const options = { seed: 42, max_iterations: 200 };
+      const first = await generateAutomaticSchedule(classId, draftId, templateId, false, options);
+      const second = await generateAutomaticSchedule(classId, secondDraft.id, templateId, false, options);
+
+      expect(first.seed).toEqual(42);
+      expect(first.iterations).toEqual(200);
+      expect(first.elapsed_ms).toBeGreaterThanOrEqual(0);
+      expect(second.score).toEqual(first.score);
+
+      const layout = async (targetDraftId: number) => (await db.select()
+        .from(schedulesTable)
+        .where(eq(schedulesTable.draft_id, targetDraftId))
+        .orderBy(asc(schedulesTable.day_of_week), asc(schedulesTable.jp_number))
+        .execute())
+        .map(cell => [cell.day_of_week, cell.jp_number, cell.subject_id]);
+      expect(await layout(secondDraft.id)).toEqual(await layout(draftId));
+    });
+
+    it('should report the seed it picked and stop at the iteration limit', async () => {
+      await assign(mathTeacherId, mathId, classId, 6);
+      await db.insert(schedulingRulesTable)
+        .values({ academic_year_id: academicYearId, rule_type: 'max_daily_subject_jp', value: 2, weight: 1 })
+        .execute();
+
+      const result = await generateAutomaticSchedule(classId, draftId, templateId, false, { max_iterations: 10 });
+
+      expect(Number.isInteger(result.seed)).toBe(true);
+      expect(result.iterations).toEqual(10);
+    });
+
+    it('should run the full iteration limit when no time budget is given', async () => {
+      await assign(mathTeacherId, mathId, classId, 6);
+      await db.insert(schedulingRulesTable)
+        .values({ academic_year_id: academicYearId, rule_type: 'max_daily_subject_jp', value: 2, weight: 1 })
+        .execute();
+
+      const result = await generateAutomaticSchedule(classId, draftId, templateId, false, { seed: 7 });
+
+      expect(result.iterations).toEqual(DEFAULT_MAX_ITERATIONS);
+    });
+
+    it('should search until a time budget given alone runs out', async () => {
+      await assign(mathTeacherId, mathId, classId, 6);
+      await db.insert(schedulingRulesTable)
+        .values({ academic_year_id: academicYearId, rule_type: 'max_daily_subject_jp', value: 2, weight: 1 })
+        .execute();
+      const [secondDraft] = await db.insert(scheduleDraftsTable)
+        .values({ academic_year_id: academicYearId, name: 'Draft 2' })
+        .returning()
+        .execute();
+
+      const short = await generateAutomaticSchedule(classId, draftId, templateId, false, { seed: 7, time_budget_ms: 20 });
+      const long = await generateAutomaticSchedule(classId, secondDraft.id, templateId, false, { seed: 7, time_budget_ms: 1000 });
+
+      expect(long.iterations).toBeGreaterThan(DEFAULT_MAX_ITERATIONS);
+      expect(long.iterations).toBeGreaterThan(short.iterations);
+    });
+
+    it('should refuse search limits that would hold a run open for long', () => {
+      expect(generationOptionsSchema.safeParse({ max_iterations: 100000, time_budget_ms: 60000 }).success).toBe(true);
+      expect(generationOptionsSchema.safeParse({ max_iterations: 1e9 }).success).toBe(false);
+      expect(generationOptionsSchema.safeParse({ time_budget_ms: 3600000 }).success).toBe(false);
+    });
+
+    it('should ignore inactive rules', async () => {
+      await assign(mathTeacherId, mathId, classId, 6);
+      await db.insert(schedulingRulesTable)
+        .values({
+          academic_year_id: academicYearId,
+          rule_type: 'max_daily_subject_jp',
+          value: 2,
+          weight: 4,
+          is_active: false
+        })
+        .execute();
+
+      const result = await generateAutomaticSchedule(classId, draftId, templateId);
+
+      expect(result.score.total_penalty).toEqual(0);
+      expect(result.score.violations).toHaveLength(0);
+    });
+
+    it('should keep block JP of a subject contiguous', async () => {
+      await db.update(subjectsTable).set({ block_pattern: '2' }).where(eq(subjectsTable.id, scienceId)).execute();
+      await assign(scienceTeacherId, scienceId, classId, 4);
+
+      const result = await generateAutomaticSchedule(classId, draftId, templateId);
+
+      expect(result.success).toBe(true);
+
+      const schedules = await db.select()
+        .from(schedulesTable)
+        .where(eq(schedulesTable.class_id, classId))
+        .execute();
+
+      // JP 4 sits after istirahat, so the only 2 JP blocks are JP 1-2 of each day
+      expect(schedules).toHaveLength(4);
+      expect(schedules.every(s => s.jp_number === 1 || s.jp_number === 2)).toBe(true);
+      expect(new Set(schedules.map(s => s.day_of_week)).size).toEqual(2);
+    });
+
+    it('should prefer the block pattern of the JTM assignment', async () => {
+      await db.update(subjectsTable).set({ block_pattern: '1' }).where(eq(subjectsTable.id, mathId)).execute();
+      await db.insert(jtmAssignmentsTable)
+        .values({
+          academic_year_id: academicYearId,
+          teacher_id: mathTeacherId,
+          subject_id: mathId,
+          class_id: classId,
+          allocated_hours: 3,
+          block_pattern: '2+1'
+        })
+        .execute();
+
+      await generateAutomaticSchedule(classId, draftId, templateId);
+
+      const schedules = await db.select()
+        .from(schedulesTable)
+        .where(eq(schedulesTable.class_id, classId))
+        .execute();
+
+      // One day holds the pair; the single JP may not join it, even across istirahat
+      const byDay = [1, 2].map(day => schedules.filter(s => s.day_of_week === day).map(s => s.jp_number).sort());
+      expect(schedules).toHaveLength(3);
+      expect(byDay).toContainEqual([1, 2]);
+      expect(byDay.map(jps => jps.length).sort()).toEqual([1, 2]);
+    });
+
+    it('should report blocks that have no contiguous slots', async () => {
+      await db.update(subjectsTable).set({ block_pattern: '3' }).where(eq(subjectsTable.id, scienceId)).execute();
+      await assign(scienceTeacherId, scienceId, classId, 3);
+
+      const result = await generateAutomaticSchedule(classId, draftId, templateId);
+
+      expect(result.success).toBe(false);
+      expect(result.created_count).toEqual(0);
+      expect(result.conflicts.length).toBeGreaterThan(0);
+      expect(result.conflicts.every(c => /3 JP of IPA.*No 3 consecutive belajar JP/.test(c.reason))).toBe(true);
+    });
+
+    it('should throw error for invalid class', async () => {
+      await expect(generateAutomaticSchedule(99999, draftId, templateId)).rejects.toThrow(/class.*not found/i);
+    });
+
+    it('should throw error for invalid template', async () => {
+      await expect(generateAutomaticSchedule(classId, draftId, 99999)).rejects.toThrow(/schedule template.*not found/i);
+    });
+
+    it('should ignore cells of other drafts', async () => {
+      await assign(mathTeacherId, mathId, classId, 4);
+      const [otherDraft] = await db.insert(scheduleDraftsTable)
+        .values({ academic_year_id: academicYearId, name: 'Draft 2' })
+        .returning()
+        .execute();
+      await db.insert(schedulesTable)
+        .values({
+          draft_id: otherDraft.id,
+          academic_year_id: academicYearId,
+          class_id: otherClassId,
+          template_id: templateId,
+          day_of_week: 1,
+          jp_number: 1,
+          subject_id: mathId,
+          teacher_id: mathTeacherId,
+          is_manual: true
+        })
+        .execute();
+
+      const result = await generateAutomaticSchedule(classId, draftId, templateId);
+
+      expect(result.created_count).toEqual(4);
+
+      const schedules = await db.select()
+        .from(schedulesTable)
+        .where(eq(schedulesTable.draft_id, draftId))
+        .execute();
+
+      expect(schedules).toHaveLength(4);
+      expect(schedules.some(s => s.day_of_week === 1 && s.jp_number === 1)).toBe(true);
+    });
+
+    it('should refuse to generate into a published draft', async () => {
+      await db.update(scheduleDraftsTable)
+        .set({ status: 'published', published_at: new Date() })
+        .where(eq(scheduleDraftsTable.id, draftId))
+        .execute();
+
+      await expect(generateAutomaticSchedule(classId, draftId, templateId)).rejects.toThrow(/is published and cannot be changed/i);
+    });
+  });
+
+  describe('generateSchoolSchedule', () => {
+    it('should schedule every class of the academic year in one run', async () => {
+      // The same teacher teaches both classes: 6 JP each would need 12 distinct slots
+      await assign(mathTeacherId, mathId, classId, 3);
+      await assign(mathTeacherId, mathId, otherClassId, 3);
+      await assign(scienceTeacherId, scienceId, classId, 3);
+      await assign(scienceTeacherId, scienceId, otherClassId, 3);
+
+      const result = await generateSchoolSchedule(draftId, templateId);
+
+      expect(result.success).toBe(true);
+      expect(result.persisted).toBe(true);
+      expect(result.created_count).toEqual(12);
+      expect(result.classes).toHaveLength(2);
+      expect(result.classes.every(c => c.success && c.created_count === 6)).toBe(true);
+      expect(result.soft_penalty).toEqual(0);
+
+      const schedules = await db.select().from(schedulesTable).execute();
+      const teacherSlots = schedules.map(s => `${s.teacher_id}:${s.day_of_week}:${s.jp_number}`);
+
+      expect(schedules).toHaveLength(12);
+      expect(new Set(teacherSlots).size).toEqual(12);
+    });
+
+    it('should leave schedules untouched when a class cannot be fully scheduled', async () => {
+      await assign(mathTeacherId, mathId, classId, 4);
+      await assign(mathTeacherId, mathId, otherClassId, 4);
+
+      const result = await generateSchoolSchedule(draftId, templateId);
+
+      expect(result.success).toBe(false);
+      expect(result.persisted).toBe(false);
+      expect(result.created_count).toEqual(0);
+      expect(result.classes.some(c => c.conflicts.length > 0)).toBe(true);
+
+      const schedules = await db.select().from(schedulesTable).execute();
+      expect(schedules).toHaveLength(0);
+    });
+
+    it('should keep unlocked cells when a regeneration cannot be completed', async () => {
+      await assign(mathTeacherId, mathId, classId, 4);
+      await assign(mathTeacherId, mathId, otherClassId, 4);
+      await db.insert(schedulesTable)
+        .values({
+          draft_id: draftId,
+          academic_year_id: academicYearId,
+          class_id: classId,
+          template_id: templateId,
+          day_of_week: 1,
+          jp_number: 1,
+          subject_id: mathId,
+          teacher_id: mathTeacherId,
+          is_manual: false
+        })
+        .execute();
+
+      const result = await generateSchoolSchedule(draftId, templateId, false, true);
+
+      expect(result.persisted).toBe(false);
+      expect(result.removed_count).toEqual(0);
+
+      const schedules = await db.select().from(schedulesTable).execute();
+      expect(schedules).toHaveLength(1);
+    });
+
+    it('should persist partial results when explicitly allowed', async () => {
+      await assign(mathTeacherId, mathId, classId, 4);
+      await assign(mathTeacherId, mathId, otherClassId, 4);
+
+      const result = await generateSchoolSchedule(draftId, templateId, true);
+
+      expect(result.success).toBe(false);
+      expect(result.persisted).toBe(true);
+      expect(result.created_count).toEqual(6);
+
+      const schedules = await db.select().from(schedulesTable).execute();
+      expect(schedules).toHaveLength(6);
+    });
+
+    it('should schedule each class on the template it is bound to', async () => {
+      const [late] = await db.insert(scheduleTemplatesTable)
+        .values({ name: 'Template Kelas 7B', description: 'Jadwal siang' })
+        .returning()
+        .execute();
+      await db.insert(timeSlotsTable)
+        .values([1, 2, 3].map(jp => ({
+          template_id: late.id,
+          day_of_week: 3,
+          jp_number: jp,
+          start_time: `1${jp}:00`,
+          end_time: `1${jp}:40`,
+          duration: 40,
+          slot_type: 'belajar' as const
+        })))
+        .execute();
+      await setClassTemplate({ class_id: otherClassId, academic_year_id: academicYearId, template_id: late.id });
+      await assign(mathTeacherId, mathId, classId, 2);
+      await assign(scienceTeacherId, scienceId, otherClassId, 3);
+
+      const result = await generateSchoolSchedule(draftId, templateId);
+
+      expect(result.success).toBe(true);
+      const schedules = await db.select().from(schedulesTable).execute();
+      const lateCells = schedules.filter(s => s.class_id === otherClassId);
+      expect(lateCells).toHaveLength(3);
+      expect(lateCells.every(s => s.template_id === late.id && s.day_of_week === 3)).toBe(true);
+      expect(schedules.filter(s => s.class_id === classId).every(s => s.template_id === templateId)).toBe(true);
+    });
+
+    it('should keep a teacher apart by clock time on classes of different templates', async () => {
+      const [afternoon] = await db.insert(scheduleTemplatesTable)
+        .values({ name: 'Template Siang', description: 'Kelas siang' })
+        .returning()
+        .execute();
+      await db.insert(timeSlotsTable)
+        .values([
+          { template_id: afternoon.id, day_of_week: 1, jp_number: 1, start_time: '08:30', end_time: '09:10', duration: 40, slot_type: 'belajar' as const },
+          { template_id: afternoon.id, day_of_week: 1, jp_number: 2, start_time: '10:00', end_time: '10:40', duration: 40, slot_type: 'belajar' as const }
+        ])
+        .execute();
+      await setClassTemplate({ class_id: otherClassId, academic_year_id: academicYearId, template_id: afternoon.id });
+      await assign(mathTeacherId, mathId, classId, 1);
+      await assign(mathTeacherId, mathId, otherClassId, 1);
+
+      // 08:10-08:50 in 7A overlaps JP 1 of 7B, while JP 2 of 7B is hours later
+      await db.insert(schedulesTable)
+        .values({
+          draft_id: draftId,
+          academic_year_id: academicYearId,
+          class_id: classId,
+          template_id: templateId,
+          day_of_week: 1,
+          jp_number: 2,
+          subject_id: mathId,
+          teacher_id: mathTeacherId,
+          is_manual: true
+        })
+        .execute();
+
+      const result = await generateSchoolSchedule(draftId, templateId);
+
+      expect(result.success).toBe(true);
+      const placed = await db.select()
+        .from(schedulesTable)
+        .where(eq(schedulesTable.class_id, otherClassId))
+        .execute();
+      expect(placed.map(s => [s.template_id, s.day_of_week, s.jp_number])).toEqual([[afternoon.id, 1, 2]]);
+    });
+
+    it('should throw error when the academic year has no classes', async () => {
+      const emptyYear = await db.insert(academicYearsTable)
+        .values({
+          year: '2025/2026',
+          semester: 1,
+          curriculum: 'Kurikulum Merdeka',
+          total_time_allocation: 40
+        })
+        .returning()
+        .execute();
+      const emptyDraft = await db.insert(scheduleDraftsTable)
+        .values({ academic_year_id: emptyYear[0].id, name: 'Draft 1' })
+        .returning()
+        .execute();
+
+      await expect(generateSchoolSchedule(emptyDraft[0].id, templateId)).rejects.toThrow(/no classes found/i);
+    });
+  });
+
+  describe('diagnoseSchedule', () => {
+    it('should report no issues for feasible data', async () => {
+      await assign(mathTeacherId, mathId, classId, 3);
+      await assign(scienceTeacherId, scienceId, classId, 3);
+
+      const result = await diagnoseSchedule(draftId, templateId, classId);
+
+      expect(result.feasible).toBe(true);
+      expect(result.issues).toHaveLength(0);
+    });
+
+    it('should report a class needing more JP than belajar slots', async () => {
+      await assign(mathTeacherId, mathId, classId, 4);
+      await assign(scienceTeacherId, scienceId, classId, 3);
+
+      const result = await diagnoseSchedule(draftId, templateId, classId);
+
+      expect(result.feasible).toBe(false);
+      expect(result.issues).toHaveLength(1);
+      expect(result.issues[0]).toMatchObject({ type: 'class_capacity', class_id: classId });
+      expect(result.issues[0].message).toEqual('Class 7A needs 7 JP but template has 6 free belajar slots');
+    });
+
+    it('should report a teacher allocated more JP than teachable slots', async () => {
+      await setUnavailable(mathTeacherId, { day_of_week: 2, start_jp: 4, end_jp: 4 });
+      await assign(mathTeacherId, mathId, classId, 3);
+      await assign(mathTeacherId, mathId, otherClassId, 3);
+
+      const result = await diagnoseSchedule(draftId, templateId);
+
+      expect(result.issues).toHaveLength(1);
+      expect(result.issues[0]).toMatchObject({ type: 'teacher_capacity', teacher_ids: [mathTeacherId] });
+      expect(result.issues[0].message).toEqual('Teacher Budi Santoso has 6 JP allocated but only 5 teachable slots exist');
+    });
+
+    it('should report two teachers competing for the same slots', async () => {
+      for (const teacherId of [mathTeacherId, scienceTeacherId]) {
+        await setUnavailable(teacherId, { day_of_week: 1, start_jp: 4, end_jp: 4 });
+        await setUnavailable(teacherId, { day_of_week: 2, start_jp: null, end_jp: null });
+      }
+      await assign(mathTeacherId, mathId, classId, 1);
+      await assign(scienceTeacherId, scienceId, classId, 2);
+
+      const result = await diagnoseSchedule(draftId, templateId, classId);
+
+      expect(result.issues).toHaveLength(1);
+      expect(result.issues[0].type).toEqual('shared_slots');
+      expect(result.issues[0].teacher_ids).toEqual([mathTeacherId, scienceTeacherId]);
+      expect(result.issues[0].message).toMatch(/together need 3 JP in 7A but both can only use day 1 JP 1-2/);
+    });
+
+    it('should report blocks without enough consecutive slots', async () => {
+      await db.update(subjectsTable).set({ block_pattern: '2' }).where(eq(subjectsTable.id, scienceId)).execute();
+      await assign(scienceTeacherId, scienceId, classId, 6);
+
+      const result = await diagnoseSchedule(draftId, templateId, classId);
+
+      expect(result.issues).toHaveLength(1);
+      expect(result.issues[0].type).toEqual('block_capacity');
+      expect(result.issues[0].message).toMatch(/needs 3 block\(s\) of 2 consecutive JP in 7A but only 2 fit/);
+    });
+
+    it('should throw error for invalid class', async () => {
+      await expect(diagnoseSchedule(draftId, templateId, 99999)).rejects.toThrow(/class.*not found/i);
+    });
+  });
+
+  describe('repairSchedule', () => {
+    const draftCells = (targetDraftId: number) => db.select()
+      .from(schedulesTable)
+      .where(eq(schedulesTable.draft_id, targetDraftId))
+      .orderBy(asc(schedulesTable.day_of_week), asc(schedulesTable.jp_number))
+      .execute();
+
+    const publishGenerated = async () => {
+      const result = await generateAutomaticSchedule(classId, draftId, templateId);
+      expect(result.success).toBe(true);
+      await publishScheduleDraft(draftId);
+    };
+
+    it('should hand reassigned lessons to the new teacher in place', async () => {
+      await assign(mathTeacherId, mathId, classId, 2);
+      await assign(scienceTeacherId, scienceId, classId, 2);
+      await publishGenerated();
+
+      const [newTeacher] = await db.insert(teachersTable)
+        .values({ name: 'Rina Wati', nip_nuptk: '789', tmt: new Date('2021-07-01'), education: 'S1 Matematika' })
+        .returning()
+        .execute();
+      await db.update(jtmAssignmentsTable)
+        .set({ teacher_id: newTeacher.id })
+        .where(and(eq(jtmAssignmentsTable.subject_id, mathId), eq(jtmAssignmentsTable.class_id, classId)))
+        .execute();
+
+      const result = await repairSchedule(academicYearId, templateId);
+
+      expect(result.success).toBe(true);
+      expect(result.draft.status).toEqual('draft');
+      expect(result.reassigned_count).toEqual(2);
+      expect(result.changed_count).toEqual(2);
+      expect(result.invalid_cells).toHaveLength(0);
+
+      const before = await draftCells(draftId);
+      const after = await draftCells(result.draft.id);
+      expect(after.map(cell => [cell.day_of_week, cell.jp_number, cell.subject_id]))
+        .toEqual(before.map(cell => [cell.day_of_week, cell.jp_number, cell.subject_id]));
+      expect(after.filter(cell => cell.subject_id === mathId).every(cell => cell.teacher_id === newTeacher.id)).toBe(true);
+      expect(before.filter(cell => cell.subject_id === mathId).every(cell => cell.teacher_id === mathTeacherId)).toBe(true);
+    });
+
+    it('should move only the lesson a teacher can no longer give', async () => {
+      await assign(mathTeacherId, mathId, classId, 2);
+      await assign(scienceTeacherId, scienceId, classId, 2);
+      await publishGenerated();
+
+      const before = await draftCells(draftId);
+      const blocked = before.find(cell => cell.subject_id === mathId)!;
+      await setUnavailable(mathTeacherId, { day_of_week: blocked.day_of_week, start_jp: blocked.jp_number, end_jp: blocked.jp_number });
+
+      const result = await repairSchedule(academicYearId, templateId, 'Perbaikan');
+
+      expect(result.success).toBe(true);
+      expect(result.draft.name).toEqual('Perbaikan');
+      expect(result.invalid_cells).toHaveLength(1);
+      expect(result.invalid_cells[0]).toMatchObject({
+        day_of_week: blocked.day_of_week,
+        jp_number: blocked.jp_number,
+        reason: 'Budi Santoso is unavailable at this slot'
+      });
+      expect(result.changed_count).toEqual(2);
+
+      const after = await draftCells(result.draft.id);
+      expect(after).toHaveLength(4);
+      expect(after.some(cell => cell.day_of_week === blocked.day_of_week && cell.jp_number === blocked.jp_number)).toBe(false);
+    });
+
+    it('should rearrange a full class when no free slot is left', async () => {
+      await assign(mathTeacherId, mathId, classId, 3);
+      await assign(scienceTeacherId, scienceId, classId, 3);
+      await publishGenerated();
+
+      const blocked = (await draftCells(draftId)).find(cell => cell.subject_id === mathId)!;
+      await setUnavailable(mathTeacherId, { day_of_week: blocked.day_of_week, start_jp: blocked.jp_number, end_jp: blocked.jp_number });
+
+      const result = await repairSchedule(academicYearId, templateId);
+
+      expect(result.success).toBe(true);
+      expect(result.changed_count).toBeGreaterThanOrEqual(2);
+
+      const after = await draftCells(result.draft.id);
+      expect(after).toHaveLength(6);
+      const moved = after.find(cell => cell.day_of_week === blocked.day_of_week && cell.jp_number === blocked.jp_number)!;
+      expect(moved.subject_id).toEqual(scienceId);
+    });
+
+    it('should throw error without a published timetable', async () => {
+      await expect(repairSchedule(academicYearId, templateId)).rejects.toThrow(/no published timetable/i);
+    });
+  });
+
+  describe('generateScheduleCandidates', () => {
+    it('should generate each candidate into its own draft with a scorecard', async () => {
+      await assign(mathTeacherId, mathId, classId, 3);
+      await assign(scienceTeacherId, scienceId, classId, 3);
+
+      const result = await generateScheduleCandidates(academicYearId, templateId, 3, undefined, { seed: 40 });
+
+      expect(result.candidates).toHaveLength(3);
+      expect(result.candidates.map(candidate => candidate.seed)).toEqual([40, 41, 42]);
+      expect(result.candidates.map(candidate => candidate.draft.name)).toEqual([
+        'Candidate 1 (seed 40)',
+        'Candidate 2 (seed 41)',
+        'Candidate 3 (seed 42)'
+      ]);
+      expect(new Set(result.candidates.map(candidate => candidate.draft.id)).size).toEqual(3);
+      expect(result.candidates.every(candidate => candidate.scorecard.hard_violations === 0)).toBe(true);
+      expect(result.candidates.map(candidate => candidate.draft.id)).toContain(result.recommended_draft_id);
+
+      for (const candidate of result.candidates) {
+        const cells = await db.select()
+          .from(schedulesTable)
+          .where(eq(schedulesTable.draft_id, candidate.draft.id))
+          .execute();
+        expect(cells).toHaveLength(6);
+      }
+      const original = await db.select()
+        .from(schedulesTable)
+        .where(eq(schedulesTable.draft_id, draftId))
+        .execute();
+      expect(original).toHaveLength(0);
+    });
+
+    it('should carry the locked cells of a base draft and keep partial candidates', async () => {
+      await assign(mathTeacherId, mathId, classId, 4);
+      await assign(mathTeacherId, mathId, otherClassId, 4);
+      await db.insert(schedulesTable)
+        .values([
+          { day: 1, jp: 1, manual: true },
+          { day: 1, jp: 2, manual: false }
+        ].map(cell => ({
+          draft_id: draftId,
+          academic_year_id: academicYearId,
+          class_id: classId,
+          template_id: templateId,
+          day_of_week: cell.day,
+          jp_number: cell.jp,
+          subject_id: mathId,
+          teacher_id: mathTeacherId,
+          is_manual: cell.manual
+        })))
+        .execute();
+
+      const result = await generateScheduleCandidates(academicYearId, templateId, 2, draftId, { seed: 1 });
+
+      for (const candidate of result.candidates) {
+        const cells = await db.select()
+          .from(schedulesTable)
+          .where(eq(schedulesTable.draft_id, candidate.draft.id))
+          .execute();
+        expect(cells.filter(cell => cell.is_manual)).toHaveLength(1);
+        expect(cells.some(cell => cell.is_manual && cell.day_of_week === 1 && cell.jp_number === 1)).toBe(true);
+        // One teacher, 8 JP and 6 slots: 2 JP stay unplaced
+        expect(cells).toHaveLength(6);
+        expect(candidate.scorecard).toMatchObject({ hard_violations: 2, unplaced_jp: 2 });
+      }
+    });
+
+    it('should refuse a base draft of another academic year', async () => {
+      const [otherYear] = await db.insert(academicYearsTable)
+        .values({ year: '2025/2026', semester: 1, curriculum: 'Kurikulum Merdeka', total_time_allocation: 40 })
+        .returning()
+        .execute();
+
+      await expect(generateScheduleCandidates(otherYear.id, templateId, 2, draftId)).rejects.toThrow(/belongs to another academic year/i);
+      expect(await db.select().from(scheduleDraftsTable).execute()).toHaveLength(1);
+    });
+  });
+});
@@ -0,0 +1,239 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import {
+  academicYearsTable,
+  classesTable,
+  scheduleTemplatesTable,
+  subjectsTable,
+  teachersTable,
+  timeSlotsTable,
+  jtmAssignmentsTable,
+  schedulesTable,
+  scheduleDraftsTable
+} from '../db/schema';
+import {
+  createSchedule,
+  updateSchedule,
+  deleteSchedule,
+  swapScheduleCells,
+  clearCachedSchedule,
+  lockScheduleCell,
+  unlockScheduleCell
+} from '../handlers/schedules';
+import { undoScheduleCommand, redoScheduleCommand, getScheduleJournal } from '../handlers/schedule_journal';
+import { publishScheduleDraft } from '../handlers/schedule_drafts';
+import { asc, eq } from 'drizzle-orm';
+
+const SESSION = 'session-1';
+
+describe('schedule journal', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let academicYearId: number;
+  let draftId: number;
+  let classId: number;
+  let templateId: number;
+  let mathId: number;
+  let scienceId: number;
+  let mathTeacherId: number;
+  let scienceTeacherId: number;
+
+  beforeEach(async () => {
+    const [academicYear] = await db.insert(academicYearsTable)
+      .values({
+        year: '2024/2025',
+        semester: 1,
+        curriculum: 'Kurikulum Merdeka',
+        total_time_allocation: 40,
+        is_active: true
+      })
+      .returning()
+      .execute();
+    academicYearId = academicYear.id;
+
+    const [draft] = await db.insert(scheduleDraftsTable)
+      .values({ academic_year_id: academicYearId, name: 'Draft 1' })
+      .returning()
+      .execute();
+    draftId = draft.id;
+
+    const [classRecord] = await db.insert(classesTable)
+      .values({ grade_level: 7, rombel: 'A', class_name: '7A', academic_year_id: academicYearId })
+      .returning()
+      .execute();
+    classId = classRecord.id;
+
+    const [template] = await db.insert(scheduleTemplatesTable)
+      .values({ name: 'Template Standar', description: 'Template jadwal standar' })
+      .returning()
+      .execute();
+    templateId = template.id;
+
+    await db.insert(timeSlotsTable)
+      .values([1, 2, 3].map(jp => ({
+        template_id: templateId,
+        day_of_week: 1,
+        jp_number: jp,
+        start_time: '07:30',
+        end_time: '08:10',
+        duration: 40,
+        slot_type: 'belajar' as const
+      })))
+      .execute();
+
+    const subjects = await db.insert(subjectsTable)
+      .values([
+        { code: 'MAT', name: 'Matematika', time_allocation: 2 },
+        { code: 'IPA', name: 'IPA', time_allocation: 2 }
+      ])
+      .returning()
+      .execute();
+    mathId = subjects[0].id;
+    scienceId = subjects[1].id;
+
+    const teachers = await db.insert(teachersTable)
+      .values([
+        { name: 'Budi Santoso', nip_nuptk: '123456789', tmt: new Date('2020-01-01'), education: 'S1 Matematika' },
+        { name: 'Siti Aminah', nip_nuptk: '987654321', tmt: new Date('2019-07-01'), education: 'S1 Fisika' }
+      ])
+      .returning()
+      .execute();
+    mathTeacherId = teachers[0].id;
+    scienceTeacherId = teachers[1].id;
+
+    await db.insert(jtmAssignmentsTable)
+      .values([
+        { academic_year_id: academicYearId, teacher_id: mathTeacherId, subject_id: mathId, class_id: classId, allocated_hours: 2 },
+        { academic_year_id: academicYearId, teacher_id: scienceTeacherId, subject_id: scienceId, class_id: classId, allocated_hours: 2 }
+      ])
+      .execute();
+  });
+
+  const addLesson = (jpNumber: number, subjectId: number, teacherId: number, sessionId: string | null = SESSION) =>
+    createSchedule({
+      draft_id: draftId,
+      academic_year_id: academicYearId,
+      class_id: classId,
+      template_id: templateId,
+      day_of_week: 1,
+      jp_number: jpNumber,
+      subject_id: subjectId,
+      teacher_id: teacherId,
+      is_manual: true,
+      session_id: sessionId ?? undefined
+    });
+
+  const loadCells = () => db.select()
+    .from(schedulesTable)
+    .where(eq(schedulesTable.draft_id, draftId))
+    .orderBy(asc(schedulesTable.id))
+    .execute();
+
+  it('should undo and redo a created cell', async () => {
+    const cell = await addLesson(1, mathId, mathTeacherId);
+
+    const undone = await undoScheduleCommand(SESSION, academicYearId);
+    expect(undone).toMatchObject({ operation: 'create', is_undone: true });
+    expect(await loadCells()).toHaveLength(0);
+
+    const redone = await redoScheduleCommand(SESSION, academicYearId);
+    expect(redone).toMatchObject({ operation: 'create', is_undone: false });
+    const cells = await loadCells();
+    expect(cells).toHaveLength(1);
+    expect(cells[0].id).toEqual(cell.id);
+  });
+
+  it('should restore the previous state of an updated cell', async () => {
+    const cell = await addLesson(1, mathId, mathTeacherId);
+    await updateSchedule({ id: cell.id, jp_number: 2, session_id: SESSION });
+
+    await undoScheduleCommand(SESSION, academicYearId);
+    expect((await loadCells())[0].jp_number).toEqual(1);
+
+    await redoScheduleCommand(SESSION, academicYearId);
+    expect((await loadCells())[0].jp_number).toEqual(2);
+  });
+
+  it('should bring back a deleted cell under the same id', async () => {
+    const cell = await addLesson(1, mathId, mathTeacherId);
+    await deleteSchedule(cell.id, SESSION);
+
+    await undoScheduleCommand(SESSION, academicYearId);
+
+    const cells = await loadCells();
+    expect(cells).toHaveLength(1);
+    expect(cells[0]).toMatchObject({ id: cell.id, subject_id: mathId, jp_number: 1 });
+  });
+
+  it('should undo a swap and a cleared class in reverse order', async () => {
+    const math = await addLesson(1, mathId, mathTeacherId);
+    const science = await addLesson(2, scienceId, scienceTeacherId);
+    await swapScheduleCells(math.id, science.id, false, SESSION);
+    expect(await clearCachedSchedule(classId, draftId, SESSION)).toEqual(2);
+
+    await undoScheduleCommand(SESSION, academicYearId);
+    const restored = await loadCells();
+    expect(restored.map(cell => cell.jp_number)).toEqual([2, 1]);
+
+    await undoScheduleCommand(SESSION, academicYearId);
+    const unswapped = await loadCells();
+    expect(unswapped.map(cell => cell.jp_number)).toEqual([1, 2]);
+  });
+
+  it('should drop the redo history when a new command is recorded', async () => {
+    await addLesson(1, mathId, mathTeacherId);
+    await undoScheduleCommand(SESSION, academicYearId);
+    await addLesson(2, scienceId, scienceTeacherId);
+
+    expect(await redoScheduleCommand(SESSION, academicYearId)).toBeNull();
+
+    const journal = await getScheduleJournal(SESSION, academicYearId);
+    expect(journal).toHaveLength(1);
+    expect(journal[0].changes[0].after).toMatchObject({ subject_id: scienceId });
+  });
+
+  it('should keep sessions apart and skip edits without a session', async () => {
+    await addLesson(1, mathId, mathTeacherId, 'session-2');
+    await addLesson(2, scienceId, scienceTeacherId, null);
+
+    expect(await undoScheduleCommand(SESSION, academicYearId)).toBeNull();
+    expect(await getScheduleJournal('session-2', academicYearId)).toHaveLength(1);
+    expect(await loadCells()).toHaveLength(2);
+  });
+
+  it('should refuse to undo a cell changed outside the session', async () => {
+    const cell = await addLesson(1, mathId, mathTeacherId);
+    await updateSchedule({ id: cell.id, jp_number: 3 });
+
+    await expect(undoScheduleCommand(SESSION, academicYearId)).rejects.toThrow(/changed outside this session/i);
+    expect(await loadCells()).toHaveLength(1);
+  });
+
+  it('should refuse to undo once the draft changed outside the session', async () => {
+    const math = await addLesson(1, mathId, mathTeacherId);
+    const science = await addLesson(2, scienceId, scienceTeacherId);
+    await deleteSchedule(math.id, SESSION);
+
+    // Unlocking another cell outside the session changes the draft as well
+    await unlockScheduleCell(science.id);
+    await expect(undoScheduleCommand(SESSION, academicYearId)).rejects.toThrow(/changed outside this session/i);
+    await lockScheduleCell(science.id);
+
+    // JP 1 was filled again outside the session: bringing the deleted cell back would double it
+    await addLesson(1, scienceId, scienceTeacherId, null);
+    await expect(undoScheduleCommand(SESSION, academicYearId)).rejects.toThrow(/changed outside this session/i);
+    expect((await loadCells()).map(cell => cell.jp_number)).toEqual([2, 1]);
+  });
+
+  it('should refuse to undo edits of a published draft', async () => {
+    await addLesson(1, mathId, mathTeacherId);
+    await publishScheduleDraft(draftId);
+
+    await expect(undoScheduleCommand(SESSION, academicYearId)).rejects.toThrow(/is published/i);
+
+    const journal = await getScheduleJournal(SESSION, academicYearId);
+    expect(journal[0].is_undone).toBe(false);
+  });
+});
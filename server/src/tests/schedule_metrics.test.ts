@@ -0,0 +1,305 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import {
+  academicYearsTable,
+  classesTable,
+  scheduleTemplatesTable,
+  timeSlotsTable,
+  subjectsTable,
+  teachersTable,
+  jtmAssignmentsTable,
+  schedulesTable,
+  scheduleDraftsTable,
+  teacherAvailabilityTable,
+  schedulingRulesTable
+} from '../db/schema';
+import { getTeacherLoadReport, compareScheduleCandidates } from '../handlers/schedule_metrics';
+
+describe('schedule metrics', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let academicYearId: number;
+  let draftId: number;
+  let classId: number;
+  let templateId: number;
+  let mathId: number;
+  let mathTeacherId: number;
+  let scienceTeacherId: number;
+
+  beforeEach(async () => {
+    const [academicYear] = await db.insert(academicYearsTable)
+      .values({
+        year: '2024/2025',
+        semester: 1,
+        curriculum: 'Kurikulum Merdeka',
+        total_time_allocation: 40,
+        is_active: true
+      })
+      .returning()
+      .execute();
+    academicYearId = academicYear.id;
+
+    const [draft] = await db.insert(scheduleDraftsTable)
+      .values({ academic_year_id: academicYearId, name: 'Draft 1' })
+      .returning()
+      .execute();
+    draftId = draft.id;
+
+    const [classRecord] = await db.insert(classesTable)
+      .values({ grade_level: 7, rombel: 'A', class_name: '7A', academic_year_id: academicYearId })
+      .returning()
+      .execute();
+    classId = classRecord.id;
+
+    const [template] = await db.insert(scheduleTemplatesTable)
+      .values({ name: 'Template Standar', description: 'Template jadwal standar' })
+      .returning()
+      .execute();
+    templateId = template.id;
+
+    // Two days of JP 1-2 belajar, JP 3 istirahat, JP 4-5 belajar
+    const bell = [['07:30', '08:10'], ['08:10', '08:50'], ['08:50', '09:05'], ['09:05', '09:45'], ['09:45', '10:25']];
+    await db.insert(timeSlotsTable)
+      .values([1, 2].flatMap(day => bell.map(([start, end], index) => ({
+        template_id: templateId,
+        day_of_week: day,
+        jp_number: index + 1,
+        start_time: start,
+        end_time: end,
+        duration: index === 2 ? 15 : 40,
+        slot_type: index === 2 ? 'istirahat' as const : 'belajar' as const
+      }))))
+      .execute();
+
+    const [math] = await db.insert(subjectsTable)
+      .values({ code: 'MAT', name: 'Matematika', time_allocation: 4 })
+      .returning()
+      .execute();
+    mathId = math.id;
+
+    const teachers = await db.insert(teachersTable)
+      .values([
+        { name: 'Budi Santoso', nip_nuptk: '123', tmt: new Date('2020-01-01'), education: 'S1 Matematika' },
+        { name: 'Siti Aminah', nip_nuptk: '456', tmt: new Date('2019-07-01'), education: 'S1 Biologi' }
+      ])
+      .returning()
+      .execute();
+    mathTeacherId = teachers[0].id;
+    scienceTeacherId = teachers[1].id;
+
+    await db.insert(jtmAssignmentsTable)
+      .values([
+        { academic_year_id: academicYearId, teacher_id: mathTeacherId, subject_id: mathId, class_id: classId, allocated_hours: 4 },
+        { academic_year_id: academicYearId, teacher_id: scienceTeacherId, subject_id: mathId, class_id: classId, allocated_hours: 2 }
+      ])
+      .execute();
+  });
+
+  const addLesson = async (day: number, jpNumber: number, targetDraftId: number = draftId, teacherId: number = mathTeacherId) => {
+    await db.insert(schedulesTable)
+      .values({
+        draft_id: targetDraftId,
+        academic_year_id: academicYearId,
+        class_id: classId,
+        template_id: templateId,
+        day_of_week: day,
+        jp_number: jpNumber,
+        subject_id: mathId,
+        teacher_id: teacherId,
+        is_manual: true
+      })
+      .execute();
+  };
+
+  it('should measure gaps, daily load and runs of each teacher', async () => {
+    // Day 1: JP 1 and JP 5 with an idle JP 2 and JP 4; day 2: JP 1-2 in a row
+    await addLesson(1, 1);
+    await addLesson(1, 5);
+    await addLesson(2, 1);
+    await addLesson(2, 2);
+
+    const result = await getTeacherLoadReport(draftId);
+
+    expect(result.teachers).toHaveLength(2);
+    expect(result.teachers[0]).toMatchObject({
+      teacher_name: 'Budi Santoso',
+      weekly_jtm: 4,
+      weekly_jp: 4,
+      teaching_days: 2,
+      free_days: 0,
+      max_daily_jp: 2,
+      max_consecutive_jp: 2,
+      gaps_per_week: 2,
+      load_spread: 0
+    });
+    expect(result.teachers[0].days).toEqual([
+      { day_of_week: 1, jp: 2, longest_run: 1, gaps: 2 },
+      { day_of_week: 2, jp: 2, longest_run: 2, gaps: 0 }
+    ]);
+    expect(result.total_gaps).toEqual(2);
+    expect(result.max_daily_jp).toEqual(2);
+    expect(result.teachers_with_free_day).toEqual(0);
+  });
+
+  it('should report uneven spread and teachers without lessons', async () => {
+    await addLesson(1, 1);
+    await addLesson(1, 2);
+    await addLesson(1, 4);
+
+    const result = await getTeacherLoadReport(draftId);
+    const [budi, siti] = result.teachers;
+
+    expect(budi).toMatchObject({ max_daily_jp: 3, max_consecutive_jp: 2, free_days: 1, load_spread: 1.5 });
+    expect(siti).toMatchObject({ weekly_jtm: 2, weekly_jp: 0, gaps_per_week: 0 });
+    expect(result.teachers_with_free_day).toEqual(1);
+  });
+
+  it('should read the day of a teacher across templates in clock time', async () => {
+    // 7B starts later: its JP 1 follows right after JP 1 of 7A, its JP 2 after the break
+    const [late] = await db.insert(scheduleTemplatesTable)
+      .values({ name: 'Template Siang', description: 'Kelas siang' })
+      .returning()
+      .execute();
+    await db.insert(timeSlotsTable)
+      .values([
+        { template_id: late.id, day_of_week: 1, jp_number: 1, start_time: '08:10', end_time: '08:50', duration: 40, slot_type: 'belajar' as const },
+        { template_id: late.id, day_of_week: 1, jp_number: 2, start_time: '09:05', end_time: '09:45', duration: 40, slot_type: 'belajar' as const }
+      ])
+      .execute();
+    const [lateClass] = await db.insert(classesTable)
+      .values({ grade_level: 7, rombel: 'B', class_name: '7B', academic_year_id: academicYearId })
+      .returning()
+      .execute();
+    await db.insert(schedulesTable)
+      .values([1, 2].map(jpNumber => ({
+        draft_id: draftId,
+        academic_year_id: academicYearId,
+        class_id: lateClass.id,
+        template_id: late.id,
+        day_of_week: 1,
+        jp_number: jpNumber,
+        subject_id: mathId,
+        teacher_id: mathTeacherId,
+        is_manual: true
+      })))
+      .execute();
+    await addLesson(1, 1);
+    await addLesson(1, 5);
+
+    const result = await getTeacherLoadReport(draftId);
+
+    // 07:30 7A, 08:10 7B, break, 09:05 7B, then 7A JP 5 at 09:45
+    expect(result.teachers[0].days[0]).toEqual({ day_of_week: 1, jp: 4, longest_run: 2, gaps: 0 });
+  });
+
+  it('should throw error for missing draft', async () => {
+    await expect(getTeacherLoadReport(99999)).rejects.toThrow(/draft.*not found/i);
+  });
+
+  describe('compareScheduleCandidates', () => {
+    let otherDraftId: number;
+
+    beforeEach(async () => {
+      const [draft] = await db.insert(scheduleDraftsTable)
+        .values({ academic_year_id: academicYearId, name: 'Draft 2' })
+        .returning()
+        .execute();
+      otherDraftId = draft.id;
+    });
+
+    it('should put hard violations, penalties and spread side by side', async () => {
+      // Draft 1: every JP on day 1 with Siti double-booked; Draft 2: spread over both days
+      for (const jp of [1, 2, 4, 5]) await addLesson(1, jp);
+      await addLesson(1, 1, draftId, scienceTeacherId);
+      await addLesson(1, 1, draftId, scienceTeacherId);
+      for (const [day, jp] of [[1, 1], [1, 2], [2, 1], [2, 2]]) await addLesson(day, jp, otherDraftId);
+      for (const jp of [4, 5]) await addLesson(2, jp, otherDraftId, scienceTeacherId);
+
+      await db.insert(teacherAvailabilityTable)
+        .values({ teacher_id: mathTeacherId, academic_year_id: academicYearId, day_of_week: 1, start_jp: 5, end_jp: 5, availability_type: 'unavailable' })
+        .execute();
+      await db.insert(schedulingRulesTable)
+        .values({ academic_year_id: academicYearId, rule_type: 'max_daily_subject_jp', value: 4, weight: 3 })
+        .execute();
+
+      const result = await compareScheduleCandidates([draftId, otherDraftId]);
+      const [first, second] = result.candidates;
+
+      expect(first).toMatchObject({
+        draft_name: 'Draft 1',
+        double_booked_jp: 1,
+        unavailable_jp: 1,
+        unplaced_jp: 0,
+        hard_violations: 2,
+        soft_penalty: 6,
+        teacher_gaps: 0,
+        subject_spread: 0.5
+      });
+      expect(second).toMatchObject({
+        draft_name: 'Draft 2',
+        hard_violations: 0,
+        soft_penalty: 0,
+        subject_spread: 1,
+        teachers_with_five_day_week: 0
+      });
+      expect(result.best.hard_violations).toEqual([otherDraftId]);
+      expect(result.best.teacher_gaps).toEqual([draftId, otherDraftId]);
+      expect(result.recommended_draft_id).toEqual(otherDraftId);
+    });
+
+    it('should count double-bookings by clock time across templates', async () => {
+      const [afternoon] = await db.insert(scheduleTemplatesTable)
+        .values({ name: 'Template Siang', description: 'Kelas siang' })
+        .returning()
+        .execute();
+      await db.insert(timeSlotsTable)
+        .values([
+          { template_id: afternoon.id, day_of_week: 1, jp_number: 1, start_time: '07:50', end_time: '08:30', duration: 40, slot_type: 'belajar' as const },
+          { template_id: afternoon.id, day_of_week: 1, jp_number: 2, start_time: '13:00', end_time: '13:40', duration: 40, slot_type: 'belajar' as const }
+        ])
+        .execute();
+      const [afternoonClass] = await db.insert(classesTable)
+        .values({ grade_level: 7, rombel: 'B', class_name: '7B', academic_year_id: academicYearId })
+        .returning()
+        .execute();
+      const addAfternoonLesson = (targetDraftId: number, jpNumber: number) => db.insert(schedulesTable)
+        .values({
+          draft_id: targetDraftId,
+          academic_year_id: academicYearId,
+          class_id: afternoonClass.id,
+          template_id: afternoon.id,
+          day_of_week: 1,
+          jp_number: jpNumber,
+          subject_id: mathId,
+          teacher_id: mathTeacherId,
+          is_manual: true
+        })
+        .execute();
+
+      // Draft 1: 07:30-08:10 against 07:50-08:30; Draft 2: JP 2 of both templates, hours apart
+      await addLesson(1, 1);
+      await addAfternoonLesson(draftId, 1);
+      await addLesson(1, 2, otherDraftId);
+      await addAfternoonLesson(otherDraftId, 2);
+
+      const result = await compareScheduleCandidates([draftId, otherDraftId]);
+
+      expect(result.candidates.map(candidate => candidate.double_booked_jp)).toEqual([1, 0]);
+    });
+
+    it('should refuse drafts of different academic years', async () => {
+      const [otherYear] = await db.insert(academicYearsTable)
+        .values({ year: '2025/2026', semester: 1, curriculum: 'Kurikulum Merdeka', total_time_allocation: 40 })
+        .returning()
+        .execute();
+      const [foreign] = await db.insert(scheduleDraftsTable)
+        .values({ academic_year_id: otherYear.id, name: 'Draft 1' })
+        .returning()
+        .execute();
+
+      await expect(compareScheduleCandidates([draftId, foreign.id])).rejects.toThrow(/same academic year/i);
+    });
+  });
+});
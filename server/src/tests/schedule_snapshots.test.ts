@@ -0,0 +1,201 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import {
+  academicYearsTable,
+  classesTable,
+  scheduleTemplatesTable,
+  subjectsTable,
+  teachersTable,
+  schedulesTable,
+  scheduleSnapshotCellsTable
+} from '../db/schema';
+import { createScheduleDraft, publishScheduleDraft } from '../handlers/schedule_drafts';
+import { getScheduleSnapshots, diffScheduleSnapshots } from '../handlers/schedule_snapshots';
+import { and, eq } from 'drizzle-orm';
+
+describe('schedule snapshots', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let academicYearId: number;
+  let classId: number;
+  let templateId: number;
+  let mathId: number;
+  let scienceId: number;
+  let mathTeacherId: number;
+  let scienceTeacherId: number;
+  let substituteId: number;
+
+  beforeEach(async () => {
+    const academicYear = await db.insert(academicYearsTable)
+      .values({
+        year: '2024/2025',
+        semester: 1,
+        curriculum: 'Kurikulum Merdeka',
+        total_time_allocation: 40,
+        is_active: true
+      })
+      .returning()
+      .execute();
+    academicYearId = academicYear[0].id;
+
+    const classRecord = await db.insert(classesTable)
+      .values({ grade_level: 7, rombel: 'A', class_name: '7A', academic_year_id: academicYearId })
+      .returning()
+      .execute();
+    classId = classRecord[0].id;
+
+    const template = await db.insert(scheduleTemplatesTable)
+      .values({ name: 'Template Standar', description: 'Template jadwal standar' })
+      .returning()
+      .execute();
+    templateId = template[0].id;
+
+    const subjects = await db.insert(subjectsTable)
+      .values([
+        { code: 'MAT', name: 'Matematika', time_allocation: 4 },
+        { code: 'IPA', name: 'IPA', time_allocation: 4 }
+      ])
+      .returning()
+      .execute();
+    mathId = subjects[0].id;
+    scienceId = subjects[1].id;
+
+    const teachers = await db.insert(teachersTable)
+      .values([
+        { name: 'Budi Santoso', nip_nuptk: '123456789', tmt: new Date('2020-01-01'), education: 'S1 Matematika' },
+        { name: 'Siti Aminah', nip_nuptk: '987654321', tmt: new Date('2019-07-01'), education: 'S1 Fisika' },
+        { name: 'Rina Wati', nip_nuptk: '555555555', tmt: new Date('2021-07-01'), education: 'S1 Matematika' }
+      ])
+      .returning()
+      .execute();
+    mathTeacherId = teachers[0].id;
+    scienceTeacherId = teachers[1].id;
+    substituteId = teachers[2].id;
+  });
+
+  const addCell = async (draftId: number, day: number, jpNumber: number, subjectId: number, teacherId: number) => {
+    await db.insert(schedulesTable)
+      .values({
+        draft_id: draftId,
+        academic_year_id: academicYearId,
+        class_id: classId,
+        template_id: templateId,
+        day_of_week: day,
+        jp_number: jpNumber,
+        subject_id: subjectId,
+        teacher_id: teacherId,
+        is_manual: true
+      })
+      .execute();
+  };
+
+  const moveCell = async (draftId: number, day: number, jpNumber: number, set: Partial<typeof schedulesTable.$inferInsert>) => {
+    await db.update(schedulesTable)
+      .set(set)
+      .where(and(
+        eq(schedulesTable.draft_id, draftId),
+        eq(schedulesTable.day_of_week, day),
+        eq(schedulesTable.jp_number, jpNumber)
+      ))
+      .execute();
+  };
+
+  it('should record a snapshot when a draft is published', async () => {
+    const draft = await createScheduleDraft({ academic_year_id: academicYearId, name: 'Semester 1' });
+    await addCell(draft.id, 1, 1, mathId, mathTeacherId);
+    await addCell(draft.id, 1, 2, mathId, mathTeacherId);
+
+    await publishScheduleDraft(draft.id);
+
+    const snapshots = await getScheduleSnapshots(academicYearId);
+    expect(snapshots).toHaveLength(1);
+    expect(snapshots[0]).toMatchObject({ draft_id: draft.id, reason: 'published' });
+
+    const cells = await db.select()
+      .from(scheduleSnapshotCellsTable)
+      .where(eq(scheduleSnapshotCellsTable.snapshot_id, snapshots[0].id))
+      .execute();
+    expect(cells).toHaveLength(2);
+  });
+
+  it('should diff moved lessons, teacher changes and added or removed cells', async () => {
+    const first = await createScheduleDraft({ academic_year_id: academicYearId, name: 'Semester 1' });
+    await addCell(first.id, 1, 1, mathId, mathTeacherId);
+    await addCell(first.id, 1, 2, mathId, mathTeacherId);
+    await addCell(first.id, 2, 1, scienceId, scienceTeacherId);
+    await addCell(first.id, 2, 2, scienceId, scienceTeacherId);
+    await publishScheduleDraft(first.id);
+
+    const second = await createScheduleDraft({
+      academic_year_id: academicYearId,
+      name: 'Revisi',
+      copy_from_draft_id: first.id
+    });
+    await moveCell(second.id, 1, 2, { day_of_week: 3, jp_number: 1 });
+    await moveCell(second.id, 2, 1, { teacher_id: substituteId });
+    await db.delete(schedulesTable)
+      .where(and(eq(schedulesTable.draft_id, second.id), eq(schedulesTable.day_of_week, 2), eq(schedulesTable.jp_number, 2)))
+      .execute();
+    await addCell(second.id, 4, 1, scienceId, scienceTeacherId);
+    await publishScheduleDraft(second.id);
+
+    const [before, after] = await getScheduleSnapshots(academicYearId);
+    const result = await diffScheduleSnapshots(before.id, after.id);
+
+    expect(result.moved).toHaveLength(2);
+    expect(result.moved[0]).toMatchObject({
+      subject_name: 'Matematika',
+      teacher_name: 'Budi Santoso',
+      from: { day_of_week: 1, jp_number: 2 },
+      to: { day_of_week: 3, jp_number: 1 }
+    });
+    expect(result.moved[1]).toMatchObject({
+      subject_name: 'IPA',
+      from: { day_of_week: 2, jp_number: 2 },
+      to: { day_of_week: 4, jp_number: 1 }
+    });
+
+    expect(result.teacher_changes).toHaveLength(1);
+    expect(result.teacher_changes[0]).toMatchObject({
+      day_of_week: 2,
+      jp_number: 1,
+      from_teacher_name: 'Siti Aminah',
+      to_teacher_name: 'Rina Wati'
+    });
+
+    expect(result.removed).toHaveLength(0);
+    expect(result.added).toHaveLength(0);
+
+    const affected = new Map(result.affected_teachers.map(teacher => [teacher.teacher_id, teacher.changes]));
+    expect(affected.get(mathTeacherId)).toEqual(['Matematika 7A moved from day 1 JP 2 to day 3 JP 1']);
+    expect(affected.get(substituteId)).toEqual(['IPA 7A on day 2 JP 1 taken over from Siti Aminah']);
+    expect(affected.get(scienceTeacherId)).toEqual([
+      'IPA 7A moved from day 2 JP 2 to day 4 JP 1',
+      'IPA 7A on day 2 JP 1 handed over to Rina Wati'
+    ]);
+  });
+
+  it('should report cells without a counterpart as added or removed', async () => {
+    const first = await createScheduleDraft({ academic_year_id: academicYearId, name: 'Semester 1' });
+    await addCell(first.id, 1, 1, mathId, mathTeacherId);
+    await publishScheduleDraft(first.id);
+
+    const second = await createScheduleDraft({ academic_year_id: academicYearId, name: 'Revisi' });
+    await addCell(second.id, 1, 1, scienceId, scienceTeacherId);
+    await publishScheduleDraft(second.id);
+
+    const [before, after] = await getScheduleSnapshots(academicYearId);
+    const result = await diffScheduleSnapshots(before.id, after.id);
+
+    expect(result.moved).toHaveLength(0);
+    expect(result.removed).toMatchObject([{ subject_name: 'Matematika', day_of_week: 1, jp_number: 1 }]);
+    expect(result.added).toMatchObject([{ subject_name: 'IPA', day_of_week: 1, jp_number: 1 }]);
+    expect(result.affected_teachers.map(teacher => teacher.teacher_id).sort()).toEqual([mathTeacherId, scienceTeacherId].sort());
+  });
+
+  it('should throw error for missing snapshot', async () => {
+    await expect(diffScheduleSnapshots(99998, 99999)).rejects.toThrow(/snapshot.*not found/i);
+  });
+});
@@ -3,21 +3,42 @@ import { resetDB, createDB } from '../helpers';
 import { db } from '../db';
 import { 
   schedulesTable, 
+  scheduleDraftsTable,
   academicYearsTable, 
   classesTable, 
   scheduleTemplatesTable,
   subjectsTable,
-  teachersTable
+  teachersTable,
+  teacherAvailabilityTable,
+  timeSlotsTable,
+  jtmAssignmentsTable
 } from '../db/schema';
 import { type CreateScheduleInput } from '../schema';
-import { createSchedule } from '../handlers/schedules';
-import { eq } from 'drizzle-orm';
+import {
+  createSchedule,
+  getSchedulesByClass,
+  getSchedulesByTeacher,
+  getScheduleById,
+  updateSchedule,
+  deleteSchedule,
+  validateScheduleConflicts,
+  lockScheduleCell,
+  unlockScheduleCell,
+  clearCachedSchedule,
+  swapScheduleCells,
+  moveScheduleCell,
+  findSwapPartners
+} from '../handlers/schedules';
+import { publishScheduleDraft } from '../handlers/schedule_drafts';
+import { setClassTemplate } from '../handlers/class_templates';
+import { eq, sql } from 'drizzle-orm';
 
 describe('createSchedule', () => {
   beforeEach(createDB);
   afterEach(resetDB);
 
   let academicYearId: number;
+  let draftId: number;
   let classId: number;
   let templateId: number;
   let subjectId: number;
@@ -37,6 +58,12 @@ describe('createSchedule', () => {
       .execute();
     academicYearId = academicYear[0].id;
 
+    const draft = await db.insert(scheduleDraftsTable)
+      .values({ academic_year_id: academicYearId, name: 'Draft 1' })
+      .returning()
+      .execute();
+    draftId = draft[0].id;
+
     const classRecord = await db.insert(classesTable)
       .values({
         grade_level: 7,
@@ -77,10 +104,34 @@ describe('createSchedule', () => {
       .returning()
       .execute();
     teacherId = teacher[0].id;
+
+    // A plain week of belajar slots and a JTM assignment covering the subject
+    await db.insert(timeSlotsTable)
+      .values([1, 2, 3, 4, 5].flatMap(day => Array.from({ length: 10 }, (_, index) => ({
+        template_id: templateId,
+        day_of_week: day,
+        jp_number: index + 1,
+        start_time: '07:00',
+        end_time: '07:40',
+        duration: 40,
+        slot_type: 'belajar' as const
+      }))))
+      .execute();
+
+    await db.insert(jtmAssignmentsTable)
+      .values({
+        academic_year_id: academicYearId,
+        teacher_id: teacherId,
+        subject_id: subjectId,
+        class_id: classId,
+        allocated_hours: 4
+      })
+      .execute();
   });
 
   // Test input with all required fields and optional subject/teacher
   const testInput: CreateScheduleInput = {
+    draft_id: 0, // Will be set in test
     academic_year_id: 0, // Will be set in test
     class_id: 0, // Will be set in test
     template_id: 0, // Will be set in test
@@ -88,13 +139,13 @@ describe('createSchedule', () => {
     jp_number: 1,
     subject_id: 0, // Will be set in test
     teacher_id: 0, // Will be set in test
-    is_manual: true,
-    is_cached: false
+    is_manual: true
   };
 
   it('should create a schedule with all fields', async () => {
     const input = {
       ...testInput,
+      draft_id: draftId,
       academic_year_id: academicYearId,
       class_id: classId,
       template_id: templateId,
@@ -113,7 +164,7 @@ describe('createSchedule', () => {
     expect(result.subject_id).toEqual(subjectId);
     expect(result.teacher_id).toEqual(teacherId);
     expect(result.is_manual).toEqual(true);
-    expect(result.is_cached).toEqual(false);
+    expect(result.draft_id).toEqual(draftId);
     expect(result.id).toBeDefined();
     expect(result.created_at).toBeInstanceOf(Date);
     expect(result.updated_at).toBeInstanceOf(Date);
@@ -121,6 +172,7 @@ describe('createSchedule', () => {
 
   it('should create a schedule with null subject and teacher', async () => {
     const input: CreateScheduleInput = {
+      draft_id: draftId,
       academic_year_id: academicYearId,
       class_id: classId,
       template_id: templateId,
@@ -128,8 +180,7 @@ describe('createSchedule', () => {
       jp_number: 2,
       subject_id: null,
       teacher_id: null,
-      is_manual: true,
-      is_cached: true
+      is_manual: true
     };
 
     const result = await createSchedule(input);
@@ -138,11 +189,11 @@ describe('createSchedule', () => {
     expect(result.teacher_id).toBeNull();
     expect(result.day_of_week).toEqual(2);
     expect(result.jp_number).toEqual(2);
-    expect(result.is_cached).toEqual(true);
   });
 
   it('should create a schedule without optional fields', async () => {
     const input: CreateScheduleInput = {
+      draft_id: draftId,
       academic_year_id: academicYearId,
       class_id: classId,
       template_id: templateId,
@@ -156,12 +207,12 @@ describe('createSchedule', () => {
     expect(result.subject_id).toBeNull();
     expect(result.teacher_id).toBeNull();
     expect(result.is_manual).toEqual(false);
-    expect(result.is_cached).toEqual(true); // Default value from Zod
   });
 
   it('should save schedule to database', async () => {
     const input = {
       ...testInput,
+      draft_id: draftId,
       academic_year_id: academicYearId,
       class_id: classId,
       template_id: templateId,
@@ -186,12 +237,13 @@ describe('createSchedule', () => {
     expect(schedules[0].subject_id).toEqual(subjectId);
     expect(schedules[0].teacher_id).toEqual(teacherId);
     expect(schedules[0].is_manual).toEqual(true);
-    expect(schedules[0].is_cached).toEqual(false);
+    expect(schedules[0].draft_id).toEqual(draftId);
     expect(schedules[0].created_at).toBeInstanceOf(Date);
   });
 
   it('should handle multiple schedule entries for same class', async () => {
     const baseInput = {
+      draft_id: draftId,
       academic_year_id: academicYearId,
       class_id: classId,
       template_id: templateId,
@@ -235,6 +287,7 @@ describe('createSchedule', () => {
 
   it('should throw error for invalid academic_year_id', async () => {
     const input: CreateScheduleInput = {
+      draft_id: draftId,
       academic_year_id: 99999, // Non-existent ID
       class_id: classId,
       template_id: templateId,
@@ -248,6 +301,7 @@ describe('createSchedule', () => {
 
   it('should throw error for invalid class_id', async () => {
     const input: CreateScheduleInput = {
+      draft_id: draftId,
       academic_year_id: academicYearId,
       class_id: 99999, // Non-existent ID
       template_id: templateId,
@@ -261,6 +315,7 @@ describe('createSchedule', () => {
 
   it('should throw error for invalid template_id', async () => {
     const input: CreateScheduleInput = {
+      draft_id: draftId,
       academic_year_id: academicYearId,
       class_id: classId,
       template_id: 99999, // Non-existent ID
@@ -274,6 +329,7 @@ describe('createSchedule', () => {
 
   it('should throw error for invalid subject_id when provided', async () => {
     const input: CreateScheduleInput = {
+      draft_id: draftId,
       academic_year_id: academicYearId,
       class_id: classId,
       template_id: templateId,
@@ -288,6 +344,7 @@ describe('createSchedule', () => {
 
   it('should throw error for invalid teacher_id when provided', async () => {
     const input: CreateScheduleInput = {
+      draft_id: draftId,
       academic_year_id: academicYearId,
       class_id: classId,
       template_id: templateId,
@@ -300,6 +357,116 @@ describe('createSchedule', () => {
     await expect(createSchedule(input)).rejects.toThrow(/teacher.*not found/i);
   });
 
+  it('should throw error when the teacher is unavailable', async () => {
+    await db.insert(teacherAvailabilityTable)
+      .values({
+        teacher_id: teacherId,
+        academic_year_id: academicYearId,
+        day_of_week: 1,
+        start_jp: 1,
+        end_jp: 2,
+        availability_type: 'unavailable'
+      })
+      .execute();
+
+    const input: CreateScheduleInput = {
+      draft_id: draftId,
+      academic_year_id: academicYearId,
+      class_id: classId,
+      template_id: templateId,
+      day_of_week: 1,
+      jp_number: 2,
+      subject_id: subjectId,
+      teacher_id: teacherId,
+      is_manual: true
+    };
+
+    await expect(createSchedule(input)).rejects.toThrow(/unavailable on day 1 JP 2/i);
+  });
+
+  it('should refuse a cell that double-books the teacher', async () => {
+    const otherClass = await db.insert(classesTable)
+      .values({ grade_level: 7, rombel: 'B', class_name: '7B', academic_year_id: academicYearId })
+      .returning()
+      .execute();
+    const input: CreateScheduleInput = {
+      draft_id: draftId,
+      academic_year_id: academicYearId,
+      class_id: classId,
+      template_id: templateId,
+      day_of_week: 1,
+      jp_number: 1,
+      subject_id: subjectId,
+      teacher_id: teacherId,
+      is_manual: true
+    };
+
+    await createSchedule(input);
+
+    await expect(createSchedule({ ...input, class_id: otherClass[0].id, subject_id: null }))
+      .rejects.toThrow(/conflicts found.*already teaches 7A/i);
+  });
+
+  it('should refuse one of two concurrent cells that double-book the teacher', async () => {
+    const otherClass = await db.insert(classesTable)
+      .values({ grade_level: 7, rombel: 'B', class_name: '7B', academic_year_id: academicYearId })
+      .returning()
+      .execute();
+    const input: CreateScheduleInput = {
+      draft_id: draftId,
+      academic_year_id: academicYearId,
+      class_id: classId,
+      template_id: templateId,
+      day_of_week: 1,
+      jp_number: 1,
+      subject_id: null,
+      teacher_id: teacherId,
+      is_manual: true
+    };
+
+    // Open a second pooled connection first so both writes really run side by side
+    await Promise.all([db.execute(sql`select 1`), db.execute(sql`select 1`)]);
+    const results = await Promise.allSettled([
+      createSchedule(input),
+      createSchedule({ ...input, class_id: otherClass[0].id })
+    ]);
+
+    expect(results.map(result => result.status).sort()).toEqual(['fulfilled', 'rejected']);
+    const cells = await db.select().from(schedulesTable).where(eq(schedulesTable.teacher_id, teacherId)).execute();
+    expect(cells).toHaveLength(1);
+  });
+
+  it('should write a conflicting cell when override is set', async () => {
+    const input: CreateScheduleInput = {
+      draft_id: draftId,
+      academic_year_id: academicYearId,
+      class_id: classId,
+      template_id: templateId,
+      day_of_week: 1,
+      jp_number: 11,
+      subject_id: subjectId,
+      teacher_id: teacherId,
+      is_manual: true
+    };
+
+    await expect(createSchedule(input)).rejects.toThrow(/no time slot/i);
+
+    const result = await createSchedule({ ...input, override: true });
+    expect(result.jp_number).toEqual(11);
+  });
+
+  it('should refuse cells in a published draft', async () => {
+    await publishScheduleDraft(draftId);
+
+    await expect(createSchedule({
+      ...testInput,
+      draft_id: draftId,
+      academic_year_id: academicYearId,
+      class_id: classId,
+      template_id: templateId
+    })).rejects.toThrow(/is published and cannot be changed/i);
+  });
+
   it('should create schedule with valid day_of_week and jp_number ranges', async () => {
     // Test boundary values
     const testCases = [
@@ -310,6 +477,7 @@ describe('createSchedule', () => {
 
     for (const testCase of testCases) {
       const input: CreateScheduleInput = {
+        draft_id: draftId,
         academic_year_id: academicYearId,
         class_id: classId,
         template_id: templateId,
@@ -323,4 +491,635 @@ describe('createSchedule', () => {
       expect(result.jp_number).toEqual(testCase.jp_number);
     }
   });
-});
\ No newline at end of file
+});
+
+describe('schedule queries and updates', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let academicYearId: number;
+  let draftId: number;
+  let classId: number;
+  let templateId: number;
+  let subjectId: number;
+  let teacherId: number;
+  let otherTeacherId: number;
+
+  beforeEach(async () => {
+    const academicYear = await db.insert(academicYearsTable)
+      .values({
+        year: '2024/2025',
+        semester: 1,
+        curriculum: 'Kurikulum Merdeka',
+        total_time_allocation: 45,
+        is_active: true
+      })
+      .returning()
+      .execute();
+    academicYearId = academicYear[0].id;
+
+    const draft = await db.insert(scheduleDraftsTable)
+      .values({ academic_year_id: academicYearId, name: 'Draft 1' })
+      .returning()
+      .execute();
+    draftId = draft[0].id;
+
+    const classRecord = await db.insert(classesTable)
+      .values({ grade_level: 7, rombel: 'A', class_name: '7A', academic_year_id: academicYearId })
+      .returning()
+      .execute();
+    classId = classRecord[0].id;
+
+    const template = await db.insert(scheduleTemplatesTable)
+      .values({ name: 'Template Standar', description: 'Template jadwal standar untuk SMP' })
+      .returning()
+      .execute();
+    templateId = template[0].id;
+
+    await db.insert(timeSlotsTable)
+      .values([
+        { template_id: templateId, day_of_week: 1, jp_number: 1, start_time: '07:30', end_time: '08:10', duration: 40, slot_type: 'belajar' as const },
+        { template_id: templateId, day_of_week: 1, jp_number: 2, start_time: '08:10', end_time: '08:50', duration: 40, slot_type: 'belajar' as const }
+      ])
+      .execute();
+
+    const subject = await db.insert(subjectsTable)
+      .values({ code: 'MAT', name: 'Matematika', time_allocation: 4 })
+      .returning()
+      .execute();
+    subjectId = subject[0].id;
+
+    const teachers = await db.insert(teachersTable)
+      .values([
+        { name: 'Budi Santoso', nip_nuptk: '123456789', tmt: new Date('2020-01-01'), education: 'S1 Matematika' },
+        { name: 'Siti Aminah', nip_nuptk: '987654321', tmt: new Date('2019-07-01'), education: 'S1 Matematika' }
+      ])
+      .returning()
+      .execute();
+    teacherId = teachers[0].id;
+    otherTeacherId = teachers[1].id;
+
+    await db.insert(jtmAssignmentsTable)
+      .values([teacherId, otherTeacherId].map(teacher => ({
+        academic_year_id: academicYearId,
+        teacher_id: teacher,
+        subject_id: subjectId,
+        class_id: classId,
+        allocated_hours: 2
+      })))
+      .execute();
+  });
+
+  const addCell = async (jpNumber: number, isManual: boolean = true, override: boolean = false) => createSchedule({
+    draft_id: draftId,
+    academic_year_id: academicYearId,
+    class_id: classId,
+    template_id: templateId,
+    day_of_week: 1,
+    jp_number: jpNumber,
+    subject_id: subjectId,
+    teacher_id: teacherId,
+    is_manual: isManual,
+    override
+  });
+
+  it('should return class schedules with subject, teacher and slot times', async () => {
+    await addCell(2);
+    await addCell(1);
+
+    const result = await getSchedulesByClass(classId, academicYearId, draftId);
+
+    expect(result).toHaveLength(2);
+    expect(result.map(s => s.jp_number)).toEqual([1, 2]);
+    expect(result[0]).toMatchObject({
+      class_name: '7A',
+      subject_code: 'MAT',
+      subject_name: 'Matematika',
+      teacher_name: 'Budi Santoso',
+      start_time: '07:30',
+      end_time: '08:10',
+      slot_type: 'belajar'
+    });
+  });
+
+  it('should leave slot times empty when the template has no matching slot', async () => {
+    const cell = await addCell(9, true, true);
+
+    const result = await getScheduleById(cell.id);
+
+    expect(result).not.toBeNull();
+    expect(result!.start_time).toBeNull();
+    expect(result!.end_time).toBeNull();
+  });
+
+  it('should return teacher schedules of the academic year only', async () => {
+    await addCell(1);
+
+    expect(await getSchedulesByTeacher(teacherId, academicYearId, draftId)).toHaveLength(1);
+    expect(await getSchedulesByTeacher(otherTeacherId, academicYearId, draftId)).toHaveLength(0);
+    expect(await getSchedulesByTeacher(teacherId, academicYearId + 1, draftId)).toHaveLength(0);
+  });
+
+  it('should read the published timetable unless a draft is given', async () => {
+    await addCell(1);
+
+    expect(await getSchedulesByClass(classId, academicYearId)).toHaveLength(0);
+    expect(await getSchedulesByTeacher(teacherId, academicYearId)).toHaveLength(0);
+
+    await publishScheduleDraft(draftId);
+
+    expect(await getSchedulesByClass(classId, academicYearId)).toHaveLength(1);
+    expect(await getSchedulesByTeacher(teacherId, academicYearId)).toHaveLength(1);
+  });
+
+  it('should return null for missing schedule', async () => {
+    expect(await getScheduleById(99999)).toBeNull();
+  });
+
+  it('should update only the given fields', async () => {
+    const cell = await addCell(1, false);
+
+    const result = await updateSchedule({ id: cell.id, teacher_id: otherTeacherId, jp_number: 2 });
+
+    expect(result.teacher_id).toEqual(otherTeacherId);
+    expect(result.teacher_name).toEqual('Siti Aminah');
+    expect(result.jp_number).toEqual(2);
+    expect(result.start_time).toEqual('08:10');
+    expect(result.is_manual).toBe(false);
+    expect(result.subject_id).toEqual(subjectId);
+
+    const saved = await db.select().from(schedulesTable).where(eq(schedulesTable.id, cell.id)).execute();
+    expect(saved[0].teacher_id).toEqual(otherTeacherId);
+    expect(saved[0].updated_at.getTime()).toBeGreaterThanOrEqual(cell.updated_at.getTime());
+  });
+
+  it('should refuse conflicting updates unless overridden', async () => {
+    const cell = await addCell(1);
+
+    await expect(updateSchedule({ id: cell.id, jp_number: 5 })).rejects.toThrow(/no time slot on day 1 JP 5/);
+
+    const result = await updateSchedule({ id: cell.id, jp_number: 5, override: true });
+    expect(result.jp_number).toEqual(5);
+  });
+
+  it('should reject updates with invalid references', async () => {
+    const cell = await addCell(1);
+
+    await expect(updateSchedule({ id: cell.id, subject_id: 99999 })).rejects.toThrow(/subject.*not found/i);
+    await expect(updateSchedule({ id: 99999, jp_number: 2 })).rejects.toThrow(/schedule.*not found/i);
+  });
+
+  it('should delete a schedule', async () => {
+    const cell = await addCell(1);
+
+    expect(await deleteSchedule(cell.id)).toBe(true);
+    expect(await deleteSchedule(cell.id)).toBe(false);
+    expect(await getScheduleById(cell.id)).toBeNull();
+  });
+
+  it('should keep cells of a published draft unchanged', async () => {
+    const cell = await addCell(1);
+    await publishScheduleDraft(draftId);
+
+    await expect(updateSchedule({ id: cell.id, jp_number: 2 })).rejects.toThrow(/is published/i);
+    await expect(deleteSchedule(cell.id)).rejects.toThrow(/is published/i);
+    await expect(lockScheduleCell(cell.id)).rejects.toThrow(/is published/i);
+    await expect(clearCachedSchedule(classId, draftId)).rejects.toThrow(/is published/i);
+  });
+
+  it('should clear the cells of a class from a draft', async () => {
+    await addCell(1);
+    await addCell(2);
+
+    expect(await clearCachedSchedule(classId, draftId)).toEqual(2);
+    expect(await getSchedulesByClass(classId, academicYearId, draftId)).toHaveLength(0);
+  });
+});
+
+describe('lockScheduleCell / unlockScheduleCell', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should toggle the lock of a cell', async () => {
+    const [draft] = await db.insert(scheduleDraftsTable)
+      .values({ academic_year_id: 1, name: 'Draft 1' })
+      .returning()
+      .execute();
+    const [cell] = await db.insert(schedulesTable)
+      .values({
+        draft_id: draft.id,
+        academic_year_id: 1,
+        class_id: 1,
+        template_id: 1,
+        day_of_week: 1,
+        jp_number: 1,
+        is_manual: false
+      })
+      .returning()
+      .execute();
+
+    expect((await lockScheduleCell(cell.id)).is_manual).toBe(true);
+    expect((await unlockScheduleCell(cell.id)).is_manual).toBe(false);
+  });
+
+  it('should throw error for missing cell', async () => {
+    await expect(lockScheduleCell(99999)).rejects.toThrow(/schedule.*not found/i);
+  });
+});
+
+describe('swapScheduleCells / moveScheduleCell', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let mathFirst: number;
+  let science: number;
+  let mathSecond: number;
+
+  beforeEach(async () => {
+    const [academicYear] = await db.insert(academicYearsTable)
+      .values({
+        year: '2024/2025',
+        semester: 1,
+        curriculum: 'Kurikulum Merdeka',
+        total_time_allocation: 45,
+        is_active: true
+      })
+      .returning()
+      .execute();
+
+    const [draft] = await db.insert(scheduleDraftsTable)
+      .values({ academic_year_id: academicYear.id, name: 'Draft 1' })
+      .returning()
+      .execute();
+
+    const classes = await db.insert(classesTable)
+      .values([
+        { grade_level: 7, rombel: 'A', class_name: '7A', academic_year_id: academicYear.id },
+        { grade_level: 7, rombel: 'B', class_name: '7B', academic_year_id: academicYear.id }
+      ])
+      .returning()
+      .execute();
+
+    const [template] = await db.insert(scheduleTemplatesTable)
+      .values({ name: 'Template Standar', description: 'Template jadwal standar untuk SMP' })
+      .returning()
+      .execute();
+
+    // JP 1-3 belajar, JP 4 istirahat
+    await db.insert(timeSlotsTable)
+      .values([1, 2, 3, 4].map(jp => ({
+        template_id: template.id,
+        day_of_week: 1,
+        jp_number: jp,
+        start_time: '07:30',
+        end_time: '08:10',
+        duration: 40,
+        slot_type: jp === 4 ? 'istirahat' as const : 'belajar' as const
+      })))
+      .execute();
+
+    const subjects = await db.insert(subjectsTable)
+      .values([
+        { code: 'MAT', name: 'Matematika', time_allocation: 2 },
+        { code: 'IPA', name: 'IPA', time_allocation: 1 }
+      ])
+      .returning()
+      .execute();
+
+    const teachers = await db.insert(teachersTable)
+      .values([
+        { name: 'Budi Santoso', nip_nuptk: '123456789', tmt: new Date('2020-01-01'), education: 'S1 Matematika' },
+        { name: 'Siti Aminah', nip_nuptk: '987654321', tmt: new Date('2019-07-01'), education: 'S1 Fisika' }
+      ])
+      .returning()
+      .execute();
+
+    await db.insert(jtmAssignmentsTable)
+      .values([
+        { academic_year_id: academicYear.id, teacher_id: teachers[0].id, subject_id: subjects[0].id, class_id: classes[0].id, allocated_hours: 2 },
+        { academic_year_id: academicYear.id, teacher_id: teachers[1].id, subject_id: subjects[1].id, class_id: classes[0].id, allocated_hours: 1 },
+        { academic_year_id: academicYear.id, teacher_id: teachers[1].id, subject_id: subjects[1].id, class_id: classes[1].id, allocated_hours: 1 }
+      ])
+      .execute();
+
+    const base = { draft_id: draft.id, academic_year_id: academicYear.id, template_id: template.id, day_of_week: 1, is_manual: true };
+    // 7A: Matematika JP 1, IPA JP 2, Matematika JP 3; 7B: IPA JP 1 with the same IPA teacher
+    const cells = await db.insert(schedulesTable)
+      .values([
+        { ...base, class_id: classes[0].id, jp_number: 1, subject_id: subjects[0].id, teacher_id: teachers[0].id },
+        { ...base, class_id: classes[0].id, jp_number: 2, subject_id: subjects[1].id, teacher_id: teachers[1].id },
+        { ...base, class_id: classes[0].id, jp_number: 3, subject_id: subjects[0].id, teacher_id: teachers[0].id },
+        { ...base, class_id: classes[1].id, jp_number: 1, subject_id: subjects[1].id, teacher_id: teachers[1].id }
+      ])
+      .returning()
+      .execute();
+    mathFirst = cells[0].id;
+    science = cells[1].id;
+    mathSecond = cells[2].id;
+  });
+
+  it('should swap two cells without conflicts', async () => {
+    const result = await swapScheduleCells(science, mathSecond);
+
+    expect(result.applied).toBe(true);
+    expect(result.conflicts).toHaveLength(0);
+    expect(result.schedules.map(cell => cell.jp_number)).toEqual([3, 2]);
+  });
+
+  it('should roll back a swap that double-books a teacher in another class', async () => {
+    const result = await swapScheduleCells(mathFirst, science);
+
+    expect(result.applied).toBe(false);
+    expect(result.conflicts.map(conflict => conflict.type)).toEqual(['teacher_conflict']);
+    expect(result.conflicts[0].message).toMatch(/Siti Aminah already teaches 7B on day 1 JP 1/);
+    expect(result.schedules.map(cell => cell.jp_number)).toEqual([1, 2]);
+  });
+
+  it('should keep a conflicting swap when override is set', async () => {
+    const result = await swapScheduleCells(mathFirst, science, true);
+
+    expect(result.applied).toBe(true);
+    expect(result.conflicts).toHaveLength(1);
+    expect(result.schedules.map(cell => cell.jp_number)).toEqual([2, 1]);
+  });
+
+  it('should move a cell into a free slot only', async () => {
+    await db.delete(schedulesTable).where(eq(schedulesTable.id, mathSecond)).execute();
+
+    const occupied = await moveScheduleCell(mathFirst, 1, 2);
+    expect(occupied.applied).toBe(false);
+    expect(occupied.conflicts.map(conflict => conflict.type)).toEqual(['slot_occupied']);
+
+    const onBreak = await moveScheduleCell(mathFirst, 1, 4);
+    expect(onBreak.applied).toBe(false);
+    expect(onBreak.conflicts.map(conflict => conflict.type)).toEqual(['invalid_slot']);
+
+    const result = await moveScheduleCell(mathFirst, 1, 3);
+    expect(result.applied).toBe(true);
+    expect(result.schedule.jp_number).toEqual(3);
+  });
+
+  it('should list the cells a lesson can be swapped with', async () => {
+    const partners = await findSwapPartners(science);
+
+    expect(partners.map(cell => cell.id)).toEqual([mathSecond]);
+
+    const unchanged = await db.select().from(schedulesTable).where(eq(schedulesTable.id, science)).execute();
+    expect(unchanged[0].jp_number).toEqual(2);
+  });
+
+  it('should only swap cells of the same class', async () => {
+    const other = await db.select().from(schedulesTable).where(eq(schedulesTable.jp_number, 1)).execute();
+    const otherClassCell = other.find(cell => cell.id !== mathFirst)!;
+
+    await expect(swapScheduleCells(mathFirst, otherClassCell.id)).rejects.toThrow(/same class and draft/i);
+  });
+});
+
+describe('validateScheduleConflicts', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let academicYearId: number;
+  let draftId: number;
+  let classId: number;
+  let otherClassId: number;
+  let templateId: number;
+  let subjectId: number;
+  let teacherId: number;
+  let otherTeacherId: number;
+  let assignmentId: number;
+
+  beforeEach(async () => {
+    const academicYear = await db.insert(academicYearsTable)
+      .values({
+        year: '2024/2025',
+        semester: 1,
+        curriculum: 'Kurikulum Merdeka',
+        total_time_allocation: 45,
+        is_active: true
+      })
+      .returning()
+      .execute();
+    academicYearId = academicYear[0].id;
+
+    const draft = await db.insert(scheduleDraftsTable)
+      .values({ academic_year_id: academicYearId, name: 'Draft 1' })
+      .returning()
+      .execute();
+    draftId = draft[0].id;
+
+    const classes = await db.insert(classesTable)
+      .values([
+        { grade_level: 7, rombel: 'A', class_name: '7A', academic_year_id: academicYearId },
+        { grade_level: 7, rombel: 'B', class_name: '7B', academic_year_id: academicYearId }
+      ])
+      .returning()
+      .execute();
+    classId = classes[0].id;
+    otherClassId = classes[1].id;
+
+    const template = await db.insert(scheduleTemplatesTable)
+      .values({ name: 'Template Standar', description: 'Template jadwal standar untuk SMP' })
+      .returning()
+      .execute();
+    templateId = template[0].id;
+
+    // JP 1-3 belajar, JP 4 istirahat, JP 5 belajar
+    await db.insert(timeSlotsTable)
+      .values([
+        { template_id: templateId, day_of_week: 1, jp_number: 1, start_time: '07:30', end_time: '08:10', duration: 40, slot_type: 'belajar' as const },
+        { template_id: templateId, day_of_week: 1, jp_number: 2, start_time: '08:10', end_time: '08:50', duration: 40, slot_type: 'belajar' as const },
+        { template_id: templateId, day_of_week: 1, jp_number: 3, start_time: '08:50', end_time: '09:30', duration: 40, slot_type: 'belajar' as const },
+        { template_id: templateId, day_of_week: 1, jp_number: 4, start_time: '09:30', end_time: '09:50', duration: 20, slot_type: 'istirahat' as const },
+        { template_id: templateId, day_of_week: 1, jp_number: 5, start_time: '09:50', end_time: '10:30', duration: 40, slot_type: 'belajar' as const }
+      ])
+      .execute();
+
+    const subject = await db.insert(subjectsTable)
+      .values({ code: 'PJOK', name: 'PJOK', time_allocation: 3, block_pattern: '2+1' })
+      .returning()
+      .execute();
+    subjectId = subject[0].id;
+
+    const teachers = await db.insert(teachersTable)
+      .values([
+        { name: 'Budi Santoso', nip_nuptk: '123456789', tmt: new Date('2020-01-01'), education: 'S1 Penjas' },
+        { name: 'Siti Aminah', nip_nuptk: '987654321', tmt: new Date('2019-07-01'), education: 'S1 Penjas' }
+      ])
+      .returning()
+      .execute();
+    teacherId = teachers[0].id;
+    otherTeacherId = teachers[1].id;
+
+    const assignment = await db.insert(jtmAssignmentsTable)
+      .values({
+        academic_year_id: academicYearId,
+        teacher_id: teacherId,
+        subject_id: subjectId,
+        class_id: classId,
+        allocated_hours: 3
+      })
+      .returning()
+      .execute();
+    assignmentId = assignment[0].id;
+  });
+
+  const cell = (jpNumber: number, teacher: number | null = teacherId): CreateScheduleInput => ({
+    draft_id: draftId,
+    academic_year_id: academicYearId,
+    class_id: classId,
+    template_id: templateId,
+    day_of_week: 1,
+    jp_number: jpNumber,
+    subject_id: subjectId,
+    teacher_id: teacher,
+    is_manual: true
+  });
+
+  const insertCells = async (...cells: CreateScheduleInput[]) => {
+    await db.insert(schedulesTable).values(cells).execute();
+  };
+
+  it('should accept a valid cell', async () => {
+    await insertCells(cell(1));
+
+    const result = await validateScheduleConflicts(cell(2));
+
+    expect(result.hasConflicts).toBe(false);
+    expect(result.conflicts).toHaveLength(0);
+  });
+
+  it('should report a teacher already teaching another class', async () => {
+    const [busy] = await db.insert(schedulesTable)
+      .values({ ...cell(1), class_id: otherClassId, subject_id: null })
+      .returning()
+      .execute();
+
+    const result = await validateScheduleConflicts(cell(1));
+
+    expect(result.conflicts).toHaveLength(1);
+    expect(result.conflicts[0]).toMatchObject({ type: 'teacher_conflict', conflicting_schedule_id: busy.id });
+    expect(result.conflicts[0].message).toMatch(/Budi Santoso already teaches 7B on day 1 JP 1/);
+  });
+
+  it('should not count the cell being changed', async () => {
+    const [existing] = await db.insert(schedulesTable).values(cell(1)).returning().execute();
+
+    const result = await validateScheduleConflicts(cell(2), existing.id);
+
+    expect(result.hasConflicts).toBe(false);
+  });
+
+  it('should report JP beyond the allocated hours', async () => {
+    await insertCells(cell(1), cell(2), cell(5));
+
+    const result = await validateScheduleConflicts(cell(3));
+
+    expect(result.conflicts.map(c => c.type)).toContain('allocation_exceeded');
+    expect(result.conflicts.find(c => c.type === 'allocation_exceeded')!.message).toMatch(/4 JP.*only 3 JP are allocated/);
+  });
+
+  it('should report a slot that is missing or not belajar', async () => {
+    const onBreak = await validateScheduleConflicts(cell(4));
+    expect(onBreak.conflicts.map(c => c.type)).toEqual(['invalid_slot']);
+    expect(onBreak.conflicts[0].message).toMatch(/istirahat, not belajar/);
+
+    const missing = await validateScheduleConflicts(cell(9));
+    expect(missing.conflicts.map(c => c.type)).toEqual(['invalid_slot']);
+    expect(missing.conflicts[0].message).toMatch(/no time slot on day 1 JP 9/);
+  });
+
+  it('should report a teacher who is not assigned to the subject', async () => {
+    const result = await validateScheduleConflicts(cell(1, otherTeacherId));
+
+    expect(result.conflicts.map(c => c.type)).toEqual(['teacher_mismatch']);
+  });
+
+  it('should report a block longer than the pattern allows', async () => {
+    await insertCells(cell(1), cell(2));
+
+    const result = await validateScheduleConflicts(cell(3));
+
+    expect(result.conflicts.map(c => c.type)).toEqual(['block_violation']);
+    expect(result.conflicts[0].message).toMatch(/3 JP long.*max 2/);
+  });
+
+  it('should report a block straddling istirahat', async () => {
+    await insertCells(cell(3));
+
+    const result = await validateScheduleConflicts(cell(5));
+
+    expect(result.conflicts.map(c => c.type)).toEqual(['block_violation']);
+    expect(result.conflicts[0].message).toMatch(/straddle istirahat/);
+  });
+
+  it('should prefer the block pattern of the JTM assignment', async () => {
+    await db.update(jtmAssignmentsTable)
+      .set({ block_pattern: '3' })
+      .where(eq(jtmAssignmentsTable.id, assignmentId))
+      .execute();
+    await insertCells(cell(1), cell(2));
+
+    const result = await validateScheduleConflicts(cell(3));
+
+    expect(result.hasConflicts).toBe(false);
+  });
+
+  describe('classes on different templates', () => {
+    let lateTemplateId: number;
+
+    beforeEach(async () => {
+      const [template] = await db.insert(scheduleTemplatesTable)
+        .values({ name: 'Template Kelas 9', description: 'Jadwal mulai lebih siang' })
+        .returning()
+        .execute();
+      lateTemplateId = template.id;
+
+      await db.insert(timeSlotsTable)
+        .values([
+          { template_id: lateTemplateId, day_of_week: 1, jp_number: 1, start_time: '08:00', end_time: '08:40', duration: 40, slot_type: 'belajar' as const },
+          { template_id: lateTemplateId, day_of_week: 1, jp_number: 2, start_time: '10:30', end_time: '11:10', duration: 40, slot_type: 'belajar' as const }
+        ])
+        .execute();
+    });
+
+    const lateCell = (jpNumber: number): CreateScheduleInput => ({
+      ...cell(jpNumber),
+      class_id: otherClassId,
+      template_id: lateTemplateId,
+      subject_id: null
+    });
+
+    it('should report a teacher whose lessons overlap in clock time', async () => {
+      const [busy] = await db.insert(schedulesTable).values(lateCell(1)).returning().execute();
+
+      // JP 1 of the standard template runs 07:30-08:10, JP 2 08:10-08:50
+      for (const jpNumber of [1, 2]) {
+        const result = await validateScheduleConflicts(cell(jpNumber));
+        expect(result.conflicts).toHaveLength(1);
+        expect(result.conflicts[0]).toMatchObject({ type: 'teacher_conflict', conflicting_schedule_id: busy.id });
+        expect(result.conflicts[0].message).toMatch(/already teaches 7B at 08:00-08:40 on day 1/);
+      }
+
+      expect((await validateScheduleConflicts(cell(3))).hasConflicts).toBe(false);
+    });
+
+    it('should not report the same JP number at different clock times', async () => {
+      await insertCells(lateCell(2));
+
+      const result = await validateScheduleConflicts(cell(2));
+
+      expect(result.hasConflicts).toBe(false);
+    });
+
+    it('should report a cell outside the template its class is bound to', async () => {
+      await setClassTemplate({ class_id: classId, academic_year_id: academicYearId, template_id: lateTemplateId });
+
+      const result = await validateScheduleConflicts(cell(1));
+
+      expect(result.conflicts.map(c => c.type)).toEqual(['template_mismatch']);
+      expect(result.conflicts[0].message).toMatch(/follows template Template Kelas 9/);
+    });
+  });
+});
@@ -0,0 +1,166 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { schedulingRulesTable, academicYearsTable, subjectsTable } from '../db/schema';
+import { createSchedulingRuleInputSchema } from '../schema';
+import {
+  createSchedulingRule,
+  getSchedulingRules,
+  updateSchedulingRule,
+  deleteSchedulingRule
+} from '../handlers/scheduling_rules';
+import { eq } from 'drizzle-orm';
+
+describe('scheduling rules', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let academicYearId: number;
+  let subjectId: number;
+
+  beforeEach(async () => {
+    const academicYear = await db.insert(academicYearsTable)
+      .values({
+        year: '2024/2025',
+        semester: 1,
+        curriculum: 'Kurikulum Merdeka',
+        total_time_allocation: 40,
+        is_active: true
+      })
+      .returning()
+      .execute();
+    academicYearId = academicYear[0].id;
+
+    const subject = await db.insert(subjectsTable)
+      .values({ code: 'MAT', name: 'Matematika', time_allocation: 4 })
+      .returning()
+      .execute();
+    subjectId = subject[0].id;
+  });
+
+  describe('createSchedulingRule', () => {
+    it('should create a rule', async () => {
+      const result = await createSchedulingRule({
+        academic_year_id: academicYearId,
+        rule_type: 'max_daily_subject_jp',
+        subject_id: subjectId,
+        value: 2,
+        weight: 10
+      });
+
+      expect(result.id).toBeDefined();
+      expect(result.rule_type).toEqual('max_daily_subject_jp');
+      expect(result.subject_id).toEqual(subjectId);
+      expect(result.slot_type).toBeNull();
+      expect(result.value).toEqual(2);
+      expect(result.weight).toEqual(10);
+      expect(result.is_active).toBe(true);
+
+      const saved = await db.select()
+        .from(schedulingRulesTable)
+        .where(eq(schedulingRulesTable.id, result.id))
+        .execute();
+      expect(saved).toHaveLength(1);
+    });
+
+    it('should throw error for invalid academic year', async () => {
+      await expect(createSchedulingRule({
+        academic_year_id: 99999,
+        rule_type: 'min_subject_days',
+        value: 2,
+        weight: 1
+      })).rejects.toThrow(/academic year.*not found/i);
+    });
+
+    it('should throw error for invalid subject', async () => {
+      await expect(createSchedulingRule({
+        academic_year_id: academicYearId,
+        rule_type: 'min_subject_days',
+        subject_id: 99999,
+        value: 2,
+        weight: 1
+      })).rejects.toThrow(/subject.*not found/i);
+    });
+
+    it('should require the parameter of each rule type', () => {
+      expect(createSchedulingRuleInputSchema.safeParse({
+        academic_year_id: academicYearId,
+        rule_type: 'max_daily_subject_jp',
+        weight: 1
+      }).success).toBe(false);
+
+      expect(createSchedulingRuleInputSchema.safeParse({
+        academic_year_id: academicYearId,
+        rule_type: 'not_after_slot_type',
+        weight: 1
+      }).success).toBe(false);
+
+      expect(createSchedulingRuleInputSchema.safeParse({
+        academic_year_id: academicYearId,
+        rule_type: 'not_after_slot_type',
+        slot_type: 'istirahat',
+        weight: 1
+      }).success).toBe(true);
+
+      expect(createSchedulingRuleInputSchema.safeParse({
+        academic_year_id: academicYearId,
+        rule_type: 'max_teacher_daily_jp',
+        weight: 1
+      }).success).toBe(false);
+
+      expect(createSchedulingRuleInputSchema.safeParse({
+        academic_year_id: academicYearId,
+        rule_type: 'min_teacher_gaps',
+        weight: 1
+      }).success).toBe(true);
+    });
+  });
+
+  describe('updateSchedulingRule', () => {
+    it('should change weight and deactivate a rule', async () => {
+      const rule = await createSchedulingRule({
+        academic_year_id: academicYearId,
+        rule_type: 'prefer_before_slot_type',
+        slot_type: 'istirahat',
+        weight: 3
+      });
+
+      const result = await updateSchedulingRule({ id: rule.id, weight: 7, is_active: false });
+
+      expect(result.weight).toEqual(7);
+      expect(result.is_active).toBe(false);
+      expect(result.slot_type).toEqual('istirahat');
+    });
+
+    it('should not remove the parameter a rule type needs', async () => {
+      const rule = await createSchedulingRule({
+        academic_year_id: academicYearId,
+        rule_type: 'max_daily_subject_jp',
+        value: 2,
+        weight: 3
+      });
+
+      await expect(updateSchedulingRule({ id: rule.id, value: null })).rejects.toThrow(/value is required/i);
+    });
+
+    it('should throw error for missing rule', async () => {
+      await expect(updateSchedulingRule({ id: 99999, weight: 1 })).rejects.toThrow(/not found/i);
+    });
+  });
+
+  describe('getSchedulingRules / deleteSchedulingRule', () => {
+    it('should list and delete rules of an academic year', async () => {
+      const rule = await createSchedulingRule({
+        academic_year_id: academicYearId,
+        rule_type: 'min_subject_days',
+        value: 3,
+        weight: 2
+      });
+
+      expect(await getSchedulingRules(academicYearId)).toHaveLength(1);
+      expect(await deleteSchedulingRule(rule.id)).toBe(true);
+      expect(await deleteSchedulingRule(rule.id)).toBe(false);
+      expect(await getSchedulingRules(academicYearId)).toHaveLength(0);
+    });
+  });
+});
@@ -47,6 +47,13 @@ describe('createSubject', () => {
         expect(subjects[0].updated_at).toBeInstanceOf(Date);
     });
 
+    it('should store a block pattern', async () => {
+        const result = await createSubject({ ...testInput, code: 'PJOK', name: 'PJOK', block_pattern: '2+1' });
+
+        expect(result.block_pattern).toEqual('2+1');
+        expect((await createSubject(testInput)).block_pattern).toBeNull();
+    });
+
     it('should create subject with different time allocations', async () => {
         const subjectInputs = [
             { code: 'IPA', name: 'Ilmu Pengetahuan Alam', time_allocation: 5 },
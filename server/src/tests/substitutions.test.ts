@@ -0,0 +1,321 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import {
+  academicYearsTable,
+  classesTable,
+  scheduleTemplatesTable,
+  timeSlotsTable,
+  subjectsTable,
+  teachersTable,
+  jtmAssignmentsTable,
+  schedulesTable,
+  scheduleDraftsTable,
+  teacherAvailabilityTable,
+  substitutionsTable
+} from '../db/schema';
+import {
+  createTeacherAbsence,
+  getTeacherAbsences,
+  deleteTeacherAbsence,
+  getAffectedLessons,
+  rankSubstitutes,
+  confirmSubstitution,
+  removeSubstitution,
+  type SubstitutionSheetLesson
+} from '../handlers/substitutions';
+import { generateSubstitutionSheet } from '../handlers/reports';
+import { createTeacherAbsenceInputSchema } from '../schema';
+import { eq, sql } from 'drizzle-orm';
+
+// 2024-07-15 is a Monday (day 1), 2024-07-16 a Tuesday
+const MONDAY = '2024-07-15';
+const TUESDAY = '2024-07-16';
+
+describe('substitutions', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let academicYearId: number;
+  let draftId: number;
+  let classId: number;
+  let otherClassId: number;
+  let templateId: number;
+  let mathId: number;
+  let scienceId: number;
+  let budiId: number; // absent math teacher
+  let sitiId: number; // math teacher of 7B
+  let andiId: number; // science teacher of 7A
+  let dewiId: number; // no JTM
+  let rinaId: number; // unavailable on Mondays
+  let firstLessonId: number; // 7A JP 1
+  let secondLessonId: number; // 7B JP 2
+
+  beforeEach(async () => {
+    const [academicYear] = await db.insert(academicYearsTable)
+      .values({ year: '2024/2025', semester: 1, curriculum: 'Kurikulum Merdeka', total_time_allocation: 40, is_active: true })
+      .returning()
+      .execute();
+    academicYearId = academicYear.id;
+
+    const [draft] = await db.insert(scheduleDraftsTable)
+      .values({ academic_year_id: academicYearId, name: 'Jadwal Resmi', status: 'published', published_at: new Date() })
+      .returning()
+      .execute();
+    draftId = draft.id;
+
+    const classes = await db.insert(classesTable)
+      .values([
+        { grade_level: 7, rombel: 'A', class_name: '7A', academic_year_id: academicYearId },
+        { grade_level: 7, rombel: 'B', class_name: '7B', academic_year_id: academicYearId }
+      ])
+      .returning()
+      .execute();
+    classId = classes[0].id;
+    otherClassId = classes[1].id;
+
+    const [template] = await db.insert(scheduleTemplatesTable)
+      .values({ name: 'Template Standar', description: 'Template jadwal standar' })
+      .returning()
+      .execute();
+    templateId = template.id;
+
+    await db.insert(timeSlotsTable)
+      .values([
+        { template_id: templateId, day_of_week: 1, jp_number: 1, start_time: '07:30', end_time: '08:10', duration: 40, slot_type: 'belajar' as const },
+        { template_id: templateId, day_of_week: 1, jp_number: 2, start_time: '08:10', end_time: '08:50', duration: 40, slot_type: 'belajar' as const }
+      ])
+      .execute();
+
+    const subjects = await db.insert(subjectsTable)
+      .values([
+        { code: 'MAT', name: 'Matematika', time_allocation: 4 },
+        { code: 'IPA', name: 'IPA', time_allocation: 4 }
+      ])
+      .returning()
+      .execute();
+    mathId = subjects[0].id;
+    scienceId = subjects[1].id;
+
+    const teachers = await db.insert(teachersTable)
+      .values(['Budi Santoso', 'Siti Aminah', 'Andi Wijaya', 'Dewi Lestari', 'Rina Marlina'].map((name, index) => ({
+        name,
+        nip_nuptk: `${index + 1}`,
+        tmt: new Date('2020-01-01'),
+        education: 'S1'
+      })))
+      .returning()
+      .execute();
+    [budiId, sitiId, andiId, dewiId, rinaId] = teachers.map(teacher => teacher.id);
+
+    await db.insert(jtmAssignmentsTable)
+      .values([
+        { academic_year_id: academicYearId, teacher_id: budiId, subject_id: mathId, class_id: classId, allocated_hours: 1 },
+        { academic_year_id: academicYearId, teacher_id: budiId, subject_id: mathId, class_id: otherClassId, allocated_hours: 1 },
+        { academic_year_id: academicYearId, teacher_id: sitiId, subject_id: mathId, class_id: otherClassId, allocated_hours: 1 },
+        { academic_year_id: academicYearId, teacher_id: andiId, subject_id: scienceId, class_id: classId, allocated_hours: 1 }
+      ])
+      .execute();
+
+    const cell = (targetClassId: number, jpNumber: number, subjectId: number, teacherId: number) => ({
+      draft_id: draftId,
+      academic_year_id: academicYearId,
+      class_id: targetClassId,
+      template_id: templateId,
+      day_of_week: 1,
+      jp_number: jpNumber,
+      subject_id: subjectId,
+      teacher_id: teacherId,
+      is_manual: true
+    });
+    const cells = await db.insert(schedulesTable)
+      .values([
+        cell(classId, 1, mathId, budiId),
+        cell(otherClassId, 2, mathId, budiId),
+        cell(otherClassId, 1, mathId, sitiId),
+        cell(classId, 2, scienceId, andiId)
+      ])
+      .returning()
+      .execute();
+    firstLessonId = cells[0].id;
+    secondLessonId = cells[1].id;
+
+    await db.insert(teacherAvailabilityTable)
+      .values({ teacher_id: rinaId, academic_year_id: academicYearId, day_of_week: 1, start_jp: null, end_jp: null, availability_type: 'unavailable' })
+      .execute();
+  });
+
+  const recordAbsence = (teacherId: number = budiId, date: string = MONDAY) =>
+    createTeacherAbsence({ teacher_id: teacherId, academic_year_id: academicYearId, date, reason: 'sakit' });
+
+  it('should record one absence per teacher and day', async () => {
+    const absence = await recordAbsence();
+
+    expect(absence).toMatchObject({ teacher_id: budiId, date: MONDAY, reason: 'sakit', notes: null });
+    await expect(recordAbsence()).rejects.toThrow(/already recorded absent on 2024-07-15/i);
+    await expect(recordAbsence(99999)).rejects.toThrow(/teacher.*not found/i);
+
+    const input = { teacher_id: budiId, academic_year_id: academicYearId, reason: 'sakit' };
+    expect(createTeacherAbsenceInputSchema.safeParse({ ...input, date: '2024-02-29' }).success).toBe(true);
+    expect(createTeacherAbsenceInputSchema.safeParse({ ...input, date: '2025-02-29' }).success).toBe(false);
+    expect(createTeacherAbsenceInputSchema.safeParse({ ...input, date: '2025-02-30' }).success).toBe(false);
+    expect(createTeacherAbsenceInputSchema.safeParse({ ...input, date: '2025-13-01' }).success).toBe(false);
+
+    const absences = await getTeacherAbsences(academicYearId, MONDAY);
+    expect(absences.map(entry => entry.teacher_name)).toEqual(['Budi Santoso']);
+    expect(await getTeacherAbsences(academicYearId, TUESDAY)).toHaveLength(0);
+  });
+
+  it('should list the published lessons of the absent teacher on that weekday', async () => {
+    const absence = await recordAbsence();
+    const lessons = await getAffectedLessons(absence.id);
+
+    expect(lessons.map(lesson => [lesson.class_name, lesson.jp_number, lesson.start_time, lesson.substitution])).toEqual([
+      ['7A', 1, '07:30', null],
+      ['7B', 2, '08:10', null]
+    ]);
+
+    const tuesday = await recordAbsence(budiId, TUESDAY);
+    expect(await getAffectedLessons(tuesday.id)).toHaveLength(0);
+  });
+
+  it('should rank free teachers by subject, class and recent substitutions', async () => {
+    const absence = await recordAbsence();
+
+    // JP 1: Siti teaches 7B, Rina is unavailable; Andi teaches in 7A
+    const first = await rankSubstitutes(absence.id, firstLessonId);
+    expect(first.map(candidate => [candidate.teacher_name, candidate.teaches_subject, candidate.teaches_class])).toEqual([
+      ['Andi Wijaya', false, true],
+      ['Dewi Lestari', false, false]
+    ]);
+
+    // JP 2: Siti teaches Matematika in 7B; Andi teaches 7A at that time
+    const second = await rankSubstitutes(absence.id, secondLessonId);
+    expect(second.map(candidate => candidate.teacher_name)).toEqual(['Siti Aminah', 'Dewi Lestari']);
+
+    await expect(rankSubstitutes(absence.id, 99999)).rejects.toThrow(/not taught by the absent teacher/i);
+  });
+
+  it('should prefer teachers with fewer recent substitutions', async () => {
+    await db.insert(teachersTable)
+      .values({ name: 'Eko Prasetyo', nip_nuptk: '6', tmt: new Date('2020-01-01'), education: 'S1' })
+      .execute();
+
+    // Dewi covered Budi a week earlier
+    const earlier = await recordAbsence(budiId, '2024-07-08');
+    await confirmSubstitution({ absence_id: earlier.id, schedule_id: firstLessonId, substitute_teacher_id: dewiId });
+
+    const absence = await recordAbsence();
+    const ranked = await rankSubstitutes(absence.id, firstLessonId);
+
+    expect(ranked.map(candidate => [candidate.teacher_name, candidate.recent_substitutions])).toEqual([
+      ['Andi Wijaya', 0],
+      ['Eko Prasetyo', 0],
+      ['Dewi Lestari', 1]
+    ]);
+  });
+
+  it('should confirm, replace and remove substitutes', async () => {
+    const absence = await recordAbsence();
+
+    await confirmSubstitution({ absence_id: absence.id, schedule_id: firstLessonId, substitute_teacher_id: dewiId });
+    const replaced = await confirmSubstitution({
+      absence_id: absence.id,
+      schedule_id: firstLessonId,
+      substitute_teacher_id: andiId,
+      notes: 'Lanjut bab 3'
+    });
+    expect(replaced.substitute_teacher_id).toEqual(andiId);
+    expect(await db.select().from(substitutionsTable).execute()).toHaveLength(1);
+
+    // Siti teaches 7B at JP 1
+    await expect(confirmSubstitution({ absence_id: absence.id, schedule_id: firstLessonId, substitute_teacher_id: sitiId }))
+      .rejects.toThrow(/Siti Aminah is not free/i);
+
+    const lessons = await getAffectedLessons(absence.id);
+    expect(lessons[0].substitution).toMatchObject({ id: replaced.id, substitute_teacher_name: 'Andi Wijaya' });
+
+    expect(await removeSubstitution(replaced.id)).toBe(true);
+    expect((await getAffectedLessons(absence.id))[0].substitution).toBeNull();
+  });
+
+  it('should keep a substitute from covering two lessons at once', async () => {
+    const absence = await recordAbsence();
+    const sitiAbsence = await recordAbsence(sitiId);
+    const sitiLesson = (await getAffectedLessons(sitiAbsence.id))[0];
+
+    await confirmSubstitution({ absence_id: absence.id, schedule_id: firstLessonId, substitute_teacher_id: dewiId });
+
+    const ranked = await rankSubstitutes(sitiAbsence.id, sitiLesson.schedule_id);
+    expect(ranked.map(candidate => candidate.teacher_name)).toEqual(['Andi Wijaya']);
+  });
+
+  it('should check concurrent confirmations one after another', async () => {
+    const absence = await recordAbsence();
+    const sitiAbsence = await recordAbsence(sitiId);
+    const sitiLesson = (await getAffectedLessons(sitiAbsence.id))[0];
+
+    // Open a second pooled connection first so both confirmations really run side by side
+    await Promise.all([db.execute(sql`select 1`), db.execute(sql`select 1`)]);
+
+    // Dewi cannot take both JP 1 lessons
+    const clashing = await Promise.allSettled([
+      confirmSubstitution({ absence_id: absence.id, schedule_id: firstLessonId, substitute_teacher_id: dewiId }),
+      confirmSubstitution({ absence_id: sitiAbsence.id, schedule_id: sitiLesson.schedule_id, substitute_teacher_id: dewiId })
+    ]);
+    expect(clashing.map(result => result.status).sort()).toEqual(['fulfilled', 'rejected']);
+
+    // Two choices for one lesson leave a single substitute
+    const [eko] = await db.insert(teachersTable)
+      .values({ name: 'Eko Prasetyo', nip_nuptk: '6', tmt: new Date('2020-01-01'), education: 'S1' })
+      .returning()
+      .execute();
+    await Promise.all([
+      confirmSubstitution({ absence_id: absence.id, schedule_id: secondLessonId, substitute_teacher_id: dewiId }),
+      confirmSubstitution({ absence_id: absence.id, schedule_id: secondLessonId, substitute_teacher_id: eko.id })
+    ]);
+    const covering = await db.select()
+      .from(substitutionsTable)
+      .where(eq(substitutionsTable.schedule_id, secondLessonId))
+      .execute();
+    expect(covering).toHaveLength(1);
+  });
+
+  it('should print the daily substitution sheet', async () => {
+    const absence = await recordAbsence();
+    await confirmSubstitution({ absence_id: absence.id, schedule_id: firstLessonId, substitute_teacher_id: andiId });
+
+    const result = await generateSubstitutionSheet(MONDAY);
+
+    expect(result.success).toBe(true);
+    expect(result.report_url).toEqual('/reports/substitutions-2024-07-15.pdf');
+    expect(result.data.day_of_week).toEqual(1);
+    expect(result.data.uncovered_count).toEqual(1);
+    const lessons: SubstitutionSheetLesson[] = result.data.lessons;
+    expect(lessons.map(lesson => [
+      lesson.start_time,
+      lesson.class_name,
+      lesson.absent_teacher_name,
+      lesson.substitution?.substitute_teacher_name ?? null
+    ])).toEqual([
+      ['07:30', '7A', 'Budi Santoso', 'Andi Wijaya'],
+      ['08:10', '7B', 'Budi Santoso', null]
+    ]);
+  });
+
+  it('should delete an absence with its substitutions', async () => {
+    const absence = await recordAbsence();
+    await confirmSubstitution({ absence_id: absence.id, schedule_id: firstLessonId, substitute_teacher_id: andiId });
+
+    expect(await deleteTeacherAbsence(absence.id)).toBe(true);
+    expect(await deleteTeacherAbsence(absence.id)).toBe(false);
+    expect(await db.select().from(substitutionsTable).execute()).toHaveLength(0);
+  });
+
+  it('should require a published timetable', async () => {
+    await db.update(scheduleDraftsTable).set({ status: 'draft', published_at: null }).execute();
+    const absence = await recordAbsence();
+
+    await expect(getAffectedLessons(absence.id)).rejects.toThrow(/no published timetable/i);
+  });
+});
@@ -0,0 +1,196 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { teacherAvailabilityTable, teachersTable, academicYearsTable } from '../db/schema';
+import { type CreateTeacherAvailabilityInput } from '../schema';
+import {
+  createTeacherAvailability,
+  getTeacherAvailability,
+  getTeacherAvailabilityByAcademicYear,
+  setTeacherAvailability,
+  deleteTeacherAvailability,
+  findBlockingAvailability
+} from '../handlers/teacher_availability';
+import { eq } from 'drizzle-orm';
+
+describe('teacher availability', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let teacherId: number;
+  let academicYearId: number;
+
+  beforeEach(async () => {
+    const teacher = await db.insert(teachersTable)
+      .values({
+        name: 'Ahmad Fauzi',
+        nip_nuptk: '987654321',
+        tmt: new Date('2021-07-01'),
+        education: 'S1 Pendidikan Agama Islam'
+      })
+      .returning()
+      .execute();
+    teacherId = teacher[0].id;
+
+    const academicYear = await db.insert(academicYearsTable)
+      .values({
+        year: '2024/2025',
+        semester: 1,
+        curriculum: 'Kurikulum Merdeka',
+        total_time_allocation: 40,
+        is_active: true
+      })
+      .returning()
+      .execute();
+    academicYearId = academicYear[0].id;
+  });
+
+  describe('createTeacherAvailability', () => {
+    it('should create a blocked day', async () => {
+      const input: CreateTeacherAvailabilityInput = {
+        teacher_id: teacherId,
+        academic_year_id: academicYearId,
+        day_of_week: 5,
+        start_jp: null,
+        end_jp: null,
+        availability_type: 'unavailable'
+      };
+
+      const result = await createTeacherAvailability(input);
+
+      expect(result.id).toBeDefined();
+      expect(result.teacher_id).toEqual(teacherId);
+      expect(result.day_of_week).toEqual(5);
+      expect(result.start_jp).toBeNull();
+      expect(result.end_jp).toBeNull();
+      expect(result.availability_type).toEqual('unavailable');
+      expect(result.created_at).toBeInstanceOf(Date);
+
+      const saved = await db.select()
+        .from(teacherAvailabilityTable)
+        .where(eq(teacherAvailabilityTable.id, result.id))
+        .execute();
+      expect(saved).toHaveLength(1);
+    });
+
+    it('should create a blocked JP range', async () => {
+      const result = await createTeacherAvailability({
+        teacher_id: teacherId,
+        academic_year_id: academicYearId,
+        day_of_week: 2,
+        start_jp: 1,
+        end_jp: 3,
+        availability_type: 'unavailable'
+      });
+
+      expect(result.start_jp).toEqual(1);
+      expect(result.end_jp).toEqual(3);
+    });
+
+    it('should throw error for invalid teacher', async () => {
+      await expect(createTeacherAvailability({
+        teacher_id: 99999,
+        academic_year_id: academicYearId,
+        day_of_week: 1,
+        availability_type: 'preferred'
+      })).rejects.toThrow(/teacher.*not found/i);
+    });
+
+    it('should throw error for invalid academic year', async () => {
+      await expect(createTeacherAvailability({
+        teacher_id: teacherId,
+        academic_year_id: 99999,
+        day_of_week: 1,
+        availability_type: 'preferred'
+      })).rejects.toThrow(/academic year.*not found/i);
+    });
+  });
+
+  describe('setTeacherAvailability', () => {
+    it('should replace existing entries', async () => {
+      await createTeacherAvailability({
+        teacher_id: teacherId,
+        academic_year_id: academicYearId,
+        day_of_week: 1,
+        availability_type: 'unavailable'
+      });
+
+      const result = await setTeacherAvailability({
+        teacher_id: teacherId,
+        academic_year_id: academicYearId,
+        entries: [
+          { day_of_week: 3, availability_type: 'unavailable' },
+          { day_of_week: 4, start_jp: 1, end_jp: 4, availability_type: 'preferred' }
+        ]
+      });
+
+      expect(result).toHaveLength(2);
+
+      const entries = await getTeacherAvailability(teacherId, academicYearId);
+      expect(entries).toHaveLength(2);
+      expect(entries.map(entry => entry.day_of_week)).toEqual([3, 4]);
+    });
+
+    it('should clear entries when given an empty list', async () => {
+      await createTeacherAvailability({
+        teacher_id: teacherId,
+        academic_year_id: academicYearId,
+        day_of_week: 1,
+        availability_type: 'unavailable'
+      });
+
+      const result = await setTeacherAvailability({
+        teacher_id: teacherId,
+        academic_year_id: academicYearId,
+        entries: []
+      });
+
+      expect(result).toHaveLength(0);
+      expect(await getTeacherAvailabilityByAcademicYear(academicYearId)).toHaveLength(0);
+    });
+  });
+
+  describe('deleteTeacherAvailability', () => {
+    it('should delete an entry', async () => {
+      const entry = await createTeacherAvailability({
+        teacher_id: teacherId,
+        academic_year_id: academicYearId,
+        day_of_week: 1,
+        availability_type: 'unavailable'
+      });
+
+      expect(await deleteTeacherAvailability(entry.id)).toBe(true);
+      expect(await deleteTeacherAvailability(entry.id)).toBe(false);
+    });
+  });
+
+  describe('findBlockingAvailability', () => {
+    beforeEach(async () => {
+      await setTeacherAvailability({
+        teacher_id: teacherId,
+        academic_year_id: academicYearId,
+        entries: [
+          { day_of_week: 1, availability_type: 'unavailable' },
+          { day_of_week: 2, start_jp: 3, end_jp: 5, availability_type: 'unavailable' },
+          { day_of_week: 3, start_jp: 1, end_jp: 2, availability_type: 'preferred' }
+        ]
+      });
+    });
+
+    it('should block every JP of a blocked day', async () => {
+      expect(await findBlockingAvailability(teacherId, academicYearId, 1, 1)).not.toBeNull();
+      expect(await findBlockingAvailability(teacherId, academicYearId, 1, 8)).not.toBeNull();
+    });
+
+    it('should block only JP inside a blocked range', async () => {
+      expect(await findBlockingAvailability(teacherId, academicYearId, 2, 2)).toBeNull();
+      expect(await findBlockingAvailability(teacherId, academicYearId, 2, 3)).not.toBeNull();
+      expect(await findBlockingAvailability(teacherId, academicYearId, 2, 5)).not.toBeNull();
+      expect(await findBlockingAvailability(teacherId, academicYearId, 2, 6)).toBeNull();
+    });
+
+    it('should not treat preferred slots as blocking', async () => {
+      expect(await findBlockingAvailability(teacherId, academicYearId, 3, 1)).toBeNull();
+    });
+  });
+});
@@ -8,7 +8,12 @@ import {
   subjectsTable, 
   additionalTasksTable,
   jtmAssignmentsTable,
-  taskAssignmentsTable
+  taskAssignmentsTable,
+  scheduleDraftsTable,
+  scheduleTemplatesTable,
+  schedulesTable,
+  teacherAbsencesTable,
+  substitutionsTable
 } from '../db/schema';
 import {
   calculateTeacherWorkload,
@@ -190,6 +195,58 @@ describe('Teacher Workload Handlers', () => {
       expect(result.status).toEqual('lebih'); // More than 40
     });
 
+    it('should measure the JP delivered over a date range', async () => {
+      const otherTeacher = await db.insert(teachersTable)
+        .values({ name: 'Jane Roe', nip_nuptk: '987654321', tmt: new Date('2021-01-01'), education: 'S1' })
+        .returning()
+        .execute();
+      const otherTeacherId = otherTeacher[0].id;
+      const template = await db.insert(scheduleTemplatesTable)
+        .values({ name: 'Template Standar', description: 'Template jadwal standar' })
+        .returning()
+        .execute();
+      const draft = await db.insert(scheduleDraftsTable)
+        .values({ academic_year_id: academicYearId, name: 'Jadwal Resmi', status: 'published', published_at: new Date() })
+        .returning()
+        .execute();
+
+      // John: Monday JP 1-2 and Wednesday JP 1; Jane: Monday JP 3
+      const cells = await db.insert(schedulesTable)
+        .values([[1, 1, teacherId], [1, 2, teacherId], [3, 1, teacherId], [1, 3, otherTeacherId]].map(([day, jp, teacher]) => ({
+          draft_id: draft[0].id,
+          academic_year_id: academicYearId,
+          class_id: classId,
+          template_id: template[0].id,
+          day_of_week: day,
+          jp_number: jp,
+          subject_id: subjectId,
+          teacher_id: teacher,
+          is_manual: true
+        })))
+        .returning()
+        .execute();
+
+      // John misses Wednesday 2024-07-17 and covers Jane on Monday 2024-07-22
+      const absences = await db.insert(teacherAbsencesTable)
+        .values([
+          { teacher_id: teacherId, academic_year_id: academicYearId, date: '2024-07-17', reason: 'sakit' as const },
+          { teacher_id: otherTeacherId, academic_year_id: academicYearId, date: '2024-07-22', reason: 'dinas_luar' as const }
+        ])
+        .returning()
+        .execute();
+      await db.insert(substitutionsTable)
+        .values({ absence_id: absences[1].id, schedule_id: cells[3].id, substitute_teacher_id: teacherId })
+        .execute();
+
+      const range = { from: '2024-07-15', to: '2024-07-26' };
+      const result = await calculateTeacherWorkload(teacherId, academicYearId, range);
+
+      expect(result.realised).toEqual({ ...range, scheduled_jp: 6, missed_jp: 1, substitution_jp: 1, delivered_jp: 6 });
+      expect((await calculateTeacherWorkload(otherTeacherId, academicYearId, range)).realised)
+        .toEqual({ ...range, scheduled_jp: 2, missed_jp: 1, substitution_jp: 0, delivered_jp: 1 });
+      expect((await calculateTeacherWorkload(teacherId, academicYearId)).realised).toBeUndefined();
+    });
+
     it('should throw error for non-existent teacher', async () => {
       await expect(calculateTeacherWorkload(999, academicYearId))
         .rejects.toThrow(/Teacher with id 999 not found/);
@@ -0,0 +1,354 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import {
+  academicYearsTable,
+  classesTable,
+  scheduleTemplatesTable,
+  timeSlotsTable,
+  subjectsTable,
+  teachersTable,
+  schedulesTable,
+  scheduleDraftsTable
+} from '../db/schema';
+import {
+  createTemplateOverride,
+  getTemplateOverrides,
+  deleteTemplateOverride,
+  getTemplateOverrideMapping,
+  getDailyTimetable,
+  type DailyTimetable
+} from '../handlers/template_overrides';
+import { createCalendarEvent, getEffectiveJp, setSemesterDates } from '../handlers/academic_calendar';
+import { createTeacherAbsence, getAffectedLessons, measureRealisedHours, rankSubstitutes } from '../handlers/substitutions';
+import { generateDailyTimetable } from '../handlers/reports';
+import { and, eq } from 'drizzle-orm';
+
+// 2025-02-24 is a regular Monday, 2025-03-03 a Monday in Ramadan
+const REGULAR_MONDAY = '2025-02-24';
+const RAMADAN_MONDAY = '2025-03-03';
+
+describe('template overrides', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let academicYearId: number;
+  let classId: number;
+  let regularId: number;
+  let ramadanId: number;
+  let budiId: number;
+
+  beforeEach(async () => {
+    const [academicYear] = await db.insert(academicYearsTable)
+      .values({ year: '2024/2025', semester: 2, curriculum: 'Kurikulum Merdeka', total_time_allocation: 40, is_active: true })
+      .returning()
+      .execute();
+    academicYearId = academicYear.id;
+
+    const [classItem] = await db.insert(classesTable)
+      .values({ grade_level: 7, rombel: 'A', class_name: '7A', academic_year_id: academicYearId })
+      .returning()
+      .execute();
+    classId = classItem.id;
+
+    const templates = await db.insert(scheduleTemplatesTable)
+      .values([
+        { name: 'Reguler', description: 'Jam pelajaran 40 menit' },
+        { name: 'Ramadan', description: 'Jam pelajaran 30 menit' }
+      ])
+      .returning()
+      .execute();
+    [regularId, ramadanId] = templates.map(template => template.id);
+
+    const slot = (templateId: number, jpNumber: number, start: string, end: string, slotType: 'belajar' | 'istirahat' | 'sholat_dhuha') => ({
+      template_id: templateId,
+      day_of_week: 1,
+      jp_number: jpNumber,
+      start_time: start,
+      end_time: end,
+      duration: 0,
+      slot_type: slotType
+    });
+    await db.insert(timeSlotsTable)
+      .values([
+        slot(regularId, 1, '07:00', '07:40', 'belajar'),
+        slot(regularId, 2, '07:40', '08:20', 'belajar'),
+        slot(regularId, 3, '08:20', '08:35', 'istirahat'),
+        slot(regularId, 4, '08:35', '09:15', 'belajar'),
+        // Dhuha moves to the start of the day and only two lessons fit
+        slot(ramadanId, 1, '07:00', '07:15', 'sholat_dhuha'),
+        slot(ramadanId, 2, '07:15', '07:45', 'belajar'),
+        slot(ramadanId, 3, '07:45', '08:15', 'belajar')
+      ])
+      .execute();
+
+    const subjects = await db.insert(subjectsTable)
+      .values([
+        { code: 'MAT', name: 'Matematika', time_allocation: 2 },
+        { code: 'IPA', name: 'IPA', time_allocation: 1 }
+      ])
+      .returning()
+      .execute();
+
+    const teachers = await db.insert(teachersTable)
+      .values(['Budi Santoso', 'Siti Aminah'].map((name, index) => ({
+        name,
+        nip_nuptk: `${index + 1}`,
+        tmt: new Date('2020-01-01'),
+        education: 'S1'
+      })))
+      .returning()
+      .execute();
+    budiId = teachers[0].id;
+
+    const [draft] = await db.insert(scheduleDraftsTable)
+      .values({ academic_year_id: academicYearId, name: 'Jadwal Resmi', status: 'published', published_at: new Date() })
+      .returning()
+      .execute();
+
+    const cell = (jpNumber: number, subjectId: number, teacherId: number) => ({
+      draft_id: draft.id,
+      academic_year_id: academicYearId,
+      class_id: classId,
+      template_id: regularId,
+      day_of_week: 1,
+      jp_number: jpNumber,
+      subject_id: subjectId,
+      teacher_id: teacherId,
+      is_manual: true
+    });
+    await db.insert(schedulesTable)
+      .values([
+        cell(1, subjects[0].id, budiId),
+        cell(2, subjects[1].id, teachers[1].id),
+        cell(4, subjects[0].id, budiId)
+      ])
+      .execute();
+  });
+
+  const addRamadan = () => createTemplateOverride({
+    academic_year_id: academicYearId,
+    name: 'Ramadan 1446 H',
+    start_date: '2025-03-01',
+    end_date: '2025-03-29',
+    base_template_id: regularId,
+    template_id: ramadanId
+  });
+
+  it('should keep one override per template at a time', async () => {
+    const ramadan = await addRamadan();
+    expect(ramadan).toMatchObject({ name: 'Ramadan 1446 H', base_template_id: regularId, template_id: ramadanId });
+
+    await expect(createTemplateOverride({
+      academic_year_id: academicYearId,
+      name: 'Pekan Ujian',
+      start_date: '2025-03-24',
+      end_date: '2025-04-04',
+      base_template_id: regularId,
+      template_id: ramadanId
+    })).rejects.toThrow(/Ramadan 1446 H already overrides Reguler from 2025-03-01 to 2025-03-29/);
+    await expect(createTemplateOverride({
+      academic_year_id: academicYearId,
+      name: 'Ramadan',
+      start_date: '2025-03-01',
+      end_date: '2025-03-29',
+      base_template_id: regularId,
+      template_id: 99999
+    })).rejects.toThrow(/schedule template with id 99999 not found/i);
+
+    expect((await getTemplateOverrides(academicYearId)).map(override => override.id)).toEqual([ramadan.id]);
+    expect(await deleteTemplateOverride(ramadan.id)).toBe(true);
+    expect(await deleteTemplateOverride(ramadan.id)).toBe(false);
+  });
+
+  it('should map teaching slots by rank and count dropped lessons', async () => {
+    const ramadan = await addRamadan();
+
+    const result = await getTemplateOverrideMapping(ramadan.id);
+
+    expect(result.slots.map(slot => [slot.jp_number, slot.start_time, slot.mapped_jp_number, slot.mapped_start_time])).toEqual([
+      [1, '07:00', 2, '07:15'],
+      [2, '07:40', 3, '07:45'],
+      [4, '08:35', null, null]
+    ]);
+    expect(result.dropped_lessons).toEqual(1);
+    expect(result.teacher_clashes).toEqual([]);
+  });
+
+  it('should report teachers the mapping puts in two classes at once', async () => {
+    // 7B follows its own template: dhuha first, so its first lesson starts at 07:40
+    const [otherTemplate] = await db.insert(scheduleTemplatesTable)
+      .values({ name: 'Reguler B', description: 'Dhuha sebelum pelajaran' })
+      .returning()
+      .execute();
+    await db.insert(timeSlotsTable)
+      .values([
+        { template_id: otherTemplate.id, day_of_week: 1, jp_number: 1, start_time: '07:00', end_time: '07:40', duration: 40, slot_type: 'sholat_dhuha' as const },
+        { template_id: otherTemplate.id, day_of_week: 1, jp_number: 2, start_time: '07:40', end_time: '08:20', duration: 40, slot_type: 'belajar' as const }
+      ])
+      .execute();
+    const [otherClass] = await db.insert(classesTable)
+      .values({ grade_level: 7, rombel: 'B', class_name: '7B', academic_year_id: academicYearId })
+      .returning()
+      .execute();
+    const [draft] = await db.select().from(scheduleDraftsTable).execute();
+    const [subject] = await db.select().from(subjectsTable).execute();
+    await db.insert(schedulesTable)
+      .values({
+        draft_id: draft.id,
+        academic_year_id: academicYearId,
+        class_id: otherClass.id,
+        template_id: otherTemplate.id,
+        day_of_week: 1,
+        jp_number: 2,
+        subject_id: subject.id,
+        teacher_id: budiId,
+        is_manual: true
+      })
+      .execute();
+
+    // Both first lessons of Budi move to Ramadan JP 2
+    const ramadan = await addRamadan();
+    await createTemplateOverride({
+      academic_year_id: academicYearId,
+      name: 'Ramadan 1446 H (7B)',
+      start_date: '2025-03-01',
+      end_date: '2025-03-29',
+      base_template_id: otherTemplate.id,
+      template_id: ramadanId
+    });
+
+    const result = await getTemplateOverrideMapping(ramadan.id);
+
+    expect(result.teacher_clashes.map(clash => [
+      clash.date,
+      clash.teacher_name,
+      clash.lessons.map(lesson => [lesson.class_name, lesson.start_time])
+    ])).toEqual([
+      [RAMADAN_MONDAY, 'Budi Santoso', [['7A', '07:15'], ['7B', '07:15']]]
+    ]);
+  });
+
+  it('should show the times of the special period in the daily timetable', async () => {
+    await addRamadan();
+
+    const regular = await getDailyTimetable(academicYearId, REGULAR_MONDAY);
+    expect(regular.overrides).toEqual([]);
+    expect(regular.lessons.map(lesson => [lesson.subject_name, lesson.jp_number, lesson.start_time])).toEqual([
+      ['Matematika', 1, '07:00'],
+      ['IPA', 2, '07:40'],
+      ['Matematika', 4, '08:35']
+    ]);
+
+    const ramadan = await getDailyTimetable(academicYearId, RAMADAN_MONDAY, classId);
+    expect(ramadan.overrides).toEqual(['Ramadan 1446 H']);
+    expect(ramadan.lessons.map(lesson => [lesson.subject_name, lesson.template_id, lesson.jp_number, lesson.start_time, lesson.end_time])).toEqual([
+      ['Matematika', ramadanId, 2, '07:15', '07:45'],
+      ['IPA', ramadanId, 3, '07:45', '08:15']
+    ]);
+    expect(ramadan.dropped.map(lesson => [lesson.subject_name, lesson.jp_number])).toEqual([['Matematika', 4]]);
+  });
+
+  it('should leave lesson-free days empty', async () => {
+    await createCalendarEvent({
+      academic_year_id: academicYearId,
+      event_type: 'libur_nasional',
+      name: 'Cuti Bersama',
+      start_date: REGULAR_MONDAY,
+      end_date: REGULAR_MONDAY
+    });
+
+    const result = await getDailyTimetable(academicYearId, REGULAR_MONDAY);
+
+    expect(result.is_teaching_day).toBe(false);
+    expect(result.lessons).toHaveLength(0);
+  });
+
+  it('should list substitution lessons at the times of the special period', async () => {
+    await addRamadan();
+    const absence = await createTeacherAbsence({ teacher_id: budiId, academic_year_id: academicYearId, date: RAMADAN_MONDAY, reason: 'sakit' });
+
+    const lessons = await getAffectedLessons(absence.id);
+
+    expect(lessons.map(lesson => [lesson.jp_number, lesson.start_time, lesson.end_time])).toEqual([[1, '07:15', '07:45']]);
+  });
+
+  it('should rank substitutes at the times of the special period', async () => {
+    // Siti teaches 7B 07:40-08:00 on a template Ramadan leaves alone: clear of
+    // Budi's JP 1 at regular times, but not of its 07:15-07:45 in Ramadan
+    const [siang] = await db.insert(scheduleTemplatesTable)
+      .values({ name: 'Siang', description: 'Kelas siang' })
+      .returning()
+      .execute();
+    await db.insert(timeSlotsTable)
+      .values({ template_id: siang.id, day_of_week: 1, jp_number: 1, start_time: '07:40', end_time: '08:00', duration: 20, slot_type: 'belajar' })
+      .execute();
+    const [otherClass] = await db.insert(classesTable)
+      .values({ grade_level: 7, rombel: 'B', class_name: '7B', academic_year_id: academicYearId })
+      .returning()
+      .execute();
+    const [draft] = await db.select().from(scheduleDraftsTable).execute();
+    const [siti] = await db.select().from(teachersTable).where(eq(teachersTable.name, 'Siti Aminah')).execute();
+    await db.insert(schedulesTable)
+      .values({
+        draft_id: draft.id,
+        academic_year_id: academicYearId,
+        class_id: otherClass.id,
+        template_id: siang.id,
+        day_of_week: 1,
+        jp_number: 1,
+        subject_id: null,
+        teacher_id: siti.id,
+        is_manual: true
+      })
+      .execute();
+    const [mathLesson] = await db.select()
+      .from(schedulesTable)
+      .where(and(eq(schedulesTable.class_id, classId), eq(schedulesTable.jp_number, 1)))
+      .execute();
+
+    const regular = await createTeacherAbsence({ teacher_id: budiId, academic_year_id: academicYearId, date: REGULAR_MONDAY, reason: 'sakit' });
+    expect((await rankSubstitutes(regular.id, mathLesson.id)).map(candidate => candidate.teacher_name)).toEqual(['Siti Aminah']);
+
+    await addRamadan();
+    const ramadan = await createTeacherAbsence({ teacher_id: budiId, academic_year_id: academicYearId, date: RAMADAN_MONDAY, reason: 'sakit' });
+    expect(await rankSubstitutes(ramadan.id, mathLesson.id)).toEqual([]);
+  });
+
+  it('should leave dropped lessons out of realised hours', async () => {
+    await addRamadan();
+    await createTeacherAbsence({ teacher_id: budiId, academic_year_id: academicYearId, date: RAMADAN_MONDAY, reason: 'sakit' });
+
+    // Budi's JP 4 has no slot in Ramadan: one lesson each Monday
+    const hours = await measureRealisedHours(db, academicYearId, { from: REGULAR_MONDAY, to: RAMADAN_MONDAY }, [budiId]);
+
+    expect(hours.get(budiId)).toMatchObject({ scheduled_jp: 3, missed_jp: 1, delivered_jp: 2 });
+  });
+
+  it('should leave dropped lessons out of effective JP', async () => {
+    await setSemesterDates({ academic_year_id: academicYearId, start_date: REGULAR_MONDAY, end_date: '2025-03-07' });
+    await addRamadan();
+
+    // Two Mondays: Matematika loses JP 4 to Ramadan on the second, IPA keeps its slot
+    const result = await getEffectiveJp(academicYearId);
+
+    expect(result.subjects.map(row => [row.subject_name, row.effective_jp])).toEqual([
+      ['IPA', 2],
+      ['Matematika', 3]
+    ]);
+  });
+
+  it('should print the daily timetable', async () => {
+    await addRamadan();
+
+    const result = await generateDailyTimetable(academicYearId, RAMADAN_MONDAY, 'pdf', classId);
+
+    expect(result.success).toBe(true);
+    expect(result.report_url).toEqual(`/reports/daily-timetable-class-${classId}-2025-03-03.pdf`);
+    const timetable: DailyTimetable = result.data;
+    expect(timetable.lessons.map(lesson => lesson.start_time)).toEqual(['07:15', '07:45']);
+
+    const failed = await generateDailyTimetable(99999, RAMADAN_MONDAY);
+    expect(failed.success).toBe(false);
+  });
+});
@@ -2,7 +2,7 @@ import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
 import { resetDB, createDB } from '../helpers';
 import { db } from '../db';
 import { timeSlotsTable, scheduleTemplatesTable } from '../db/schema';
-import { type CreateTimeSlotInput, type CreateScheduleTemplateInput } from '../schema';
+import { type CreateTimeSlotInput, type CreateScheduleTemplateInput, type GenerateTimeSlotsInput } from '../schema';
 import { 
   createTimeSlot, 
   getTimeSlotsByTemplate, 
@@ -10,7 +10,9 @@ import {
   getTimeSlotById,
   updateTimeSlot,
   deleteTimeSlot,
-  deleteTimeSlotsByTemplate
+  deleteTimeSlotsByTemplate,
+  previewTimeSlots,
+  generateTimeSlots
 } from '../handlers/time_slots';
 import { eq, and } from 'drizzle-orm';
 
@@ -507,4 +509,101 @@ describe('deleteTimeSlotsByTemplate', () => {
     expect(template1Slots).toHaveLength(0);
     expect(template2Slots).toHaveLength(1);
   });
-});
\ No newline at end of file
+});
+// Monday with upacara and 8 JP of 40 minutes, Friday with 5 JP of 35 minutes
+const testBellInput: GenerateTimeSlotsInput = {
+  template_id: 1, // Will be updated after template creation
+  jp_duration: 40,
+  days: [
+    { day_of_week: 5, start_time: '07:00', teaching_jp: 5, jp_duration: 35 },
+    { day_of_week: 1, start_time: '07:00', teaching_jp: 8 }
+  ],
+  blocks: [
+    { slot_type: 'upacara', duration: 40, after_jp: 0, days: [1] },
+    { slot_type: 'sholat_dhuha', duration: 15, after_jp: 0 },
+    { slot_type: 'istirahat', duration: 15, after_jp: 4 },
+    { slot_type: 'shalat_dzuhur_berjamaah', duration: 30, after_jp: 8 },
+    { slot_type: 'halaqoh_quran', duration: 30, after_jp: 8, days: [1, 2, 3, 4] }
+  ]
+};
+
+describe('previewTimeSlots', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should compute slots from bell parameters without saving them', async () => {
+    const result = await previewTimeSlots(testBellInput);
+
+    const slotsOf = (day: number) => result
+      .filter(slot => slot.day_of_week === day)
+      .map(slot => [slot.jp_number, slot.slot_type, slot.start_time, slot.end_time]);
+
+    expect(slotsOf(1)).toEqual([
+      [1, 'upacara', '07:00', '07:40'],
+      [2, 'sholat_dhuha', '07:40', '07:55'],
+      [3, 'belajar', '07:55', '08:35'],
+      [4, 'belajar', '08:35', '09:15'],
+      [5, 'belajar', '09:15', '09:55'],
+      [6, 'belajar', '09:55', '10:35'],
+      [7, 'istirahat', '10:35', '10:50'],
+      [8, 'belajar', '10:50', '11:30'],
+      [9, 'belajar', '11:30', '12:10'],
+      [10, 'belajar', '12:10', '12:50'],
+      [11, 'belajar', '12:50', '13:30'],
+      [12, 'shalat_dzuhur_berjamaah', '13:30', '14:00'],
+      [13, 'halaqoh_quran', '14:00', '14:30']
+    ]);
+
+    // The shorter Friday ends before dzuhur
+    expect(slotsOf(5)).toEqual([
+      [1, 'sholat_dhuha', '07:00', '07:15'],
+      [2, 'belajar', '07:15', '07:50'],
+      [3, 'belajar', '07:50', '08:25'],
+      [4, 'belajar', '08:25', '09:00'],
+      [5, 'belajar', '09:00', '09:35'],
+      [6, 'istirahat', '09:35', '09:50'],
+      [7, 'belajar', '09:50', '10:25']
+    ]);
+    expect(result.every(slot => slot.duration > 0)).toBe(true);
+
+    const saved = await db.select().from(timeSlotsTable).execute();
+    expect(saved).toHaveLength(0);
+  });
+
+  it('should reject a day running past midnight', async () => {
+    await expect(previewTimeSlots({
+      template_id: 1,
+      jp_duration: 60,
+      days: [{ day_of_week: 2, start_time: '20:00', teaching_jp: 5 }]
+    })).rejects.toThrow(/day 2 run past midnight/i);
+  });
+});
+
+describe('generateTimeSlots', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should replace the slots of the template', async () => {
+    const templateResult = await db.insert(scheduleTemplatesTable)
+      .values(testTemplateInput)
+      .returning()
+      .execute();
+    const template = templateResult[0];
+
+    await createTimeSlot({ ...testTimeSlotInputTuesday, template_id: template.id });
+
+    const result = await generateTimeSlots({ ...testBellInput, template_id: template.id });
+
+    expect(result).toHaveLength(20);
+    const saved = await db.select()
+      .from(timeSlotsTable)
+      .where(eq(timeSlotsTable.template_id, template.id))
+      .execute();
+    expect(saved).toHaveLength(20);
+    expect(saved.some(slot => slot.day_of_week === 2)).toBe(false);
+  });
+
+  it('should throw error when template does not exist', async () => {
+    await expect(generateTimeSlots({ ...testBellInput, template_id: 999 })).rejects.toThrow(/not found/i);
+  });
+});